@@ -0,0 +1,231 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearGpuMetricsCache,
+  getCachedMetrics,
+  GpuMetricsProvider,
+  loadGpuMetrics,
+  METRICS_CACHE_TTL_MS,
+  peekGpuMetrics,
+  useCachedMetrics,
+  useChipGpuMetrics,
+  useGpuMetrics,
+  useGpuMetricsContext,
+  useNodeGpuMetrics,
+} from './GpuMetricsContext';
+import { fetchGpuMetrics, GpuDeviceMetrics, GpuMetrics, selectNodeGpuMetrics } from './metrics';
+
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  Utils: { getCluster: () => 'test' },
+  ConfigStore: class {
+    get() {
+      return {};
+    }
+    useConfig() {
+      return () => ({});
+    }
+  },
+}));
+
+vi.mock('./metrics', async importOriginal => ({
+  ...(await importOriginal<typeof import('./metrics')>()),
+  fetchGpuMetrics: vi.fn(),
+}));
+
+function Wrapper({ children }: { children: React.ReactNode }) {
+  return <GpuMetricsProvider>{children}</GpuMetricsProvider>;
+}
+
+function device(nodeName: string, pciAddress: string): GpuDeviceMetrics {
+  return {
+    key: `${nodeName}/${pciAddress}`,
+    nodeName,
+    pciAddress,
+    sources: ['hwmon'],
+    sourceIds: { hwmon: `hwmon-${pciAddress}` },
+    hwmon: null,
+  } as unknown as GpuDeviceMetrics;
+}
+
+const clusterMetrics: GpuMetrics = {
+  devices: [device('gpu-1', '0000:03:00.0'), device('gpu-2', '0000:03:00.0')],
+  sources: [{ id: 'hwmon', label: 'node-exporter hwmon', deviceCount: 2, error: null }],
+  fetchedAt: '2026-10-19T10:00:00Z',
+};
+
+beforeEach(() => {
+  clearGpuMetricsCache();
+  vi.mocked(fetchGpuMetrics).mockReset();
+});
+
+describe('getCachedMetrics', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves a result until the TTL passes', async () => {
+    vi.useFakeTimers();
+    const fetcher = vi.fn(async () => 'fresh');
+
+    expect(await getCachedMetrics('q', fetcher)).toBe('fresh');
+    expect(await getCachedMetrics('q', fetcher)).toBe('fresh');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(METRICS_CACHE_TTL_MS);
+    await getCachedMetrics('q', fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one fetch between concurrent callers, even forced ones', async () => {
+    let resolve: (value: string) => void = () => {};
+    const fetcher = vi.fn(() => new Promise<string>(r => (resolve = r)));
+
+    const first = getCachedMetrics('q', fetcher);
+    const second = getCachedMetrics('q', fetcher, true);
+    resolve('shared');
+
+    expect(await Promise.all([first, second])).toEqual(['shared', 'shared']);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips a fresh result when forced and keeps nothing from a failed fetch', async () => {
+    await getCachedMetrics('q', async () => 'old');
+    expect(await getCachedMetrics('q', async () => 'new', true)).toBe('new');
+
+    await expect(getCachedMetrics('bad', () => Promise.reject(new Error('503')))).rejects.toThrow(
+      '503'
+    );
+    expect(await getCachedMetrics('bad', async () => 'recovered')).toBe('recovered');
+  });
+});
+
+describe('useGpuMetricsContext', () => {
+  it('throws when used outside provider', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => renderHook(() => useGpuMetricsContext())).toThrow(
+      'useGpuMetricsContext must be used within a GpuMetricsProvider'
+    );
+
+    consoleError.mockRestore();
+  });
+});
+
+describe('GpuMetricsProvider', () => {
+  it('fetches once per query for every consumer and scopes node queries to the node', async () => {
+    vi.mocked(fetchGpuMetrics).mockImplementation(async (_p, _q, _t, nodeName) =>
+      nodeName === undefined ? clusterMetrics : selectNodeGpuMetrics(clusterMetrics, nodeName)
+    );
+
+    const { result } = renderHook(
+      () => ({
+        cluster: useGpuMetrics(),
+        again: useGpuMetrics(),
+        node: useNodeGpuMetrics('gpu-2'),
+        chip: useChipGpuMetrics('gpu-1', '0000:03:00.0'),
+      }),
+      { wrapper: Wrapper }
+    );
+
+    await waitFor(() => expect(result.current.chip).not.toBeNull());
+    await waitFor(() => expect(result.current.node.loading).toBe(false));
+    expect(fetchGpuMetrics).toHaveBeenCalledTimes(3);
+    expect(
+      vi
+        .mocked(fetchGpuMetrics)
+        .mock.calls.map(call => call[3])
+        .sort()
+    ).toEqual(['gpu-1', 'gpu-2', undefined]);
+    expect(result.current.node.data?.devices.map(d => d.key)).toEqual(['gpu-2/0000:03:00.0']);
+    expect(result.current.chip?.key).toBe('gpu-1/0000:03:00.0');
+  });
+
+  it('reuses cached results on remount and refetches on refresh', async () => {
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(clusterMetrics);
+    const first = renderHook(() => useGpuMetrics(), { wrapper: Wrapper });
+    await waitFor(() => expect(first.result.current.loading).toBe(false));
+    first.unmount();
+
+    const { result } = renderHook(
+      () => ({ metrics: useGpuMetrics(), ctx: useGpuMetricsContext() }),
+      { wrapper: Wrapper }
+    );
+    // Cached data is on screen from the first render
+    expect(result.current.metrics.data).toBe(clusterMetrics);
+    await waitFor(() => expect(result.current.metrics.loading).toBe(false));
+    expect(fetchGpuMetrics).toHaveBeenCalledTimes(1);
+
+    act(() => result.current.ctx.refresh());
+    await waitFor(() => expect(fetchGpuMetrics).toHaveBeenCalledTimes(2));
+  });
+
+  it('refetches on autoRefresh only for queries that take part in it', async () => {
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(clusterMetrics);
+    const longWindow = vi.fn(async () => 'idle');
+
+    const { result } = renderHook(
+      () => ({
+        metrics: useGpuMetrics(),
+        idle: useCachedMetrics('idle-states', longWindow, { autoRefresh: false }),
+        ctx: useGpuMetricsContext(),
+      }),
+      { wrapper: Wrapper }
+    );
+    await waitFor(() => expect(result.current.idle.loading).toBe(false));
+    await waitFor(() => expect(result.current.metrics.loading).toBe(false));
+
+    act(() => result.current.ctx.autoRefresh());
+    await waitFor(() => expect(fetchGpuMetrics).toHaveBeenCalledTimes(2));
+    expect(longWindow).toHaveBeenCalledTimes(1);
+
+    act(() => result.current.ctx.refresh());
+    await waitFor(() => expect(longWindow).toHaveBeenCalledTimes(2));
+    expect(fetchGpuMetrics).toHaveBeenCalledTimes(3);
+  });
+
+  it("never shows another node's metrics while a new node is fetched", async () => {
+    let resolveSecond: (metrics: GpuMetrics) => void = () => {};
+    vi.mocked(fetchGpuMetrics)
+      .mockResolvedValueOnce(selectNodeGpuMetrics(clusterMetrics, 'gpu-1'))
+      .mockReturnValueOnce(new Promise(resolve => (resolveSecond = resolve)));
+
+    const { result, rerender } = renderHook(({ node }) => useNodeGpuMetrics(node), {
+      wrapper: Wrapper,
+      initialProps: { node: 'gpu-1' },
+    });
+    await waitFor(() => expect(result.current.data?.devices).toHaveLength(1));
+
+    rerender({ node: 'gpu-2' });
+    expect(result.current.data).toBeUndefined();
+    expect(result.current.loading).toBe(true);
+
+    act(() => resolveSecond(selectNodeGpuMetrics(clusterMetrics, 'gpu-2')));
+    await waitFor(() =>
+      expect(result.current.data?.devices.map(d => d.key)).toEqual(['gpu-2/0000:03:00.0'])
+    );
+  });
+
+  it('reports a failed fetch as an error', async () => {
+    vi.mocked(fetchGpuMetrics).mockRejectedValue(new Error('Forbidden'));
+
+    const { result } = renderHook(() => useGpuMetrics(), { wrapper: Wrapper });
+
+    await waitFor(() => expect(result.current.error).toBe('Forbidden'));
+    expect(result.current.data).toBeUndefined();
+  });
+});
+
+describe('loadGpuMetrics', () => {
+  it('shares cached metrics with the provider hooks', async () => {
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(clusterMetrics);
+    expect(peekGpuMetrics()).toBeUndefined();
+
+    const { result } = renderHook(() => useGpuMetrics(), { wrapper: Wrapper });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(peekGpuMetrics()).toBe(clusterMetrics);
+    expect(await loadGpuMetrics()).toBe(clusterMetrics);
+    expect(fetchGpuMetrics).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * GpuMetricsContext — shared, cached Prometheus metrics for the Intel GPU views.
+ *
+ * Mounted alongside IntelGpuDataProvider. Query results live in a module-level
+ * cache keyed by cluster, metrics settings and query, so pages and detail
+ * views reuse them for METRICS_CACHE_TTL_MS across mounts, and concurrent
+ * requests for the same query share one fetch. discoverPrometheus caches the
+ * Prometheus endpoint the same way. Refresh bypasses the cache for every
+ * query on screen; auto-refresh skips queries that opt out of it, such as
+ * long-window ones. Table column processors, which render outside any
+ * provider, read the same cache through loadGpuMetrics and peekGpuMetrics.
+ */
+
+import { Utils } from '@kinvolk/headlamp-plugin/lib';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import {
+  fetchGpuMetrics,
+  fetchGpuPowerHistory,
+  GpuDeviceMetrics,
+  GpuMetricQueries,
+  GpuMetrics,
+  GpuPowerHistory,
+  MetricsRange,
+  selectChipGpuMetrics,
+} from './metrics';
+import {
+  getPluginSettings,
+  IntelGpuPluginSettings,
+  PrometheusSettings,
+  TextfileMetricSettings,
+  usePluginSettings,
+} from './settings';
+
+// ---------------------------------------------------------------------------
+// Cache
+// ---------------------------------------------------------------------------
+
+/** How long a query result is served from the cache */
+export const METRICS_CACHE_TTL_MS = 30_000;
+
+interface CachedResult {
+  value: unknown;
+  /** ms since the epoch */
+  fetchedAt: number;
+}
+
+const resultCache = new Map<string, CachedResult>();
+const pendingFetches = new Map<string, Promise<unknown>>();
+
+/**
+ * The cached result for `key` while it is fresh, else `fetcher`'s. Concurrent
+ * calls for one key share a fetch, even when `force` skips the cached result.
+ */
+export function getCachedMetrics<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  force = false
+): Promise<T> {
+  const pending = pendingFetches.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const cached = resultCache.get(key);
+  if (cached && !force && Date.now() - cached.fetchedAt < METRICS_CACHE_TTL_MS) {
+    return Promise.resolve(cached.value as T);
+  }
+
+  const fetch = fetcher()
+    .then(value => {
+      resultCache.set(key, { value, fetchedAt: Date.now() });
+      return value;
+    })
+    .finally(() => pendingFetches.delete(key));
+  pendingFetches.set(key, fetch);
+  return fetch;
+}
+
+/** A cached result regardless of age, for the first render of a remounted view */
+export function peekCachedMetrics<T>(key: string): T | undefined {
+  return resultCache.get(key)?.value as T | undefined;
+}
+
+/** Drop every cached result, e.g. between tests */
+export function clearGpuMetricsCache() {
+  resultCache.clear();
+  pendingFetches.clear();
+}
+
+// ---------------------------------------------------------------------------
+// Context shape
+// ---------------------------------------------------------------------------
+
+export interface GpuMetricsContextValue {
+  prometheus: PrometheusSettings;
+  metricQueries: GpuMetricQueries;
+  textfileMetrics: TextfileMetricSettings;
+  /** Cache key prefix: the cluster and the settings above */
+  scope: string;
+  /** Bumped by refresh; cached queries on screen refetch when it changes */
+  refreshKey: number;
+  /** Refetch every query on screen, bypassing the cache */
+  refresh: () => void;
+  /** Bumped by autoRefresh; only queries that opt in refetch when it changes */
+  autoRefreshKey: number;
+  /** Refetch the queries on screen that take part in auto-refresh */
+  autoRefresh: () => void;
+}
+
+export interface CachedMetricsOptions {
+  /** Refetch on autoRefresh as well as on refresh (default true) */
+  autoRefresh?: boolean;
+}
+
+/** A cached query as seen by a component; data is undefined until it first resolves */
+export interface CachedMetrics<T> {
+  data: T | undefined;
+  loading: boolean;
+  error: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Context
+// ---------------------------------------------------------------------------
+
+const GpuMetricsContext = createContext<GpuMetricsContextValue | null>(null);
+
+export function useGpuMetricsContext(): GpuMetricsContextValue {
+  const ctx = useContext(GpuMetricsContext);
+  if (!ctx) {
+    throw new Error('useGpuMetricsContext must be used within a GpuMetricsProvider');
+  }
+  return ctx;
+}
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+const NO_PROMETHEUS_SETTINGS: PrometheusSettings = {};
+const NO_METRIC_QUERIES: GpuMetricQueries = {};
+const NO_TEXTFILE_METRICS: TextfileMetricSettings = {};
+
+/** The metrics settings that shape query results, with defaults for unset ones */
+function getMetricsSettings(settings: IntelGpuPluginSettings) {
+  return {
+    prometheus: settings.prometheus ?? NO_PROMETHEUS_SETTINGS,
+    metricQueries: settings.metricQueries ?? NO_METRIC_QUERIES,
+    textfileMetrics: settings.textfileMetrics ?? NO_TEXTFILE_METRICS,
+  };
+}
+
+function getMetricsScope(
+  cluster: string,
+  { prometheus, metricQueries, textfileMetrics }: ReturnType<typeof getMetricsSettings>
+): string {
+  return JSON.stringify([cluster, prometheus, metricQueries, textfileMetrics]);
+}
+
+export function GpuMetricsProvider({ children }: { children: React.ReactNode }) {
+  const { prometheus, metricQueries, textfileMetrics } = getMetricsSettings(usePluginSettings());
+  const cluster = Utils.getCluster() ?? '';
+
+  const [refreshKey, setRefreshKey] = useState(0);
+  const refresh = useCallback(() => {
+    setRefreshKey(k => k + 1);
+  }, []);
+  const [autoRefreshKey, setAutoRefreshKey] = useState(0);
+  const autoRefresh = useCallback(() => {
+    setAutoRefreshKey(k => k + 1);
+  }, []);
+
+  const value = useMemo<GpuMetricsContextValue>(
+    () => ({
+      prometheus,
+      metricQueries,
+      textfileMetrics,
+      scope: getMetricsScope(cluster, { prometheus, metricQueries, textfileMetrics }),
+      refreshKey,
+      refresh,
+      autoRefreshKey,
+      autoRefresh,
+    }),
+    [
+      autoRefresh,
+      autoRefreshKey,
+      cluster,
+      metricQueries,
+      prometheus,
+      refresh,
+      refreshKey,
+      textfileMetrics,
+    ]
+  );
+
+  return <GpuMetricsContext.Provider value={value}>{children}</GpuMetricsContext.Provider>;
+}
+
+// ---------------------------------------------------------------------------
+// Hooks
+// ---------------------------------------------------------------------------
+
+/** CachedMetrics for the cache key it was fetched for */
+interface KeyedCachedMetrics<T> extends CachedMetrics<T> {
+  key: string | null;
+}
+
+function initialState<T>(key: string | null): KeyedCachedMetrics<T> {
+  return {
+    key,
+    data: key === null ? undefined : peekCachedMetrics<T>(key),
+    loading: key !== null,
+    error: null,
+  };
+}
+
+/**
+ * Run a Prometheus query through the shared cache. `query` names the query and
+ * its parameters (e.g. "power-history:1h"); null holds off fetching. Keeps
+ * the data on screen while a refresh of the same key is fetched; a new key
+ * starts from its own cached result, never another key's (e.g. another node's).
+ * Queries too costly to repeat on every auto-refresh tick pass
+ * `{ autoRefresh: false }` and refetch only on a manual refresh.
+ */
+export function useCachedMetrics<T>(
+  query: string | null,
+  fetcher: (ctx: GpuMetricsContextValue) => Promise<T>,
+  { autoRefresh = true }: CachedMetricsOptions = {}
+): CachedMetrics<T> {
+  const ctx = useGpuMetricsContext();
+  const key = query === null ? null : `${ctx.scope}|${query}`;
+
+  const [state, setState] = useState<KeyedCachedMetrics<T>>(() => initialState(key));
+
+  // Latest fetcher and settings, so a new closure alone does not refetch
+  const fetcherRef = useRef(fetcher);
+  const ctxRef = useRef(ctx);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+    ctxRef.current = ctx;
+  }, [fetcher, ctx]);
+
+  // The refreshes this hook last fetched for; a newer one skips the cache
+  const refreshKey = ctx.refreshKey;
+  const autoRefreshKey = autoRefresh ? ctx.autoRefreshKey : 0;
+  const fetchedRefreshKey = useRef(refreshKey);
+  const fetchedAutoRefreshKey = useRef(autoRefreshKey);
+
+  useEffect(() => {
+    if (key === null) return;
+
+    let cancelled = false;
+    const force =
+      refreshKey !== fetchedRefreshKey.current || autoRefreshKey !== fetchedAutoRefreshKey.current;
+    fetchedRefreshKey.current = refreshKey;
+    fetchedAutoRefreshKey.current = autoRefreshKey;
+    setState(s => ({ ...(s.key === key ? s : initialState<T>(key)), loading: true }));
+
+    getCachedMetrics(key, () => fetcherRef.current(ctxRef.current), force)
+      .then(data => {
+        if (!cancelled) setState({ key, data, loading: false, error: null });
+      })
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        const error = e instanceof Error ? e.message : String(e);
+        setState(s => ({ ...(s.key === key ? s : initialState<T>(key)), loading: false, error }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [autoRefreshKey, key, refreshKey]);
+
+  // Until the effect above catches up with a new key, show that key's cached result
+  return state.key === key ? state : initialState(key);
+}
+
+/** Cluster-wide GPU metrics; null data means no Prometheus answered */
+export function useGpuMetrics(enabled = true): CachedMetrics<GpuMetrics | null> {
+  return useCachedMetrics(enabled ? 'gpu-metrics' : null, fetchClusterGpuMetrics);
+}
+
+/** Power history over a window, shared by the Metrics page and detail views */
+export function useGpuPowerHistory(
+  range: MetricsRange,
+  enabled = true
+): CachedMetrics<GpuPowerHistory | null> {
+  const fetcher = useCallback(
+    (ctx: GpuMetricsContextValue) => fetchGpuPowerHistory(range, ctx.prometheus),
+    [range]
+  );
+  return useCachedMetrics(enabled ? `power-history:${range}` : null, fetcher);
+}
+
+/** One node's GPU metrics, from queries matching only that node's series */
+export function useNodeGpuMetrics(nodeName: string): CachedMetrics<GpuMetrics | null> {
+  const fetcher = useCallback(
+    (ctx: GpuMetricsContextValue) =>
+      fetchGpuMetrics(ctx.prometheus, ctx.metricQueries, ctx.textfileMetrics, nodeName),
+    [nodeName]
+  );
+  return useCachedMetrics(`gpu-metrics:node:${nodeName}`, fetcher);
+}
+
+/** Power history of one node's GPU chips over a window */
+export function useNodeGpuPowerHistory(
+  nodeName: string,
+  range: MetricsRange
+): CachedMetrics<GpuPowerHistory | null> {
+  const fetcher = useCallback(
+    (ctx: GpuMetricsContextValue) =>
+      fetchGpuPowerHistory(range, ctx.prometheus, Date.now(), nodeName),
+    [nodeName, range]
+  );
+  return useCachedMetrics(`power-history:${range}:node:${nodeName}`, fetcher);
+}
+
+/** One GPU's metrics by PCI address, hwmon chip or source ID; null until found */
+export function useChipGpuMetrics(nodeName: string, chipId: string): GpuDeviceMetrics | null {
+  const { data } = useNodeGpuMetrics(nodeName);
+  return useMemo(
+    () => (data ? selectChipGpuMetrics(data, nodeName, chipId) : null),
+    [chipId, data, nodeName]
+  );
+}
+
+function fetchClusterGpuMetrics(
+  ctx: Pick<GpuMetricsContextValue, 'prometheus' | 'metricQueries' | 'textfileMetrics'>
+): Promise<GpuMetrics | null> {
+  return fetchGpuMetrics(ctx.prometheus, ctx.metricQueries, ctx.textfileMetrics);
+}
+
+// ---------------------------------------------------------------------------
+// Outside a provider
+// ---------------------------------------------------------------------------
+
+/** useGpuMetrics' cache key for the current cluster and saved settings */
+function getGpuMetricsKey(settings: ReturnType<typeof getMetricsSettings>): string {
+  return `${getMetricsScope(Utils.getCluster() ?? '', settings)}|gpu-metrics`;
+}
+
+/** Cluster-wide GPU metrics through the cache useGpuMetrics fills, for table columns */
+export function loadGpuMetrics(): Promise<GpuMetrics | null> {
+  const settings = getMetricsSettings(getPluginSettings());
+  return getCachedMetrics(getGpuMetricsKey(settings), () => fetchClusterGpuMetrics(settings));
+}
+
+/** Cluster-wide GPU metrics of any age; undefined until a fetch has resolved */
+export function peekGpuMetrics(): GpuMetrics | null | undefined {
+  return peekCachedMetrics(getGpuMetricsKey(getMetricsSettings(getPluginSettings())));
+}
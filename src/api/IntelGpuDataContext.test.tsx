@@ -11,7 +11,18 @@ vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
       Pod: { useList: vi.fn() },
     },
   },
-  ApiProxy: { request: vi.fn() },
+  ApiProxy: {
+    request: vi.fn(),
+    stream: vi.fn(() => ({ cancel: vi.fn(), getSocket: () => null })),
+  },
+  ConfigStore: class {
+    get() {
+      return {};
+    }
+    useConfig() {
+      return () => ({});
+    }
+  },
 }));
 
 // Minimal GPU node fixture
@@ -174,4 +185,216 @@ describe('IntelGpuDataProvider', () => {
 
     vi.useRealTimers();
   });
+
+  it('falls back to older resource.k8s.io versions and adds DRA-only nodes and pods', async () => {
+    const draNodeRaw = { metadata: { name: 'dra-node', uid: 'uid-dra-node' }, status: {} };
+    const draPodRaw = {
+      metadata: { name: 'dra-pod', namespace: 'ml', uid: 'uid-dra-pod' },
+      spec: {
+        nodeName: 'dra-node',
+        resourceClaims: [{ name: 'gpu', resourceClaimName: 'gpu-claim' }],
+      },
+      status: { phase: 'Running' },
+    };
+    vi.mocked(K8s.ResourceClasses.Node.useList).mockReturnValue([
+      [makeNodeWrapper(draNodeRaw)] as any,
+      null,
+    ] as any);
+    vi.mocked(K8s.ResourceClasses.Pod.useList).mockReturnValue([
+      [makeNodeWrapper(draPodRaw)] as any,
+      null,
+    ] as any);
+    vi.mocked(ApiProxy.request).mockReset();
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      if (url.startsWith('/apis/resource.k8s.io/v1/')) throw new Error('404 page not found');
+      if (url.endsWith('/resourceslices')) {
+        return {
+          items: [
+            {
+              metadata: { name: 'dra-node-slice' },
+              spec: {
+                driver: 'gpu.intel.com',
+                nodeName: 'dra-node',
+                pool: { name: 'dra-node', generation: 1 },
+                devices: [{ name: 'card0' }],
+              },
+            },
+          ],
+        };
+      }
+      if (url.endsWith('/deviceclasses'))
+        return { items: [{ metadata: { name: 'gpu.intel.com' } }] };
+      if (url.endsWith('/resourceclaims')) {
+        return {
+          items: [
+            {
+              metadata: { name: 'gpu-claim', namespace: 'ml' },
+              spec: { devices: { requests: [{ name: 'gpu', deviceClassName: 'gpu.intel.com' }] } },
+            },
+          ],
+        };
+      }
+      return { items: [] };
+    });
+
+    const { result } = renderHook(() => useIntelGpuContext(), { wrapper: Wrapper });
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.draAvailable).toBe(true);
+    expect(result.current.resourceSlices).toHaveLength(1);
+    expect(result.current.deviceClasses).toHaveLength(1);
+    expect(result.current.resourceClaims).toHaveLength(1);
+    expect(result.current.gpuNodes.map(n => n.metadata.name)).toEqual(['dra-node']);
+    expect(result.current.gpuPods.map(p => p.metadata.name)).toEqual(['dra-pod']);
+    expect(vi.mocked(ApiProxy.request)).toHaveBeenCalledWith(
+      '/apis/resource.k8s.io/v1beta2/resourceslices'
+    );
+  });
+
+  it('groups device plugins of every served kind and skips kinds whose CRD is missing', async () => {
+    vi.mocked(K8s.ResourceClasses.Node.useList).mockReturnValue([[], null] as any);
+    vi.mocked(K8s.ResourceClasses.Pod.useList).mockReturnValue([[], null] as any);
+    vi.mocked(ApiProxy.request).mockReset();
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      if (url.endsWith('/gpudeviceplugins')) return { items: [gpuDevicePluginRaw] };
+      if (url.endsWith('/qatdeviceplugins')) {
+        return { items: [{ kind: 'QatDevicePlugin', metadata: { name: 'qat' }, spec: {} }] };
+      }
+      if (url.startsWith('/apis/deviceplugin.intel.com/')) throw new Error('404 page not found');
+      return { items: [] };
+    });
+
+    const { result } = renderHook(() => useIntelGpuContext(), { wrapper: Wrapper });
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(Object.keys(result.current.devicePluginsByKind).sort()).toEqual([
+      'GpuDevicePlugin',
+      'QatDevicePlugin',
+    ]);
+    expect(result.current.devicePluginsByKind.QatDevicePlugin?.[0].metadata.name).toBe('qat');
+    expect(result.current.devicePlugins).toHaveLength(1);
+    expect(vi.mocked(ApiProxy.request)).toHaveBeenCalledTimes(
+      // GPU CRD + 6 other kinds + 3 plugin pod selectors + DRA slices/classes/claims + quotas
+      1 + 6 + 3 + 3 + 1
+    );
+  });
+
+  it('lists ResourceQuotas and treats a forbidden list as unavailable', async () => {
+    vi.mocked(K8s.ResourceClasses.Node.useList).mockReturnValue([[], null] as any);
+    vi.mocked(K8s.ResourceClasses.Pod.useList).mockReturnValue([[], null] as any);
+    const quota = {
+      metadata: { name: 'gpu-quota', namespace: 'ml' },
+      spec: { hard: { 'requests.gpu.intel.com/i915': '4' } },
+    };
+    vi.mocked(ApiProxy.request).mockReset();
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) =>
+      url === '/api/v1/resourcequotas' ? { items: [quota] } : { items: [] }
+    );
+
+    const { result, unmount } = renderHook(() => useIntelGpuContext(), { wrapper: Wrapper });
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.quotasAvailable).toBe(true);
+    expect(result.current.resourceQuotas.map(q => q.metadata.name)).toEqual(['gpu-quota']);
+    unmount();
+
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      if (url === '/api/v1/resourcequotas') throw new Error('Forbidden');
+      return { items: [] };
+    });
+    const forbidden = renderHook(() => useIntelGpuContext(), { wrapper: Wrapper });
+
+    await waitFor(() => expect(forbidden.result.current.loading).toBe(false));
+    expect(forbidden.result.current.quotasAvailable).toBe(false);
+    expect(forbidden.result.current.error).toBeNull();
+  });
+
+  it('streams GpuDevicePlugin changes after the initial list and reports live status', async () => {
+    vi.mocked(K8s.ResourceClasses.Node.useList).mockReturnValue([[], null] as any);
+    vi.mocked(K8s.ResourceClasses.Pod.useList).mockReturnValue([[], null] as any);
+    vi.mocked(ApiProxy.request).mockReset();
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      if (url.endsWith('/gpudeviceplugins')) {
+        return { items: [gpuDevicePluginRaw], metadata: { resourceVersion: '41' } };
+      }
+      if (url.startsWith('/apis/deviceplugin.intel.com/')) throw new Error('404 page not found');
+      return { items: [] };
+    });
+    const streams = new Map<string, { cb: (data: unknown) => void; args: any }>();
+    vi.mocked(ApiProxy.stream).mockImplementation(((url: string, cb: any, args: any) => {
+      streams.set(url.split(/[?&]watch=/)[0], { cb, args });
+      return { cancel: vi.fn(), getSocket: () => null };
+    }) as any);
+
+    const { result } = renderHook(() => useIntelGpuContext(), { wrapper: Wrapper });
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    const pluginWatch = streams.get('/apis/deviceplugin.intel.com/v1/gpudeviceplugins');
+    expect(pluginWatch).toBeDefined();
+    expect(result.current.watchStatus.state).toBe('connecting');
+
+    act(() => {
+      streams.forEach(s =>
+        s.cb({ type: 'BOOKMARK', object: { metadata: { resourceVersion: '42' } } })
+      );
+      pluginWatch!.cb({
+        type: 'MODIFIED',
+        object: { ...gpuDevicePluginRaw, status: { desiredNumberScheduled: 2, numberReady: 2 } },
+      });
+    });
+    expect(result.current.watchStatus).toEqual({ state: 'live', staleSince: null });
+    expect(result.current.devicePlugins[0].status?.numberReady).toBe(2);
+    expect(result.current.devicePluginsByKind.GpuDevicePlugin?.[0].status?.numberReady).toBe(2);
+
+    act(() => pluginWatch!.args.failCb());
+    expect(result.current.watchStatus.state).toBe('stale');
+    expect(result.current.watchStatus.staleSince).not.toBeNull();
+  });
+
+  it('re-lists only unwatched sources on autoRefresh() and keeps the watches open', async () => {
+    vi.mocked(K8s.ResourceClasses.Node.useList).mockReturnValue([[], null] as any);
+    vi.mocked(K8s.ResourceClasses.Pod.useList).mockReturnValue([[], null] as any);
+    vi.mocked(ApiProxy.request).mockReset();
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      if (url.endsWith('/gpudeviceplugins')) {
+        return { items: [gpuDevicePluginRaw], metadata: { resourceVersion: '41' } };
+      }
+      if (url.startsWith('/apis/deviceplugin.intel.com/')) throw new Error('404 page not found');
+      return { items: [] };
+    });
+    const cancel = vi.fn();
+    const streams = new Map<string, { cb: (data: unknown) => void }>();
+    vi.mocked(ApiProxy.stream).mockImplementation(((url: string, cb: any) => {
+      streams.set(url.split(/[?&]watch=/)[0], { cb });
+      return { cancel, getSocket: () => null };
+    }) as any);
+
+    const { result } = renderHook(() => useIntelGpuContext(), { wrapper: Wrapper });
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    act(() =>
+      streams.forEach(s =>
+        s.cb({ type: 'BOOKMARK', object: { metadata: { resourceVersion: '42' } } })
+      )
+    );
+    expect(result.current.watchStatus.state).toBe('live');
+    const streamCount = vi.mocked(ApiProxy.stream).mock.calls.length;
+    vi.mocked(ApiProxy.request).mockClear();
+
+    await act(async () => {
+      result.current.autoRefresh();
+    });
+
+    await waitFor(() =>
+      expect(vi.mocked(ApiProxy.request)).toHaveBeenCalledWith('/api/v1/resourcequotas')
+    );
+    const urls = vi.mocked(ApiProxy.request).mock.calls.map(([url]) => url);
+    expect(urls).not.toContain('/apis/deviceplugin.intel.com/v1/gpudeviceplugins');
+    expect(urls.some(url => url.startsWith('/api/v1/pods'))).toBe(false);
+    expect(urls.some(url => url.endsWith('/resourceslices'))).toBe(true);
+    expect(cancel).not.toHaveBeenCalled();
+    expect(vi.mocked(ApiProxy.stream)).toHaveBeenCalledTimes(streamCount);
+    expect(result.current.watchStatus.state).toBe('live');
+    expect(result.current.devicePluginsByKind.GpuDevicePlugin).toHaveLength(1);
+  });
 });
@@ -3,23 +3,53 @@
  *
  * Wraps K8s hook calls and ApiProxy requests, providing filtered Intel GPU
  * resources to all child pages through React context, avoiding prop drilling
- * and duplicate API calls.
+ * and duplicate API calls. The GpuDevicePlugin CRD and plugin pods are kept
+ * current with watches after the initial requests.
  */
 
 import { ApiProxy, K8s } from '@kinvolk/headlamp-plugin/lib';
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  DeviceClass,
+  DRA_API_GROUP,
+  DRA_API_VERSIONS,
+  filterDraGpuNodes,
+  filterDraGpuPods,
+  isDeviceClass,
+  isIntelGpuDeviceClass,
+  isIntelGpuResourceClaim,
+  isIntelGpuResourceSlice,
+  isResourceClaim,
+  isResourceSlice,
+  ResourceClaim,
+  ResourceSlice,
+} from './dra';
 import {
   filterGpuRequestingPods,
   filterIntelGpuNodes,
-  filterIntelGpuPluginPods,
+  filterPluginPodsFromSource,
+  getPluginPodSources,
   GpuDevicePlugin,
+  GpuTypeMappings,
   INTEL_DEVICE_PLUGIN_API_GROUP,
   INTEL_DEVICE_PLUGIN_API_VERSION,
+  INTEL_DEVICE_PLUGIN_KIND_NAMES,
+  INTEL_DEVICE_PLUGIN_KINDS,
+  IntelDevicePlugin,
+  IntelDevicePluginKind,
   IntelGpuNode,
   IntelGpuPod,
   isGpuDevicePlugin,
+  isIntelDevicePlugin,
   isKubeList,
+  isResourceQuota,
+  KubeList,
+  KubeResourceQuota,
+  PluginPodSource,
 } from './k8s';
+import { DEFAULT_REQUEST_TIMEOUT_MS, withTimeout } from './request';
+import { usePluginSettings } from './settings';
+import { combineWatchStatuses, CONNECTING_WATCH_STATUS, watchKubeList, WatchStatus } from './watch';
 
 // ---------------------------------------------------------------------------
 // Context shape
@@ -43,12 +73,45 @@ export interface IntelGpuContextValue {
   /** True if the GpuDevicePlugin CRD is available on the cluster */
   crdAvailable: boolean;
 
+  /**
+   * Instances of every Intel device plugin kind (GPU, QAT, SGX, ...), keyed by
+   * kind. A kind is present only when its CRD is served.
+   */
+  devicePluginsByKind: Partial<Record<IntelDevicePluginKind, IntelDevicePlugin[]>>;
+
+  /** Intel GPU DRA driver objects (resource.k8s.io) */
+  resourceSlices: ResourceSlice[];
+  deviceClasses: DeviceClass[];
+  resourceClaims: ResourceClaim[];
+
+  /** True if the cluster serves the resource.k8s.io API */
+  draAvailable: boolean;
+
+  /** ResourceQuotas in every namespace, for GPU quota headroom */
+  resourceQuotas: KubeResourceQuota[];
+
+  /** True if ResourceQuotas could be listed cluster-wide */
+  quotasAvailable: boolean;
+
+  /** User-maintained GPU type mappings from plugin settings */
+  gpuTypeMappings: GpuTypeMappings;
+
+  /** Combined state of the GpuDevicePlugin and plugin pod watches */
+  watchStatus: WatchStatus;
+
   /** Loading / error state */
   loading: boolean;
   error: string | null;
 
-  /** Manual refresh trigger */
+  /** Manual refresh trigger: re-lists everything and reopens the watches */
   refresh: () => void;
+
+  /**
+   * Auto-refresh trigger: re-lists only the sources that are not watched
+   * (other plugin kinds, DRA objects, ResourceQuotas), leaving open watches
+   * and their status alone.
+   */
+  autoRefresh: () => void;
 }
 
 // ---------------------------------------------------------------------------
@@ -69,16 +132,18 @@ export function useIntelGpuContext(): IntelGpuContextValue {
 // Helpers
 // ---------------------------------------------------------------------------
 
-const DEFAULT_REQUEST_TIMEOUT_MS = 2_000;
-
-/** Wraps a promise with a timeout, rejecting if it doesn't settle within ms. */
-function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new Error(`Request timed out after ${ms}ms`)), ms)
-    ),
-  ]);
+const NO_GPU_TYPE_MAPPINGS: GpuTypeMappings = {};
+const NO_ENTRIES: string[] = [];
+
+/** Plugin pods from several sources, deduplicated by pod UID. */
+function mergePluginPods(lists: IntelGpuPod[][]): IntelGpuPod[] {
+  const seen = new Set<string>();
+  return lists.flat().filter(p => {
+    const uid = p.metadata.uid;
+    if (!uid || seen.has(uid)) return false;
+    seen.add(uid);
+    return true;
+  });
 }
 
 /** Extract raw Kubernetes JSON from Headlamp KubeObject wrappers. */
@@ -89,6 +154,98 @@ const extractJsonData = (items: unknown[]): unknown[] =>
       : item
   );
 
+// ---------------------------------------------------------------------------
+// Unwatched sources
+// ---------------------------------------------------------------------------
+
+/** Intel GPU DRA driver objects from the served resource.k8s.io version */
+interface DraObjects {
+  resourceSlices: ResourceSlice[];
+  deviceClasses: DeviceClass[];
+  resourceClaims: ResourceClaim[];
+}
+
+/**
+ * The operator's plugin kinds other than GpuDevicePlugin (QAT, SGX, ...), in
+ * parallel; a kind whose CRD is not served is simply left out.
+ */
+async function listOtherPluginKinds(): Promise<
+  Partial<Record<IntelDevicePluginKind, IntelDevicePlugin[]>>
+> {
+  const kindLists = await Promise.all(
+    INTEL_DEVICE_PLUGIN_KIND_NAMES.filter(kind => kind !== 'GpuDevicePlugin').map(kind =>
+      withTimeout(
+        ApiProxy.request(
+          `/apis/${INTEL_DEVICE_PLUGIN_API_GROUP}/${INTEL_DEVICE_PLUGIN_API_VERSION}/${INTEL_DEVICE_PLUGIN_KINDS[kind].plural}`
+        ),
+        DEFAULT_REQUEST_TIMEOUT_MS
+      ).then(
+        list => [kind, list] as const,
+        () => [kind, null] as const
+      )
+    )
+  );
+  const byKind: Partial<Record<IntelDevicePluginKind, IntelDevicePlugin[]>> = {};
+  for (const [kind, list] of kindLists) {
+    if (isKubeList(list)) {
+      byKind[kind] = list.items.filter(isIntelDevicePlugin).filter(p => p.kind === kind);
+    }
+  }
+  return byKind;
+}
+
+/**
+ * DRA objects, or null when resource.k8s.io is not served — graceful
+ * degradation like the CRD; the served version depends on the Kubernetes release.
+ */
+async function listDraObjects(): Promise<DraObjects | null> {
+  for (const version of DRA_API_VERSIONS) {
+    const base = `/apis/${DRA_API_GROUP}/${version}`;
+    try {
+      const sliceList = await withTimeout(
+        ApiProxy.request(`${base}/resourceslices`),
+        DEFAULT_REQUEST_TIMEOUT_MS
+      );
+      if (!isKubeList(sliceList)) continue;
+
+      const [classList, claimList] = await Promise.all(
+        [`${base}/deviceclasses`, `${base}/resourceclaims`].map(url =>
+          withTimeout(ApiProxy.request(url), DEFAULT_REQUEST_TIMEOUT_MS).catch(() => null)
+        )
+      );
+      const deviceClasses = isKubeList(classList)
+        ? classList.items.filter(isDeviceClass).filter(isIntelGpuDeviceClass)
+        : [];
+      const classNames = deviceClasses.map(c => c.metadata.name);
+      return {
+        resourceSlices: sliceList.items.filter(isResourceSlice).filter(isIntelGpuResourceSlice),
+        deviceClasses,
+        resourceClaims: isKubeList(claimList)
+          ? claimList.items
+              .filter(isResourceClaim)
+              .filter(c => isIntelGpuResourceClaim(c, classNames))
+          : [],
+      };
+    } catch {
+      // Version not served — try the next one
+    }
+  }
+  return null;
+}
+
+/** ResourceQuotas in every namespace, or null when listing them is not allowed */
+async function listResourceQuotas(): Promise<KubeResourceQuota[] | null> {
+  try {
+    const list = await withTimeout(
+      ApiProxy.request('/api/v1/resourcequotas'),
+      DEFAULT_REQUEST_TIMEOUT_MS
+    );
+    return isKubeList(list) ? list.items.filter(isResourceQuota) : null;
+  } catch {
+    return null;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Provider
 // ---------------------------------------------------------------------------
@@ -98,37 +255,101 @@ export function IntelGpuDataProvider({ children }: { children: React.ReactNode }
   const [allNodes, nodeError] = K8s.ResourceClasses.Node.useList();
   const [allPods, podError] = K8s.ResourceClasses.Pod.useList({ namespace: '' });
 
+  const settings = usePluginSettings();
+  const gpuTypeMappings = settings.gpuTypeMappings ?? NO_GPU_TYPE_MAPPINGS;
+  const extraPodSelectors = settings.pluginPodSelectors ?? NO_ENTRIES;
+  const extraPodNamespaces = settings.pluginPodNamespaces ?? NO_ENTRIES;
+  const pluginPodSources = useMemo(
+    () => getPluginPodSources(extraPodSelectors, extraPodNamespaces),
+    [extraPodSelectors, extraPodNamespaces]
+  );
+
   // Async state for CRD resources
   const [devicePlugins, setDevicePlugins] = useState<GpuDevicePlugin[]>([]);
   const [pluginPods, setPluginPods] = useState<IntelGpuPod[]>([]);
   const [crdAvailable, setCrdAvailable] = useState(false);
+  const [devicePluginsByKind, setDevicePluginsByKind] = useState<
+    Partial<Record<IntelDevicePluginKind, IntelDevicePlugin[]>>
+  >({});
+  const [resourceSlices, setResourceSlices] = useState<ResourceSlice[]>([]);
+  const [deviceClasses, setDeviceClasses] = useState<DeviceClass[]>([]);
+  const [resourceClaims, setResourceClaims] = useState<ResourceClaim[]>([]);
+  const [draAvailable, setDraAvailable] = useState(false);
+  const [resourceQuotas, setResourceQuotas] = useState<KubeResourceQuota[]>([]);
+  const [quotasAvailable, setQuotasAvailable] = useState(false);
+  // Only the first fetch counts as loading; refreshes (manual or auto) keep
+  // the previous data on screen until the new lists arrive
   const [asyncLoading, setAsyncLoading] = useState(true);
   const [asyncError, setAsyncError] = useState<string | null>(null);
+  const [watchStatuses, setWatchStatuses] = useState<Record<string, WatchStatus>>({});
   const [refreshKey, setRefreshKey] = useState(0);
+  const [autoRefreshKey, setAutoRefreshKey] = useState(0);
 
   const refresh = useCallback(() => {
     setRefreshKey(k => k + 1);
   }, []);
 
+  const autoRefresh = useCallback(() => {
+    setAutoRefreshKey(k => k + 1);
+  }, []);
+
+  const applyOtherPluginKinds = useCallback(
+    (byKind: Partial<Record<IntelDevicePluginKind, IntelDevicePlugin[]>>) => {
+      // GpuDevicePlugin is kept current by its watch
+      setDevicePluginsByKind(prev =>
+        prev.GpuDevicePlugin ? { GpuDevicePlugin: prev.GpuDevicePlugin, ...byKind } : byKind
+      );
+    },
+    []
+  );
+
+  const applyDraObjects = useCallback((dra: DraObjects | null) => {
+    setDraAvailable(dra !== null);
+    setResourceSlices(dra?.resourceSlices ?? []);
+    setDeviceClasses(dra?.deviceClasses ?? []);
+    setResourceClaims(dra?.resourceClaims ?? []);
+  }, []);
+
+  const applyResourceQuotas = useCallback((quotas: KubeResourceQuota[] | null) => {
+    setQuotasAvailable(quotas !== null);
+    setResourceQuotas(quotas ?? []);
+  }, []);
+
   useEffect(() => {
     let cancelled = false;
+    const stopWatches: Array<() => void> = [];
+
+    // Keep a listed resource current through a watch from its resourceVersion
+    function startWatch(url: string, list: KubeList<unknown>, onItems: (items: unknown[]) => void) {
+      setWatchStatuses(prev => ({ ...prev, [url]: CONNECTING_WATCH_STATUS }));
+      stopWatches.push(
+        watchKubeList(url, {
+          items: list.items,
+          resourceVersion: list.metadata?.resourceVersion,
+          onItems,
+          onStatus: status => setWatchStatuses(prev => ({ ...prev, [url]: status })),
+        })
+      );
+    }
 
     async function fetchAsync() {
-      setAsyncLoading(true);
       setAsyncError(null);
 
+      setWatchStatuses({});
+
       try {
         // GpuDevicePlugin CRDs — graceful degradation if CRD not installed
+        const gpuPluginUrl = `/apis/${INTEL_DEVICE_PLUGIN_API_GROUP}/${INTEL_DEVICE_PLUGIN_API_VERSION}/gpudeviceplugins`;
+        let gpuPluginList: KubeList<unknown> | null = null;
         try {
           const pluginList = await withTimeout(
-            ApiProxy.request(
-              `/apis/${INTEL_DEVICE_PLUGIN_API_GROUP}/${INTEL_DEVICE_PLUGIN_API_VERSION}/gpudeviceplugins`
-            ),
+            ApiProxy.request(gpuPluginUrl),
             DEFAULT_REQUEST_TIMEOUT_MS
           );
           if (!cancelled && isKubeList(pluginList)) {
             setCrdAvailable(true);
             setDevicePlugins(pluginList.items.filter(isGpuDevicePlugin));
+            gpuPluginList = pluginList;
           }
         } catch {
           if (!cancelled) {
@@ -137,43 +358,66 @@ export function IntelGpuDataProvider({ children }: { children: React.ReactNode }
           }
         }
 
+        const otherKinds = await listOtherPluginKinds();
+        if (!cancelled) {
+          setDevicePluginsByKind(
+            gpuPluginList
+              ? { GpuDevicePlugin: gpuPluginList.items.filter(isIntelDevicePlugin), ...otherKinds }
+              : otherKinds
+          );
+        }
+
         // Intel GPU plugin DaemonSet pods — look across all namespaces
-        // The device plugin is commonly deployed in kube-system but may vary
-        const pluginPodSelectors = [
-          // Intel device plugins operator deployment
-          `/api/v1/pods?labelSelector=${encodeURIComponent('app=intel-gpu-plugin')}`,
-          // Alternative: by component label
-          `/api/v1/pods?labelSelector=${encodeURIComponent(
-            'app.kubernetes.io/name=intel-gpu-plugin'
-          )}`,
-          // Intel device plugins from inteldeviceplugins-system namespace
-          '/api/v1/namespaces/inteldeviceplugins-system/pods',
-        ];
-
-        const foundPluginPods: IntelGpuPod[] = [];
-
-        for (const url of pluginPodSelectors) {
+        // The device plugin is commonly deployed in kube-system but may vary;
+        // extra selectors and namespaces come from the plugin settings
+        const pluginPodLists = new Map<PluginPodSource, KubeList<unknown>>();
+
+        for (const source of pluginPodSources) {
           try {
-            const list = await withTimeout(ApiProxy.request(url), DEFAULT_REQUEST_TIMEOUT_MS);
-            if (!cancelled && isKubeList(list)) {
-              const gpuPluginPods = filterIntelGpuPluginPods(list.items);
-              foundPluginPods.push(...gpuPluginPods);
-            }
+            const list = await withTimeout(
+              ApiProxy.request(source.url),
+              DEFAULT_REQUEST_TIMEOUT_MS
+            );
+            if (!cancelled && isKubeList(list)) pluginPodLists.set(source, list);
           } catch {
             // Silently ignore — some selectors may not match
           }
         }
 
-        // Deduplicate by pod UID
-        const seen = new Set<string>();
-        const uniquePluginPods = foundPluginPods.filter(p => {
-          const uid = p.metadata.uid;
-          if (!uid || seen.has(uid)) return false;
-          seen.add(uid);
-          return true;
-        });
+        // Current plugin pods per source, updated by the watches below
+        const pluginPodItems = new Map(
+          [...pluginPodLists].map(
+            ([source, list]) => [source, filterPluginPodsFromSource(list.items, source)] as const
+          )
+        );
+
+        if (!cancelled) setPluginPods(mergePluginPods([...pluginPodItems.values()]));
+
+        const dra = await listDraObjects();
+        if (!cancelled) applyDraObjects(dra);
 
-        if (!cancelled) setPluginPods(uniquePluginPods);
+        const quotas = await listResourceQuotas();
+        if (!cancelled) applyResourceQuotas(quotas);
+
+        // Watch the GpuDevicePlugin CRD and plugin pods so status changes such
+        // as numberReady show up without a manual refresh (ADR 006)
+        if (!cancelled) {
+          if (gpuPluginList) {
+            startWatch(gpuPluginUrl, gpuPluginList, items => {
+              setDevicePlugins(items.filter(isGpuDevicePlugin));
+              setDevicePluginsByKind(prev => ({
+                ...prev,
+                GpuDevicePlugin: items.filter(isIntelDevicePlugin),
+              }));
+            });
+          }
+          for (const [source, list] of pluginPodLists) {
+            startWatch(source.url, list, items => {
+              pluginPodItems.set(source, filterPluginPodsFromSource(items, source));
+              setPluginPods(mergePluginPods([...pluginPodItems.values()]));
+            });
+          }
+        }
       } catch (err: unknown) {
         if (!cancelled) {
           setAsyncError(err instanceof Error ? err.message : String(err));
@@ -184,10 +428,32 @@ export function IntelGpuDataProvider({ children }: { children: React.ReactNode }
     }
 
     void fetchAsync();
+    return () => {
+      cancelled = true;
+      stopWatches.forEach(stop => stop());
+    };
+  }, [refreshKey, pluginPodSources, applyDraObjects, applyResourceQuotas]);
+
+  // Auto-refresh re-lists only what no watch keeps current; the watches
+  // above stay open. A CRD or plugin pod source that failed to list is
+  // retried by the manual refresh, which reopens the watches.
+  useEffect(() => {
+    if (autoRefreshKey === 0) return;
+    let cancelled = false;
+
+    void Promise.all([listOtherPluginKinds(), listDraObjects(), listResourceQuotas()]).then(
+      ([otherKinds, dra, quotas]) => {
+        if (cancelled) return;
+        applyOtherPluginKinds(otherKinds);
+        applyDraObjects(dra);
+        applyResourceQuotas(quotas);
+      }
+    );
+
     return () => {
       cancelled = true;
     };
-  }, [refreshKey]);
+  }, [autoRefreshKey, applyOtherPluginKinds, applyDraObjects, applyResourceQuotas]);
 
   // ---------------------------------------------------------------------------
   // Derived / filtered values — memoized to avoid recomputation on every render
@@ -197,15 +463,26 @@ export function IntelGpuDataProvider({ children }: { children: React.ReactNode }
   // type helpers work correctly.
   // ---------------------------------------------------------------------------
 
+  // Nodes and pods using the DRA driver have no gpu.intel.com labels or
+  // extended resources, so they are added from slices and claims.
   const gpuNodes = useMemo(() => {
     if (!allNodes) return [];
-    return filterIntelGpuNodes(extractJsonData(allNodes as unknown[]));
-  }, [allNodes]);
+    const nodes = extractJsonData(allNodes as unknown[]);
+    const labelled = filterIntelGpuNodes(nodes);
+    const names = new Set(labelled.map(n => n.metadata.name));
+    const draOnly = filterDraGpuNodes(nodes, resourceSlices).filter(
+      n => !names.has(n.metadata.name)
+    );
+    return [...labelled, ...draOnly];
+  }, [allNodes, resourceSlices]);
 
   const gpuPods = useMemo(() => {
     if (!allPods) return [];
-    return filterGpuRequestingPods(extractJsonData(allPods as unknown[]));
-  }, [allPods]);
+    const pods = extractJsonData(allPods as unknown[]);
+    const requesting = filterGpuRequestingPods(pods);
+    const draOnly = filterDraGpuPods(pods, resourceClaims).filter(p => !requesting.includes(p));
+    return [...requesting, ...draOnly];
+  }, [allPods, resourceClaims]);
 
   // ---------------------------------------------------------------------------
   // Combined loading / error state
@@ -221,6 +498,11 @@ export function IntelGpuDataProvider({ children }: { children: React.ReactNode }
 
   const pluginInstalled = devicePlugins.length > 0 || pluginPods.length > 0;
 
+  const watchStatus = useMemo(
+    () => combineWatchStatuses(Object.values(watchStatuses)),
+    [watchStatuses]
+  );
+
   // ---------------------------------------------------------------------------
   // Memoized context value
   // ---------------------------------------------------------------------------
@@ -233,9 +515,19 @@ export function IntelGpuDataProvider({ children }: { children: React.ReactNode }
       gpuPods,
       pluginPods,
       crdAvailable,
+      devicePluginsByKind,
+      resourceSlices,
+      deviceClasses,
+      resourceClaims,
+      draAvailable,
+      resourceQuotas,
+      quotasAvailable,
+      gpuTypeMappings,
+      watchStatus,
       loading,
       error,
       refresh,
+      autoRefresh,
     }),
     [
       devicePlugins,
@@ -244,9 +536,19 @@ export function IntelGpuDataProvider({ children }: { children: React.ReactNode }
       gpuPods,
       pluginPods,
       crdAvailable,
+      devicePluginsByKind,
+      resourceSlices,
+      deviceClasses,
+      resourceClaims,
+      draAvailable,
+      resourceQuotas,
+      quotasAvailable,
+      gpuTypeMappings,
+      watchStatus,
       loading,
       error,
       refresh,
+      autoRefresh,
     ]
   );
 
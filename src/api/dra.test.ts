@@ -0,0 +1,200 @@
+/**
+ * Unit tests for Intel GPU DRA helpers.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  filterDraGpuNodes,
+  filterDraGpuPods,
+  formatDraDevice,
+  getClaimDeviceClassNames,
+  getNodeDraAllocations,
+  getPodIntelGpuClaims,
+  getPodResourceClaimNames,
+  getResourceSliceDevices,
+  isIntelGpuDeviceClass,
+  isIntelGpuResourceClaim,
+  isResourceSlice,
+  type ResourceClaim,
+  type ResourceSlice,
+} from './dra';
+import type { IntelGpuNode, IntelGpuPod } from './k8s';
+
+// ---------------------------------------------------------------------------
+// Test helpers
+// ---------------------------------------------------------------------------
+
+function makeSlice(nodeName: string, devices: ResourceSlice['spec']['devices']): ResourceSlice {
+  return {
+    metadata: { name: `${nodeName}-gpu.intel.com-abcde` },
+    spec: {
+      driver: 'gpu.intel.com',
+      nodeName,
+      pool: { name: nodeName, generation: 1, resourceSliceCount: 1 },
+      devices,
+    },
+  };
+}
+
+function makeClaim(
+  name: string,
+  results: Array<{ pool: string; device: string }> = [],
+  namespace = 'ml'
+): ResourceClaim {
+  return {
+    metadata: { name, namespace },
+    spec: {
+      devices: { requests: [{ name: 'gpu', exactly: { deviceClassName: 'gpu.intel.com' } }] },
+    },
+    status:
+      results.length > 0
+        ? {
+            allocation: {
+              devices: {
+                results: results.map(r => ({ request: 'gpu', driver: 'gpu.intel.com', ...r })),
+              },
+            },
+          }
+        : undefined,
+  };
+}
+
+function makeDraPod(claimRefs: IntelGpuPod['spec'] = {}, status: IntelGpuPod['status'] = {}) {
+  return {
+    metadata: { name: 'dra-pod', namespace: 'ml', uid: 'uid-dra-pod' },
+    spec: { containers: [{ name: 'main' }], ...claimRefs },
+    status: { phase: 'Running', ...status },
+  } as IntelGpuPod;
+}
+
+const node: IntelGpuNode = { metadata: { name: 'gpu-node-1' } };
+
+// ---------------------------------------------------------------------------
+// Slices and devices
+// ---------------------------------------------------------------------------
+
+describe('ResourceSlice devices', () => {
+  it('recognises slices', () => {
+    expect(isResourceSlice(makeSlice('n', []))).toBe(true);
+    expect(isResourceSlice({ metadata: { name: 'x' }, spec: {} })).toBe(false);
+  });
+
+  it('normalises v1 and v1beta1 device shapes', () => {
+    const slice = makeSlice('n', [
+      {
+        name: '0000-03-00-0',
+        attributes: { model: { string: 'Flex 170' }, sriov: { bool: false } },
+        capacity: { memory: { value: '16Gi' } },
+      },
+      {
+        name: '0000-04-00-0',
+        basic: {
+          attributes: { family: { string: 'Arc' } },
+          capacity: { memory: { value: '8Gi' } },
+        },
+      },
+    ]);
+    const devices = getResourceSliceDevices(slice);
+    expect(devices[0]).toEqual({
+      name: '0000-03-00-0',
+      attributes: { model: 'Flex 170', sriov: 'false' },
+      capacity: { memory: '16Gi' },
+    });
+    expect(formatDraDevice(devices[0])).toBe('0000-03-00-0 (Flex 170, 16 GiB)');
+    expect(formatDraDevice(devices[1])).toBe('0000-04-00-0 (Arc, 8 GiB)');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Classes and claims
+// ---------------------------------------------------------------------------
+
+describe('Intel GPU device classes and claims', () => {
+  it('matches the driver class by name or CEL selector', () => {
+    expect(isIntelGpuDeviceClass({ metadata: { name: 'gpu.intel.com' } })).toBe(true);
+    expect(
+      isIntelGpuDeviceClass({
+        metadata: { name: 'big-gpus' },
+        spec: { selectors: [{ cel: { expression: 'device.driver == "gpu.intel.com"' } }] },
+      })
+    ).toBe(true);
+    expect(isIntelGpuDeviceClass({ metadata: { name: 'nvidia.com' } })).toBe(false);
+  });
+
+  it('collects device class names across API versions', () => {
+    const claim: ResourceClaim = {
+      metadata: { name: 'c' },
+      spec: {
+        devices: {
+          requests: [
+            { name: 'a', deviceClassName: 'old' },
+            { name: 'b', exactly: { deviceClassName: 'new' } },
+            { name: 'c', firstAvailable: [{ name: 'x', deviceClassName: 'alt' }] },
+          ],
+        },
+      },
+    };
+    expect(getClaimDeviceClassNames(claim)).toEqual(['old', 'new', 'alt']);
+  });
+
+  it('identifies Intel GPU claims by results or requested class', () => {
+    expect(isIntelGpuResourceClaim(makeClaim('pending'))).toBe(true);
+    const other: ResourceClaim = {
+      metadata: { name: 'other' },
+      spec: { devices: { requests: [{ name: 'x', deviceClassName: 'nvidia.com' }] } },
+    };
+    expect(isIntelGpuResourceClaim(other)).toBe(false);
+    expect(isIntelGpuResourceClaim(other, ['nvidia.com'])).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Pods and nodes
+// ---------------------------------------------------------------------------
+
+describe('DRA pods and nodes', () => {
+  it('resolves template-generated claim names', () => {
+    const pod = makeDraPod(
+      {
+        resourceClaims: [
+          { name: 'gpu', resourceClaimTemplateName: 'single-gpu' },
+          { name: 'shared', resourceClaimName: 'shared-gpu' },
+        ],
+      },
+      { resourceClaimStatuses: [{ name: 'gpu', resourceClaimName: 'dra-pod-gpu-x7k2' }] }
+    );
+    expect(getPodResourceClaimNames(pod)).toEqual(['dra-pod-gpu-x7k2', 'shared-gpu']);
+  });
+
+  it('matches claims by name in the pod namespace or by reservation', () => {
+    const pod = makeDraPod({ resourceClaims: [{ name: 'gpu', resourceClaimName: 'mine' }] });
+    const reserved = makeClaim('reserved');
+    reserved.status = { reservedFor: [{ resource: 'pods', name: 'dra-pod', uid: 'uid-dra-pod' }] };
+    const claims = [makeClaim('mine'), makeClaim('mine', [], 'other-ns'), reserved, makeClaim('x')];
+    expect(getPodIntelGpuClaims(pod, claims).map(c => c.metadata.name)).toEqual([
+      'mine',
+      'reserved',
+    ]);
+    const unrelated = {
+      ...makeDraPod(),
+      metadata: { name: 'other', namespace: 'ml', uid: 'uid-other' },
+    };
+    expect(filterDraGpuPods([pod, unrelated], claims)).toEqual([pod]);
+  });
+
+  it('maps claim results onto the node publishing the device', () => {
+    const slices = [
+      makeSlice('gpu-node-1', [{ name: 'card0' }, { name: 'card1' }]),
+      makeSlice('gpu-node-2', [{ name: 'card0' }]),
+    ];
+    const claims = [
+      makeClaim('a', [{ pool: 'gpu-node-1', device: 'card1' }]),
+      makeClaim('b', [{ pool: 'gpu-node-2', device: 'card0' }]),
+    ];
+    const allocations = getNodeDraAllocations(node, slices, claims);
+    expect(allocations.map(a => [a.claim.metadata.name, a.result.device])).toEqual([
+      ['a', 'card1'],
+    ]);
+    expect(filterDraGpuNodes([node, { metadata: { name: 'cpu-node' } }], slices)).toEqual([node]);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Dynamic Resource Allocation (resource.k8s.io) support for the Intel GPU
+ * DRA driver.
+ *
+ * With DRA, GPUs are published per node as devices in ResourceSlices and
+ * handed to pods through ResourceClaims instead of gpu.intel.com extended
+ * resources, so nodes and pods using it are invisible to isIntelGpuNode and
+ * isGpuRequestingPod. The helpers here find them from the DRA objects.
+ */
+
+import { IntelGpuNode, IntelGpuPod, KubeObject } from './k8s';
+import { formatBytes, parseQuantity } from './quantity';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DRA_API_GROUP = 'resource.k8s.io';
+
+/** resource.k8s.io versions to try, newest first; the first one served wins */
+export const DRA_API_VERSIONS = ['v1', 'v1beta2', 'v1beta1'] as const;
+export type DraApiVersion = (typeof DRA_API_VERSIONS)[number];
+
+/** Driver name of the Intel GPU DRA driver, also the name of its DeviceClass */
+export const INTEL_GPU_DRA_DRIVER = 'gpu.intel.com';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A typed device attribute; exactly one field is set */
+export interface DraDeviceAttribute {
+  string?: string;
+  int?: number;
+  bool?: boolean;
+  version?: string;
+}
+
+interface DraDeviceFields {
+  attributes?: Record<string, DraDeviceAttribute>;
+  capacity?: Record<string, { value: string } | string>;
+}
+
+export interface DraDeviceSpec extends DraDeviceFields {
+  name: string;
+  /** v1beta1 nests attributes and capacity under `basic` */
+  basic?: DraDeviceFields;
+}
+
+export interface ResourceSlice extends KubeObject {
+  spec: {
+    driver: string;
+    nodeName?: string;
+    allNodes?: boolean;
+    pool: { name: string; generation: number; resourceSliceCount?: number };
+    devices?: DraDeviceSpec[];
+  };
+}
+
+export interface DeviceClass extends KubeObject {
+  spec?: {
+    selectors?: Array<{ cel?: { expression: string } }>;
+  };
+}
+
+export interface DraDeviceRequest {
+  name: string;
+  /** v1beta1 / v1beta2 */
+  deviceClassName?: string;
+  count?: number;
+  allocationMode?: string;
+  /** v1 */
+  exactly?: { deviceClassName: string; count?: number; allocationMode?: string };
+  firstAvailable?: Array<{ name: string; deviceClassName: string; count?: number }>;
+}
+
+export interface DraAllocationResult {
+  request: string;
+  driver: string;
+  pool: string;
+  device: string;
+}
+
+export interface ResourceClaim extends KubeObject {
+  spec?: {
+    devices?: { requests?: DraDeviceRequest[] };
+  };
+  status?: {
+    allocation?: {
+      devices?: { results?: DraAllocationResult[] };
+    };
+    reservedFor?: Array<{ resource: string; name: string; uid: string; apiGroup?: string }>;
+  };
+}
+
+export function isResourceSlice(value: unknown): value is ResourceSlice {
+  if (!value || typeof value !== 'object') return false;
+  const spec = (value as Record<string, unknown>)['spec'] as Record<string, unknown> | undefined;
+  return typeof spec?.['driver'] === 'string' && !!spec['pool'];
+}
+
+export function isDeviceClass(value: unknown): value is DeviceClass {
+  if (!value || typeof value !== 'object') return false;
+  const meta = (value as Record<string, unknown>)['metadata'] as
+    | Record<string, unknown>
+    | undefined;
+  return typeof meta?.['name'] === 'string';
+}
+
+export function isResourceClaim(value: unknown): value is ResourceClaim {
+  if (!value || typeof value !== 'object') return false;
+  const spec = (value as Record<string, unknown>)['spec'] as Record<string, unknown> | undefined;
+  return !!spec && typeof spec['devices'] === 'object';
+}
+
+// ---------------------------------------------------------------------------
+// Devices
+// ---------------------------------------------------------------------------
+
+export interface DraDevice {
+  name: string;
+  /** Attribute values as display strings */
+  attributes: Record<string, string>;
+  /** Capacity values as quantity strings */
+  capacity: Record<string, string>;
+}
+
+function attributeToString(attr: DraDeviceAttribute): string {
+  if (attr.string !== undefined) return attr.string;
+  if (attr.int !== undefined) return String(attr.int);
+  if (attr.bool !== undefined) return String(attr.bool);
+  return attr.version ?? '';
+}
+
+/** Flatten a slice device across API versions into plain strings */
+export function normalizeDraDevice(device: DraDeviceSpec): DraDevice {
+  const fields = device.basic ?? device;
+  const attributes: Record<string, string> = {};
+  for (const [key, attr] of Object.entries(fields.attributes ?? {})) {
+    attributes[key] = attributeToString(attr);
+  }
+  const capacity: Record<string, string> = {};
+  for (const [key, value] of Object.entries(fields.capacity ?? {})) {
+    capacity[key] = typeof value === 'string' ? value : value.value;
+  }
+  return { name: device.name, attributes, capacity };
+}
+
+export function getResourceSliceDevices(slice: ResourceSlice): DraDevice[] {
+  return (slice.spec.devices ?? []).map(normalizeDraDevice);
+}
+
+/** "0000-03-00-0 (Flex 170, 16 GiB)" — model and memory when the driver publishes them */
+export function formatDraDevice(device: DraDevice): string {
+  const model = device.attributes['model'] ?? device.attributes['family'];
+  const memory = parseQuantity(device.capacity['memory']);
+  const details = [model, memory ? formatBytes(memory.value) : null].filter(Boolean);
+  return details.length > 0 ? `${device.name} (${details.join(', ')})` : device.name;
+}
+
+// ---------------------------------------------------------------------------
+// Intel GPU filtering
+// ---------------------------------------------------------------------------
+
+export function isIntelGpuResourceSlice(slice: ResourceSlice): boolean {
+  return slice.spec.driver === INTEL_GPU_DRA_DRIVER;
+}
+
+/** The driver's own DeviceClass, or any class whose CEL selector targets the driver */
+export function isIntelGpuDeviceClass(deviceClass: DeviceClass): boolean {
+  if (deviceClass.metadata.name === INTEL_GPU_DRA_DRIVER) return true;
+  return (deviceClass.spec?.selectors ?? []).some(s =>
+    s.cel?.expression.includes(`"${INTEL_GPU_DRA_DRIVER}"`)
+  );
+}
+
+/** Device class names a claim asks for, across API versions */
+export function getClaimDeviceClassNames(claim: ResourceClaim): string[] {
+  const names = new Set<string>();
+  for (const request of claim.spec?.devices?.requests ?? []) {
+    if (request.deviceClassName) names.add(request.deviceClassName);
+    if (request.exactly?.deviceClassName) names.add(request.exactly.deviceClassName);
+    for (const sub of request.firstAvailable ?? []) names.add(sub.deviceClassName);
+  }
+  return [...names];
+}
+
+/** Allocation results handed out by the Intel GPU driver */
+export function getClaimIntelGpuResults(claim: ResourceClaim): DraAllocationResult[] {
+  return (claim.status?.allocation?.devices?.results ?? []).filter(
+    r => r.driver === INTEL_GPU_DRA_DRIVER
+  );
+}
+
+export function isResourceClaimAllocated(claim: ResourceClaim): boolean {
+  return !!claim.status?.allocation;
+}
+
+/** True if the claim was allocated Intel GPUs or asks for an Intel GPU device class */
+export function isIntelGpuResourceClaim(
+  claim: ResourceClaim,
+  intelDeviceClassNames: string[] = [INTEL_GPU_DRA_DRIVER]
+): boolean {
+  if (getClaimIntelGpuResults(claim).length > 0) return true;
+  return getClaimDeviceClassNames(claim).some(name => intelDeviceClassNames.includes(name));
+}
+
+// ---------------------------------------------------------------------------
+// Pods and nodes
+// ---------------------------------------------------------------------------
+
+/** Names of the ResourceClaim objects a pod uses, resolving template-generated claims */
+export function getPodResourceClaimNames(pod: IntelGpuPod): string[] {
+  const generated = new Map(
+    (pod.status?.resourceClaimStatuses ?? []).map(s => [s.name, s.resourceClaimName])
+  );
+  const names: string[] = [];
+  for (const ref of pod.spec?.resourceClaims ?? []) {
+    const name = ref.resourceClaimName ?? generated.get(ref.name);
+    if (name) names.push(name);
+  }
+  return names;
+}
+
+/** Intel GPU claims used by a pod, matched by name or by reservation */
+export function getPodIntelGpuClaims(pod: IntelGpuPod, claims: ResourceClaim[]): ResourceClaim[] {
+  const namespace = pod.metadata.namespace ?? 'default';
+  const names = new Set(getPodResourceClaimNames(pod));
+  return claims.filter(claim => {
+    if ((claim.metadata.namespace ?? 'default') !== namespace) return false;
+    if (names.has(claim.metadata.name)) return true;
+    return (claim.status?.reservedFor ?? []).some(
+      r => r.resource === 'pods' && !!pod.metadata.uid && r.uid === pod.metadata.uid
+    );
+  });
+}
+
+export function getNodeIntelGpuSlices(
+  node: IntelGpuNode,
+  slices: ResourceSlice[]
+): ResourceSlice[] {
+  return slices.filter(s => s.spec.nodeName === node.metadata.name);
+}
+
+export interface DraDeviceAllocation {
+  claim: ResourceClaim;
+  result: DraAllocationResult;
+}
+
+/** Claim results whose device lives in one of the node's slices */
+export function getNodeDraAllocations(
+  node: IntelGpuNode,
+  slices: ResourceSlice[],
+  claims: ResourceClaim[]
+): DraDeviceAllocation[] {
+  const nodeDevices = new Set<string>();
+  for (const slice of getNodeIntelGpuSlices(node, slices)) {
+    for (const device of slice.spec.devices ?? []) {
+      nodeDevices.add(`${slice.spec.pool.name}/${device.name}`);
+    }
+  }
+
+  const allocations: DraDeviceAllocation[] = [];
+  for (const claim of claims) {
+    for (const result of getClaimIntelGpuResults(claim)) {
+      if (nodeDevices.has(`${result.pool}/${result.device}`)) {
+        allocations.push({ claim, result });
+      }
+    }
+  }
+  return allocations;
+}
+
+/** Nodes without GPU labels or extended resources that publish Intel GPU slices */
+export function filterDraGpuNodes(items: unknown[], slices: ResourceSlice[]): IntelGpuNode[] {
+  const nodeNames = new Set(slices.map(s => s.spec.nodeName).filter(Boolean));
+  return items.filter((item): item is IntelGpuNode => {
+    const name = (item as IntelGpuNode | null)?.metadata?.name;
+    return !!name && nodeNames.has(name);
+  });
+}
+
+/** Pods that use at least one Intel GPU claim */
+export function filterDraGpuPods(items: unknown[], claims: ResourceClaim[]): IntelGpuPod[] {
+  if (claims.length === 0) return [];
+  return items.filter((item): item is IntelGpuPod => {
+    const pod = item as IntelGpuPod | null;
+    if (!pod?.metadata?.name) return false;
+    return getPodIntelGpuClaims(pod, claims).length > 0;
+  });
+}
@@ -4,26 +4,54 @@
 
 import { describe, expect, it } from 'vitest';
 import {
+  classifyNodeGpu,
+  computeClusterGpuAllocation,
+  computeNamespaceGpuQuotas,
+  computeNodeCardOccupancy,
+  computeNodeGpuAllocation,
   filterGpuRequestingPods,
   filterIntelGpuNodes,
+  filterPluginPodsFromSource,
   formatAge,
+  formatDevicePluginSpecValue,
+  formatDuration,
+  formatGpuAllocationValue,
+  formatGpuProduct,
   formatGpuResourceName,
+  formatGpuResourceValue,
   formatGpuType,
+  formatPodGpuRequests,
+  getNodeGpuAllocationHolders,
+  getNodeGpuCards,
   getNodeGpuCount,
+  getNodeGpuInventory,
   getNodeGpuType,
+  getPluginPodSources,
+  getPodGasAssignment,
+  getPodGasCards,
   getPodGpuRequests,
+  getPodOwner,
+  getQuotaGpuResource,
   type GpuDevicePlugin,
+  INTEL_DEVICE_PLUGIN_KIND_NAMES,
+  INTEL_DEVICE_PLUGIN_KINDS,
+  INTEL_GPU_MEMORY_RESOURCE,
+  INTEL_GPU_MILLICORES_RESOURCE,
   INTEL_GPU_NODE_LABEL,
   INTEL_GPU_RESOURCE,
   INTEL_GPU_XE_RESOURCE,
   type IntelGpuNode,
   type IntelGpuPod,
   isGpuRequestingPod,
+  isIntelDevicePlugin,
   isIntelGpuNode,
   isKubeList,
   isNodeReady,
+  isPodHoldingGpu,
+  type KubeResourceQuota,
   pluginStatusText,
   pluginStatusToStatus,
+  summarizeGpuAllocation,
 } from './k8s';
 
 // ---------------------------------------------------------------------------
@@ -161,6 +189,83 @@ describe('getNodeGpuType', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// classifyNodeGpu
+// ---------------------------------------------------------------------------
+
+describe('classifyNodeGpu', () => {
+  function makeNfdNode(labels: Record<string, string>, capacity: Record<string, string> = {}) {
+    return makeNode({ metadata: { name: 'nfd-node', labels }, status: { capacity } });
+  }
+
+  it('classifies known PCI device IDs', () => {
+    const flex = makeNfdNode({ 'gpu.intel.com/device-id.0380-56c0.present': 'true' });
+    const igpu = makeNfdNode({ 'gpu.intel.com/device-id.0300-4680.present': 'true' });
+    expect(classifyNodeGpu(flex).type).toBe('discrete');
+    expect(classifyNodeGpu(flex).evidence[0]).toMatchObject({
+      source: 'pci-id',
+      suggests: 'discrete',
+    });
+    expect(classifyNodeGpu(igpu).type).toBe('integrated');
+  });
+
+  it('treats a local memory label as discrete evidence', () => {
+    const node = makeNfdNode({ 'gpu.intel.com/memory.max': '17179869184' });
+    const result = classifyNodeGpu(node);
+    expect(result.type).toBe('discrete');
+    expect(result.evidence.map(e => e.source)).toEqual(['local-memory']);
+  });
+
+  it('ignores the local memory label when the PCI device ID is known', () => {
+    const node = makeNfdNode({
+      'gpu.intel.com/device-id.0300-4680.present': 'true',
+      'gpu.intel.com/memory.max': '268435456',
+    });
+    const result = classifyNodeGpu(node);
+    expect(result.type).toBe('integrated');
+    expect(result.evidence.map(e => e.source)).toEqual(['pci-id']);
+  });
+
+  it('records the driver without deciding the type', () => {
+    // e.g. a Lunar Lake iGPU on xe whose PCI device ID NFD did not label
+    const xe = makeNfdNode({}, { [INTEL_GPU_XE_RESOURCE]: '1' });
+    const i915 = makeNfdNode({}, { [INTEL_GPU_RESOURCE]: '1' });
+    expect(classifyNodeGpu(xe).type).toBe('unknown');
+    expect(classifyNodeGpu(xe).evidence).toEqual([
+      expect.objectContaining({ source: 'driver', suggests: 'unknown' }),
+    ]);
+    expect(classifyNodeGpu(i915).type).toBe('unknown');
+    expect(classifyNodeGpu(i915).evidence[0]).toMatchObject({
+      source: 'driver',
+      suggests: 'unknown',
+    });
+  });
+
+  it('lets user mappings override every other source', () => {
+    const node = makeNfdNode({
+      'node-role.kubernetes.io/gpu': 'true',
+      'gpu.intel.com/device-id.0300-abcd.present': 'true',
+    });
+    expect(classifyNodeGpu(node).type).toBe('discrete');
+    const result = classifyNodeGpu(node, { ABCD: 'integrated' });
+    expect(result.type).toBe('integrated');
+    expect(result.evidence[0].source).toBe('mapping');
+  });
+
+  it('maps by product name', () => {
+    const node = makeNfdNode({ 'gpu.intel.com/product': 'Custom_Board' });
+    expect(getNodeGpuType(node, { 'custom board': 'integrated' })).toBe('integrated');
+  });
+
+  it('reports discrete when the strongest source sees both kinds', () => {
+    const node = makeNfdNode({
+      'gpu.intel.com/device-id.0300-4680.present': 'true',
+      'gpu.intel.com/device-id.0300-56a0.present': 'true',
+    });
+    expect(classifyNodeGpu(node).type).toBe('discrete');
+  });
+});
+
 // ---------------------------------------------------------------------------
 // getNodeGpuCount
 // ---------------------------------------------------------------------------
@@ -192,6 +297,11 @@ describe('getNodeGpuCount', () => {
     expect(getNodeGpuCount(node)).toBe(3);
   });
 
+  it('returns 0 for malformed GPU capacity', () => {
+    const node = makeNode({ status: { capacity: { [INTEL_GPU_RESOURCE]: 'many' } } });
+    expect(getNodeGpuCount(node)).toBe(0);
+  });
+
   it('returns 0 for nodes with no GPU capacity', () => {
     const node = makeNode({ status: { capacity: { cpu: '8' } } });
     expect(getNodeGpuCount(node)).toBe(0);
@@ -319,6 +429,421 @@ describe('getPodGpuRequests', () => {
     const requests = getPodGpuRequests(pod);
     expect(requests[INTEL_GPU_RESOURCE]).toBe('3');
   });
+
+  it('sums memory quantities without truncating suffixes', () => {
+    const pod: IntelGpuPod = {
+      apiVersion: 'v1',
+      kind: 'Pod',
+      metadata: { name: 'mem' },
+      spec: {
+        containers: [
+          { name: 'a', resources: { requests: { [INTEL_GPU_MEMORY_RESOURCE]: '8Gi' } } },
+          { name: 'b', resources: { requests: { [INTEL_GPU_MEMORY_RESOURCE]: '512Mi' } } },
+        ],
+      },
+    };
+    expect(getPodGpuRequests(pod)[INTEL_GPU_MEMORY_RESOURCE]).toBe('8.5Gi');
+  });
+
+  it('counts limits when no request is given', () => {
+    const pod: IntelGpuPod = {
+      apiVersion: 'v1',
+      kind: 'Pod',
+      metadata: { name: 'limits-only' },
+      spec: {
+        containers: [{ name: 'a', resources: { limits: { [INTEL_GPU_RESOURCE]: '1' } } }],
+      },
+    };
+    expect(getPodGpuRequests(pod)[INTEL_GPU_RESOURCE]).toBe('1');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GPU allocation engine
+// ---------------------------------------------------------------------------
+
+describe('GPU allocation', () => {
+  const GiB = 2 ** 30;
+
+  function makeSharedNode(name: string): IntelGpuNode {
+    const resources = {
+      [INTEL_GPU_RESOURCE]: '4',
+      [INTEL_GPU_MILLICORES_RESOURCE]: '2000',
+      [INTEL_GPU_MEMORY_RESOURCE]: '16Gi',
+    };
+    return makeNode({
+      metadata: { name },
+      status: { capacity: resources, allocatable: resources },
+    });
+  }
+
+  function makeSharedPod(nodeName: string, phase = 'Running'): IntelGpuPod {
+    return {
+      metadata: { name: `pod-on-${nodeName}`, namespace: 'default' },
+      spec: {
+        nodeName,
+        containers: [
+          {
+            name: 'a',
+            resources: {
+              requests: {
+                [INTEL_GPU_RESOURCE]: '1',
+                [INTEL_GPU_MILLICORES_RESOURCE]: '500',
+                [INTEL_GPU_MEMORY_RESOURCE]: '4Gi',
+              },
+            },
+          },
+        ],
+      },
+      status: { phase },
+    };
+  }
+
+  it('computes used/allocatable per resource for a node', () => {
+    const allocation = computeNodeGpuAllocation(makeSharedNode('n1'), [makeSharedPod('n1')]);
+    expect(allocation[INTEL_GPU_RESOURCE]).toEqual({ capacity: 4, allocatable: 4, used: 1 });
+    expect(allocation[INTEL_GPU_MILLICORES_RESOURCE].used).toBe(500);
+    expect(allocation[INTEL_GPU_MEMORY_RESOURCE]).toEqual({
+      capacity: 16 * GiB,
+      allocatable: 16 * GiB,
+      used: 4 * GiB,
+    });
+  });
+
+  it('ignores pods on other nodes and pods that are not running', () => {
+    const allocation = computeNodeGpuAllocation(makeSharedNode('n1'), [
+      makeSharedPod('n2'),
+      makeSharedPod('n1', 'Succeeded'),
+    ]);
+    expect(allocation[INTEL_GPU_RESOURCE].used).toBe(0);
+  });
+
+  it('counts Pending pods already bound to the node', () => {
+    const allocation = computeNodeGpuAllocation(makeSharedNode('n1'), [
+      makeSharedPod('n1', 'Pending'),
+    ]);
+    expect(allocation[INTEL_GPU_RESOURCE].used).toBe(1);
+  });
+
+  it('lists holders with their effective requests', () => {
+    const holders = getNodeGpuAllocationHolders(makeSharedNode('n1'), [
+      makeSharedPod('n1'),
+      makeSharedPod('n1', 'Failed'),
+    ]);
+    expect(holders).toHaveLength(1);
+    expect(holders[0].requests[INTEL_GPU_MILLICORES_RESOURCE]).toBe(500);
+  });
+
+  it('uses the largest init container when it exceeds app containers', () => {
+    const pod = makeSharedPod('n1');
+    pod.spec!.initContainers = [
+      { name: 'init', resources: { limits: { [INTEL_GPU_MILLICORES_RESOURCE]: '800' } } },
+    ];
+    const allocation = computeNodeGpuAllocation(makeSharedNode('n1'), [pod]);
+    expect(allocation[INTEL_GPU_MILLICORES_RESOURCE].used).toBe(800);
+  });
+
+  it('sums allocation across the cluster and groups by category', () => {
+    const allocation = computeClusterGpuAllocation(
+      [makeSharedNode('n1'), makeSharedNode('n2')],
+      [makeSharedPod('n1'), makeSharedPod('n2')]
+    );
+    const summary = summarizeGpuAllocation(allocation);
+    expect(summary.devices).toEqual({ capacity: 8, allocatable: 8, used: 2 });
+    expect(summary.millicores).toEqual({ capacity: 4000, allocatable: 4000, used: 1000 });
+    expect(summary.memory?.used).toBe(8 * GiB);
+  });
+
+  it('groups i915 and xe devices together', () => {
+    const node = makeNode({
+      status: { capacity: { [INTEL_GPU_RESOURCE]: '1', [INTEL_GPU_XE_RESOURCE]: '2' } },
+    });
+    const summary = summarizeGpuAllocation(computeNodeGpuAllocation(node, []));
+    expect(summary.devices?.allocatable).toBe(3);
+    expect(summary.millicores).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatGpuAllocationValue / formatGpuResourceValue
+// ---------------------------------------------------------------------------
+
+describe('formatGpuAllocationValue', () => {
+  it('formats memory as bytes and other categories as counts', () => {
+    expect(formatGpuAllocationValue('memory', 2 ** 30)).toBe('1 GiB');
+    expect(formatGpuAllocationValue('millicores', 500)).toBe('500');
+  });
+});
+
+describe('formatGpuResourceValue', () => {
+  it('formats memory quantities in binary units', () => {
+    expect(formatGpuResourceValue(INTEL_GPU_MEMORY_RESOURCE, '17179869184')).toBe('16 GiB');
+    expect(formatGpuResourceValue(INTEL_GPU_MEMORY_RESOURCE, '512Mi')).toBe('512 MiB');
+  });
+
+  it('leaves counts and unparseable values readable', () => {
+    expect(formatGpuResourceValue(INTEL_GPU_RESOURCE, '2')).toBe('2');
+    expect(formatGpuResourceValue(INTEL_GPU_RESOURCE, 'n/a')).toBe('n/a');
+    expect(formatGpuResourceValue(INTEL_GPU_RESOURCE, undefined)).toBe('—');
+  });
+});
+
+describe('formatPodGpuRequests', () => {
+  it('lists requests by short resource name', () => {
+    const pod = makeGpuPod(INTEL_GPU_MILLICORES_RESOURCE, '500');
+    pod.spec!.containers[0].resources!.requests![INTEL_GPU_RESOURCE] = '1';
+    expect(formatPodGpuRequests(pod)).toBe('millicores: 500, i915: 1');
+    expect(formatPodGpuRequests({ metadata: { name: 'cpu-only' } })).toBe('');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// isPodHoldingGpu
+// ---------------------------------------------------------------------------
+
+describe('isPodHoldingGpu', () => {
+  it('returns true for running pods', () => {
+    expect(isPodHoldingGpu(makeGpuPod())).toBe(true);
+  });
+
+  it('returns true for pending pods bound to a node', () => {
+    const pod = makeGpuPod();
+    pod.status = { phase: 'Pending' };
+    expect(isPodHoldingGpu(pod)).toBe(true);
+  });
+
+  it('returns false for unscheduled pending pods', () => {
+    const pod = makeGpuPod();
+    pod.spec!.nodeName = undefined;
+    pod.status = { phase: 'Pending' };
+    expect(isPodHoldingGpu(pod)).toBe(false);
+  });
+
+  it('returns false for completed pods', () => {
+    const pod = makeGpuPod();
+    pod.status = { phase: 'Succeeded' };
+    expect(isPodHoldingGpu(pod)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getPodOwner
+// ---------------------------------------------------------------------------
+
+describe('getPodOwner', () => {
+  it('prefers the controller owner and returns null for bare pods', () => {
+    const pod = makeGpuPod();
+    expect(getPodOwner(pod)).toBeNull();
+    pod.metadata.ownerReferences = [
+      { kind: 'ConfigMap', name: 'settings' },
+      { kind: 'Job', name: 'train-42', controller: true },
+    ];
+    expect(getPodOwner(pod)).toBe('Job/train-42');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GPU Aware Scheduling
+// ---------------------------------------------------------------------------
+
+describe('GPU Aware Scheduling', () => {
+  function makeGasPod(annotations: Record<string, string>): IntelGpuPod {
+    return {
+      metadata: { name: 'gas-pod', namespace: 'default', annotations },
+      spec: {
+        nodeName: 'gpu-node',
+        containers: [
+          { name: 'sidecar' },
+          { name: 'worker', resources: { requests: { [INTEL_GPU_RESOURCE]: '2' } } },
+        ],
+      },
+      status: { phase: 'Running' },
+    };
+  }
+
+  it('returns null for pods without GAS annotations', () => {
+    expect(getPodGasAssignment(makeGpuPod())).toBeNull();
+  });
+
+  it('maps per-container cards and tiles in spec order', () => {
+    const assignment = getPodGasAssignment(
+      makeGasPod({
+        'gas-container-cards': '|card0,card1',
+        'gas-container-tiles': '|card0:gt0+gt1,card1:gt1',
+        'gas-ts': '1742551200000000000',
+      })
+    );
+    expect(assignment?.containers).toEqual([
+      {
+        containerName: 'worker',
+        cards: ['card0', 'card1'],
+        tiles: { card0: ['gt0', 'gt1'], card1: ['gt1'] },
+      },
+    ]);
+    expect(assignment?.assignedAt).toBe('2025-03-21T10:00:00.000Z');
+  });
+
+  it('lists each assigned card once across containers', () => {
+    const pod = makeGasPod({ 'gas-container-cards': 'card1|card0,card1' });
+    expect(getPodGasCards(pod)).toEqual(['card1', 'card0']);
+    expect(getPodGasCards(makeGpuPod())).toEqual([]);
+  });
+
+  it('reads node cards from the cards or gpu-numbers label', () => {
+    const byCards = makeNode({
+      metadata: { name: 'a', labels: { 'gpu.intel.com/cards': 'card0.card1' } },
+    });
+    const byNumbers = makeNode({
+      metadata: { name: 'b', labels: { 'gpu.intel.com/gpu-numbers': '0.2' } },
+    });
+    expect(getNodeGpuCards(byCards)).toEqual(['card0', 'card1']);
+    expect(getNodeGpuCards(byNumbers)).toEqual(['card0', 'card2']);
+  });
+
+  it('derives per-card occupancy from pods on the node', () => {
+    const node = makeNode({
+      metadata: {
+        name: 'gpu-node',
+        labels: { 'gpu.intel.com/cards': 'card0.card1.card2', 'gpu.intel.com/tiles': '2' },
+      },
+    });
+    const occupancy = computeNodeCardOccupancy(node, [
+      makeGasPod({ 'gas-container-cards': '|card0,card1' }),
+    ]);
+    expect(occupancy.map(c => [c.card, c.occupants.length])).toEqual([
+      ['card0', 1],
+      ['card1', 1],
+      ['card2', 0],
+    ]);
+    expect(occupancy[0].tileCount).toBe(2);
+    expect(occupancy[0].occupants[0].containerName).toBe('worker');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GPU resource quotas
+// ---------------------------------------------------------------------------
+
+describe('GPU resource quotas', () => {
+  function makeQuota(
+    name: string,
+    namespace: string,
+    hard: Record<string, string>,
+    used?: Record<string, string>
+  ): KubeResourceQuota {
+    return {
+      metadata: { name, namespace },
+      spec: { hard },
+      status: used ? { hard, used } : undefined,
+    };
+  }
+
+  function makeNamespacedPod(namespace: string, amount: string, phase = 'Running'): IntelGpuPod {
+    const pod = makeGpuPod(INTEL_GPU_MILLICORES_RESOURCE, amount);
+    return { ...pod, metadata: { ...pod.metadata, namespace }, status: { phase } };
+  }
+
+  it('recognizes GPU quota items with or without the requests. prefix', () => {
+    expect(getQuotaGpuResource('requests.gpu.intel.com/i915')).toBe(INTEL_GPU_RESOURCE);
+    expect(getQuotaGpuResource('gpu.intel.com/millicores')).toBe(INTEL_GPU_MILLICORES_RESOURCE);
+    expect(getQuotaGpuResource('requests.cpu')).toBeNull();
+  });
+
+  it('reports the tightest quota, live requests and headroom per namespace', () => {
+    const namespaces = computeNamespaceGpuQuotas(
+      [
+        makeQuota(
+          'team-wide',
+          'ml',
+          { 'requests.gpu.intel.com/millicores': '4000', 'requests.cpu': '64' },
+          { 'requests.gpu.intel.com/millicores': '1500' }
+        ),
+        makeQuota(
+          'gpu-cap',
+          'ml',
+          { 'requests.gpu.intel.com/millicores': '2000' },
+          { 'requests.gpu.intel.com/millicores': '1500' }
+        ),
+        makeQuota('cpu-only', 'web', { 'requests.cpu': '8' }, { 'requests.cpu': '2' }),
+      ],
+      [
+        makeNamespacedPod('ml', '1000'),
+        makeNamespacedPod('ml', '500', 'Pending'),
+        makeNamespacedPod('ml', '700', 'Succeeded'),
+        makeNamespacedPod('batch', '250'),
+      ]
+    );
+
+    expect(namespaces.map(ns => ns.namespace)).toEqual(['batch', 'ml']);
+    expect(namespaces[0]).toEqual({
+      namespace: 'batch',
+      quotas: [],
+      requests: { [INTEL_GPU_MILLICORES_RESOURCE]: 250 },
+      podCount: 1,
+    });
+    expect(namespaces[1].podCount).toBe(2);
+    expect(namespaces[1].requests).toEqual({ [INTEL_GPU_MILLICORES_RESOURCE]: 1500 });
+    expect(namespaces[1].quotas).toEqual([
+      {
+        resource: INTEL_GPU_MILLICORES_RESOURCE,
+        quotaName: 'gpu-cap',
+        hard: 2000,
+        used: 1500,
+        headroom: 500,
+      },
+    ]);
+  });
+
+  it('falls back to live requests until the quota status is filled in', () => {
+    const [ns] = computeNamespaceGpuQuotas(
+      [makeQuota('new', 'ml', { 'requests.gpu.intel.com/millicores': '1000' })],
+      [makeNamespacedPod('ml', '1200')]
+    );
+    expect(ns.quotas[0]).toMatchObject({ used: 1200, headroom: 0 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// getNodeGpuInventory
+// ---------------------------------------------------------------------------
+
+describe('getNodeGpuInventory', () => {
+  it('decodes NFD GPU labels into a device inventory', () => {
+    const node = makeNode({
+      metadata: {
+        name: 'flex-node',
+        labels: {
+          'gpu.intel.com/device-id.0380-56c0.present': 'true',
+          'gpu.intel.com/device-id.0380-56c0.count': '2',
+          'gpu.intel.com/product': 'Flex_170',
+          'gpu.intel.com/family': 'Flex_Series',
+          'gpu.intel.com/memory.max': '17179869184',
+          'gpu.intel.com/millicores': '1000',
+          'gpu.intel.com/cards': 'card0.card1',
+          'gpu.intel.com/tiles': '1',
+        },
+      },
+    });
+    const inventory = getNodeGpuInventory(node);
+    expect(inventory).toEqual({
+      product: 'Flex 170',
+      family: 'Flex Series',
+      pciDevices: [{ pciClass: '0380', deviceId: '56c0', count: 2 }],
+      cards: ['card0', 'card1'],
+      tilesPerCard: 1,
+      memoryBytes: 17179869184,
+      millicores: 1000,
+    });
+    expect(formatGpuProduct(inventory)).toBe('Flex 170 (Flex Series)');
+  });
+
+  it('returns an empty inventory for unlabelled nodes', () => {
+    const inventory = getNodeGpuInventory(makeGpuNode());
+    expect(inventory.pciDevices).toEqual([]);
+    expect(inventory.cards).toEqual([]);
+    expect(inventory.memoryBytes).toBeNull();
+    expect(formatGpuProduct(inventory)).toBeNull();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -368,6 +893,17 @@ describe('formatAge', () => {
   });
 });
 
+describe('formatDuration', () => {
+  it('uses the largest whole unit', () => {
+    expect([45, 600, 3 * 3600 + 59, 9 * 86400].map(formatDuration)).toEqual([
+      '45s',
+      '10m',
+      '3h',
+      '9d',
+    ]);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // formatGpuResourceName
 // ---------------------------------------------------------------------------
@@ -471,3 +1007,85 @@ describe('pluginStatusText', () => {
     expect(pluginStatusText(plugin)).toBe('No nodes scheduled');
   });
 });
+
+// ---------------------------------------------------------------------------
+// Intel device plugin kind registry
+// ---------------------------------------------------------------------------
+
+describe('Intel device plugin kinds', () => {
+  it('registers every operator kind with a plural resource name', () => {
+    expect(INTEL_DEVICE_PLUGIN_KIND_NAMES).toEqual([
+      'GpuDevicePlugin',
+      'QatDevicePlugin',
+      'SgxDevicePlugin',
+      'DsaDevicePlugin',
+      'IaaDevicePlugin',
+      'DlbDevicePlugin',
+      'FpgaDevicePlugin',
+    ]);
+    for (const kind of INTEL_DEVICE_PLUGIN_KIND_NAMES) {
+      expect(INTEL_DEVICE_PLUGIN_KINDS[kind].plural).toBe(`${kind.toLowerCase()}s`);
+    }
+  });
+
+  it('recognises plugin objects of any registered kind', () => {
+    expect(
+      isIntelDevicePlugin({ kind: 'QatDevicePlugin', metadata: { name: 'q' }, spec: {} })
+    ).toBe(true);
+    expect(isIntelDevicePlugin({ kind: 'Deployment', metadata: { name: 'd' }, spec: {} })).toBe(
+      false
+    );
+    expect(isIntelDevicePlugin({ kind: 'SgxDevicePlugin', metadata: { name: 's' } })).toBe(false);
+  });
+
+  it('formats spec values for display', () => {
+    expect(formatDevicePluginSpecValue(['vfio-pci', '4xxxvf'])).toBe('vfio-pci, 4xxxvf');
+    expect(formatDevicePluginSpecValue({ 'intel.feature.node.kubernetes.io/qat': 'true' })).toBe(
+      'intel.feature.node.kubernetes.io/qat=true'
+    );
+    expect(formatDevicePluginSpecValue(true)).toBe('Enabled');
+    expect(formatDevicePluginSpecValue(20)).toBe('20');
+    expect(formatDevicePluginSpecValue(undefined, 'default')).toBe('default');
+    expect(formatDevicePluginSpecValue([])).toBe('—');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Plugin pod discovery
+// ---------------------------------------------------------------------------
+
+describe('getPluginPodSources', () => {
+  it('lists the built-in selectors and operator namespace by default', () => {
+    expect(getPluginPodSources().map(s => s.url)).toEqual([
+      '/api/v1/pods?labelSelector=app%3Dintel-gpu-plugin',
+      '/api/v1/pods?labelSelector=app.kubernetes.io%2Fname%3Dintel-gpu-plugin',
+      '/api/v1/namespaces/inteldeviceplugins-system/pods',
+    ]);
+  });
+
+  it('adds configured namespaces and selectors without duplicates', () => {
+    const sources = getPluginPodSources(
+      ['app=custom-gpu', 'app=custom-gpu'],
+      ['kube-system', 'inteldeviceplugins-system']
+    );
+    expect(sources.slice(3)).toEqual([
+      { url: '/api/v1/namespaces/kube-system/pods', fromUserSelector: false },
+      { url: '/api/v1/pods?labelSelector=app%3Dcustom-gpu', fromUserSelector: true },
+    ]);
+  });
+});
+
+describe('filterPluginPodsFromSource', () => {
+  const customPod = { metadata: { name: 'custom', labels: { app: 'custom-gpu' } } };
+  const pluginPod = { metadata: { name: 'plugin', labels: { app: 'intel-gpu-plugin' } } };
+
+  it('requires a known plugin label for built-in sources', () => {
+    const [builtIn] = getPluginPodSources();
+    expect(filterPluginPodsFromSource([customPod, pluginPod], builtIn)).toEqual([pluginPod]);
+  });
+
+  it('keeps every pod matched by a configured selector', () => {
+    const source = { url: '/api/v1/pods?labelSelector=app%3Dcustom-gpu', fromUserSelector: true };
+    expect(filterPluginPodsFromSource([customPod, 'junk'], source)).toEqual([customPod]);
+  });
+});
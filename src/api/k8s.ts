@@ -5,6 +5,16 @@
  * External data from the API is validated at the boundary before use.
  */
 
+import {
+  addQuantities,
+  compareQuantities,
+  formatBytes,
+  formatQuantity,
+  parseQuantity,
+  Quantity,
+  quantityToNumber,
+} from './quantity';
+
 // ---------------------------------------------------------------------------
 // Intel GPU device plugin constants
 // ---------------------------------------------------------------------------
@@ -30,6 +40,25 @@ export const INTEL_INTEGRATED_GPU_NODE_ROLE = 'node-role.kubernetes.io/igpu';
 /** Label selector for Intel GPU device plugin DaemonSet pods */
 export const INTEL_GPU_PLUGIN_LABEL_SELECTOR = 'app=intel-gpu-plugin';
 
+/** Pod annotations written by Intel GPU Aware Scheduling (GAS) */
+export const GAS_CONTAINER_CARDS_ANNOTATION = 'gas-container-cards';
+export const GAS_CONTAINER_TILES_ANNOTATION = 'gas-container-tiles';
+export const GAS_TIMESTAMP_ANNOTATION = 'gas-ts';
+
+/** Node labels consumed by GAS to describe the node's cards and tiles */
+export const INTEL_GPU_CARDS_LABEL = 'gpu.intel.com/cards';
+export const INTEL_GPU_NUMBERS_LABEL = 'gpu.intel.com/gpu-numbers';
+export const INTEL_GPU_TILES_LABEL = 'gpu.intel.com/tiles';
+
+/** Per-GPU inventory labels published by the Intel NFD rules */
+export const INTEL_GPU_PRODUCT_LABEL = 'gpu.intel.com/product';
+export const INTEL_GPU_FAMILY_LABEL = 'gpu.intel.com/family';
+export const INTEL_GPU_MEMORY_LABEL = 'gpu.intel.com/memory.max';
+export const INTEL_GPU_MILLICORES_LABEL = 'gpu.intel.com/millicores';
+/** gpu.intel.com/device-id.<pci class>-<pci device id>.present / .count */
+export const INTEL_GPU_DEVICE_ID_LABEL_PATTERN =
+  /^gpu\.intel\.com\/device-id\.([0-9a-f]{4})-([0-9a-f]{4})\.(present|count)$/i;
+
 // ---------------------------------------------------------------------------
 // Generic Kubernetes object base shapes
 // ---------------------------------------------------------------------------
@@ -41,6 +70,13 @@ export interface KubeObjectMeta {
   labels?: Record<string, string>;
   annotations?: Record<string, string>;
   uid?: string;
+  ownerReferences?: OwnerReference[];
+}
+
+export interface OwnerReference {
+  kind: string;
+  name: string;
+  controller?: boolean;
 }
 
 export interface KubeObject {
@@ -85,6 +121,153 @@ export function isGpuDevicePlugin(value: unknown): value is GpuDevicePlugin {
   return obj['kind'] === 'GpuDevicePlugin';
 }
 
+// ---------------------------------------------------------------------------
+// Intel device plugin kind registry (deviceplugin.intel.com/v1)
+// ---------------------------------------------------------------------------
+
+/** Every plugin kind served by the Intel Device Plugins Operator */
+export type IntelDevicePluginKind =
+  | 'GpuDevicePlugin'
+  | 'QatDevicePlugin'
+  | 'SgxDevicePlugin'
+  | 'DsaDevicePlugin'
+  | 'IaaDevicePlugin'
+  | 'DlbDevicePlugin'
+  | 'FpgaDevicePlugin';
+
+/** Status block shared by all operator-managed plugin kinds */
+export type DevicePluginStatus = GpuDevicePluginStatus;
+
+export interface IntelDevicePlugin extends KubeObject {
+  spec: {
+    image?: string;
+    nodeSelector?: Record<string, string>;
+    [key: string]: unknown;
+  };
+  status?: DevicePluginStatus;
+}
+
+export interface DevicePluginSpecField {
+  label: string;
+  /** Key under .spec */
+  key: string;
+  /** Shown when the field is unset */
+  fallback?: string;
+  /** Boolean switch, rendered as Enabled / Disabled */
+  toggle?: boolean;
+}
+
+export interface IntelDevicePluginKindInfo {
+  kind: IntelDevicePluginKind;
+  /** Resource name in the API path, e.g. "qatdeviceplugins" */
+  plural: string;
+  /** Short accelerator name, e.g. "QAT" */
+  device: string;
+  /** Kind-specific spec fields; image and node selector are common to all */
+  specFields: DevicePluginSpecField[];
+}
+
+const SHARED_DEV_NUM_FIELD: DevicePluginSpecField = {
+  label: 'Shared Devices/Node',
+  key: 'sharedDevNum',
+  fallback: '1',
+};
+const ALLOCATION_POLICY_FIELD: DevicePluginSpecField = {
+  label: 'Allocation Policy',
+  key: 'preferredAllocationPolicy',
+  fallback: 'default',
+};
+const PROVISIONING_CONFIG_FIELD: DevicePluginSpecField = {
+  label: 'Provisioning Config',
+  key: 'provisioningConfig',
+};
+const INIT_IMAGE_FIELD: DevicePluginSpecField = { label: 'Init Image', key: 'initImage' };
+
+export const INTEL_DEVICE_PLUGIN_KINDS: Record<IntelDevicePluginKind, IntelDevicePluginKindInfo> = {
+  GpuDevicePlugin: {
+    kind: 'GpuDevicePlugin',
+    plural: 'gpudeviceplugins',
+    device: 'GPU',
+    specFields: [
+      SHARED_DEV_NUM_FIELD,
+      ALLOCATION_POLICY_FIELD,
+      { label: 'Monitoring', key: 'enableMonitoring', toggle: true },
+      { label: 'Resource Manager', key: 'resourceManager', toggle: true },
+    ],
+  },
+  QatDevicePlugin: {
+    kind: 'QatDevicePlugin',
+    plural: 'qatdeviceplugins',
+    device: 'QAT',
+    specFields: [
+      { label: 'Kernel VF Drivers', key: 'kernelVfDrivers' },
+      { label: 'DPDK Driver', key: 'dpdkDriver' },
+      { label: 'Max Devices', key: 'maxNumDevices' },
+      ALLOCATION_POLICY_FIELD,
+      PROVISIONING_CONFIG_FIELD,
+    ],
+  },
+  SgxDevicePlugin: {
+    kind: 'SgxDevicePlugin',
+    plural: 'sgxdeviceplugins',
+    device: 'SGX',
+    specFields: [
+      { label: 'Enclave Limit', key: 'enclaveLimit' },
+      { label: 'Provision Limit', key: 'provisionLimit' },
+    ],
+  },
+  DsaDevicePlugin: {
+    kind: 'DsaDevicePlugin',
+    plural: 'dsadeviceplugins',
+    device: 'DSA',
+    specFields: [SHARED_DEV_NUM_FIELD, PROVISIONING_CONFIG_FIELD, INIT_IMAGE_FIELD],
+  },
+  IaaDevicePlugin: {
+    kind: 'IaaDevicePlugin',
+    plural: 'iaadeviceplugins',
+    device: 'IAA',
+    specFields: [SHARED_DEV_NUM_FIELD, PROVISIONING_CONFIG_FIELD, INIT_IMAGE_FIELD],
+  },
+  DlbDevicePlugin: {
+    kind: 'DlbDevicePlugin',
+    plural: 'dlbdeviceplugins',
+    device: 'DLB',
+    specFields: [INIT_IMAGE_FIELD],
+  },
+  FpgaDevicePlugin: {
+    kind: 'FpgaDevicePlugin',
+    plural: 'fpgadeviceplugins',
+    device: 'FPGA',
+    specFields: [INIT_IMAGE_FIELD, { label: 'Mode', key: 'mode', fallback: 'af' }],
+  },
+};
+
+export const INTEL_DEVICE_PLUGIN_KIND_NAMES = Object.keys(
+  INTEL_DEVICE_PLUGIN_KINDS
+) as IntelDevicePluginKind[];
+
+export function isIntelDevicePluginKind(kind: unknown): kind is IntelDevicePluginKind {
+  return typeof kind === 'string' && kind in INTEL_DEVICE_PLUGIN_KINDS;
+}
+
+export function isIntelDevicePlugin(value: unknown): value is IntelDevicePlugin {
+  if (!value || typeof value !== 'object') return false;
+  const obj = value as Record<string, unknown>;
+  return isIntelDevicePluginKind(obj['kind']) && !!obj['spec'] && typeof obj['spec'] === 'object';
+}
+
+/** Display a spec value: booleans as Enabled/Disabled, lists joined, objects as key=value */
+export function formatDevicePluginSpecValue(value: unknown, fallback = '—'): string {
+  if (value === undefined || value === null || value === '') return fallback;
+  if (typeof value === 'boolean') return value ? 'Enabled' : 'Disabled';
+  if (Array.isArray(value)) return value.length > 0 ? value.map(String).join(', ') : fallback;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    return entries.length > 0 ? entries.map(([k, v]) => `${k}=${String(v)}`).join(', ') : fallback;
+  }
+  return String(value);
+}
+
 // ---------------------------------------------------------------------------
 // Node (with GPU resource fields)
 // ---------------------------------------------------------------------------
@@ -172,23 +355,18 @@ export function getNodeGpuCount(node: IntelGpuNode): number {
   const capacity = node.status?.capacity ?? {};
   let count = 0;
   for (const [key, value] of Object.entries(capacity)) {
-    if ((key === INTEL_GPU_RESOURCE || key === INTEL_GPU_XE_RESOURCE) && value) {
-      count += parseInt(value, 10) || 0;
+    if (key === INTEL_GPU_RESOURCE || key === INTEL_GPU_XE_RESOURCE) {
+      count += quantityToNumber(value);
     }
   }
   return count;
 }
 
-/** Determine GPU type from node labels */
 export type GpuType = 'discrete' | 'integrated' | 'unknown';
 
-export function getNodeGpuType(node: IntelGpuNode): GpuType {
-  const labels = node.metadata.labels ?? {};
-  if (labels[INTEL_DISCRETE_GPU_NODE_ROLE] === 'true') return 'discrete';
-  if (labels[INTEL_INTEGRATED_GPU_NODE_ROLE] === 'true') return 'integrated';
-  // Fallback: check for generic Intel GPU label
-  if (labels[INTEL_GPU_NODE_LABEL] === 'true') return 'unknown';
-  return 'unknown';
+/** Determine GPU type of a node; see classifyNodeGpu for the evidence used */
+export function getNodeGpuType(node: IntelGpuNode, mappings: GpuTypeMappings = {}): GpuType {
+  return classifyNodeGpu(node, mappings).type;
 }
 
 export function formatGpuType(type: GpuType): string {
@@ -229,16 +407,26 @@ export interface ContainerStatus {
   };
 }
 
+export interface PodResourceClaim {
+  name: string;
+  resourceClaimName?: string;
+  resourceClaimTemplateName?: string;
+}
+
 export interface PodSpec {
   nodeName?: string;
   containers?: ContainerSpec[];
   initContainers?: ContainerSpec[];
+  /** DRA claims referenced by the pod (resource.k8s.io) */
+  resourceClaims?: PodResourceClaim[];
 }
 
 export interface PodStatus {
   phase?: string;
   conditions?: Array<{ type: string; status: string }>;
   containerStatuses?: ContainerStatus[];
+  /** Names of the ResourceClaims generated from templates, per pod claim */
+  resourceClaimStatuses?: Array<{ name: string; resourceClaimName?: string }>;
 }
 
 export interface IntelGpuPod extends KubeObject {
@@ -285,19 +473,116 @@ export function filterIntelGpuPluginPods(items: unknown[]): IntelGpuPod[] {
   return items.filter(isIntelGpuPluginPod);
 }
 
-/** Get total GPU requests from a pod's containers */
+// ---------------------------------------------------------------------------
+// Plugin pod discovery
+// ---------------------------------------------------------------------------
+
+/** Namespace the Intel device plugins operator deploys plugin DaemonSets into */
+export const INTEL_DEVICE_PLUGINS_NAMESPACE = 'inteldeviceplugins-system';
+
+/** A pod list request used to find Intel GPU device plugin pods */
+export interface PluginPodSource {
+  url: string;
+  /**
+   * True for user-configured label selectors, whose pods are all taken as
+   * plugin pods; pods from other sources must carry a known plugin label
+   */
+  fromUserSelector: boolean;
+}
+
+function podSelectorUrl(selector: string): string {
+  return `/api/v1/pods?labelSelector=${encodeURIComponent(selector)}`;
+}
+
+/**
+ * Pod list requests for plugin pods: the operator's label selector, the
+ * Helm chart's, the operator namespace, then any configured namespaces and
+ * label selectors.
+ */
+export function getPluginPodSources(
+  extraSelectors: string[] = [],
+  extraNamespaces: string[] = []
+): PluginPodSource[] {
+  const namespaces = [...new Set([INTEL_DEVICE_PLUGINS_NAMESPACE, ...extraNamespaces])];
+  const builtIn = [
+    podSelectorUrl(INTEL_GPU_PLUGIN_LABEL_SELECTOR),
+    podSelectorUrl('app.kubernetes.io/name=intel-gpu-plugin'),
+    ...namespaces.map(ns => `/api/v1/namespaces/${encodeURIComponent(ns)}/pods`),
+  ];
+  return [
+    ...builtIn.map(url => ({ url, fromUserSelector: false })),
+    ...[...new Set(extraSelectors)].map(selector => ({
+      url: podSelectorUrl(selector),
+      fromUserSelector: true,
+    })),
+  ];
+}
+
+/** Plugin pods among the items listed from a source */
+export function filterPluginPodsFromSource(
+  items: unknown[],
+  source: PluginPodSource
+): IntelGpuPod[] {
+  if (!source.fromUserSelector) return filterIntelGpuPluginPods(items);
+  return items.filter(
+    (item): item is IntelGpuPod => !!item && typeof item === 'object' && 'metadata' in item
+  );
+}
+
+/** Get total GPU requests from a pod's containers, in Kubernetes notation ("8Gi", "500") */
 export function getPodGpuRequests(pod: IntelGpuPod): Record<string, string> {
-  const totals: Record<string, number> = {};
-  const allContainers = [...(pod.spec?.containers ?? []), ...(pod.spec?.initContainers ?? [])];
-  for (const c of allContainers) {
-    const requests = c.resources?.requests ?? {};
-    for (const [key, value] of Object.entries(requests)) {
-      if (key.startsWith(INTEL_GPU_RESOURCE_PREFIX) && value) {
-        totals[key] = (totals[key] ?? 0) + (parseInt(value, 10) || 0);
-      }
+  return Object.fromEntries(
+    Object.entries(getPodGpuRequestQuantities(pod)).map(([k, q]) => [k, formatQuantity(q)])
+  );
+}
+
+/** Get total GPU requests from a pod's containers as numbers in base units */
+export function getPodGpuRequestAmounts(pod: IntelGpuPod): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(getPodGpuRequestQuantities(pod)).map(([k, q]) => [k, q.value])
+  );
+}
+
+/**
+ * Effective GPU requests of a pod, following the scheduler's rule: the larger
+ * of the summed app containers and the largest init container. A limit
+ * without a request counts as the request (extended resources require them
+ * to be equal).
+ */
+export function getPodGpuRequestQuantities(pod: IntelGpuPod): Record<string, Quantity> {
+  const effectiveRequests = (c: ContainerSpec): Array<[string, Quantity]> => {
+    const merged = { ...c.resources?.limits, ...c.resources?.requests };
+    const result: Array<[string, Quantity]> = [];
+    for (const [key, value] of Object.entries(merged)) {
+      const q = key.startsWith(INTEL_GPU_RESOURCE_PREFIX) ? parseQuantity(value) : null;
+      if (q) result.push([key, q]);
+    }
+    return result;
+  };
+
+  const totals: Record<string, Quantity> = {};
+  for (const c of pod.spec?.containers ?? []) {
+    for (const [key, q] of effectiveRequests(c)) {
+      totals[key] = totals[key] ? addQuantities(totals[key], q) : q;
+    }
+  }
+  for (const c of pod.spec?.initContainers ?? []) {
+    for (const [key, q] of effectiveRequests(c)) {
+      if (!totals[key] || compareQuantities(q, totals[key]) > 0) totals[key] = q;
     }
   }
-  return Object.fromEntries(Object.entries(totals).map(([k, v]) => [k, String(v)]));
+  return totals;
+}
+
+/**
+ * Returns true if the pod currently holds the GPU resources it requested:
+ * Running pods, and Pending pods already bound to a node (devices are
+ * allocated at admission, before containers start).
+ */
+export function isPodHoldingGpu(pod: IntelGpuPod): boolean {
+  if (!pod.spec?.nodeName) return false;
+  const phase = pod.status?.phase;
+  return phase === 'Running' || phase === 'Pending';
 }
 
 export function isPodReady(pod: IntelGpuPod): boolean {
@@ -308,6 +593,736 @@ export function getPodRestarts(pod: IntelGpuPod): number {
   return pod.status?.containerStatuses?.reduce((sum, c) => sum + c.restartCount, 0) ?? 0;
 }
 
+/** The pod's controller (or first owner) as "Kind/name", or null for bare pods */
+export function getPodOwner(pod: IntelGpuPod): string | null {
+  const owners = pod.metadata.ownerReferences ?? [];
+  const owner = owners.find(o => o.controller) ?? owners[0];
+  return owner ? `${owner.kind}/${owner.name}` : null;
+}
+
+// ---------------------------------------------------------------------------
+// GPU allocation engine
+// ---------------------------------------------------------------------------
+
+/** Groups of Intel GPU resources shown as separate allocation bars */
+export type GpuAllocationCategory = 'devices' | 'millicores' | 'memory';
+
+export const GPU_ALLOCATION_CATEGORIES: GpuAllocationCategory[] = [
+  'devices',
+  'millicores',
+  'memory',
+];
+
+export interface GpuResourceAllocation {
+  capacity: number;
+  allocatable: number;
+  /** Sum of requests from pods holding the resource */
+  used: number;
+}
+
+/** Allocation keyed by full resource name (e.g. "gpu.intel.com/millicores") */
+export type GpuAllocation = Record<string, GpuResourceAllocation>;
+
+export function getGpuAllocationCategory(resourceKey: string): GpuAllocationCategory | null {
+  switch (resourceKey) {
+    case INTEL_GPU_RESOURCE:
+    case INTEL_GPU_XE_RESOURCE:
+      return 'devices';
+    case INTEL_GPU_MILLICORES_RESOURCE:
+      return 'millicores';
+    case INTEL_GPU_MEMORY_RESOURCE:
+      return 'memory';
+    default:
+      return null;
+  }
+}
+
+/** Add one allocation entry into an accumulator keyed by resource or category */
+function accumulateAllocation<K extends string>(
+  target: Partial<Record<K, GpuResourceAllocation>>,
+  key: K,
+  entry: GpuResourceAllocation
+): void {
+  const existing = target[key] ?? { capacity: 0, allocatable: 0, used: 0 };
+  existing.capacity += entry.capacity;
+  existing.allocatable += entry.allocatable;
+  existing.used += entry.used;
+  target[key] = existing;
+}
+
+/** A pod holding GPU resources on a node, with the amount it holds */
+export interface GpuAllocationHolder {
+  pod: IntelGpuPod;
+  /** Effective requests per gpu.intel.com/* resource */
+  requests: Record<string, number>;
+}
+
+/** Pods on the node that currently hold GPU resources, with their requests */
+export function getNodeGpuAllocationHolders(
+  node: IntelGpuNode,
+  pods: IntelGpuPod[]
+): GpuAllocationHolder[] {
+  return pods
+    .filter(pod => pod.spec?.nodeName === node.metadata.name && isPodHoldingGpu(pod))
+    .map(pod => ({ pod, requests: getPodGpuRequestAmounts(pod) }))
+    .filter(holder => Object.keys(holder.requests).length > 0);
+}
+
+/** Used/allocatable for every gpu.intel.com/* resource on a node */
+export function computeNodeGpuAllocation(node: IntelGpuNode, pods: IntelGpuPod[]): GpuAllocation {
+  const capacity = getGpuResources(node.status?.capacity);
+  const allocatable = getGpuResources(node.status?.allocatable);
+
+  const allocation: GpuAllocation = {};
+  for (const key of new Set([...Object.keys(capacity), ...Object.keys(allocatable)])) {
+    allocation[key] = {
+      capacity: quantityToNumber(capacity[key]),
+      allocatable: quantityToNumber(allocatable[key] ?? capacity[key]),
+      used: 0,
+    };
+  }
+
+  for (const { requests } of getNodeGpuAllocationHolders(node, pods)) {
+    for (const [key, value] of Object.entries(requests)) {
+      accumulateAllocation(allocation, key, { capacity: 0, allocatable: 0, used: value });
+    }
+  }
+
+  return allocation;
+}
+
+/** Cluster-wide used/allocatable, summed over the given GPU nodes */
+export function computeClusterGpuAllocation(
+  nodes: IntelGpuNode[],
+  pods: IntelGpuPod[]
+): GpuAllocation {
+  const total: GpuAllocation = {};
+  for (const node of nodes) {
+    for (const [key, entry] of Object.entries(computeNodeGpuAllocation(node, pods))) {
+      accumulateAllocation(total, key, entry);
+    }
+  }
+  return total;
+}
+
+/**
+ * Collapse per-resource allocation into devices (i915 + xe), millicores and
+ * memory. Categories with no matching resource are omitted.
+ */
+export function summarizeGpuAllocation(
+  allocation: GpuAllocation
+): Partial<Record<GpuAllocationCategory, GpuResourceAllocation>> {
+  const summary: Partial<Record<GpuAllocationCategory, GpuResourceAllocation>> = {};
+  for (const [key, entry] of Object.entries(allocation)) {
+    const category = getGpuAllocationCategory(key);
+    if (category) accumulateAllocation(summary, category, entry);
+  }
+  return summary;
+}
+
+// ---------------------------------------------------------------------------
+// Intel GPU Aware Scheduling (GAS)
+// ---------------------------------------------------------------------------
+
+export interface GasContainerAssignment {
+  containerName: string;
+  /** Cards assigned to the container (e.g. ["card0", "card1"]) */
+  cards: string[];
+  /** Tiles per card (e.g. { card0: ["gt0", "gt1"] }); empty without tile annotations */
+  tiles: Record<string, string[]>;
+}
+
+export interface GasPodAssignment {
+  /** One entry per container that GAS assigned at least one card to */
+  containers: GasContainerAssignment[];
+  /** When GAS made the assignment (ISO timestamp), if annotated */
+  assignedAt?: string;
+}
+
+/** Split a "|"-separated per-container annotation, one entry per spec container */
+function splitPerContainer(value: string | undefined): string[] {
+  return value ? value.split('|').map(part => part.trim()) : [];
+}
+
+/** Parse one container's tile entry: "card0:gt0+gt1,card1:gt0" */
+function parseGasTiles(entry: string): Record<string, string[]> {
+  const tiles: Record<string, string[]> = {};
+  for (const cardEntry of entry.split(',')) {
+    const [card, tileList] = cardEntry.split(':');
+    if (!card?.trim() || !tileList) continue;
+    tiles[card.trim()] = tileList
+      .split('+')
+      .map(t => t.trim())
+      .filter(Boolean);
+  }
+  return tiles;
+}
+
+/** GAS writes gas-ts as Unix nanoseconds */
+function parseGasTimestamp(value: string | undefined): string | undefined {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  const ms = Number(value.slice(0, -6) || '0');
+  return new Date(ms).toISOString();
+}
+
+/**
+ * Decode GAS card/tile annotations. Annotations list containers in pod spec
+ * order, "|"-separated, with cards ","-separated inside each container.
+ * Returns null when the pod was not scheduled by GAS.
+ */
+export function getPodGasAssignment(pod: IntelGpuPod): GasPodAssignment | null {
+  const annotations = pod.metadata.annotations ?? {};
+  const cardsAnnotation = annotations[GAS_CONTAINER_CARDS_ANNOTATION];
+  const tilesAnnotation = annotations[GAS_CONTAINER_TILES_ANNOTATION];
+  if (!cardsAnnotation && !tilesAnnotation) return null;
+
+  const cardEntries = splitPerContainer(cardsAnnotation);
+  const tileEntries = splitPerContainer(tilesAnnotation);
+  const containers: GasContainerAssignment[] = [];
+
+  (pod.spec?.containers ?? []).forEach((c, i) => {
+    const tiles = parseGasTiles(tileEntries[i] ?? '');
+    const cards = (cardEntries[i] ?? '')
+      .split(',')
+      .map(card => card.trim())
+      .filter(Boolean);
+    for (const card of Object.keys(tiles)) {
+      if (!cards.includes(card)) cards.push(card);
+    }
+    if (cards.length > 0) containers.push({ containerName: c.name, cards, tiles });
+  });
+
+  return {
+    containers,
+    assignedAt: parseGasTimestamp(annotations[GAS_TIMESTAMP_ANNOTATION]),
+  };
+}
+
+/** Cards GAS assigned to any of the pod's containers, each once, in container order */
+export function getPodGasCards(pod: IntelGpuPod): string[] {
+  const cards = getPodGasAssignment(pod)?.containers.flatMap(c => c.cards) ?? [];
+  return [...new Set(cards)];
+}
+
+/**
+ * Cards present on a node, from gpu.intel.com/cards ("card0.card1") or
+ * gpu.intel.com/gpu-numbers ("0.1"). Label values cannot contain commas,
+ * so both use "." as the separator.
+ */
+export function getNodeGpuCards(node: IntelGpuNode): string[] {
+  const labels = node.metadata.labels ?? {};
+  const cards = labels[INTEL_GPU_CARDS_LABEL];
+  if (cards) return cards.split('.').filter(Boolean);
+  const numbers = labels[INTEL_GPU_NUMBERS_LABEL];
+  if (numbers) {
+    return numbers
+      .split('.')
+      .filter(Boolean)
+      .map(n => `card${n}`);
+  }
+  return [];
+}
+
+/** Tiles per card from gpu.intel.com/tiles, or null when not labelled */
+export function getNodeTilesPerCard(node: IntelGpuNode): number | null {
+  const value = node.metadata.labels?.[INTEL_GPU_TILES_LABEL];
+  const tiles = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(tiles) && tiles > 0 ? tiles : null;
+}
+
+export interface GpuCardOccupant {
+  pod: IntelGpuPod;
+  containerName: string;
+  /** Tiles of this card held by the container; empty when tiles are not tracked */
+  tiles: string[];
+}
+
+export interface GpuCardOccupancy {
+  card: string;
+  /** Tiles on the card according to node labels, or null if unknown */
+  tileCount: number | null;
+  occupants: GpuCardOccupant[];
+}
+
+/**
+ * Per-card occupancy of a node, derived from the GAS annotations of pods
+ * holding GPUs there. Cards from node labels are listed even when idle;
+ * cards seen only in annotations are appended.
+ */
+export function computeNodeCardOccupancy(
+  node: IntelGpuNode,
+  pods: IntelGpuPod[]
+): GpuCardOccupancy[] {
+  const tileCount = getNodeTilesPerCard(node);
+  const byCard = new Map<string, GpuCardOccupancy>();
+  for (const card of getNodeGpuCards(node)) {
+    byCard.set(card, { card, tileCount, occupants: [] });
+  }
+
+  for (const pod of pods) {
+    if (pod.spec?.nodeName !== node.metadata.name || !isPodHoldingGpu(pod)) continue;
+    const assignment = getPodGasAssignment(pod);
+    for (const container of assignment?.containers ?? []) {
+      for (const card of container.cards) {
+        const existing = byCard.get(card) ?? { card, tileCount, occupants: [] };
+        existing.occupants.push({
+          pod,
+          containerName: container.containerName,
+          tiles: container.tiles[card] ?? [],
+        });
+        byCard.set(card, existing);
+      }
+    }
+  }
+
+  return [...byCard.values()];
+}
+
+// ---------------------------------------------------------------------------
+// GPU resource quotas
+// ---------------------------------------------------------------------------
+
+/** Quota items limit extended resources through their requests, e.g. requests.gpu.intel.com/i915 */
+export const RESOURCE_QUOTA_REQUESTS_PREFIX = 'requests.';
+
+export interface ResourceQuotaSpec {
+  hard?: Record<string, string>;
+}
+
+export interface ResourceQuotaStatus {
+  hard?: Record<string, string>;
+  used?: Record<string, string>;
+}
+
+export interface KubeResourceQuota extends KubeObject {
+  spec?: ResourceQuotaSpec;
+  status?: ResourceQuotaStatus;
+}
+
+export function isResourceQuota(value: unknown): value is KubeResourceQuota {
+  if (!value || typeof value !== 'object') return false;
+  const meta = (value as Record<string, unknown>)['metadata'] as
+    | Record<string, unknown>
+    | undefined;
+  return typeof meta?.['name'] === 'string' && typeof meta?.['namespace'] === 'string';
+}
+
+/** The gpu.intel.com/* resource a quota item limits, or null for other items */
+export function getQuotaGpuResource(quotaKey: string): string | null {
+  const resource = quotaKey.startsWith(RESOURCE_QUOTA_REQUESTS_PREFIX)
+    ? quotaKey.slice(RESOURCE_QUOTA_REQUESTS_PREFIX.length)
+    : quotaKey;
+  return resource.startsWith(INTEL_GPU_RESOURCE_PREFIX) ? resource : null;
+}
+
+/** One GPU resource under quota in a namespace */
+export interface GpuQuotaUsage {
+  /** Full resource name, e.g. "gpu.intel.com/millicores" */
+  resource: string;
+  /** The ResourceQuota with the least headroom for the resource */
+  quotaName: string;
+  hard: number;
+  /** Usage as the quota controller recorded it */
+  used: number;
+  /** hard − used, never below zero */
+  headroom: number;
+}
+
+export interface NamespaceGpuQuota {
+  namespace: string;
+  /** One entry per GPU resource under quota, sorted by resource */
+  quotas: GpuQuotaUsage[];
+  /** Summed requests of the namespace's GPU pods that are not finished, per resource */
+  requests: Record<string, number>;
+  /** GPU pods counted in requests */
+  podCount: number;
+}
+
+/**
+ * Pods count against quota from creation until they finish, so unlike
+ * isPodHoldingGpu this includes Pending pods not yet bound to a node.
+ */
+function isPodCountedByQuota(pod: IntelGpuPod): boolean {
+  const phase = pod.status?.phase;
+  return phase !== 'Succeeded' && phase !== 'Failed';
+}
+
+/**
+ * GPU quota and live GPU requests per namespace, for every namespace with a
+ * GPU quota or a GPU pod. Where several quotas limit one resource, the one
+ * with the least headroom is reported, as it is the one that rejects pods.
+ * Usage falls back to the live requests until the quota controller has
+ * filled in the quota's status.
+ */
+export function computeNamespaceGpuQuotas(
+  quotas: KubeResourceQuota[],
+  pods: IntelGpuPod[]
+): NamespaceGpuQuota[] {
+  const byNamespace = new Map<string, NamespaceGpuQuota>();
+  const entry = (namespace: string) => {
+    const existing = byNamespace.get(namespace);
+    if (existing) return existing;
+    const created: NamespaceGpuQuota = { namespace, quotas: [], requests: {}, podCount: 0 };
+    byNamespace.set(namespace, created);
+    return created;
+  };
+
+  for (const pod of pods) {
+    const namespace = pod.metadata.namespace;
+    if (!namespace || !isPodCountedByQuota(pod)) continue;
+    const requests = getPodGpuRequestAmounts(pod);
+    if (Object.keys(requests).length === 0) continue;
+    const target = entry(namespace);
+    target.podCount += 1;
+    for (const [key, value] of Object.entries(requests)) {
+      target.requests[key] = (target.requests[key] ?? 0) + value;
+    }
+  }
+
+  for (const quota of quotas) {
+    const namespace = quota.metadata.namespace!;
+    const hardItems = quota.status?.hard ?? quota.spec?.hard ?? {};
+    for (const [key, hardValue] of Object.entries(hardItems)) {
+      const resource = getQuotaGpuResource(key);
+      if (!resource) continue;
+      const target = entry(namespace);
+      const hard = quantityToNumber(hardValue);
+      const usedValue = quota.status?.used?.[key];
+      const used =
+        usedValue === undefined ? target.requests[resource] ?? 0 : quantityToNumber(usedValue);
+      const usage: GpuQuotaUsage = {
+        resource,
+        quotaName: quota.metadata.name,
+        hard,
+        used,
+        headroom: Math.max(0, hard - used),
+      };
+      const index = target.quotas.findIndex(q => q.resource === resource);
+      if (index < 0) target.quotas.push(usage);
+      else if (usage.headroom < target.quotas[index].headroom) target.quotas[index] = usage;
+    }
+  }
+
+  const result = [...byNamespace.values()].sort((a, b) => a.namespace.localeCompare(b.namespace));
+  for (const ns of result) ns.quotas.sort((a, b) => a.resource.localeCompare(b.resource));
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Device inventory from NFD labels
+// ---------------------------------------------------------------------------
+
+export interface GpuPciDevice {
+  /** PCI class code, e.g. "0300" (VGA) or "0380" (display controller) */
+  pciClass: string;
+  /** PCI device ID, e.g. "56c0" */
+  deviceId: string;
+  /** Number of such devices, when the .count label is present */
+  count: number | null;
+}
+
+export interface GpuDeviceInventory {
+  /** Marketing product name, e.g. "Flex 170" */
+  product: string | null;
+  /** Product family, e.g. "Flex Series" */
+  family: string | null;
+  pciDevices: GpuPciDevice[];
+  /** Card names, e.g. ["card0", "card1"] */
+  cards: string[];
+  tilesPerCard: number | null;
+  /** Local memory per GPU in bytes */
+  memoryBytes: number | null;
+  /** Millicores per GPU when resource management is enabled */
+  millicores: number | null;
+}
+
+/** NFD label values replace spaces with underscores ("Flex_170") */
+function decodeLabelText(value: string | undefined): string | null {
+  return value ? value.replace(/_/g, ' ') : null;
+}
+
+/** Decode the Intel NFD GPU labels of a node into a structured inventory */
+export function getNodeGpuInventory(node: IntelGpuNode): GpuDeviceInventory {
+  const labels = node.metadata.labels ?? {};
+
+  const pciByKey = new Map<string, GpuPciDevice>();
+  for (const [key, value] of Object.entries(labels)) {
+    const match = INTEL_GPU_DEVICE_ID_LABEL_PATTERN.exec(key);
+    if (!match) continue;
+    const [, pciClass, deviceId, kind] = match;
+    const id = `${pciClass}-${deviceId}`.toLowerCase();
+    const existing = pciByKey.get(id) ?? {
+      pciClass: pciClass.toLowerCase(),
+      deviceId: deviceId.toLowerCase(),
+      count: null,
+    };
+    if (kind === 'count') {
+      const count = parseInt(value, 10);
+      if (Number.isFinite(count)) existing.count = count;
+    }
+    pciByKey.set(id, existing);
+  }
+
+  const memory = parseQuantity(labels[INTEL_GPU_MEMORY_LABEL]);
+  const millicores = parseQuantity(labels[INTEL_GPU_MILLICORES_LABEL]);
+
+  return {
+    product: decodeLabelText(labels[INTEL_GPU_PRODUCT_LABEL]),
+    family: decodeLabelText(labels[INTEL_GPU_FAMILY_LABEL]),
+    pciDevices: [...pciByKey.values()],
+    cards: getNodeGpuCards(node),
+    tilesPerCard: getNodeTilesPerCard(node),
+    memoryBytes: memory ? memory.value : null,
+    millicores: millicores ? millicores.value : null,
+  };
+}
+
+/** Short product label for tables: "Flex 170 (Flex Series)", or null if unlabelled */
+export function formatGpuProduct(inventory: GpuDeviceInventory): string | null {
+  if (inventory.product && inventory.family) return `${inventory.product} (${inventory.family})`;
+  return inventory.product ?? inventory.family;
+}
+
+// ---------------------------------------------------------------------------
+// GPU type classification
+// ---------------------------------------------------------------------------
+
+/**
+ * Known Intel GPU PCI device IDs. Not exhaustive — unknown IDs fall through
+ * to weaker evidence, and users can fill gaps with their own mappings.
+ */
+export const KNOWN_INTEL_GPU_PCI_IDS: Record<
+  string,
+  { type: Exclude<GpuType, 'unknown'>; name: string }
+> = {
+  // Discrete: DG1
+  '4905': { type: 'discrete', name: 'Iris Xe MAX (DG1)' },
+  '4907': { type: 'discrete', name: 'Server GPU SG1' },
+  '4908': { type: 'discrete', name: 'Iris Xe (DG1)' },
+  // Discrete: Arc A-series (Alchemist)
+  '5690': { type: 'discrete', name: 'Arc A770M' },
+  '5691': { type: 'discrete', name: 'Arc A730M' },
+  '5692': { type: 'discrete', name: 'Arc A550M' },
+  '5693': { type: 'discrete', name: 'Arc A370M' },
+  '5694': { type: 'discrete', name: 'Arc A350M' },
+  '56a0': { type: 'discrete', name: 'Arc A770' },
+  '56a1': { type: 'discrete', name: 'Arc A750' },
+  '56a5': { type: 'discrete', name: 'Arc A380' },
+  '56a6': { type: 'discrete', name: 'Arc A310' },
+  // Discrete: Data Center GPU Flex (Arctic Sound-M)
+  '56c0': { type: 'discrete', name: 'Data Center GPU Flex 170' },
+  '56c1': { type: 'discrete', name: 'Data Center GPU Flex 140' },
+  // Discrete: Data Center GPU Max (Ponte Vecchio)
+  '0bd0': { type: 'discrete', name: 'Data Center GPU Max' },
+  '0bd5': { type: 'discrete', name: 'Data Center GPU Max 1550' },
+  '0bd6': { type: 'discrete', name: 'Data Center GPU Max 1550' },
+  '0bda': { type: 'discrete', name: 'Data Center GPU Max 1100' },
+  '0bdb': { type: 'discrete', name: 'Data Center GPU Max 1100' },
+  // Discrete: Arc B-series (Battlemage)
+  e20b: { type: 'discrete', name: 'Arc B580' },
+  e20c: { type: 'discrete', name: 'Arc B570' },
+  e211: { type: 'discrete', name: 'Arc Pro B60' },
+  e212: { type: 'discrete', name: 'Arc Pro B50' },
+  // Integrated: Gen9 (Skylake / Kaby Lake / Coffee Lake / Comet Lake)
+  '1912': { type: 'integrated', name: 'HD Graphics 530' },
+  '5912': { type: 'integrated', name: 'HD Graphics 630' },
+  '3e92': { type: 'integrated', name: 'UHD Graphics 630' },
+  '3e98': { type: 'integrated', name: 'UHD Graphics 630' },
+  '9bc5': { type: 'integrated', name: 'UHD Graphics 630' },
+  // Integrated: Xe-LP (Tiger Lake / Rocket Lake)
+  '9a49': { type: 'integrated', name: 'Iris Xe Graphics' },
+  '9a60': { type: 'integrated', name: 'UHD Graphics' },
+  '4c8a': { type: 'integrated', name: 'UHD Graphics 750' },
+  // Integrated: Alder Lake / Raptor Lake
+  '4680': { type: 'integrated', name: 'UHD Graphics 770' },
+  '4692': { type: 'integrated', name: 'UHD Graphics 730' },
+  '46a6': { type: 'integrated', name: 'Iris Xe Graphics' },
+  '46d1': { type: 'integrated', name: 'UHD Graphics' },
+  a780: { type: 'integrated', name: 'UHD Graphics 770' },
+  a7a0: { type: 'integrated', name: 'Iris Xe Graphics' },
+  // Integrated: Meteor Lake / Arrow Lake / Lunar Lake
+  '7d55': { type: 'integrated', name: 'Arc Graphics (Meteor Lake)' },
+  '7d67': { type: 'integrated', name: 'Arc Graphics (Arrow Lake)' },
+  '64a0': { type: 'integrated', name: 'Arc Graphics 140V' },
+};
+
+/** User-maintained overrides: PCI device ID or product name → GPU type */
+export type GpuTypeMappings = Record<string, Exclude<GpuType, 'unknown'>>;
+
+/** Evidence sources, strongest first */
+export type GpuClassificationSource =
+  | 'mapping'
+  | 'node-role'
+  | 'pci-id'
+  | 'local-memory'
+  | 'driver';
+
+export const GPU_CLASSIFICATION_SOURCES: GpuClassificationSource[] = [
+  'mapping',
+  'node-role',
+  'pci-id',
+  'local-memory',
+  'driver',
+];
+
+export interface GpuClassificationEvidence {
+  source: GpuClassificationSource;
+  /** Type this evidence points to; 'unknown' for purely informational evidence */
+  suggests: GpuType;
+  detail: string;
+}
+
+export interface GpuClassification {
+  type: GpuType;
+  evidence: GpuClassificationEvidence[];
+}
+
+function findMapping(mappings: GpuTypeMappings, key: string | null): GpuType | null {
+  if (!key) return null;
+  const wanted = key.toLowerCase();
+  for (const [mappingKey, type] of Object.entries(mappings)) {
+    if (mappingKey.trim().toLowerCase() === wanted) return type;
+  }
+  return null;
+}
+
+function collectClassificationEvidence(
+  node: IntelGpuNode,
+  mappings: GpuTypeMappings
+): GpuClassificationEvidence[] {
+  const labels = node.metadata.labels ?? {};
+  const inventory = getNodeGpuInventory(node);
+  const evidence: GpuClassificationEvidence[] = [];
+
+  // User mappings by PCI device ID, then by product name
+  for (const device of inventory.pciDevices) {
+    const mapped = findMapping(mappings, device.deviceId);
+    if (mapped) {
+      evidence.push({
+        source: 'mapping',
+        suggests: mapped,
+        detail: `PCI device ${device.deviceId} is mapped to ${mapped}`,
+      });
+    }
+  }
+  const mappedProduct = findMapping(mappings, inventory.product);
+  if (mappedProduct) {
+    evidence.push({
+      source: 'mapping',
+      suggests: mappedProduct,
+      detail: `Product "${inventory.product}" is mapped to ${mappedProduct}`,
+    });
+  }
+
+  // Node role labels set by the Intel NFD rules
+  if (labels[INTEL_DISCRETE_GPU_NODE_ROLE] === 'true') {
+    evidence.push({
+      source: 'node-role',
+      suggests: 'discrete',
+      detail: `Node has label ${INTEL_DISCRETE_GPU_NODE_ROLE}`,
+    });
+  }
+  if (labels[INTEL_INTEGRATED_GPU_NODE_ROLE] === 'true') {
+    evidence.push({
+      source: 'node-role',
+      suggests: 'integrated',
+      detail: `Node has label ${INTEL_INTEGRATED_GPU_NODE_ROLE}`,
+    });
+  }
+
+  // PCI device IDs from NFD labels
+  for (const device of inventory.pciDevices) {
+    const known = KNOWN_INTEL_GPU_PCI_IDS[device.deviceId];
+    evidence.push(
+      known
+        ? {
+            source: 'pci-id',
+            suggests: known.type,
+            detail: `PCI device ${device.deviceId} is ${known.name}`,
+          }
+        : {
+            source: 'pci-id',
+            suggests: 'unknown',
+            detail: `PCI device ${device.deviceId} is not in the known device table`,
+          }
+    );
+  }
+
+  // The device plugin can set memory.max on iGPU nodes too, so the label only
+  // counts when no PCI device ID settles the type
+  const knownPciId = inventory.pciDevices.some(d => KNOWN_INTEL_GPU_PCI_IDS[d.deviceId]);
+  if (!knownPciId && inventory.memoryBytes !== null && inventory.memoryBytes > 0) {
+    evidence.push({
+      source: 'local-memory',
+      suggests: 'discrete',
+      detail: `Node reports ${formatBytes(
+        inventory.memoryBytes
+      )} local memory per GPU (${INTEL_GPU_MEMORY_LABEL})`,
+    });
+  }
+
+  // Driver: both xe (Battlemage, Lunar Lake) and i915 drive discrete and
+  // integrated GPUs, so neither decides the type
+  const capacity = node.status?.capacity ?? {};
+  if (quantityToNumber(capacity[INTEL_GPU_XE_RESOURCE]) > 0) {
+    evidence.push({
+      source: 'driver',
+      suggests: 'unknown',
+      detail: `Node exposes ${INTEL_GPU_XE_RESOURCE} (xe driver, used by both GPU types)`,
+    });
+  }
+  if (quantityToNumber(capacity[INTEL_GPU_RESOURCE]) > 0) {
+    evidence.push({
+      source: 'driver',
+      suggests: 'unknown',
+      detail: `Node exposes ${INTEL_GPU_RESOURCE} (i915 driver, used by both GPU types)`,
+    });
+  }
+
+  return evidence;
+}
+
+/**
+ * Classify a node's Intel GPU as discrete or integrated.
+ *
+ * Evidence is gathered from user mappings, node role labels, PCI device IDs
+ * and the local memory label, in that order of strength; the driver is
+ * recorded but never decides the type. The
+ * strongest source with a decisive answer wins; a node with both kinds at
+ * that level (e.g. a server with an iGPU and a dGPU) is reported as discrete,
+ * since that is the device workloads target.
+ */
+export function classifyNodeGpu(
+  node: IntelGpuNode,
+  mappings: GpuTypeMappings = {}
+): GpuClassification {
+  const evidence = collectClassificationEvidence(node, mappings);
+
+  for (const source of GPU_CLASSIFICATION_SOURCES) {
+    const decisive = evidence.filter(e => e.source === source && e.suggests !== 'unknown');
+    if (decisive.length === 0) continue;
+    const type = decisive.some(e => e.suggests === 'discrete') ? 'discrete' : 'integrated';
+    return { type, evidence };
+  }
+
+  return { type: 'unknown', evidence };
+}
+
+export function formatGpuClassificationSource(source: GpuClassificationSource): string {
+  switch (source) {
+    case 'mapping':
+      return 'User mapping';
+    case 'node-role':
+      return 'Node role label';
+    case 'pci-id':
+      return 'PCI device ID';
+    case 'local-memory':
+      return 'Local memory';
+    case 'driver':
+      return 'Driver';
+  }
+}
+
 // ---------------------------------------------------------------------------
 // K8s API list response envelope
 // ---------------------------------------------------------------------------
@@ -336,8 +1351,12 @@ export function isNodeReady(node: IntelGpuNode): boolean {
 
 export function formatAge(timestamp: string | undefined): string {
   if (!timestamp) return 'unknown';
-  const diffMs = Date.now() - new Date(timestamp).getTime();
-  const secs = Math.floor(diffMs / 1000);
+  return formatDuration((Date.now() - new Date(timestamp).getTime()) / 1000);
+}
+
+/** Largest whole unit of a duration in seconds: "45s", "12m", "3h", "2d" */
+export function formatDuration(seconds: number): string {
+  const secs = Math.floor(seconds);
   if (secs < 60) return `${secs}s`;
   const mins = Math.floor(secs / 60);
   if (mins < 60) return `${mins}m`;
@@ -363,11 +1382,57 @@ export function formatGpuResourceName(resourceKey: string): string {
   return map[name] ?? name;
 }
 
+export function formatGpuAllocationCategory(category: GpuAllocationCategory): string {
+  switch (category) {
+    case 'devices':
+      return 'GPU Devices';
+    case 'millicores':
+      return 'GPU Millicores';
+    case 'memory':
+      return 'GPU Memory';
+  }
+}
+
+/**
+ * Format a raw resource quantity for display next to formatGpuResourceName:
+ * memory in binary units ("16 GiB" rather than "17179869184"), others as-is.
+ */
+export function formatGpuResourceValue(resourceKey: string, value: string | undefined): string {
+  if (value === undefined) return '—';
+  const q = parseQuantity(value);
+  if (!q) return value;
+  if (resourceKey === INTEL_GPU_MEMORY_RESOURCE) return formatBytes(q.value);
+  return formatQuantity(q);
+}
+
+/** Format an amount of a GPU resource in base units: memory in bytes, others as counts */
+export function formatGpuResourceAmount(resourceKey: string, value: number): string {
+  return formatGpuAllocationValue(getGpuAllocationCategory(resourceKey) ?? 'devices', value);
+}
+
+/** A pod's GPU requests in short form, e.g. "i915: 1, millicores: 500"; empty when none */
+export function formatPodGpuRequests(pod: IntelGpuPod): string {
+  return Object.entries(getPodGpuRequests(pod))
+    .map(([key, value]) => {
+      const shortKey = key.replace(INTEL_GPU_RESOURCE_PREFIX, '');
+      return `${shortKey}: ${formatGpuResourceValue(key, value)}`;
+    })
+    .join(', ');
+}
+
+/** Format an allocation amount for its category — memory in bytes, others as counts */
+export function formatGpuAllocationValue(category: GpuAllocationCategory, value: number): string {
+  if (category === 'memory') return formatBytes(value);
+  return String(Math.round(value * 1000) / 1000);
+}
+
 // ---------------------------------------------------------------------------
 // Status helpers
 // ---------------------------------------------------------------------------
 
-export function pluginStatusToStatus(plugin: GpuDevicePlugin): 'success' | 'warning' | 'error' {
+export function pluginStatusToStatus(plugin: {
+  status?: DevicePluginStatus;
+}): 'success' | 'warning' | 'error' {
   const desired = plugin.status?.desiredNumberScheduled ?? 0;
   const ready = plugin.status?.numberReady ?? 0;
   const unavailable = plugin.status?.numberUnavailable ?? 0;
@@ -378,7 +1443,7 @@ export function pluginStatusToStatus(plugin: GpuDevicePlugin): 'success' | 'warn
   return 'error';
 }
 
-export function pluginStatusText(plugin: GpuDevicePlugin): string {
+export function pluginStatusText(plugin: { status?: DevicePluginStatus }): string {
   const desired = plugin.status?.desiredNumberScheduled ?? 0;
   const ready = plugin.status?.numberReady ?? 0;
   if (desired === 0) return 'No nodes scheduled';
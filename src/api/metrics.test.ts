@@ -0,0 +1,899 @@
+/**
+ * Unit tests for the GPU metrics sources, merging and attribution.
+ */
+
+import { ApiProxy } from '@kinvolk/headlamp-plugin/lib';
+import { describe, expect, it, vi } from 'vitest';
+import { IntelGpuNode, IntelGpuPod } from './k8s';
+import {
+  attributeGpuEnergy,
+  fetchGpuChipEnergy,
+  fetchGpuIdleStates,
+  fetchGpuMetrics,
+  fetchGpuPowerHistory,
+  findIdleGpuAllocations,
+  getPowerChannel,
+  getRangeStep,
+  getTemperatureStatus,
+  getTextfileMetricNames,
+  getThrottleStatus,
+  GpuDeviceMetrics,
+  GpuMetrics,
+  mergeGpuDeviceReports,
+  normalizePciAddress,
+  parseGpuMetricQueries,
+  selectChipGpuMetrics,
+  selectNodeGpuMetrics,
+  selectNodePowerHistory,
+  sumTimeSeries,
+} from './metrics';
+
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ApiProxy: { request: vi.fn() },
+  Utils: { getCluster: () => 'test' },
+  ConfigStore: class {
+    get() {
+      return {};
+    }
+    useConfig() {
+      return () => ({});
+    }
+  },
+}));
+
+describe('getPowerChannel', () => {
+  it('uses the xe "card" and "pkg" sensor labels', () => {
+    expect(getPowerChannel('energy1', 'card')).toBe('card');
+    expect(getPowerChannel('energy2', 'pkg')).toBe('package');
+    expect(getPowerChannel('energy1', 'pkg')).toBe('package');
+  });
+
+  it('treats unlabelled second channels as package and everything else as card', () => {
+    expect(getPowerChannel('energy1', undefined)).toBe('card');
+    expect(getPowerChannel('power2', undefined)).toBe('package');
+    expect(getPowerChannel('energy12', undefined)).toBe('card');
+  });
+});
+
+describe('getTemperatureStatus', () => {
+  const reading = (temp: number | null, max: number | null, crit: number | null) => ({
+    temperatureCelsius: temp,
+    temperatureMaxCelsius: max,
+    temperatureCritCelsius: crit,
+  });
+
+  it('warns at the max limit and is critical at the critical limit', () => {
+    expect(getTemperatureStatus(reading(80, 90, 105))).toBe('normal');
+    expect(getTemperatureStatus(reading(90, 90, 105))).toBe('warning');
+    expect(getTemperatureStatus(reading(105, 90, 105))).toBe('critical');
+  });
+
+  it('warns 10 °C below critical when no max limit is reported', () => {
+    expect(getTemperatureStatus(reading(94, null, 105))).toBe('normal');
+    expect(getTemperatureStatus(reading(95, null, 105))).toBe('warning');
+    expect(getTemperatureStatus(reading(95, null, null))).toBe('normal');
+    expect(getTemperatureStatus(reading(null, 90, 105))).toBe('normal');
+  });
+});
+
+describe('getThrottleStatus', () => {
+  const reading = (actual: number | null, requested: number | null, reasons: string[] | null) => ({
+    gpuFrequencyMhz: actual,
+    gpuFrequencyRequestedMhz: requested,
+    throttleReasons: reasons,
+  });
+
+  it('follows the reported throttle reasons', () => {
+    expect(getThrottleStatus(reading(2050, 2050, ['pl1']))).toBe('throttled');
+    expect(getThrottleStatus(reading(900, 2050, []))).toBe('none');
+  });
+
+  it('compares actual with requested frequency when no reasons are reported', () => {
+    expect(getThrottleStatus(reading(1100, 2050, null))).toBe('throttled');
+    expect(getThrottleStatus(reading(2000, 2050, null))).toBe('none');
+    expect(getThrottleStatus(reading(0, 300, null))).toBe('none');
+    expect(getThrottleStatus(reading(1100, null, null))).toBe('unknown');
+  });
+});
+
+describe('getTextfileMetricNames', () => {
+  it('uses configured names and falls back to the defaults for blank ones', () => {
+    expect(getTextfileMetricNames({ frequencyMetric: ' gpu_freq ', throttleMetric: ' ' })).toEqual({
+      frequencyMetric: 'gpu_freq',
+      frequencyTypeLabel: 'type',
+      throttleMetric: 'intel_gpu_throttle_reason',
+      throttleReasonLabel: 'reason',
+    });
+  });
+});
+
+describe('fetchGpuMetrics', () => {
+  const vector = (result: Array<{ metric: Record<string, string>; value: [number, string] }>) => ({
+    status: 'success',
+    data: { resultType: 'vector', result },
+  });
+  const i915 = { instance: '10.0.0.1:9100', chip: 'card0' };
+  const xe = { instance: '10.0.0.2:9100', chip: 'card0' };
+
+  it('reports i915 and xe chips with their driver, xe package power and the hottest sensor', async () => {
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      const query = decodeURIComponent(url.split('query=')[1] ?? '');
+      if (query.startsWith('node_hwmon_chip_names')) {
+        return vector([
+          { metric: { ...i915, chip_name: 'i915' }, value: [0, '1'] },
+          { metric: { ...xe, chip_name: 'xe' }, value: [0, '1'] },
+        ]);
+      }
+      if (query.startsWith('rate(node_hwmon_energy_joule_total')) {
+        return vector([
+          { metric: { ...i915, sensor: 'energy1' }, value: [0, '40'] },
+          { metric: { ...xe, sensor: 'energy1' }, value: [0, '150'] },
+          { metric: { ...xe, sensor: 'energy2' }, value: [0, '95'] },
+        ]);
+      }
+      if (query.startsWith('node_hwmon_power_max_watt')) {
+        return vector([
+          { metric: { ...i915, sensor: 'power1' }, value: [0, '120'] },
+          { metric: { ...xe, sensor: 'power1' }, value: [0, '190'] },
+          { metric: { ...xe, sensor: 'power2' }, value: [0, '110'] },
+        ]);
+      }
+      if (query.startsWith('node_hwmon_sensor_label')) {
+        return vector([
+          { metric: { ...xe, sensor: 'energy1', label: 'card' }, value: [0, '1'] },
+          { metric: { ...xe, sensor: 'energy2', label: 'pkg' }, value: [0, '1'] },
+        ]);
+      }
+      if (query.startsWith('node_hwmon_temp_celsius')) {
+        return vector([
+          { metric: { ...xe, sensor: 'temp1' }, value: [0, '58'] },
+          { metric: { ...xe, sensor: 'temp2' }, value: [0, '71'] },
+        ]);
+      }
+      if (query.startsWith('node_hwmon_temp_crit_celsius')) {
+        return vector([
+          { metric: { ...xe, sensor: 'temp1' }, value: [0, '105'] },
+          { metric: { ...xe, sensor: 'temp2' }, value: [0, '100'] },
+        ]);
+      }
+      if (query.startsWith('node_hwmon_fan_rpm')) {
+        return vector([{ metric: { ...xe, sensor: 'fan1' }, value: [0, '1800'] }]);
+      }
+      return vector([]);
+    });
+
+    const metrics = await fetchGpuMetrics({ proxyPath: '/prom' });
+
+    expect(metrics?.devices).toMatchObject([
+      {
+        key: '10.0.0.1:9100/hwmon:card0',
+        nodeName: '10.0.0.1:9100',
+        pciAddress: null,
+        sources: ['hwmon'],
+        hwmon: { ...i915, driver: 'i915' },
+        powerWatts: 40,
+        powerMaxWatts: 120,
+        packagePowerWatts: null,
+        temperatureCelsius: null,
+        temperatureMaxCelsius: null,
+        temperatureCritCelsius: null,
+        fanRpm: null,
+      },
+      {
+        nodeName: '10.0.0.2:9100',
+        hwmon: { ...xe, driver: 'xe' },
+        powerWatts: 150,
+        powerMaxWatts: 190,
+        packagePowerWatts: 95,
+        temperatureCelsius: 71,
+        temperatureMaxCelsius: null,
+        temperatureCritCelsius: 100,
+        fanRpm: 1800,
+      },
+    ]);
+    expect(metrics?.sources.find(source => source.id === 'hwmon')).toEqual({
+      id: 'hwmon',
+      label: 'node-exporter hwmon',
+      deviceCount: 2,
+      error: null,
+    });
+  });
+});
+
+describe('fetchGpuMetrics with XPU Manager', () => {
+  it('groups xpum_* series into devices and tiles on the node-exporter host', async () => {
+    const device = { instance: '10.0.0.2:29999', dev_id: '0', pci_bdf: '0000:4d:00.0' };
+    const sample = (name: string, value: string, labels: Record<string, string> = {}) => ({
+      metric: { __name__: name, ...device, ...labels },
+      value: [0, value],
+    });
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      const query = decodeURIComponent(url.split('query=')[1] ?? '');
+      const result = query.startsWith('{__name__=~"xpum_')
+        ? [
+            sample('xpum_gpu_utilization', '42'),
+            sample('xpum_engine_group_compute_all_utilization', '40'),
+            sample('xpum_engine_group_media_all_utilization', '3'),
+            sample('xpum_gpu_frequency_mhz', '1550'),
+            sample('xpum_memory_used_bytes', '2147483648'),
+            sample('xpum_temperature_celsius', '61', { location: 'gpu' }),
+            sample('xpum_temperature_celsius', '70', { location: 'memory' }),
+            sample('xpum_gpu_utilization', '50', { tile_id: '1' }),
+            sample('xpum_gpu_utilization', '34', { tile_id: '0' }),
+          ]
+        : query === 'node_uname_info'
+        ? [{ metric: { instance: '10.0.0.2:9100', nodename: 'gpu-2' }, value: [0, '1'] }]
+        : [];
+      return { status: 'success', data: { resultType: 'vector', result } };
+    });
+
+    const metrics = await fetchGpuMetrics({ proxyPath: '/prom' });
+
+    expect(metrics?.devices).toHaveLength(1);
+    const [xpum] = metrics!.devices;
+    expect(xpum).toMatchObject({
+      nodeName: 'gpu-2',
+      sourceIds: { xpum: '0' },
+      pciAddress: '0000:4d:00.0',
+      gpuUtilizationPercent: 42,
+      engineUtilizationPercent: { compute: 40, media: 3 },
+      gpuFrequencyMhz: 1550,
+      memoryUsedBytes: 2147483648,
+      temperatureCelsius: 61,
+      memoryFrequencyMhz: null,
+    });
+    expect(xpum.tiles.map(t => [t.tileId, t.gpuUtilizationPercent])).toEqual([
+      ['0', 34],
+      ['1', 50],
+    ]);
+  });
+});
+
+describe('fetchGpuMetrics with the textfile collector', () => {
+  const labels = { instance: '10.0.0.4:9100', pci_address: '0000:03:00.0' };
+  const series = (metric: Record<string, string>, value: string) => ({
+    metric: { ...labels, ...metric },
+    value: [0, value],
+  });
+
+  it('reads every frequency type and the active throttle reasons of a GPU', async () => {
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      const query = decodeURIComponent(url.split('query=')[1] ?? '');
+      const result =
+        query === 'intel_gpu_frequency_mhz'
+          ? ['act:1100', 'cur:2050', 'min:300', 'max:2050', 'boost:2050', 'rp0:2400'].map(entry =>
+              series({ type: entry.split(':')[0] }, entry.split(':')[1])
+            )
+          : query === 'intel_gpu_throttle_reason'
+          ? [
+              series({ reason: 'status' }, '1'),
+              series({ reason: 'thermal' }, '1'),
+              series({ reason: 'pl1' }, '1'),
+              series({ reason: 'pl2' }, '0'),
+            ]
+          : [];
+      return { status: 'success', data: { resultType: 'vector', result } };
+    });
+
+    const metrics = await fetchGpuMetrics({ proxyPath: '/prom' }, {}, {});
+
+    expect(metrics?.devices).toHaveLength(1);
+    expect(metrics?.devices[0]).toMatchObject({
+      pciAddress: '0000:03:00.0',
+      sources: ['textfile'],
+      gpuFrequencyMhz: 1100,
+      gpuFrequencyRequestedMhz: 2050,
+      gpuFrequencyMinMhz: 300,
+      gpuFrequencyMaxMhz: 2050,
+      gpuFrequencyBoostMhz: 2050,
+      // The "status" summary reason is dropped when specific reasons are active
+      throttleReasons: ['pl1', 'thermal'],
+    });
+    expect(metrics?.sources.find(source => source.id === 'textfile')?.deviceCount).toBe(1);
+  });
+
+  it('queries configured metric and label names', async () => {
+    const queries: string[] = [];
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      const query = decodeURIComponent(url.split('query=')[1] ?? '');
+      queries.push(query);
+      const result =
+        query === 'gpu_freq'
+          ? [series({ kind: 'act' }, '800')]
+          : query === 'gpu_throttle'
+          ? [series({ cause: 'status' }, '0')]
+          : [];
+      return { status: 'success', data: { resultType: 'vector', result } };
+    });
+
+    const metrics = await fetchGpuMetrics(
+      { proxyPath: '/prom' },
+      {},
+      {
+        frequencyMetric: 'gpu_freq',
+        frequencyTypeLabel: 'kind',
+        throttleMetric: 'gpu_throttle',
+        throttleReasonLabel: 'cause',
+      }
+    );
+
+    expect(queries).toEqual(expect.arrayContaining(['gpu_freq', 'gpu_throttle']));
+    expect(metrics?.devices[0]).toMatchObject({ gpuFrequencyMhz: 800, throttleReasons: [] });
+  });
+});
+
+describe('fetchGpuMetrics across sources', () => {
+  it('merges hwmon, XPU Manager, textfile and custom PromQL readings of one GPU', async () => {
+    const hwmonChip = { instance: '10.0.0.3:9100', chip: '0000:00:01_0_0000:0a:00_0' };
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      const query = decodeURIComponent(url.split('query=')[1] ?? '');
+      let result: Array<{ metric: Record<string, string>; value: [number, string] }> = [];
+      if (query === 'node_uname_info') {
+        result = [{ metric: { instance: '10.0.0.3:9100', nodename: 'gpu-3' }, value: [0, '1'] }];
+      } else if (query.startsWith('node_hwmon_chip_names')) {
+        result = [{ metric: { ...hwmonChip, chip_name: 'xe' }, value: [0, '1'] }];
+      } else if (query.startsWith('node_hwmon_temp_celsius')) {
+        result = [{ metric: { ...hwmonChip, sensor: 'temp1' }, value: [0, '55'] }];
+      } else if (query.startsWith('{__name__=~"xpum_')) {
+        const labels = { instance: '10.0.0.3:29999', dev_id: '0', pci_bdf: '0000:0a:00.0' };
+        result = [
+          { metric: { __name__: 'xpum_gpu_utilization', ...labels }, value: [0, '12'] },
+          { metric: { __name__: 'xpum_temperature_celsius', ...labels }, value: [0, '57'] },
+        ];
+      } else if (query.startsWith('intel_gpu_frequency_mhz')) {
+        const labels = { instance: '10.0.0.3:9100', pci_address: '0000:0a:00.0', type: 'act' };
+        result = [{ metric: labels, value: [0, '1450'] }];
+      } else if (query === 'my_gpu_busy') {
+        const labels = { node: 'gpu-3', pci_address: '0000:0A:00.0' };
+        result = [{ metric: labels, value: [0, '15'] }];
+      } else if (query === 'broken_query') {
+        throw new Error('bad_data');
+      }
+      return { status: 'success', data: { resultType: 'vector', result } };
+    });
+
+    const metrics = await fetchGpuMetrics(
+      { proxyPath: '/prom' },
+      { gpuUtilizationPercent: 'my_gpu_busy' }
+    );
+
+    expect(metrics?.devices).toHaveLength(1);
+    expect(metrics?.devices[0]).toMatchObject({
+      key: 'gpu-3/0000:0a:00.0',
+      sources: ['promql', 'hwmon', 'xpum', 'textfile'],
+      sourceIds: { hwmon: hwmonChip.chip, xpum: '0' },
+      hwmon: { ...hwmonChip, driver: 'xe' },
+      // Custom PromQL wins over XPU Manager, hwmon over XPU Manager
+      gpuUtilizationPercent: 15,
+      temperatureCelsius: 55,
+      gpuFrequencyMhz: 1450,
+    });
+
+    const failing = await fetchGpuMetrics({ proxyPath: '/prom' }, { fanRpm: 'broken_query' });
+    expect(failing?.devices).toHaveLength(1);
+    expect(failing?.sources.find(source => source.id === 'promql')).toMatchObject({
+      deviceCount: 0,
+      error: 'bad_data',
+    });
+  });
+});
+
+describe('fetchGpuMetrics for one node', () => {
+  it("matches only the node's exporters and filters custom PromQL results", async () => {
+    const queries: string[] = [];
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      const query = decodeURIComponent(url.split('query=')[1] ?? '');
+      queries.push(query);
+      const result = query.startsWith('node_uname_info')
+        ? [{ metric: { instance: '10.0.0.2:9100', nodename: 'gpu-2' }, value: [0, '1'] }]
+        : query === 'my_gpu_busy'
+        ? [
+            { metric: { node: 'gpu-1', pci_address: '0000:03:00.0' }, value: [0, '10'] },
+            { metric: { node: 'gpu-2', pci_address: '0000:03:00.0' }, value: [0, '20'] },
+          ]
+        : [];
+      return { status: 'success', data: { resultType: 'vector', result } };
+    });
+
+    const metrics = await fetchGpuMetrics(
+      { proxyPath: '/prom' },
+      { gpuUtilizationPercent: 'my_gpu_busy' },
+      {},
+      'gpu-2'
+    );
+
+    const node = 'instance=~"(10\\\\.0\\\\.0\\\\.2:9100)"';
+    expect(queries).toContain('node_uname_info{nodename="gpu-2"}');
+    expect(queries).toContain(`node_hwmon_chip_names{chip_name=~"i915|xe",${node}}`);
+    expect(queries).toContain(`intel_gpu_frequency_mhz{${node}}`);
+    const xpum = queries.find(q => q.startsWith('{__name__=~"xpum_'));
+    expect(xpum).toContain(',node="gpu-2"} or ');
+    expect(xpum).toContain(',instance=~"(10\\\\.0\\\\.0\\\\.2)(:[0-9]+)?"}');
+    expect(queries.filter(q => q.includes('node_hwmon_')).every(q => q.includes(node))).toBe(true);
+    expect(metrics?.devices.map(d => [d.nodeName, d.gpuUtilizationPercent])).toEqual([
+      ['gpu-2', 20],
+    ]);
+  });
+});
+
+describe('fetchGpuChipEnergy', () => {
+  it("takes the increase of each chip's primary channel over the window", async () => {
+    const chip = { instance: '10.0.0.5:9100', chip: '0000:00:01_0_0000:03:00_0', chip_name: 'xe' };
+    const queries: string[] = [];
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      const query = decodeURIComponent(url.split('query=')[1] ?? '');
+      queries.push(query);
+      const result = query.startsWith('increase(')
+        ? [
+            { metric: { ...chip, sensor: 'energy1' }, value: [0, '360000'] },
+            { metric: { ...chip, sensor: 'energy2' }, value: [0, '400000'] },
+          ]
+        : query.startsWith('node_hwmon_sensor_label')
+        ? [
+            { metric: { ...chip, sensor: 'energy1', label: 'card' }, value: [0, '1'] },
+            { metric: { ...chip, sensor: 'energy2', label: 'pkg' }, value: [0, '1'] },
+          ]
+        : query === 'node_uname_info'
+        ? [{ metric: { instance: chip.instance, nodename: 'gpu-5' }, value: [0, '1'] }]
+        : [];
+      return { status: 'success', data: { resultType: 'vector', result } };
+    });
+
+    const chips = await fetchGpuChipEnergy('24h', { proxyPath: '/prom' });
+
+    expect(queries.some(q => q.includes('increase(node_hwmon_energy_joule_total[86400s])'))).toBe(
+      true
+    );
+    expect(chips).toEqual([
+      {
+        nodeName: 'gpu-5',
+        instance: chip.instance,
+        chip: chip.chip,
+        pciAddress: '0000:03:00.0',
+        joules: 360000,
+      },
+    ]);
+  });
+});
+
+describe('attributeGpuEnergy', () => {
+  const chipEnergy = (nodeName: string, pciAddress: string, joules: number) => ({
+    nodeName,
+    instance: `${nodeName}:9100`,
+    chip: pciAddress,
+    pciAddress,
+    joules,
+  });
+  const node = (
+    name: string,
+    labels: Record<string, string> = {},
+    devices = '2'
+  ): IntelGpuNode => ({
+    metadata: { name, labels },
+    status: { capacity: { 'gpu.intel.com/i915': devices } },
+  });
+  const pod = (
+    namespace: string,
+    name: string,
+    nodeName: string,
+    devices: string,
+    annotations?: Record<string, string>
+  ): IntelGpuPod => ({
+    metadata: { name, namespace, annotations },
+    spec: {
+      nodeName,
+      containers: [{ name: 'main', resources: { requests: { 'gpu.intel.com/i915': devices } } }],
+    },
+    status: { phase: 'Running' },
+  });
+
+  it('splits node energy by requested devices and leaves idle devices unattributed', () => {
+    const result = attributeGpuEnergy(
+      [chipEnergy('n1', '0000:03:00.0', 3000), chipEnergy('n1', '0000:04:00.0', 1000)],
+      [node('n1', {}, '4')],
+      [pod('ml', 'train', 'n1', '2'), pod('web', 'infer', 'n1', '1')],
+      3600
+    );
+
+    expect(result.pods.map(p => [p.name, p.joules, p.basis])).toEqual([
+      ['train', 2000, 'devices'],
+      ['infer', 1000, 'devices'],
+    ]);
+    expect(result.totalJoules).toBe(4000);
+    expect(result.attributedJoules).toBe(3000);
+  });
+
+  it('uses GAS card assignments, pairing cards with chips in PCI order', () => {
+    const gas = (cards: string) => ({ 'gas-container-cards': cards });
+    const result = attributeGpuEnergy(
+      [chipEnergy('n2', '0000:04:00.0', 1000), chipEnergy('n2', '0000:03:00.0', 3000)],
+      [node('n2', { 'gpu.intel.com/cards': 'card1.card0' })],
+      [
+        pod('ml', 'train', 'n2', '1', gas('card0')),
+        pod('ml', 'eval', 'n2', '1', gas('card1')),
+        pod('web', 'infer', 'n2', '1', gas('card1')),
+      ],
+      3600
+    );
+
+    expect(result.pods.map(p => [p.name, p.joules, p.basis])).toEqual([
+      ['train', 3000, 'gas'],
+      ['eval', 500, 'gas'],
+      ['infer', 500, 'gas'],
+    ]);
+    expect(result.namespaces).toEqual([
+      { namespace: 'ml', joules: 3500, podCount: 2 },
+      { namespace: 'web', joules: 500, podCount: 1 },
+    ]);
+  });
+
+  it('charges a pod younger than the window only for the time it existed', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z');
+    const young = pod('ml', 'young', 'n1', '1');
+    young.metadata.creationTimestamp = '2026-10-19T11:45:00Z';
+    const old = pod('ml', 'old', 'n1', '1');
+    old.metadata.creationTimestamp = '2026-10-18T12:00:00Z';
+
+    const result = attributeGpuEnergy(
+      [chipEnergy('n1', '0000:03:00.0', 4000)],
+      [node('n1')],
+      [young, old],
+      3600,
+      now
+    );
+
+    expect(result.pods.map(p => [p.name, p.joules])).toEqual([
+      ['old', 2000],
+      ['young', 500],
+    ]);
+    expect(result.attributedJoules).toBe(2500);
+  });
+});
+
+describe('fetchGpuIdleStates', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z');
+  const end = now / 1000;
+  const series = (values: number[]) =>
+    values.map((v, i) => [end - (values.length - 1 - i) * 600, String(v)]);
+
+  it('prefers XPU Manager utilization and judges other GPUs by power against TDP', async () => {
+    const chip = (pci: string) => ({ instance: '10.0.0.6:9100', chip: `0000:00:01_0_${pci}` });
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      const query = decodeURIComponent(url.split('query=')[1]?.split('&')[0] ?? '');
+      const range = (result: unknown[]) => ({
+        status: 'success',
+        data: { resultType: 'matrix', result },
+      });
+      const vector = (result: unknown[]) => ({
+        status: 'success',
+        data: { resultType: 'vector', result },
+      });
+      if (query.startsWith('max_over_time(rate(')) {
+        return range([
+          { metric: { ...chip('0000:03:00_0'), sensor: 'energy1' }, values: series([90, 10, 12]) },
+          { metric: { ...chip('0000:04:00_0'), sensor: 'energy1' }, values: series([10, 10, 90]) },
+        ]);
+      }
+      if (query.startsWith('max_over_time(xpum_gpu_utilization')) {
+        const labels = { instance: '10.0.0.6:29999', dev_id: '1', pci_bdf: '0000:04:00.0' };
+        return range([
+          { metric: labels, values: series([50, 2, 3]) },
+          { metric: { ...labels, tile_id: '0' }, values: series([80, 80, 80]) },
+        ]);
+      }
+      if (query.startsWith('node_hwmon_power_max_watt')) {
+        return vector([
+          { metric: { ...chip('0000:03:00_0'), sensor: 'power1' }, value: [0, '150'] },
+          { metric: { ...chip('0000:04:00_0'), sensor: 'power1' }, value: [0, '150'] },
+        ]);
+      }
+      if (query === 'node_uname_info') {
+        return vector([
+          { metric: { instance: '10.0.0.6:9100', nodename: 'gpu-6' }, value: [0, '1'] },
+        ]);
+      }
+      return vector([]);
+    });
+
+    const states = await fetchGpuIdleStates(
+      { powerPercent: 20, utilizationPercent: 5 },
+      { proxyPath: '/prom' },
+      now
+    );
+
+    expect(states).toEqual([
+      // Busy on power, but XPU Manager says idle since the second step
+      {
+        nodeName: 'gpu-6',
+        pciAddress: '0000:04:00.0',
+        basis: 'utilization',
+        idleSince: end - 1200,
+        idleThroughout: false,
+      },
+      {
+        nodeName: 'gpu-6',
+        pciAddress: '0000:03:00.0',
+        basis: 'power',
+        idleSince: end - 1200,
+        idleThroughout: false,
+      },
+    ]);
+  });
+});
+
+describe('findIdleGpuAllocations', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z');
+  const hoursAgo = (h: number) => now / 1000 - h * 3600;
+  const state = (pciAddress: string, idleSince: number | null, idleThroughout = false) => ({
+    nodeName: 'n1',
+    pciAddress,
+    basis: 'power' as const,
+    idleSince,
+    idleThroughout,
+  });
+  const node: IntelGpuNode = {
+    metadata: { name: 'n1', labels: { 'gpu.intel.com/cards': 'card0.card1' } },
+    status: { capacity: { 'gpu.intel.com/i915': '2' } },
+  };
+  const pod = (
+    name: string,
+    annotations?: Record<string, string>,
+    created = '2026-10-01T00:00:00Z'
+  ) =>
+    ({
+      metadata: {
+        name,
+        namespace: 'team-a',
+        creationTimestamp: created,
+        annotations,
+        ownerReferences: [{ kind: 'StatefulSet', name: 'notebooks', controller: true }],
+      },
+      spec: {
+        nodeName: 'n1',
+        containers: [{ name: 'main', resources: { limits: { 'gpu.intel.com/i915': '1' } } }],
+      },
+      status: { phase: 'Running' },
+    } as IntelGpuPod);
+
+  it('judges GAS pods by their own cards', () => {
+    const allocations = findIdleGpuAllocations(
+      [state('0000:03:00.0', hoursAgo(5)), state('0000:04:00.0', null)],
+      [node],
+      [
+        pod('idle', { 'gas-container-cards': 'card0' }),
+        pod('busy', { 'gas-container-cards': 'card1' }),
+      ],
+      3600,
+      now
+    );
+
+    expect(allocations).toEqual([
+      {
+        namespace: 'team-a',
+        name: 'idle',
+        owner: 'StatefulSet/notebooks',
+        nodeName: 'n1',
+        devices: 'card0',
+        basis: 'power',
+        idleSeconds: 5 * 3600,
+        idleAtLeast: false,
+      },
+    ]);
+  });
+
+  it('reports other pods only when every GPU on the node is idle', () => {
+    const pods = [pod('young', undefined, new Date(now - 2 * 3600 * 1000).toISOString())];
+    const someBusy = [state('0000:03:00.0', hoursAgo(200), true), state('0000:04:00.0', null)];
+    expect(findIdleGpuAllocations(someBusy, [node], pods, 3600, now)).toEqual([]);
+
+    const allIdle = [
+      state('0000:03:00.0', hoursAgo(200), true),
+      state('0000:04:00.0', hoursAgo(200), true),
+    ];
+    const [young] = findIdleGpuAllocations(allIdle, [node], pods, 3600, now);
+    // Idle time starts no earlier than the pod
+    expect(young).toMatchObject({ devices: '1', idleSeconds: 2 * 3600, idleAtLeast: false });
+    expect(findIdleGpuAllocations(allIdle, [node], pods, 3 * 3600, now)).toEqual([]);
+  });
+});
+
+describe('normalizePciAddress', () => {
+  it('takes the GPU address from PCI labels and hwmon chip names', () => {
+    expect(normalizePciAddress('0000:4D:00.0')).toBe('0000:4d:00.0');
+    expect(normalizePciAddress('0000:09:01_0_0000:0a:00_0')).toBe('0000:0a:00.0');
+    expect(normalizePciAddress('card0')).toBeNull();
+    expect(normalizePciAddress(undefined)).toBeNull();
+  });
+});
+
+describe('mergeGpuDeviceReports', () => {
+  it('keeps GPUs without a PCI address apart per source', () => {
+    const devices = mergeGpuDeviceReports([
+      {
+        source: 'hwmon',
+        devices: [{ nodeName: 'n', pciAddress: null, sourceId: 'card0', readings: {} }],
+      },
+      {
+        source: 'xpum',
+        devices: [{ nodeName: 'n', pciAddress: null, sourceId: '0', readings: {} }],
+      },
+    ]);
+    expect(devices.map(d => d.key)).toEqual(['n/hwmon:card0', 'n/xpum:0']);
+  });
+
+  it('ignores NaN readings so a later source can fill them', () => {
+    const [device] = mergeGpuDeviceReports([
+      {
+        source: 'promql',
+        devices: [{ nodeName: 'n', pciAddress: 'p', sourceId: 'p', readings: { fanRpm: NaN } }],
+      },
+      {
+        source: 'hwmon',
+        devices: [{ nodeName: 'n', pciAddress: 'p', sourceId: 'c', readings: { fanRpm: 900 } }],
+      },
+    ]);
+    expect(device.fanRpm).toBe(900);
+  });
+});
+
+describe('parseGpuMetricQueries', () => {
+  it('splits on the first "=" and reports unknown readings', () => {
+    expect(
+      parseGpuMetricQueries(
+        [
+          '# comment',
+          'gpuUtilizationPercent=avg by (instance) (busy{engine="rcs"})',
+          'bogus=up',
+          'fanRpm=',
+        ].join('\n')
+      )
+    ).toEqual({
+      queries: { gpuUtilizationPercent: 'avg by (instance) (busy{engine="rcs"})' },
+      invalid: ['bogus=up', 'fanRpm='],
+    });
+  });
+});
+
+describe('getRangeStep', () => {
+  it('keeps series around 240 points with a 15s floor', () => {
+    expect(getRangeStep('1h')).toBe(15);
+    expect(getRangeStep('6h')).toBe(90);
+    expect(getRangeStep('24h')).toBe(360);
+    expect(getRangeStep('7d')).toBe(2520);
+  });
+});
+
+describe('sumTimeSeries', () => {
+  it('adds values at matching timestamps and keeps time order', () => {
+    expect(
+      sumTimeSeries([
+        [
+          { time: 20, value: 1 },
+          { time: 10, value: 2 },
+        ],
+        [{ time: 10, value: 3 }],
+      ])
+    ).toEqual([
+      { time: 10, value: 5 },
+      { time: 20, value: 1 },
+    ]);
+  });
+});
+
+describe('fetchGpuPowerHistory', () => {
+  it('runs a query_range over the window and maps instances to node names', async () => {
+    const proxy = '/api/v1/namespaces/monitoring/services/prometheus:9090/proxy';
+    vi.mocked(ApiProxy.request).mockClear();
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      if (url.includes('/api/v1/query_range?')) {
+        return {
+          status: 'success',
+          data: {
+            resultType: 'matrix',
+            result: [
+              {
+                metric: { instance: '10.0.0.1:9100', chip: 'card0' },
+                values: [
+                  [1_000_000 - 15, '40'],
+                  [1_000_000, 'NaN'],
+                ],
+              },
+            ],
+          },
+        };
+      }
+      if (url.includes('node_uname_info')) {
+        return {
+          status: 'success',
+          data: {
+            resultType: 'vector',
+            result: [{ metric: { instance: '10.0.0.1:9100', nodename: 'gpu-1' }, value: [0, '1'] }],
+          },
+        };
+      }
+      return { status: 'success', data: { resultType: 'vector', result: [] } };
+    });
+
+    const history = await fetchGpuPowerHistory('1h', { proxyPath: proxy }, 1_000_000_000);
+
+    expect(history).toMatchObject({ range: '1h', step: 15, start: 996_400, end: 1_000_000 });
+    expect(history?.chips).toEqual([
+      {
+        nodeName: 'gpu-1',
+        chip: 'card0',
+        instance: '10.0.0.1:9100',
+        points: [{ time: 999_985, value: 40 }],
+      },
+    ]);
+    expect(history?.total).toEqual([{ time: 999_985, value: 40 }]);
+    const rangeUrl = vi
+      .mocked(ApiProxy.request)
+      .mock.calls.map(([url]) => url as string)
+      .find(url => url.includes('query_range'));
+    expect(rangeUrl).toContain('start=996400&end=1000000&step=15');
+  });
+
+  it('returns null when Prometheus is unreachable', async () => {
+    vi.mocked(ApiProxy.request).mockRejectedValue(new Error('503'));
+    expect(await fetchGpuPowerHistory('6h', {})).toBeNull();
+  });
+});
+
+describe('node and chip selectors', () => {
+  const device = (nodeName: string, pciAddress: string, chip: string): GpuDeviceMetrics =>
+    ({
+      key: `${nodeName}/${pciAddress}`,
+      nodeName,
+      pciAddress,
+      sources: ['hwmon', 'xpum'],
+      sourceIds: { hwmon: chip, xpum: '0' },
+      hwmon: { chip, instance: `${nodeName}:9100`, driver: 'xe' },
+    } as unknown as GpuDeviceMetrics);
+  const metrics: GpuMetrics = {
+    devices: [
+      device('gpu-1', '0000:03:00.0', 'hwmon2'),
+      device('gpu-2', '0000:03:00.0', 'hwmon2'),
+      device('gpu-2', '0000:83:00.0', 'hwmon5'),
+    ],
+    sources: [
+      { id: 'hwmon', label: 'node-exporter hwmon', deviceCount: 3, error: null },
+      { id: 'textfile', label: 'Textfile collector', deviceCount: 0, error: null },
+    ],
+    fetchedAt: '2026-10-19T10:00:00Z',
+  };
+
+  it("keeps one node's GPUs and counts sources for that node", () => {
+    const node = selectNodeGpuMetrics(metrics, 'gpu-2');
+    expect(node.devices.map(d => d.pciAddress)).toEqual(['0000:03:00.0', '0000:83:00.0']);
+    expect(node.sources.map(s => s.deviceCount)).toEqual([2, 0]);
+  });
+
+  it('finds a GPU by PCI address, hwmon chip or source ID on the given node', () => {
+    expect(selectChipGpuMetrics(metrics, 'gpu-2', '0000:83:00.0')?.key).toBe('gpu-2/0000:83:00.0');
+    expect(selectChipGpuMetrics(metrics, 'gpu-2', 'hwmon2')?.key).toBe('gpu-2/0000:03:00.0');
+    expect(selectChipGpuMetrics(metrics, 'gpu-1', '0')?.key).toBe('gpu-1/0000:03:00.0');
+    expect(selectChipGpuMetrics(metrics, 'gpu-1', 'hwmon5')).toBeNull();
+  });
+
+  it("keeps one node's power series and totals them", () => {
+    const series = (nodeName: string, value: number) => ({
+      nodeName,
+      chip: 'hwmon2',
+      instance: `${nodeName}:9100`,
+      points: [{ time: 100, value }],
+    });
+    const history = selectNodePowerHistory(
+      {
+        range: '1h',
+        step: 15,
+        start: 0,
+        end: 3600,
+        chips: [series('gpu-1', 40), series('gpu-2', 90), series('gpu-2', 10)],
+        total: [{ time: 100, value: 140 }],
+      },
+      'gpu-2'
+    );
+    expect(history.chips).toHaveLength(2);
+    expect(history.total).toEqual([{ time: 100, value: 100 }]);
+  });
+});
@@ -1,42 +1,241 @@
 /**
  * Intel GPU metrics via Prometheus (kube-prometheus-stack).
  *
- * The Intel i915/Xe GPU driver exposes hwmon sensors that node-exporter
- * scrapes automatically. We query Prometheus for:
- *   - node_hwmon_energy_joule_total  (chip_name="i915") → rate = power in W
- *   - node_hwmon_power_max_watt      (same chip)        → TDP
- *   - node_hwmon_chip_names          (chip_name="i915") → identify GPU chips
- *   - node_uname_info                                   → instance → nodename
+ * Metrics come from pluggable sources (GpuMetricsSource), each reading one
+ * exporter's series and reporting the GPUs it sees. fetchGpuMetrics queries
+ * every source and merges their reports into one GpuDeviceMetrics per GPU,
+ * matched by node and PCI address. Sources, in order of precedence:
+ *
+ *   - promql    user-defined PromQL queries from the plugin settings
+ *   - hwmon     node-exporter hwmon sensors of the i915 and xe drivers:
+ *                 node_hwmon_chip_names          (chip_name="i915" or "xe") → identify GPU chips
+ *                 node_hwmon_energy_joule_total  (same chips) → rate = power in W
+ *                 node_hwmon_power_max_watt      (same chips) → TDP
+ *                 node_hwmon_sensor_label        (same chips) → card vs package channels
+ *                 node_hwmon_temp_celsius, node_hwmon_temp_max_celsius,
+ *                 node_hwmon_temp_crit_celsius   (same chips) → temperature and limits
+ *                 node_hwmon_fan_rpm             (same chips) → fan speed, where present
+ *   - xpum      Intel XPU Manager (xpumd) exporter: engine utilization, GPU
+ *               and memory frequency, memory use and bandwidth, per-tile data
+ *   - textfile  node-exporter textfile collector: intel_gpu_frequency_mhz
+ *               (actual, requested, min, max and boost frequency) and
+ *               intel_gpu_throttle_reason; names configurable in the settings
+ *
+ * node_uname_info maps node-exporter instances to node names for all sources.
+ * fetchGpuMetrics and fetchGpuPowerHistory take a node name for detail views:
+ * the queries then match only that node's exporters. selectNodeGpuMetrics,
+ * selectChipGpuMetrics and selectNodePowerHistory narrow cluster-wide results
+ * to one node or GPU.
+ *
+ * attributeGpuEnergy splits each chip's energy over a window (increase() of
+ * node_hwmon_energy_joule_total) between the pods holding the node's GPUs,
+ * by GAS card assignment where present and by device requests otherwise,
+ * scaling a pod's share by the part of the window it existed for.
+ * findIdleGpuAllocations reports pods whose GPUs have stayed near idle (XPU
+ * Manager utilization, else power against TDP) for a chosen time.
+ *
+ * i915 exposes one card-level energy channel. xe exposes labelled "card" and
+ * "pkg" channels (energy1/energy2, power1/power2); the card channel is the
+ * chip's power, and the package channel is reported alongside it.
  *
  * Queries go through the Kubernetes API proxy to the in-cluster Prometheus
- * service: /api/v1/namespaces/monitoring/services/{svc}:{port}/proxy/...
+ * service: /api/v1/namespaces/{namespace}/services/{svc}:{port}/proxy/...
+ * The service is found by discoverPrometheus (see prometheus.ts) from the
+ * plugin settings, the defaults or a cluster-wide service search.
  */
 
 import { ApiProxy } from '@kinvolk/headlamp-plugin/lib';
+import {
+  computeNodeCardOccupancy,
+  getNodeGpuAllocationHolders,
+  getNodeGpuCount,
+  getPodOwner,
+  INTEL_GPU_RESOURCE,
+  INTEL_GPU_XE_RESOURCE,
+  IntelGpuNode,
+  IntelGpuPod,
+} from './k8s';
+import { discoverPrometheus } from './prometheus';
+import {
+  getPluginSettings,
+  IdleGpuThresholds,
+  PrometheusSettings,
+  TextfileMetricSettings,
+} from './settings';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export interface GpuChipMetrics {
-  /** Kubernetes node name (e.g. "buttons") */
-  nodeName: string;
-  /** PCI chip address (e.g. "0000:09:01_0_0000:0a:00_0") */
+export type GpuEngineGroup = 'compute' | 'render' | 'media' | 'copy';
+export const GPU_ENGINE_GROUPS: readonly GpuEngineGroup[] = ['compute', 'render', 'media', 'copy'];
+
+/** Readings a GPU can have; sources fill in what their exporter provides */
+export interface GpuReadings {
+  /**
+   * Current power draw in watts. From hwmon: the card channel, or the package
+   * channel when the chip has no card channel.
+   */
+  powerWatts: number | null;
+  /** Maximum / TDP power in watts, for the same channel as powerWatts */
+  powerMaxWatts: number | null;
+  /** Package channel power when reported separately from the card (xe) */
+  packagePowerWatts: number | null;
+  /** Hottest temperature sensor on the GPU, in °C */
+  temperatureCelsius: number | null;
+  /** Max (hot) limit of that sensor, in °C */
+  temperatureMaxCelsius: number | null;
+  /** Critical (shutdown) limit of that sensor, in °C */
+  temperatureCritCelsius: number | null;
+  /** Fastest fan in RPM; null when the card has no fan sensor */
+  fanRpm: number | null;
+  gpuUtilizationPercent: number | null;
+  engineUtilizationPercent: Partial<Record<GpuEngineGroup, number>>;
+  /** Actual GPU frequency in MHz */
+  gpuFrequencyMhz: number | null;
+  /** Frequency the driver requests (i915 cur_freq); actual stays below it when throttled */
+  gpuFrequencyRequestedMhz: number | null;
+  /** Software frequency limits (min_freq, max_freq) and the boost frequency */
+  gpuFrequencyMinMhz: number | null;
+  gpuFrequencyMaxMhz: number | null;
+  gpuFrequencyBoostMhz: number | null;
+  /** Active throttle reasons, e.g. "pl1" or "thermal"; empty when none, null when not reported */
+  throttleReasons: string[] | null;
+  memoryFrequencyMhz: number | null;
+  memoryUsedBytes: number | null;
+  memoryBandwidthPercent: number | null;
+}
+
+/** The single-valued readings, which custom PromQL queries can fill */
+export type GpuReadingField = Exclude<
+  keyof GpuReadings,
+  'engineUtilizationPercent' | 'throttleReasons'
+>;
+
+export const GPU_READING_FIELDS: readonly GpuReadingField[] = [
+  'powerWatts',
+  'powerMaxWatts',
+  'packagePowerWatts',
+  'temperatureCelsius',
+  'temperatureMaxCelsius',
+  'temperatureCritCelsius',
+  'fanRpm',
+  'gpuUtilizationPercent',
+  'gpuFrequencyMhz',
+  'gpuFrequencyRequestedMhz',
+  'gpuFrequencyMinMhz',
+  'gpuFrequencyMaxMhz',
+  'gpuFrequencyBoostMhz',
+  'memoryFrequencyMhz',
+  'memoryUsedBytes',
+  'memoryBandwidthPercent',
+];
+
+export function isGpuReadingField(value: string): value is GpuReadingField {
+  return GPU_READING_FIELDS.includes(value as GpuReadingField);
+}
+
+/** Readings of one tile on multi-tile GPUs (e.g. Data Center GPU Max) */
+export interface GpuTileMetrics extends GpuReadings {
+  tileId: string;
+}
+
+/** The node-exporter hwmon chip behind a GPU; power history is keyed by it */
+export interface GpuHwmonChip {
+  /** hwmon chip name, built from the PCI path (e.g. "0000:09:01_0_0000:0a:00_0") */
   chip: string;
   /** node-exporter instance (IP:port) */
   instance: string;
-  /** Current power draw in watts (rate of energy counter, null if unavailable) */
-  powerWatts: number | null;
-  /** Maximum / TDP power in watts */
-  powerMaxWatts: number | null;
+  /** Kernel driver owning the hwmon chip */
+  driver: GpuDriver;
+}
+
+/** One GPU with the readings of every source that reported it */
+export interface GpuDeviceMetrics extends GpuReadings {
+  /** Stable identity: node plus PCI address, or plus the first source's own ID */
+  key: string;
+  /** Kubernetes node name (e.g. "buttons") */
+  nodeName: string;
+  /** PCI address (e.g. "0000:0a:00.0"), when any source reported it */
+  pciAddress: string | null;
+  /** Sources that reported this GPU, in order of precedence */
+  sources: GpuMetricsSourceId[];
+  /** Each source's own ID for the GPU (hwmon chip, XPU Manager dev_id, …) */
+  sourceIds: Partial<Record<GpuMetricsSourceId, string>>;
+  hwmon: GpuHwmonChip | null;
+  tiles: GpuTileMetrics[];
+}
+
+export interface GpuMetricsSourceStatus {
+  id: GpuMetricsSourceId;
+  label: string;
+  /** GPUs this source reported */
+  deviceCount: number;
+  /** Why the source's queries failed, if they did */
+  error: string | null;
 }
 
 export interface GpuMetrics {
-  chips: GpuChipMetrics[];
+  devices: GpuDeviceMetrics[];
+  sources: GpuMetricsSourceStatus[];
   /** ISO timestamp of when metrics were fetched */
   fetchedAt: string;
 }
 
+/** One sample of a time series: Unix time in seconds and value */
+export interface TimeSeriesPoint {
+  time: number;
+  value: number;
+}
+
+export interface GpuChipPowerSeries {
+  nodeName: string;
+  chip: string;
+  instance: string;
+  points: TimeSeriesPoint[];
+}
+
+export interface GpuPowerHistory {
+  range: MetricsRange;
+  /** Query resolution in seconds */
+  step: number;
+  /** Window bounds, Unix time in seconds */
+  start: number;
+  end: number;
+  chips: GpuChipPowerSeries[];
+  /** Sum of all chips at each timestamp */
+  total: TimeSeriesPoint[];
+}
+
+// ---------------------------------------------------------------------------
+// Range windows
+// ---------------------------------------------------------------------------
+
+export type MetricsRange = '1h' | '6h' | '24h' | '7d';
+
+export const METRICS_RANGES: ReadonlyArray<{ range: MetricsRange; seconds: number }> = [
+  { range: '1h', seconds: 3_600 },
+  { range: '6h', seconds: 21_600 },
+  { range: '24h', seconds: 86_400 },
+  { range: '7d', seconds: 604_800 },
+];
+
+/** Roughly this many points per series, whatever the window */
+const RANGE_TARGET_POINTS = 240;
+/** Shortest step; node-exporter is typically scraped every 15–30s */
+const RANGE_MIN_STEP_SECONDS = 15;
+/** Rate window for energy counters; widened to the step on long ranges */
+const POWER_RATE_WINDOW_SECONDS = 300;
+
+export function getRangeSeconds(range: MetricsRange): number {
+  return METRICS_RANGES.find(r => r.range === range)?.seconds ?? METRICS_RANGES[0].seconds;
+}
+
+/** Automatic query_range step for a window: 15s for 1h, 6m for 24h, 42m for 7d */
+export function getRangeStep(range: MetricsRange): number {
+  return Math.max(RANGE_MIN_STEP_SECONDS, Math.ceil(getRangeSeconds(range) / RANGE_TARGET_POINTS));
+}
+
 // ---------------------------------------------------------------------------
 // Prometheus query helper
 // ---------------------------------------------------------------------------
@@ -54,15 +253,18 @@ interface PrometheusResponse {
   };
 }
 
-/**
- * Service discovery: find the Prometheus service.
- * Tries the kube-prometheus-stack default name; falls back to prometheus-operated.
- */
-const PROMETHEUS_SERVICES = [
-  { namespace: 'monitoring', service: 'kube-prometheus-stack-prometheus', port: '9090' },
-  { namespace: 'monitoring', service: 'prometheus-operated', port: '9090' },
-  { namespace: 'monitoring', service: 'prometheus', port: '9090' },
-];
+interface PrometheusRangeResult {
+  metric: Record<string, string>;
+  values: Array<[number, string]>;
+}
+
+interface PrometheusRangeResponse {
+  status: string;
+  data: {
+    resultType: string;
+    result: PrometheusRangeResult[];
+  };
+}
 
 async function queryPrometheus(query: string, prometheusPath: string): Promise<PrometheusResult[]> {
   const encoded = encodeURIComponent(query);
@@ -74,84 +276,1328 @@ async function queryPrometheus(query: string, prometheusPath: string): Promise<P
   return raw.data?.result ?? [];
 }
 
-async function findPrometheusPath(): Promise<string | null> {
-  for (const { namespace, service, port } of PROMETHEUS_SERVICES) {
-    const basePath = `/api/v1/namespaces/${namespace}/services/${service}:${port}/proxy`;
-    try {
-      const raw = (await ApiProxy.request(`${basePath}/api/v1/query?query=1`, {
-        method: 'GET',
-      })) as PrometheusResponse;
-      if (raw?.status === 'success') return basePath;
-    } catch {
-      // try next
+async function queryPrometheusRange(
+  query: string,
+  prometheusPath: string,
+  start: number,
+  end: number,
+  step: number
+): Promise<PrometheusRangeResult[]> {
+  const params = new URLSearchParams({
+    query,
+    start: String(start),
+    end: String(end),
+    step: String(step),
+  });
+  const path = `${prometheusPath}/api/v1/query_range?${params.toString()}`;
+
+  const raw = (await ApiProxy.request(path, { method: 'GET' })) as PrometheusRangeResponse;
+
+  if (raw?.status !== 'success') return [];
+  return raw.data?.result ?? [];
+}
+
+/** node_uname_info of every node-exporter, or only of those on one node */
+function unameQuery(nodeName?: string): string {
+  return nodeName === undefined
+    ? 'node_uname_info'
+    : `node_uname_info{nodename=${JSON.stringify(nodeName)}}`;
+}
+
+/** PromQL string literal of a regex matching any of the values exactly, then `suffix` */
+function anyOfRegex(values: string[], suffix = ''): string {
+  const escaped = values.map(v => v.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return JSON.stringify(`(${escaped.join('|')})${suffix}`);
+}
+
+/** node-exporter instance → Kubernetes node name, from node_uname_info */
+function buildInstanceNodeMap(unameResults: PrometheusResult[]): Map<string, string> {
+  const instanceToNode = new Map<string, string>();
+  for (const r of unameResults) {
+    const inst = r.metric['instance'];
+    const nodename = r.metric['nodename'] ?? r.metric['node'] ?? inst;
+    if (inst) instanceToNode.set(inst, nodename);
+  }
+  return instanceToNode;
+}
+
+/** Base path of the discovered Prometheus, or null when none answered */
+async function findPrometheusPath(prometheus: PrometheusSettings): Promise<string | null> {
+  return (await discoverPrometheus(prometheus)).endpoint?.path ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Metrics sources
+// ---------------------------------------------------------------------------
+
+export type GpuMetricsSourceId = 'promql' | 'hwmon' | 'xpum' | 'textfile';
+
+/** One GPU as seen by a single source */
+export interface GpuDeviceReport {
+  nodeName: string;
+  /** Normalised PCI address; reports of the same GPU are merged on it */
+  pciAddress: string | null;
+  /** The source's own ID for the GPU, used to merge when there is no PCI address */
+  sourceId: string;
+  readings: Partial<GpuReadings>;
+  hwmon?: GpuHwmonChip;
+  tiles?: GpuTileMetrics[];
+}
+
+export interface GpuMetricsSourceContext {
+  prometheusPath: string;
+  /** node-exporter instance → node name, from node_uname_info */
+  instanceToNode: Map<string, string>;
+  /**
+   * Set when fetching one node's GPUs: sources then match only its series,
+   * and instanceToNode holds only its node-exporters
+   */
+  nodeName?: string;
+  metricQueries: GpuMetricQueries;
+  textfileMetrics: TextfileMetricSettings;
+}
+
+/**
+ * An exporter the Metrics page can read. fetchDevices resolves with the GPUs
+ * the exporter reports, or an empty list when its series are not in
+ * Prometheus; a rejection only drops this source from the result.
+ */
+export interface GpuMetricsSource {
+  id: GpuMetricsSourceId;
+  /** Shown on the Metrics page, e.g. "node-exporter hwmon" */
+  label: string;
+  fetchDevices(context: GpuMetricsSourceContext): Promise<GpuDeviceReport[]>;
+}
+
+function emptyGpuReadings(): GpuReadings {
+  return {
+    powerWatts: null,
+    powerMaxWatts: null,
+    packagePowerWatts: null,
+    temperatureCelsius: null,
+    temperatureMaxCelsius: null,
+    temperatureCritCelsius: null,
+    fanRpm: null,
+    gpuUtilizationPercent: null,
+    engineUtilizationPercent: {},
+    gpuFrequencyMhz: null,
+    gpuFrequencyRequestedMhz: null,
+    gpuFrequencyMinMhz: null,
+    gpuFrequencyMaxMhz: null,
+    gpuFrequencyBoostMhz: null,
+    throttleReasons: null,
+    memoryFrequencyMhz: null,
+    memoryUsedBytes: null,
+    memoryBandwidthPercent: null,
+  };
+}
+
+/**
+ * PCI address in "0000:0a:00.0" form from a label value: a PCI address
+ * itself, or a hwmon chip name, whose last address is the GPU
+ * ("0000:09:01_0_0000:0a:00_0" → "0000:0a:00.0").
+ */
+export function normalizePciAddress(value: string | undefined): string | null {
+  const addresses = value?.match(/[0-9a-f]{4}:[0-9a-f]{2}:[0-9a-f]{2}[._][0-7]/gi);
+  if (!addresses) return null;
+  const last = addresses[addresses.length - 1].toLowerCase();
+  return `${last.slice(0, -2)}.${last.slice(-1)}`;
+}
+
+/**
+ * Node for an exporter series: a node label added by relabelling, the
+ * node-exporter instance itself, or the node-exporter on the same host
+ * (other exporters listen on different ports).
+ */
+function seriesNodeName(
+  metric: Record<string, string>,
+  instanceToNode: Map<string, string>
+): string {
+  const instance = metric['instance'] ?? '';
+  const labelled = metric['node'] ?? metric['kubernetes_node'] ?? instanceToNode.get(instance);
+  if (labelled) return labelled;
+  const host = instance.replace(/:\d+$/, '');
+  for (const [nodeExporter, nodeName] of instanceToNode) {
+    if (nodeExporter.replace(/:\d+$/, '') === host) return nodeName;
+  }
+  return instance;
+}
+
+/** Report for a series labelled with pci_address, pci_bdf or a hwmon chip name */
+function seriesReport(
+  metric: Record<string, string>,
+  instanceToNode: Map<string, string>,
+  readings: Partial<GpuReadings>
+): GpuDeviceReport {
+  const pciLabel = metric['pci_address'] ?? metric['pci_bdf'] ?? metric['chip'];
+  return {
+    nodeName: seriesNodeName(metric, instanceToNode),
+    pciAddress: normalizePciAddress(pciLabel),
+    sourceId: pciLabel ?? metric['card'] ?? metric['instance'] ?? '',
+    readings,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// node-exporter hwmon source
+// ---------------------------------------------------------------------------
+
+/** Kernel drivers whose hwmon chips carry Intel GPU power sensors */
+export type GpuDriver = 'i915' | 'xe';
+export const GPU_HWMON_DRIVERS: readonly GpuDriver[] = ['i915', 'xe'];
+
+/** Power rail an energy or power sensor measures */
+export type GpuPowerChannel = 'card' | 'package';
+
+const GPU_CHIP_SELECTOR = `chip_name=~"${GPU_HWMON_DRIVERS.join('|')}"`;
+
+export function isGpuDriver(value: unknown): value is GpuDriver {
+  return GPU_HWMON_DRIVERS.includes(value as GpuDriver);
+}
+
+/** Matcher for the node's node-exporters when fetching one node; null cluster-wide */
+function nodeExporterMatcher({
+  nodeName,
+  instanceToNode,
+}: Pick<GpuMetricsSourceContext, 'nodeName' | 'instanceToNode'>): string | null {
+  return nodeName === undefined ? null : `instance=~${anyOfRegex([...instanceToNode.keys()])}`;
+}
+
+/** node_hwmon_chip_names selector for Intel GPU chips, on one node when fetching one */
+function gpuChipSelector(context: Pick<GpuMetricsSourceContext, 'nodeName' | 'instanceToNode'>) {
+  const node = nodeExporterMatcher(context);
+  return node ? `${GPU_CHIP_SELECTOR},${node}` : GPU_CHIP_SELECTOR;
+}
+
+/** Restrict a hwmon series to Intel GPU chips, carrying chip_name along */
+function onGpuChips(expr: string, chipSelector = GPU_CHIP_SELECTOR): string {
+  return `${expr} * on(chip,instance) group_left(chip_name) node_hwmon_chip_names{${chipSelector}}`;
+}
+
+/** Current power per GPU sensor: rate of the cumulative energy counter */
+function gpuPowerQuery(rateWindow: string, chipSelector = GPU_CHIP_SELECTOR): string {
+  return onGpuChips(`rate(node_hwmon_energy_joule_total[${rateWindow}])`, chipSelector);
+}
+
+/**
+ * Classify a hwmon sensor by its label ("card" or "pkg" on xe). Unlabelled
+ * sensors count as card, except a second channel (energy2, power2), which
+ * xe uses for the package on kernels that do not label it.
+ */
+export function getPowerChannel(sensor: string, label: string | undefined): GpuPowerChannel {
+  if (label === 'pkg') return 'package';
+  if (label === 'card') return 'card';
+  return /\D2$/.test(sensor) ? 'package' : 'card';
+}
+
+function chipKey(metric: Record<string, string>): string {
+  return `${metric['instance'] ?? ''}/${metric['chip'] ?? ''}`;
+}
+
+/** chip + sensor → hwmon label, from node_hwmon_sensor_label */
+function buildSensorLabelMap(labelResults: PrometheusResult[]): Map<string, string> {
+  const labels = new Map<string, string>();
+  for (const r of labelResults) {
+    const { sensor, label } = r.metric;
+    if (sensor && label) labels.set(`${chipKey(r.metric)}/${sensor}`, label);
+  }
+  return labels;
+}
+
+/** Group per-sensor series by chip and power channel */
+function groupByChannel<T extends { metric: Record<string, string> }>(
+  results: T[],
+  labels: Map<string, string>
+): Map<string, Partial<Record<GpuPowerChannel, T>>> {
+  const byChip = new Map<string, Partial<Record<GpuPowerChannel, T>>>();
+  for (const r of results) {
+    const key = chipKey(r.metric);
+    const sensor = r.metric['sensor'] ?? '';
+    const channel = getPowerChannel(sensor, labels.get(`${key}/${sensor}`));
+    byChip.set(key, { ...byChip.get(key), [channel]: r });
+  }
+  return byChip;
+}
+
+/** chip → sensor → value, for per-sensor hwmon series */
+function groupBySensor(results: PrometheusResult[]): Map<string, Map<string, number>> {
+  const byChip = new Map<string, Map<string, number>>();
+  for (const r of results) {
+    const key = chipKey(r.metric);
+    const sensors = byChip.get(key) ?? new Map<string, number>();
+    sensors.set(r.metric['sensor'] ?? '', parseFloat(r.value[1]));
+    byChip.set(key, sensors);
+  }
+  return byChip;
+}
+
+/** Name of the sensor with the highest reading */
+function hottestSensor(sensors: Map<string, number> | undefined): string | undefined {
+  let hottest: string | undefined;
+  for (const [sensor, value] of sensors ?? []) {
+    if (hottest === undefined || value > sensors!.get(hottest)!) hottest = sensor;
+  }
+  return hottest;
+}
+
+/** The card channel when present, otherwise the package channel */
+function primaryChannel<T>(
+  channels: Partial<Record<GpuPowerChannel, T>> | undefined
+): T | undefined {
+  return channels?.card ?? channels?.package;
+}
+
+const hwmonMetricsSource: GpuMetricsSource = {
+  id: 'hwmon',
+  label: 'node-exporter hwmon',
+  async fetchDevices(context) {
+    const { prometheusPath, instanceToNode } = context;
+    const selector = gpuChipSelector(context);
+    const [
+      chipResults,
+      energyRateResults,
+      powerMaxResults,
+      labelResults,
+      tempResults,
+      tempMaxResults,
+      tempCritResults,
+      fanResults,
+    ] = await Promise.all([
+      // i915 / xe chip identification
+      queryPrometheus(`node_hwmon_chip_names{${selector}}`, prometheusPath),
+      // Current power per sensor (rate of cumulative energy counter)
+      queryPrometheus(gpuPowerQuery('5m', selector), prometheusPath),
+      // TDP / max power per sensor
+      queryPrometheus(onGpuChips('node_hwmon_power_max_watt', selector), prometheusPath),
+      // Sensor labels ("card", "pkg") to tell xe's channels apart
+      queryPrometheus(onGpuChips('node_hwmon_sensor_label', selector), prometheusPath),
+      // Temperature per sensor, with its max and critical limits
+      queryPrometheus(onGpuChips('node_hwmon_temp_celsius', selector), prometheusPath),
+      queryPrometheus(onGpuChips('node_hwmon_temp_max_celsius', selector), prometheusPath),
+      queryPrometheus(onGpuChips('node_hwmon_temp_crit_celsius', selector), prometheusPath),
+      // Fan speed (discrete cards with a fan controller only)
+      queryPrometheus(onGpuChips('node_hwmon_fan_rpm', selector), prometheusPath),
+    ]);
+
+    // Build chip → channel → sensor maps
+    const labels = buildSensorLabelMap(labelResults);
+    const chipToPower = groupByChannel(energyRateResults, labels);
+    const chipToMaxPower = groupByChannel(powerMaxResults, labels);
+    const valueOf = (r: PrometheusResult | undefined) => (r ? parseFloat(r.value[1]) : null);
+
+    // Build chip → sensor → reading maps
+    const chipToTemp = groupBySensor(tempResults);
+    const chipToTempMax = groupBySensor(tempMaxResults);
+    const chipToTempCrit = groupBySensor(tempCritResults);
+    const chipToFan = groupBySensor(fanResults);
+
+    // Assemble per-chip reports from the chip identification results
+    return chipResults
+      .filter(r => isGpuDriver(r.metric['chip_name']))
+      .map(r => {
+        const key = chipKey(r.metric);
+        const chip = r.metric['chip'] ?? '';
+        const instance = r.metric['instance'] ?? '';
+        const power = chipToPower.get(key);
+        const maxPower = chipToMaxPower.get(key);
+        const hasSeparatePackage = !!power?.card && !!power?.package;
+        const temps = chipToTemp.get(key);
+        const hotSensor = hottestSensor(temps);
+        const limitOf = (limits: Map<string, Map<string, number>>) =>
+          hotSensor !== undefined ? limits.get(key)?.get(hotSensor) ?? null : null;
+        const fans = [...(chipToFan.get(key)?.values() ?? [])];
+
+        return {
+          nodeName: instanceToNode.get(instance) ?? instance,
+          pciAddress: normalizePciAddress(chip),
+          sourceId: chip,
+          hwmon: { chip, instance, driver: r.metric['chip_name'] as GpuDriver },
+          readings: {
+            powerWatts: valueOf(primaryChannel(power)),
+            powerMaxWatts: valueOf(power?.card ? maxPower?.card : primaryChannel(maxPower)),
+            packagePowerWatts: hasSeparatePackage ? valueOf(power?.package) : null,
+            temperatureCelsius: hotSensor !== undefined ? temps!.get(hotSensor)! : null,
+            temperatureMaxCelsius: limitOf(chipToTempMax),
+            temperatureCritCelsius: limitOf(chipToTempCrit),
+            fanRpm: fans.length > 0 ? Math.max(...fans) : null,
+          },
+        };
+      });
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Intel XPU Manager (xpumd exporter) source
+// ---------------------------------------------------------------------------
+
+type XpumReadingField = Extract<
+  GpuReadingField,
+  | 'gpuUtilizationPercent'
+  | 'gpuFrequencyMhz'
+  | 'memoryFrequencyMhz'
+  | 'memoryUsedBytes'
+  | 'memoryBandwidthPercent'
+  | 'temperatureCelsius'
+>;
+
+const XPUM_METRIC_NAMES: Record<XpumReadingField, string> = {
+  gpuUtilizationPercent: 'xpum_gpu_utilization',
+  gpuFrequencyMhz: 'xpum_gpu_frequency_mhz',
+  memoryFrequencyMhz: 'xpum_memory_frequency_mhz',
+  memoryUsedBytes: 'xpum_memory_used_bytes',
+  memoryBandwidthPercent: 'xpum_memory_bandwidth',
+  temperatureCelsius: 'xpum_temperature_celsius',
+};
+
+const XPUM_ENGINE_METRIC_NAMES: Record<GpuEngineGroup, string> = {
+  compute: 'xpum_engine_group_compute_all_utilization',
+  render: 'xpum_engine_group_render_all_utilization',
+  media: 'xpum_engine_group_media_all_utilization',
+  copy: 'xpum_engine_group_copy_all_utilization',
+};
+
+/** Every xpum_* series we read, fetched in one instant query */
+const XPUM_NAME_MATCHER = `__name__=~"${[
+  ...Object.values(XPUM_METRIC_NAMES),
+  ...Object.values(XPUM_ENGINE_METRIC_NAMES),
+].join('|')}"`;
+
+/**
+ * The xpum_* query, on one node when fetching one: series with its node label
+ * or scraped from its host (see seriesNodeName)
+ */
+function xpumQuery({
+  nodeName,
+  instanceToNode,
+}: Pick<GpuMetricsSourceContext, 'nodeName' | 'instanceToNode'>): string {
+  if (nodeName === undefined) return `{${XPUM_NAME_MATCHER}}`;
+  const hosts = [...instanceToNode.keys()].map(instance => instance.replace(/:\d+$/, ''));
+  return [
+    `node=${JSON.stringify(nodeName)}`,
+    `kubernetes_node=${JSON.stringify(nodeName)}`,
+    `instance=~${anyOfRegex(hosts, '(:[0-9]+)?')}`,
+  ]
+    .map(matcher => `{${XPUM_NAME_MATCHER},${matcher}}`)
+    .join(' or ');
+}
+
+function applyXpumReading(readings: GpuReadings, metricName: string, value: number): void {
+  const engine = GPU_ENGINE_GROUPS.find(g => XPUM_ENGINE_METRIC_NAMES[g] === metricName);
+  if (engine) {
+    readings.engineUtilizationPercent[engine] = value;
+    return;
+  }
+  const field = (Object.keys(XPUM_METRIC_NAMES) as XpumReadingField[]).find(
+    k => XPUM_METRIC_NAMES[k] === metricName
+  );
+  if (field) readings[field] = value;
+}
+
+/** Group xpum_* series into devices, with tile_id series as per-tile readings */
+function parseXpumResults(
+  results: PrometheusResult[],
+  instanceToNode: Map<string, string>
+): GpuDeviceReport[] {
+  const devices = new Map<
+    string,
+    GpuDeviceReport & { readings: GpuReadings; tiles: GpuTileMetrics[] }
+  >();
+  for (const r of results) {
+    // xpum_temperature_celsius reports GPU and memory locations; keep the GPU one
+    if (r.metric['location'] && r.metric['location'] !== 'gpu') continue;
+
+    const deviceId = r.metric['dev_id'] ?? '';
+    const key = `${r.metric['instance'] ?? ''}/${deviceId}`;
+    let device = devices.get(key);
+    if (!device) {
+      device = {
+        nodeName: seriesNodeName(r.metric, instanceToNode),
+        pciAddress: normalizePciAddress(r.metric['pci_bdf']),
+        sourceId: deviceId,
+        readings: emptyGpuReadings(),
+        tiles: [],
+      };
+      devices.set(key, device);
+    }
+
+    let target = device.readings;
+    const tileId = r.metric['tile_id'];
+    if (tileId !== undefined) {
+      let tile = device.tiles.find(t => t.tileId === tileId);
+      if (!tile) {
+        tile = { ...emptyGpuReadings(), tileId };
+        device.tiles.push(tile);
+      }
+      target = tile;
     }
+    applyXpumReading(target, r.metric['__name__'] ?? '', parseFloat(r.value[1]));
+  }
+
+  for (const device of devices.values()) {
+    device.tiles.sort((a, b) => a.tileId.localeCompare(b.tileId, undefined, { numeric: true }));
   }
-  return null;
+  return [...devices.values()];
+}
+
+const xpumMetricsSource: GpuMetricsSource = {
+  id: 'xpum',
+  label: 'XPU Manager',
+  async fetchDevices(context) {
+    const { prometheusPath, instanceToNode } = context;
+    return parseXpumResults(
+      await queryPrometheus(xpumQuery(context), prometheusPath),
+      instanceToNode
+    );
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Textfile collector frequency source
+// ---------------------------------------------------------------------------
+
+/**
+ * Written by a node-exporter textfile-collector sidecar that reads the DRM
+ * sysfs files of each GPU, one series per GPU and value:
+ *
+ *   intel_gpu_frequency_mhz{pci_address="0000:0a:00.0",type="act"} 1450
+ *     type is act, cur, min, max or boost, from gt_{type}_freq_mhz
+ *   intel_gpu_throttle_reason{pci_address="0000:0a:00.0",reason="pl1"} 1
+ *     reason is a gt/gt0/throttle_reason_* file without its prefix (status,
+ *     pl1, pl2, pl4, thermal, prochot, ratl, vr_thermalert, vr_tdc); 1 when active
+ *
+ * Metric and label names can be overridden in the plugin settings for
+ * sidecars that use another scheme.
+ */
+export const DEFAULT_TEXTFILE_METRICS: Required<TextfileMetricSettings> = {
+  frequencyMetric: 'intel_gpu_frequency_mhz',
+  frequencyTypeLabel: 'type',
+  throttleMetric: 'intel_gpu_throttle_reason',
+  throttleReasonLabel: 'reason',
+};
+
+/** Frequency type label value → reading */
+const TEXTFILE_FREQUENCY_TYPES = new Map<string, GpuReadingField>([
+  ['act', 'gpuFrequencyMhz'],
+  ['cur', 'gpuFrequencyRequestedMhz'],
+  ['min', 'gpuFrequencyMinMhz'],
+  ['max', 'gpuFrequencyMaxMhz'],
+  ['boost', 'gpuFrequencyBoostMhz'],
+]);
+
+/** Summary throttle reason: set whenever any specific reason is */
+const THROTTLE_REASON_STATUS = 'status';
+
+/** Configured metric and label names, with the defaults for unset or blank ones */
+export function getTextfileMetricNames(
+  settings: TextfileMetricSettings = {}
+): Required<TextfileMetricSettings> {
+  const names = { ...DEFAULT_TEXTFILE_METRICS };
+  for (const key of Object.keys(names) as Array<keyof TextfileMetricSettings>) {
+    const value = settings[key]?.trim();
+    if (value) names[key] = value;
+  }
+  return names;
+}
+
+const textfileMetricsSource: GpuMetricsSource = {
+  id: 'textfile',
+  label: 'textfile collector',
+  async fetchDevices(context) {
+    const { prometheusPath, instanceToNode, textfileMetrics } = context;
+    const names = getTextfileMetricNames(textfileMetrics);
+    const node = nodeExporterMatcher(context);
+    const onNode = (metric: string) => (node ? `${metric}{${node}}` : metric);
+    const [frequencyResults, throttleResults] = await Promise.all([
+      queryPrometheus(onNode(names.frequencyMetric), prometheusPath),
+      queryPrometheus(onNode(names.throttleMetric), prometheusPath),
+    ]);
+
+    // One report per GPU, however many series describe it
+    const reports = new Map<string, GpuDeviceReport>();
+    const reportFor = (metric: Record<string, string>): GpuDeviceReport => {
+      const report = seriesReport(metric, instanceToNode, {});
+      const key = `${report.nodeName}/${report.sourceId}`;
+      if (!reports.has(key)) reports.set(key, report);
+      return reports.get(key)!;
+    };
+
+    for (const r of frequencyResults) {
+      const field = TEXTFILE_FREQUENCY_TYPES.get(r.metric[names.frequencyTypeLabel] ?? '');
+      if (field) reportFor(r.metric).readings[field] = parseFloat(r.value[1]);
+    }
+    for (const r of throttleResults) {
+      const reason = r.metric[names.throttleReasonLabel];
+      if (!reason) continue;
+      const readings = reportFor(r.metric).readings;
+      readings.throttleReasons = readings.throttleReasons ?? [];
+      if (parseFloat(r.value[1]) > 0) readings.throttleReasons.push(reason);
+    }
+
+    for (const { readings } of reports.values()) {
+      const reasons = readings.throttleReasons;
+      if (reasons?.some(reason => reason !== THROTTLE_REASON_STATUS)) {
+        readings.throttleReasons = reasons.filter(reason => reason !== THROTTLE_REASON_STATUS);
+      }
+      readings.throttleReasons?.sort();
+    }
+    return [...reports.values()];
+  },
+};
+
+// ---------------------------------------------------------------------------
+// User-defined PromQL source
+// ---------------------------------------------------------------------------
+
+/**
+ * Reading → PromQL query, from the plugin settings. Each result series is one
+ * GPU, identified by a node or instance label and a pci_address, pci_bdf or
+ * hwmon chip label. The queries are run as written, so for one node their
+ * results are filtered afterwards.
+ */
+export type GpuMetricQueries = Partial<Record<GpuReadingField, string>>;
+
+/**
+ * Parse the custom query editor text: one "reading=query" entry per line,
+ * e.g. gpuUtilizationPercent=avg by (instance, pci_address) (my_gpu_busy).
+ * Blank lines and lines starting with # are ignored; lines with an unknown
+ * reading are returned in `invalid`.
+ */
+export function parseGpuMetricQueries(text: string): {
+  queries: GpuMetricQueries;
+  invalid: string[];
+} {
+  const queries: GpuMetricQueries = {};
+  const invalid: string[] = [];
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    // The query itself may contain "=", so split on the first one
+    const separator = line.indexOf('=');
+    const field = separator > 0 ? line.slice(0, separator).trim() : '';
+    const query = separator > 0 ? line.slice(separator + 1).trim() : '';
+    if (!isGpuReadingField(field) || !query) {
+      invalid.push(line);
+      continue;
+    }
+    queries[field] = query;
+  }
+  return { queries, invalid };
+}
+
+export function formatGpuMetricQueries(queries: GpuMetricQueries | undefined): string {
+  return Object.entries(queries ?? {})
+    .map(([field, query]) => `${field}=${query}`)
+    .join('\n');
+}
+
+const promqlMetricsSource: GpuMetricsSource = {
+  id: 'promql',
+  label: 'custom PromQL',
+  async fetchDevices({ prometheusPath, instanceToNode, metricQueries }) {
+    const fields = GPU_READING_FIELDS.filter(field => metricQueries[field]?.trim());
+    const results = await Promise.all(
+      fields.map(field => queryPrometheus(metricQueries[field]!, prometheusPath))
+    );
+    return fields.flatMap((field, i) =>
+      results[i].map(r =>
+        seriesReport(r.metric, instanceToNode, { [field]: parseFloat(r.value[1]) })
+      )
+    );
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Merging
+// ---------------------------------------------------------------------------
+
+/** Every source, in order of precedence: earlier sources win when readings overlap */
+export const GPU_METRICS_SOURCES: readonly GpuMetricsSource[] = [
+  promqlMetricsSource,
+  hwmonMetricsSource,
+  xpumMetricsSource,
+  textfileMetricsSource,
+];
+
+function mergeReadings(target: GpuReadings, readings: Partial<GpuReadings>): void {
+  for (const field of GPU_READING_FIELDS) {
+    const value = readings[field];
+    if (target[field] === null && typeof value === 'number' && Number.isFinite(value)) {
+      target[field] = value;
+    }
+  }
+  target.engineUtilizationPercent = {
+    ...readings.engineUtilizationPercent,
+    ...target.engineUtilizationPercent,
+  };
+  target.throttleReasons = target.throttleReasons ?? readings.throttleReasons ?? null;
+}
+
+/**
+ * Merge each source's reports into one entry per GPU, matched on node and PCI
+ * address. Reports are given in order of precedence: the first to report a
+ * reading wins.
+ */
+export function mergeGpuDeviceReports(
+  reports: ReadonlyArray<{ source: GpuMetricsSourceId; devices: GpuDeviceReport[] }>
+): GpuDeviceMetrics[] {
+  const merged = new Map<string, GpuDeviceMetrics>();
+  for (const { source, devices } of reports) {
+    for (const report of devices) {
+      const key = `${report.nodeName}/${report.pciAddress ?? `${source}:${report.sourceId}`}`;
+      let device = merged.get(key);
+      if (!device) {
+        device = {
+          ...emptyGpuReadings(),
+          key,
+          nodeName: report.nodeName,
+          pciAddress: report.pciAddress,
+          sources: [],
+          sourceIds: {},
+          hwmon: null,
+          tiles: [],
+        };
+        merged.set(key, device);
+      }
+      if (!device.sources.includes(source)) {
+        device.sources.push(source);
+        device.sourceIds[source] = report.sourceId;
+      }
+      device.hwmon = device.hwmon ?? report.hwmon ?? null;
+      if (device.tiles.length === 0 && report.tiles) device.tiles = report.tiles;
+      mergeReadings(device, report.readings);
+    }
+  }
+  return [...merged.values()].sort(
+    (a, b) => a.nodeName.localeCompare(b.nodeName) || a.key.localeCompare(b.key)
+  );
 }
 
 // ---------------------------------------------------------------------------
 // Metrics fetch
 // ---------------------------------------------------------------------------
 
-export async function fetchGpuMetrics(): Promise<GpuMetrics | null> {
-  const prometheusPath = await findPrometheusPath();
+/** GPU metrics of every node, or only of `nodeName`'s GPUs when given */
+export async function fetchGpuMetrics(
+  prometheus: PrometheusSettings = getPluginSettings().prometheus ?? {},
+  metricQueries: GpuMetricQueries = getPluginSettings().metricQueries ?? {},
+  textfileMetrics: TextfileMetricSettings = getPluginSettings().textfileMetrics ?? {},
+  nodeName?: string
+): Promise<GpuMetrics | null> {
+  const prometheusPath = await findPrometheusPath(prometheus);
   if (!prometheusPath) return null;
 
-  // Run queries in parallel
-  const [chipResults, energyRateResults, powerMaxResults, unameResults] = await Promise.all([
-    // i915 chip identification
-    queryPrometheus('node_hwmon_chip_names{chip_name="i915"}', prometheusPath),
-    // Current power (rate of cumulative energy counter)
-    queryPrometheus(
-      'rate(node_hwmon_energy_joule_total[5m]) * on(chip,instance) group_left(chip_name) node_hwmon_chip_names{chip_name="i915"}',
-      prometheusPath
-    ),
-    // TDP / max power
+  // instance → nodename mapping, shared by every source
+  const instanceToNode = buildInstanceNodeMap(
+    await queryPrometheus(unameQuery(nodeName), prometheusPath)
+  );
+  const context: GpuMetricsSourceContext = {
+    prometheusPath,
+    instanceToNode,
+    nodeName,
+    metricQueries,
+    textfileMetrics,
+  };
+
+  // Run sources in parallel; one failing source does not hide the others
+  const results = await Promise.all(
+    GPU_METRICS_SOURCES.map(async source => {
+      try {
+        return { source, devices: await source.fetchDevices(context), error: null };
+      } catch (e: unknown) {
+        const error = e instanceof Error ? e.message : String(e);
+        return { source, devices: [] as GpuDeviceReport[], error };
+      }
+    })
+  );
+
+  const metrics: GpuMetrics = {
+    devices: mergeGpuDeviceReports(results.map(r => ({ source: r.source.id, devices: r.devices }))),
+    sources: results.map(({ source, devices, error }) => ({
+      id: source.id,
+      label: source.label,
+      deviceCount: devices.length,
+      error,
+    })),
+    fetchedAt: new Date().toISOString(),
+  };
+  // Custom PromQL queries are not narrowed to the node
+  return nodeName === undefined ? metrics : selectNodeGpuMetrics(metrics, nodeName);
+}
+
+/** Sum several series point by point; series share timestamps from one query_range */
+export function sumTimeSeries(series: TimeSeriesPoint[][]): TimeSeriesPoint[] {
+  const totals = new Map<number, number>();
+  for (const points of series) {
+    for (const { time, value } of points) {
+      totals.set(time, (totals.get(time) ?? 0) + value);
+    }
+  }
+  return [...totals].sort(([a], [b]) => a - b).map(([time, value]) => ({ time, value }));
+}
+
+/**
+ * Power history per GPU chip over the selected window, via query_range, on
+ * the same channel as the hwmon source's powerWatts; only of `nodeName`'s
+ * chips when given. Returns null when Prometheus cannot be reached.
+ */
+export async function fetchGpuPowerHistory(
+  range: MetricsRange,
+  prometheus: PrometheusSettings = getPluginSettings().prometheus ?? {},
+  now: number = Date.now(),
+  nodeName?: string
+): Promise<GpuPowerHistory | null> {
+  const prometheusPath = await findPrometheusPath(prometheus);
+  if (!prometheusPath) return null;
+
+  const step = getRangeStep(range);
+  const end = Math.floor(now / 1000);
+  const start = end - getRangeSeconds(range);
+  const rateWindow = `${Math.max(POWER_RATE_WINDOW_SECONDS, step)}s`;
+
+  const instanceToNode = buildInstanceNodeMap(
+    await queryPrometheus(unameQuery(nodeName), prometheusPath)
+  );
+  const selector = gpuChipSelector({ nodeName, instanceToNode });
+  const [powerResults, labelResults] = await Promise.all([
+    queryPrometheusRange(gpuPowerQuery(rateWindow, selector), prometheusPath, start, end, step),
+    queryPrometheus(onGpuChips('node_hwmon_sensor_label', selector), prometheusPath),
+  ]);
+
+  const byChip = groupByChannel(powerResults, buildSensorLabelMap(labelResults));
+  const primary = [...byChip.values()]
+    .map(primaryChannel)
+    .filter((r): r is PrometheusRangeResult => !!r);
+  const chips: GpuChipPowerSeries[] = primary.map(r => {
+    const instance = r.metric['instance'] ?? '';
+    return {
+      nodeName: instanceToNode.get(instance) ?? instance,
+      chip: r.metric['chip'] ?? '',
+      instance,
+      points: r.values
+        .map(([time, value]) => ({ time, value: parseFloat(value) }))
+        .filter(p => Number.isFinite(p.value)),
+    };
+  });
+
+  return {
+    range,
+    step,
+    start,
+    end,
+    chips,
+    total: sumTimeSeries(chips.map(c => c.points)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Node and chip selectors
+// ---------------------------------------------------------------------------
+
+/** The metrics of one node's GPUs; source device counts are those of the node */
+export function selectNodeGpuMetrics(metrics: GpuMetrics, nodeName: string): GpuMetrics {
+  const devices = metrics.devices.filter(d => d.nodeName === nodeName);
+  return {
+    ...metrics,
+    devices,
+    sources: metrics.sources.map(source => ({
+      ...source,
+      deviceCount: devices.filter(d => d.sources.includes(source.id)).length,
+    })),
+  };
+}
+
+/**
+ * One GPU on a node, by PCI address, hwmon chip or any source's own ID (e.g.
+ * an XPU Manager dev_id). Returns null when the node has no such GPU.
+ */
+export function selectChipGpuMetrics(
+  metrics: GpuMetrics,
+  nodeName: string,
+  chipId: string
+): GpuDeviceMetrics | null {
+  const pciAddress = normalizePciAddress(chipId);
+  return (
+    metrics.devices.find(
+      d =>
+        d.nodeName === nodeName &&
+        ((pciAddress !== null && d.pciAddress === pciAddress) ||
+          d.hwmon?.chip === chipId ||
+          Object.values(d.sourceIds).includes(chipId))
+    ) ?? null
+  );
+}
+
+/** The power history of one node's GPU chips; the total is the node's */
+export function selectNodePowerHistory(
+  history: GpuPowerHistory,
+  nodeName: string
+): GpuPowerHistory {
+  const chips = history.chips.filter(c => c.nodeName === nodeName);
+  return { ...history, chips, total: sumTimeSeries(chips.map(c => c.points)) };
+}
+
+// ---------------------------------------------------------------------------
+// Energy attribution
+// ---------------------------------------------------------------------------
+
+/** Energy one hwmon chip used over a window, from its primary power channel */
+export interface GpuChipEnergy {
+  nodeName: string;
+  instance: string;
+  chip: string;
+  pciAddress: string | null;
+  joules: number;
+}
+
+/** How a pod's share was worked out: from its GAS card assignment or its device requests */
+export type GpuEnergyBasis = 'gas' | 'devices';
+
+export interface GpuPodEnergy {
+  namespace: string;
+  name: string;
+  nodeName: string;
+  joules: number;
+  basis: GpuEnergyBasis;
+}
+
+export interface GpuNamespaceEnergy {
+  namespace: string;
+  joules: number;
+  podCount: number;
+}
+
+export interface GpuEnergyAttribution {
+  /** Energy of every GPU chip in the window */
+  totalJoules: number;
+  /**
+   * Part of the total attributed to the pods holding GPUs now; the rest was
+   * used by unallocated GPUs or by pods that have since gone
+   */
+  attributedJoules: number;
+  /** Largest consumers first */
+  pods: GpuPodEnergy[];
+  namespaces: GpuNamespaceEnergy[];
+}
+
+/** Energy per GPU chip over the window, from increase() of its energy counter */
+export async function fetchGpuChipEnergy(
+  range: MetricsRange,
+  prometheus: PrometheusSettings = getPluginSettings().prometheus ?? {}
+): Promise<GpuChipEnergy[] | null> {
+  const prometheusPath = await findPrometheusPath(prometheus);
+  if (!prometheusPath) return null;
+
+  const window = `${getRangeSeconds(range)}s`;
+  const [energyResults, labelResults, unameResults] = await Promise.all([
     queryPrometheus(
-      'node_hwmon_power_max_watt * on(chip,instance) group_left(chip_name) node_hwmon_chip_names{chip_name="i915"}',
+      onGpuChips(`increase(node_hwmon_energy_joule_total[${window}])`),
       prometheusPath
     ),
-    // instance → nodename mapping
+    queryPrometheus(onGpuChips('node_hwmon_sensor_label'), prometheusPath),
     queryPrometheus('node_uname_info', prometheusPath),
   ]);
 
-  // Build instance → nodename map
-  const instanceToNode = new Map<string, string>();
-  for (const r of unameResults) {
-    const inst = r.metric['instance'];
-    const nodename = r.metric['nodename'] ?? r.metric['node'] ?? inst;
-    if (inst) instanceToNode.set(inst, nodename);
+  const instanceToNode = buildInstanceNodeMap(unameResults);
+  const byChip = groupByChannel(energyResults, buildSensorLabelMap(labelResults));
+  return [...byChip.values()]
+    .map(primaryChannel)
+    .filter((r): r is PrometheusResult => !!r)
+    .map(r => {
+      const instance = r.metric['instance'] ?? '';
+      const chip = r.metric['chip'] ?? '';
+      return {
+        nodeName: instanceToNode.get(instance) ?? instance,
+        instance,
+        chip,
+        pciAddress: normalizePciAddress(chip),
+        joules: parseFloat(r.value[1]),
+      };
+    })
+    .filter(c => Number.isFinite(c.joules));
+}
+
+function sumJoules(items: Array<{ joules: number }>): number {
+  return items.reduce((sum, item) => sum + item.joules, 0);
+}
+
+/**
+ * Pair a node's cards with its GPUs. DRM numbers cards in PCI probe order, so
+ * when the node has one card per GPU, cards sorted by number match GPUs
+ * sorted by PCI address. Null when the counts differ.
+ */
+function pairCardsWithGpus<T extends { pciAddress: string | null }>(
+  cards: string[],
+  gpus: T[]
+): Map<string, T> | null {
+  if (cards.length !== gpus.length) return null;
+  const byNumber = [...cards].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const byAddress = [...gpus].sort((a, b) =>
+    (a.pciAddress ?? '').localeCompare(b.pciAddress ?? '')
+  );
+  return new Map(byNumber.map((card, i) => [card, byAddress[i]]));
+}
+
+/** Energy per card of a node; split evenly when cards cannot be paired with chips */
+function getCardEnergy(cards: string[], chips: GpuChipEnergy[]): Map<string, number> {
+  const paired = pairCardsWithGpus(cards, chips);
+  if (paired) return new Map([...paired].map(([card, chip]) => [card, chip.joules]));
+  const perCard = sumJoules(chips) / Math.max(1, cards.length);
+  return new Map(cards.map(card => [card, perCard]));
+}
+
+function getPodDeviceCount(requests: Record<string, number>): number {
+  return (requests[INTEL_GPU_RESOURCE] ?? 0) + (requests[INTEL_GPU_XE_RESOURCE] ?? 0);
+}
+
+/** Part of the window the pod existed for; 1 when it is older than the window */
+function getWindowOverlap(pod: IntelGpuPod, windowSeconds: number, now: number): number {
+  const created = Date.parse(pod.metadata.creationTimestamp ?? '');
+  if (!Number.isFinite(created) || !(windowSeconds > 0)) return 1;
+  return Math.min(1, Math.max(0, (now - created) / 1000 / windowSeconds));
+}
+
+/**
+ * Split each node's GPU energy between the pods holding its GPUs now. On
+ * nodes where GAS assigned cards, each card's energy is shared equally by
+ * the pods on it; elsewhere pods get the share of the node's GPU devices they
+ * requested, so energy of unallocated devices stays unattributed.
+ *
+ * A pod created during the window is charged only for the part of the window
+ * it existed for, taking the GPU's power as even across the window; the rest
+ * stays unattributed rather than landing on the current holders.
+ */
+export function attributeGpuEnergy(
+  chips: GpuChipEnergy[],
+  nodes: IntelGpuNode[],
+  pods: IntelGpuPod[],
+  windowSeconds: number,
+  now: number = Date.now()
+): GpuEnergyAttribution {
+  const byPod = new Map<string, GpuPodEnergy>();
+  const attribute = (pod: IntelGpuPod, nodeName: string, share: number, basis: GpuEnergyBasis) => {
+    const joules = share * getWindowOverlap(pod, windowSeconds, now);
+    if (!(joules > 0)) return;
+    const namespace = pod.metadata.namespace ?? '';
+    const key = `${namespace}/${pod.metadata.name}`;
+    const existing = byPod.get(key);
+    if (existing) existing.joules += joules;
+    else byPod.set(key, { namespace, name: pod.metadata.name, nodeName, joules, basis });
+  };
+
+  for (const node of nodes) {
+    const nodeName = node.metadata.name;
+    const nodeChips = chips.filter(c => c.nodeName === nodeName);
+    const nodeJoules = sumJoules(nodeChips);
+    if (!(nodeJoules > 0)) continue;
+
+    const occupancy = computeNodeCardOccupancy(node, pods);
+    if (occupancy.some(card => card.occupants.length > 0)) {
+      const cardEnergy = getCardEnergy(
+        occupancy.map(card => card.card),
+        nodeChips
+      );
+      for (const { card, occupants } of occupancy) {
+        const cardPods = [...new Set(occupants.map(o => o.pod))];
+        for (const pod of cardPods) {
+          attribute(pod, nodeName, (cardEnergy.get(card) ?? 0) / cardPods.length, 'gas');
+        }
+      }
+      continue;
+    }
+
+    const holders = getNodeGpuAllocationHolders(node, pods);
+    const requested = holders.reduce((sum, h) => sum + getPodDeviceCount(h.requests), 0);
+    const devices = Math.max(getNodeGpuCount(node), requested);
+    for (const { pod, requests } of holders) {
+      attribute(pod, nodeName, (nodeJoules * getPodDeviceCount(requests)) / devices, 'devices');
+    }
   }
 
-  // Build chip → power map
-  const chipToPower = new Map<string, number>();
-  for (const r of energyRateResults) {
-    const chip = r.metric['chip'];
-    if (chip) chipToPower.set(chip, parseFloat(r.value[1]));
+  const podEnergy = [...byPod.values()].sort(
+    (a, b) => b.joules - a.joules || a.name.localeCompare(b.name)
+  );
+  const byNamespace = new Map<string, GpuNamespaceEnergy>();
+  for (const pod of podEnergy) {
+    const entry = byNamespace.get(pod.namespace) ?? {
+      namespace: pod.namespace,
+      joules: 0,
+      podCount: 0,
+    };
+    entry.joules += pod.joules;
+    entry.podCount += 1;
+    byNamespace.set(pod.namespace, entry);
   }
 
-  // Build chip → max power map
-  const chipToMaxPower = new Map<string, number>();
-  for (const r of powerMaxResults) {
-    const chip = r.metric['chip'];
-    if (chip) chipToMaxPower.set(chip, parseFloat(r.value[1]));
+  return {
+    totalJoules: sumJoules(chips),
+    attributedJoules: sumJoules(podEnergy),
+    pods: podEnergy,
+    namespaces: [...byNamespace.values()].sort(
+      (a, b) => b.joules - a.joules || a.namespace.localeCompare(b.namespace)
+    ),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Idle allocated GPUs
+// ---------------------------------------------------------------------------
+
+/** How far back idle time is measured; GPUs idle throughout show "at least" this long */
+export const IDLE_LOOKBACK_RANGE: MetricsRange = '7d';
+
+/** What decided whether a GPU is idle: XPU Manager utilization, or power against TDP */
+export type GpuIdleBasis = 'utilization' | 'power';
+
+/** A GPU's activity over the idle lookback */
+export interface GpuIdleState {
+  nodeName: string;
+  pciAddress: string | null;
+  basis: GpuIdleBasis;
+  /** Unix seconds since which the GPU has stayed at or below the idle level; null while busy */
+  idleSince: number | null;
+  /** Idle for the whole lookback, so idleSince is a lower bound */
+  idleThroughout: boolean;
+}
+
+/** A pod whose GPUs have all been idle for at least the minimum */
+export interface IdleGpuAllocation {
+  namespace: string;
+  name: string;
+  owner: string | null;
+  nodeName: string;
+  /** GAS cards held ("card0, card1"), or the number of devices requested */
+  devices: string;
+  basis: GpuIdleBasis;
+  /** Seconds the pod's GPUs have been idle, counted from the pod's creation at the earliest */
+  idleSeconds: number;
+  /** Idle for the whole lookback, so idleSeconds is a lower bound */
+  idleAtLeast: boolean;
+}
+
+/**
+ * Idle state from a series of per-step peaks: idle since the last peak above
+ * the threshold, or null when the latest peak is above it.
+ */
+function getIdleState(
+  points: TimeSeriesPoint[],
+  threshold: number
+): Pick<GpuIdleState, 'idleSince' | 'idleThroughout'> | null {
+  if (points.length === 0) return null;
+  for (let i = points.length - 1; i >= 0; i--) {
+    if (points[i].value > threshold) {
+      return { idleSince: i === points.length - 1 ? null : points[i].time, idleThroughout: false };
+    }
   }
+  return { idleSince: points[0].time, idleThroughout: true };
+}
 
-  // Assemble per-chip metrics from the chip identification results
-  const chips: GpuChipMetrics[] = chipResults.map(r => {
-    const chip = r.metric['chip'] ?? '';
-    const instance = r.metric['instance'] ?? '';
+function toPoints(r: PrometheusRangeResult): TimeSeriesPoint[] {
+  return r.values
+    .map(([time, value]) => ({ time, value: parseFloat(value) }))
+    .filter(p => Number.isFinite(p.value));
+}
+
+/**
+ * Idle state of every GPU over IDLE_LOOKBACK_RANGE. XPU Manager utilization
+ * decides where it is reported; otherwise power as a share of the chip's TDP
+ * (chips without a TDP are left out). Each point is the peak within its step,
+ * so short bursts of work between points still count as busy.
+ */
+export async function fetchGpuIdleStates(
+  thresholds: IdleGpuThresholds,
+  prometheus: PrometheusSettings = getPluginSettings().prometheus ?? {},
+  now: number = Date.now()
+): Promise<GpuIdleState[] | null> {
+  const prometheusPath = await findPrometheusPath(prometheus);
+  if (!prometheusPath) return null;
+
+  const step = getRangeStep(IDLE_LOOKBACK_RANGE);
+  const end = Math.floor(now / 1000);
+  const start = end - getRangeSeconds(IDLE_LOOKBACK_RANGE);
+  const powerPeaks = onGpuChips(
+    `max_over_time(rate(node_hwmon_energy_joule_total[${POWER_RATE_WINDOW_SECONDS}s])[${step}s:1m])`
+  );
+  const utilizationPeaks = `max_over_time(${XPUM_METRIC_NAMES.gpuUtilizationPercent}[${step}s])`;
+
+  const [powerResults, utilizationResults, powerMaxResults, labelResults, unameResults] =
+    await Promise.all([
+      queryPrometheusRange(powerPeaks, prometheusPath, start, end, step),
+      queryPrometheusRange(utilizationPeaks, prometheusPath, start, end, step),
+      queryPrometheus(onGpuChips('node_hwmon_power_max_watt'), prometheusPath),
+      queryPrometheus(onGpuChips('node_hwmon_sensor_label'), prometheusPath),
+      queryPrometheus('node_uname_info', prometheusPath),
+    ]);
+
+  const instanceToNode = buildInstanceNodeMap(unameResults);
+  const states = new Map<string, GpuIdleState>();
+
+  // Utilization first: where XPU Manager reports a GPU, it decides
+  for (const r of utilizationResults) {
+    if (r.metric['tile_id'] !== undefined) continue;
+    const state = getIdleState(toPoints(r), thresholds.utilizationPercent);
+    if (!state) continue;
+    const nodeName = seriesNodeName(r.metric, instanceToNode);
+    const pciAddress = normalizePciAddress(r.metric['pci_bdf']);
+    const key = `${nodeName}/${pciAddress ?? `xpum:${r.metric['dev_id'] ?? ''}`}`;
+    states.set(key, { nodeName, pciAddress, basis: 'utilization', ...state });
+  }
+
+  const labels = buildSensorLabelMap(labelResults);
+  const chipToMaxPower = groupByChannel(powerMaxResults, labels);
+  for (const [key, power] of groupByChannel(powerResults, labels)) {
+    const series = primaryChannel(power);
+    const maxPower = chipToMaxPower.get(key);
+    const tdp = parseFloat(
+      (power.card ? maxPower?.card : primaryChannel(maxPower))?.value[1] ?? ''
+    );
+    if (!series || !(tdp > 0)) continue;
+    const state = getIdleState(toPoints(series), (tdp * thresholds.powerPercent) / 100);
+    if (!state) continue;
+    const instance = series.metric['instance'] ?? '';
     const nodeName = instanceToNode.get(instance) ?? instance;
-    const powerWatts = chipToPower.has(chip) ? chipToPower.get(chip)! : null;
-    const powerMaxWatts = chipToMaxPower.has(chip) ? chipToMaxPower.get(chip)! : null;
+    const pciAddress = normalizePciAddress(series.metric['chip']);
+    const stateKey = `${nodeName}/${pciAddress ?? `hwmon:${key}`}`;
+    if (!states.has(stateKey))
+      states.set(stateKey, { nodeName, pciAddress, basis: 'power', ...state });
+  }
 
-    return { nodeName, chip, instance, powerWatts, powerMaxWatts };
-  });
+  return [...states.values()];
+}
 
-  return {
-    chips,
-    fetchedAt: new Date().toISOString(),
+/**
+ * Pods holding GPUs that have all been idle for at least minIdleSeconds.
+ * GAS-assigned pods are judged by their own cards when the node's cards pair
+ * with its GPUs; other pods cannot be tied to a device, so they are reported
+ * only when every GPU on their node is idle.
+ */
+export function findIdleGpuAllocations(
+  states: GpuIdleState[],
+  nodes: IntelGpuNode[],
+  pods: IntelGpuPod[],
+  minIdleSeconds: number,
+  now: number = Date.now()
+): IdleGpuAllocation[] {
+  const nowSeconds = Math.floor(now / 1000);
+  const result: IdleGpuAllocation[] = [];
+
+  const report = (pod: IntelGpuPod, nodeName: string, devices: string, gpus: GpuIdleState[]) => {
+    if (gpus.length === 0 || gpus.some(gpu => gpu.idleSince === null)) return;
+    const idleSince = Math.max(...gpus.map(gpu => gpu.idleSince!));
+    const created = Date.parse(pod.metadata.creationTimestamp ?? '') / 1000;
+    const from = created > idleSince ? created : idleSince;
+    const idleSeconds = nowSeconds - from;
+    if (idleSeconds < minIdleSeconds) return;
+    result.push({
+      namespace: pod.metadata.namespace ?? '',
+      name: pod.metadata.name,
+      owner: getPodOwner(pod),
+      nodeName,
+      devices,
+      basis: gpus.every(gpu => gpu.basis === 'utilization') ? 'utilization' : 'power',
+      idleSeconds,
+      idleAtLeast: from === idleSince && gpus.every(gpu => gpu.idleThroughout),
+    });
   };
+
+  for (const node of nodes) {
+    const nodeName = node.metadata.name;
+    const nodeGpus = states.filter(state => state.nodeName === nodeName);
+    if (nodeGpus.length === 0) continue;
+
+    const occupancy = computeNodeCardOccupancy(node, pods);
+    const paired = pairCardsWithGpus(
+      occupancy.map(card => card.card),
+      nodeGpus
+    );
+    const gasCards = new Map<IntelGpuPod, string[]>();
+    for (const { card, occupants } of occupancy) {
+      for (const { pod } of occupants) {
+        const cards = gasCards.get(pod) ?? [];
+        if (!cards.includes(card)) cards.push(card);
+        gasCards.set(pod, cards);
+      }
+    }
+
+    for (const [pod, cards] of gasCards) {
+      const gpus = paired
+        ? cards.map(card => paired.get(card)).filter((gpu): gpu is GpuIdleState => !!gpu)
+        : nodeGpus;
+      report(pod, nodeName, cards.join(', '), gpus);
+    }
+    for (const { pod, requests } of getNodeGpuAllocationHolders(node, pods)) {
+      const count = getPodDeviceCount(requests);
+      if (gasCards.has(pod) || count === 0) continue;
+      report(pod, nodeName, String(count), nodeGpus);
+    }
+  }
+
+  return result.sort((a, b) => b.idleSeconds - a.idleSeconds || a.name.localeCompare(b.name));
+}
+
+// ---------------------------------------------------------------------------
+// Temperature status
+// ---------------------------------------------------------------------------
+
+export type TemperatureStatus = 'normal' | 'warning' | 'critical';
+
+/** How far below the critical limit a GPU counts as hot when it reports no max limit */
+const TEMPERATURE_WARNING_MARGIN_CELSIUS = 10;
+
+/**
+ * Critical at or above the critical limit; warning at or above the max limit,
+ * or within TEMPERATURE_WARNING_MARGIN_CELSIUS of critical when the GPU
+ * reports no max.
+ */
+export function getTemperatureStatus(
+  readings: Pick<
+    GpuReadings,
+    'temperatureCelsius' | 'temperatureMaxCelsius' | 'temperatureCritCelsius'
+  >
+): TemperatureStatus {
+  const {
+    temperatureCelsius: temp,
+    temperatureMaxCelsius: max,
+    temperatureCritCelsius: crit,
+  } = readings;
+  if (temp === null) return 'normal';
+  if (crit !== null && temp >= crit) return 'critical';
+  const warnAt = max ?? (crit !== null ? crit - TEMPERATURE_WARNING_MARGIN_CELSIUS : null);
+  return warnAt !== null && temp >= warnAt ? 'warning' : 'normal';
+}
+
+/** StatusLabel status for each temperature status */
+export const TEMPERATURE_LABEL_STATUS: Record<TemperatureStatus, 'success' | 'warning' | 'error'> =
+  {
+    normal: 'success',
+    warning: 'warning',
+    critical: 'error',
+  };
+
+// ---------------------------------------------------------------------------
+// Throttle status
+// ---------------------------------------------------------------------------
+
+export type ThrottleStatus = 'none' | 'throttled' | 'unknown';
+
+/** Actual frequency below this share of the requested one counts as throttled */
+const THROTTLE_FREQUENCY_RATIO = 0.9;
+
+/**
+ * Throttled when the exporter reports an active throttle reason. Without
+ * reasons, when the actual frequency falls well short of the requested one;
+ * an actual frequency of 0 is the idle GPU in RC6, not throttling.
+ */
+export function getThrottleStatus(
+  readings: Pick<GpuReadings, 'gpuFrequencyMhz' | 'gpuFrequencyRequestedMhz' | 'throttleReasons'>
+): ThrottleStatus {
+  const {
+    gpuFrequencyMhz: actual,
+    gpuFrequencyRequestedMhz: requested,
+    throttleReasons,
+  } = readings;
+  if (throttleReasons) return throttleReasons.length > 0 ? 'throttled' : 'none';
+  if (actual === null || requested === null) return 'unknown';
+  return actual > 0 && actual < requested * THROTTLE_FREQUENCY_RATIO ? 'throttled' : 'none';
 }
 
 // ---------------------------------------------------------------------------
@@ -162,6 +1608,16 @@ export function formatWatts(w: number): string {
   return `${w.toFixed(1)} W`;
 }
 
+/** Energy in Wh, or kWh from 1 kWh up */
+export function formatEnergy(joules: number): string {
+  const wattHours = joules / 3600;
+  return wattHours >= 1000 ? `${(wattHours / 1000).toFixed(2)} kWh` : `${wattHours.toFixed(1)} Wh`;
+}
+
+export function formatCelsius(c: number): string {
+  return `${Math.round(c)} °C`;
+}
+
 export function formatPercent(used: number, max: number): string {
   if (max <= 0) return '—';
   return `${Math.round((used / max) * 100)}%`;
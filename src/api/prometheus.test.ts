@@ -0,0 +1,250 @@
+/**
+ * Unit tests for Prometheus location resolution and discovery.
+ */
+
+import { ApiProxy } from '@kinvolk/headlamp-plugin/lib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  describeProbeError,
+  discoverPrometheus,
+  getLastPrometheusDiscovery,
+  getPrometheusProxyPaths,
+  getServiceCandidates,
+  KubeService,
+  PROMETHEUS_ENDPOINT_TTL_MS,
+  PROMETHEUS_PROBE_TIMEOUT_MS,
+} from './prometheus';
+import { DEFAULT_REQUEST_TIMEOUT_MS } from './request';
+
+const cluster = vi.hoisted(() => ({ name: 'c0' }));
+
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ApiProxy: { request: vi.fn() },
+  Utils: { getCluster: () => cluster.name },
+}));
+
+function service(
+  namespace: string,
+  name: string,
+  ports: Array<{ name?: string; port: number }>,
+  labels: Record<string, string> = {}
+): KubeService {
+  return { metadata: { name, namespace, labels }, spec: { ports } };
+}
+
+function httpError(status: number) {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+describe('getPrometheusProxyPaths', () => {
+  it('tries the kube-prometheus-stack services in the monitoring namespace by default', () => {
+    expect(getPrometheusProxyPaths()).toEqual([
+      '/api/v1/namespaces/monitoring/services/kube-prometheus-stack-prometheus:9090/proxy',
+      '/api/v1/namespaces/monitoring/services/prometheus-operated:9090/proxy',
+      '/api/v1/namespaces/monitoring/services/prometheus:9090/proxy',
+    ]);
+  });
+
+  it('applies a configured namespace and port to the default services', () => {
+    expect(getPrometheusProxyPaths({ namespace: 'observability', port: '9091' })[1]).toBe(
+      '/api/v1/namespaces/observability/services/prometheus-operated:9091/proxy'
+    );
+  });
+
+  it('uses only the configured service when one is set', () => {
+    expect(getPrometheusProxyPaths({ service: 'thanos-query', port: '10902' })).toEqual([
+      '/api/v1/namespaces/monitoring/services/thanos-query:10902/proxy',
+    ]);
+  });
+
+  it('uses a full proxy path on its own, without a trailing slash', () => {
+    expect(
+      getPrometheusProxyPaths({
+        namespace: 'ignored',
+        proxyPath: '/api/v1/namespaces/mon/services/https:prom:9443/proxy/',
+      })
+    ).toEqual(['/api/v1/namespaces/mon/services/https:prom:9443/proxy']);
+  });
+});
+
+describe('getServiceCandidates', () => {
+  it('ranks Prometheus, then Thanos, then VictoriaMetrics, default namespace first', () => {
+    const candidates = getServiceCandidates([
+      service('vm', 'vmselect-main', [{ name: 'http', port: 8481 }]),
+      service('obs', 'thanos-query', [
+        { name: 'grpc', port: 10901 },
+        { name: 'http', port: 10902 },
+      ]),
+      service('team-a', 'prom', [{ name: 'web', port: 9090 }], {
+        'app.kubernetes.io/name': 'prometheus',
+      }),
+      service('monitoring', 'prometheus-k8s', [{ name: 'web', port: 9090 }]),
+    ]);
+
+    expect(candidates.map(c => c.label)).toEqual([
+      'monitoring/prometheus-k8s:9090',
+      'team-a/prom:9090',
+      'obs/thanos-query:10902',
+      'vm/vmselect-main:8481',
+    ]);
+    expect(candidates[3]).toMatchObject({
+      backend: 'victoriametrics',
+      path: '/api/v1/namespaces/vm/services/vmselect-main:8481/proxy/select/0/prometheus',
+      source: 'discovered',
+    });
+  });
+
+  it('skips exporters, alertmanager and services without a known port', () => {
+    expect(
+      getServiceCandidates([
+        service('monitoring', 'prometheus-node-exporter', [{ port: 9100 }]),
+        service('monitoring', 'alertmanager-operated', [{ name: 'web', port: 9093 }], {
+          app: 'prometheus',
+        }),
+        service('monitoring', 'prometheus-grpc', [{ name: 'grpc', port: 10901 }]),
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe('describeProbeError', () => {
+  it('names common HTTP failures and falls back to the error message', () => {
+    expect(describeProbeError(httpError(403))).toBe('Forbidden (403)');
+    expect(describeProbeError(httpError(404))).toBe('Not found (404)');
+    expect(describeProbeError(httpError(500))).toBe('HTTP 500');
+    expect(describeProbeError(new Error('socket hang up'))).toBe('socket hang up');
+  });
+});
+
+describe('discoverPrometheus', () => {
+  let clusterCount = 0;
+
+  beforeEach(() => {
+    cluster.name = `cluster-${++clusterCount}`;
+    vi.mocked(ApiProxy.request).mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const thanos = '/api/v1/namespaces/obs/services/thanos-query:10902/proxy';
+
+  function mockCluster(answering: string[]) {
+    vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+      if (url === '/api/v1/services') {
+        return {
+          items: [
+            service('obs', 'thanos-query', [{ name: 'http', port: 10902 }]),
+            service('monitoring', 'prometheus-k8s', [{ name: 'web', port: 9090 }]),
+          ],
+        };
+      }
+      if (answering.some(path => url.startsWith(`${path}/`))) return { status: 'success' };
+      if (url.includes('/monitoring/services/prometheus-operated')) throw httpError(403);
+      throw httpError(404);
+    });
+  }
+
+  it('searches the cluster when the default services fail and records each failure', async () => {
+    mockCluster([thanos]);
+
+    const discovery = await discoverPrometheus({});
+
+    expect(discovery.endpoint).toMatchObject({ path: thanos, backend: 'thanos' });
+    expect(discovery.cached).toBe(false);
+    expect(discovery.probes.map(p => [p.candidate.label, p.error])).toEqual([
+      ['monitoring/kube-prometheus-stack-prometheus:9090', 'Not found (404)'],
+      ['monitoring/prometheus-operated:9090', 'Forbidden (403)'],
+      ['monitoring/prometheus:9090', 'Not found (404)'],
+      ['monitoring/prometheus-k8s:9090', 'Not found (404)'],
+      ['obs/thanos-query:10902', null],
+    ]);
+    expect(getLastPrometheusDiscovery()).toBe(discovery);
+  });
+
+  it('reuses the endpoint without probing within the TTL', async () => {
+    mockCluster([thanos]);
+    const first = await discoverPrometheus({});
+    vi.mocked(ApiProxy.request).mockClear();
+
+    expect(await discoverPrometheus({})).toBe(first);
+    expect(ApiProxy.request).not.toHaveBeenCalled();
+  });
+
+  it('probes only the remembered endpoint once the TTL has passed', async () => {
+    vi.useFakeTimers();
+    mockCluster([thanos]);
+    await discoverPrometheus({});
+    vi.mocked(ApiProxy.request).mockClear();
+    vi.advanceTimersByTime(PROMETHEUS_ENDPOINT_TTL_MS);
+
+    const again = await discoverPrometheus({});
+
+    expect(again).toMatchObject({ cached: true, endpoint: { path: thanos } });
+    expect(ApiProxy.request).toHaveBeenCalledTimes(1);
+    expect(ApiProxy.request).toHaveBeenCalledWith(`${thanos}/api/v1/query?query=1`, {
+      method: 'GET',
+    });
+  });
+
+  it('shares a discovery in flight only between calls with the same settings', async () => {
+    mockCluster(['/new']);
+
+    const first = discoverPrometheus({ proxyPath: '/old' });
+    const again = discoverPrometheus({ proxyPath: '/old' });
+    const changed = discoverPrometheus({ proxyPath: '/new' });
+
+    expect(again).toBe(first);
+    expect((await first).endpoint).toBeNull();
+    expect((await changed).endpoint).toMatchObject({ path: '/new' });
+  });
+
+  it('does not search the cluster when a service is configured', async () => {
+    mockCluster([]);
+
+    const discovery = await discoverPrometheus({ service: 'prometheus-operated' });
+
+    expect(discovery.endpoint).toBeNull();
+    expect(discovery.probes).toHaveLength(1);
+    expect(discovery.probes[0]).toMatchObject({
+      candidate: { source: 'settings' },
+      error: 'Forbidden (403)',
+    });
+    expect(ApiProxy.request).not.toHaveBeenCalledWith('/api/v1/services');
+  });
+
+  it('reports why services could not be listed', async () => {
+    vi.mocked(ApiProxy.request).mockRejectedValue(httpError(403));
+
+    const discovery = await discoverPrometheus({});
+
+    expect(discovery.endpoint).toBeNull();
+    expect(discovery.serviceListError).toBe('Forbidden (403)');
+  });
+
+  it('gives up on a candidate that does not answer in time', async () => {
+    vi.useFakeTimers();
+    vi.mocked(ApiProxy.request).mockReturnValue(new Promise(() => {}));
+
+    const pending = discoverPrometheus({ proxyPath: '/prom' });
+    await vi.advanceTimersByTimeAsync(PROMETHEUS_PROBE_TIMEOUT_MS);
+    const discovery = await pending;
+
+    expect(discovery.probes[0].error).toBe('Timed out after 5s');
+  });
+
+  it('gives up on a service list that does not answer in time', async () => {
+    vi.useFakeTimers();
+    vi.mocked(ApiProxy.request).mockImplementation(url =>
+      url === '/api/v1/services' ? new Promise(() => {}) : Promise.reject(httpError(404))
+    );
+
+    const pending = discoverPrometheus({});
+    await vi.advanceTimersByTimeAsync(DEFAULT_REQUEST_TIMEOUT_MS);
+    const discovery = await pending;
+
+    expect(discovery.endpoint).toBeNull();
+    expect(discovery.serviceListError).toBe('Timed out after 2s');
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Prometheus discovery through the Kubernetes API service proxy.
+ *
+ * Metrics queries go to /api/v1/namespaces/{namespace}/services/{svc}:{port}/proxy.
+ * discoverPrometheus picks that base path. The candidates, in order:
+ *
+ *   - a proxy path from the plugin settings, used alone
+ *   - the configured service, or the kube-prometheus-stack default names,
+ *     in the configured or default namespace
+ *   - otherwise, services anywhere in the cluster whose name or
+ *     app.kubernetes.io/name / app label looks like Prometheus, Thanos Query
+ *     or VictoriaMetrics (vmsingle, vmselect), on their usual ports
+ *
+ * Each candidate is probed with a trivial instant query and a time limit. The
+ * first to answer wins and is remembered per cluster: for
+ * PROMETHEUS_ENDPOINT_TTL_MS later fetches use it as is, then probe only that
+ * path and rediscover when it stops answering. The last discovery keeps every
+ * candidate tried and why it failed, for the Metrics page.
+ */
+
+import { ApiProxy, Utils } from '@kinvolk/headlamp-plugin/lib';
+import { KubeObjectMeta } from './k8s';
+import { DEFAULT_REQUEST_TIMEOUT_MS, RequestTimeoutError, withTimeout } from './request';
+import { PrometheusSettings } from './settings';
+
+// ---------------------------------------------------------------------------
+// Default service
+// ---------------------------------------------------------------------------
+
+/** kube-prometheus-stack default service names, then prometheus-operated */
+export const DEFAULT_PROMETHEUS_NAMESPACE = 'monitoring';
+export const DEFAULT_PROMETHEUS_SERVICES = [
+  'kube-prometheus-stack-prometheus',
+  'prometheus-operated',
+  'prometheus',
+];
+export const DEFAULT_PROMETHEUS_PORT = '9090';
+
+/**
+ * API proxy paths to try for Prometheus, in order. A configured proxy path is
+ * used alone; a configured service replaces the default service names; unset
+ * namespace and port fall back to the defaults.
+ */
+export function getPrometheusProxyPaths(prometheus: PrometheusSettings = {}): string[] {
+  const proxyPath = prometheus.proxyPath?.trim();
+  if (proxyPath) return [proxyPath.replace(/\/+$/, '')];
+
+  const namespace = prometheus.namespace?.trim() || DEFAULT_PROMETHEUS_NAMESPACE;
+  const port = prometheus.port?.trim() || DEFAULT_PROMETHEUS_PORT;
+  const service = prometheus.service?.trim();
+  return (service ? [service] : DEFAULT_PROMETHEUS_SERVICES).map(
+    svc => `/api/v1/namespaces/${namespace}/services/${svc}:${port}/proxy`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PrometheusBackend = 'prometheus' | 'thanos' | 'victoriametrics';
+
+/** Where a candidate came from: the plugin settings, the defaults or a service list */
+export type PrometheusCandidateSource = 'settings' | 'default' | 'discovered';
+
+export interface PrometheusCandidate {
+  /** API proxy base path; query paths such as /api/v1/query are appended */
+  path: string;
+  /** Display name, "namespace/service:port" */
+  label: string;
+  backend: PrometheusBackend;
+  source: PrometheusCandidateSource;
+}
+
+export interface PrometheusProbe {
+  candidate: PrometheusCandidate;
+  /** Why the probe failed, e.g. "Forbidden (403)"; null when it answered */
+  error: string | null;
+}
+
+export interface PrometheusDiscovery {
+  /** Winning candidate, or null when none answered */
+  endpoint: PrometheusCandidate | null;
+  /** Every candidate probed, in order */
+  probes: PrometheusProbe[];
+  /** Why services could not be listed for cluster-wide discovery, if they could not */
+  serviceListError: string | null;
+  /** True when the endpoint remembered from an earlier discovery still answered */
+  cached: boolean;
+  /** ISO timestamp */
+  discoveredAt: string;
+}
+
+/** Minimal Service shape read by discovery */
+export interface KubeService {
+  metadata: KubeObjectMeta;
+  spec?: {
+    ports?: Array<{ name?: string; port: number }>;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Cluster-wide candidates
+// ---------------------------------------------------------------------------
+
+interface BackendPattern {
+  backend: PrometheusBackend;
+  /** Matched against the service name and its app labels */
+  pattern: RegExp;
+  ports: number[];
+  /** Prometheus-compatible API prefix under the service, e.g. vmselect's tenant path */
+  apiPrefix: string;
+}
+
+// Checked in order: Thanos and VictoriaMetrics services often carry
+// "prometheus" in their names too
+const BACKEND_PATTERNS: BackendPattern[] = [
+  {
+    backend: 'victoriametrics',
+    pattern: /vmselect/,
+    ports: [8481],
+    apiPrefix: '/select/0/prometheus',
+  },
+  {
+    backend: 'victoriametrics',
+    pattern: /vmsingle|victoria-metrics/,
+    ports: [8428],
+    apiPrefix: '',
+  },
+  { backend: 'thanos', pattern: /thanos-quer(y|ier)/, ports: [10902, 9090], apiPrefix: '' },
+  { backend: 'prometheus', pattern: /prometheus/, ports: [9090], apiPrefix: '' },
+];
+
+/** Monitoring services that match the patterns above but serve no query API */
+const NOT_A_QUERY_API = new RegExp(
+  [
+    'alertmanager',
+    'node-exporter',
+    'kube-state-metrics',
+    'pushgateway',
+    'operator',
+    'adapter',
+    'blackbox',
+    'thanos-(sidecar|store|compact|rule)',
+    'vm(agent|alert|insert|storage)',
+  ].join('|')
+);
+
+const WEB_PORT_NAMES = new Set(['web', 'http', 'http-web', 'http-query']);
+
+const BACKEND_ORDER: PrometheusBackend[] = ['prometheus', 'thanos', 'victoriametrics'];
+
+/** Cap on cluster-wide candidates probed, so a large cluster does not fan out */
+export const MAX_DISCOVERED_CANDIDATES = 8;
+
+/**
+ * Prometheus-compatible services from a cluster-wide service list, ranked:
+ * Prometheus before Thanos before VictoriaMetrics, then services in the
+ * default namespace, then by namespace and name.
+ */
+export function getServiceCandidates(services: KubeService[]): PrometheusCandidate[] {
+  const candidates: PrometheusCandidate[] = [];
+  for (const service of services) {
+    const { name, namespace = 'default', labels = {} } = service.metadata;
+    const identity = [name, labels['app.kubernetes.io/name'], labels['app']]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    if (NOT_A_QUERY_API.test(identity)) continue;
+
+    const match =
+      labels['operated-prometheus'] === 'true'
+        ? BACKEND_PATTERNS[BACKEND_PATTERNS.length - 1]
+        : BACKEND_PATTERNS.find(p => p.pattern.test(identity));
+    if (!match) continue;
+
+    const ports = service.spec?.ports ?? [];
+    const port =
+      ports.find(p => match.ports.includes(p.port)) ??
+      ports.find(p => p.name !== undefined && WEB_PORT_NAMES.has(p.name));
+    if (!port) continue;
+
+    candidates.push({
+      path: `/api/v1/namespaces/${namespace}/services/${name}:${port.port}/proxy${match.apiPrefix}`,
+      label: `${namespace}/${name}:${port.port}`,
+      backend: match.backend,
+      source: 'discovered',
+    });
+  }
+
+  const rank = (c: PrometheusCandidate) => BACKEND_ORDER.indexOf(c.backend);
+  const inDefaultNamespace = (c: PrometheusCandidate) =>
+    c.label.startsWith(`${DEFAULT_PROMETHEUS_NAMESPACE}/`) ? 0 : 1;
+  return candidates
+    .sort(
+      (a, b) =>
+        rank(a) - rank(b) ||
+        inDefaultNamespace(a) - inDefaultNamespace(b) ||
+        a.label.localeCompare(b.label)
+    )
+    .slice(0, MAX_DISCOVERED_CANDIDATES);
+}
+
+/** Candidates from the settings or defaults, tried before any cluster-wide discovery */
+function getConfiguredCandidates(prometheus: PrometheusSettings): PrometheusCandidate[] {
+  const source: PrometheusCandidateSource =
+    prometheus.proxyPath?.trim() || prometheus.service?.trim() ? 'settings' : 'default';
+  return getPrometheusProxyPaths(prometheus).map(path => ({
+    path,
+    label: path.replace(/^\/api\/v1\/namespaces\/([^/]+)\/services\/([^/]+)\/proxy$/, '$1/$2'),
+    backend: 'prometheus',
+    source,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Probing
+// ---------------------------------------------------------------------------
+
+/** How long a candidate has to answer the probe query */
+export const PROMETHEUS_PROBE_TIMEOUT_MS = 5000;
+
+/** Short reason for a failed request, from the HTTP status where there is one */
+export function describeProbeError(e: unknown): string {
+  if (e instanceof RequestTimeoutError) return e.message;
+  const status = (e as { status?: unknown } | null)?.status;
+  if (status === 401) return 'Unauthorized (401)';
+  if (status === 403) return 'Forbidden (403)';
+  if (status === 404) return 'Not found (404)';
+  if (status === 503) return 'Service unavailable (503)';
+  if (typeof status === 'number') return `HTTP ${status}`;
+  return e instanceof Error ? e.message : String(e);
+}
+
+/** Probe one base path; resolves to null when it answers as Prometheus, else the reason */
+async function probePrometheus(path: string): Promise<string | null> {
+  try {
+    const raw = (await withTimeout(
+      ApiProxy.request(`${path}/api/v1/query?query=1`, { method: 'GET' }),
+      PROMETHEUS_PROBE_TIMEOUT_MS
+    )) as { status?: string } | null;
+    return raw?.status === 'success' ? null : 'Not a Prometheus query API';
+  } catch (e: unknown) {
+    return describeProbeError(e);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Discovery
+// ---------------------------------------------------------------------------
+
+/** How long an endpoint that answered is used without probing it again */
+export const PROMETHEUS_ENDPOINT_TTL_MS = 60_000;
+
+interface CachedEndpoint {
+  /** Settings the endpoint was discovered with; a change forces rediscovery */
+  settingsKey: string;
+  endpoint: PrometheusCandidate;
+  /** When the endpoint last answered, in ms since the epoch */
+  verifiedAt: number;
+}
+
+/** Winning endpoint per cluster */
+const endpointCache = new Map<string, CachedEndpoint>();
+/** Latest discovery per cluster, for display */
+const lastDiscoveries = new Map<string, PrometheusDiscovery>();
+/** Discovery in flight per cluster and settings, shared by concurrent fetches */
+const pendingDiscoveries = new Map<string, Promise<PrometheusDiscovery>>();
+
+function getClusterKey(): string {
+  return Utils.getCluster() ?? '';
+}
+
+async function runDiscovery(
+  prometheus: PrometheusSettings,
+  cluster: string,
+  settingsKey: string
+): Promise<PrometheusDiscovery> {
+  const probes: PrometheusProbe[] = [];
+  const finish = (
+    endpoint: PrometheusCandidate | null,
+    serviceListError: string | null = null,
+    cached = false
+  ): PrometheusDiscovery => {
+    const discovery: PrometheusDiscovery = {
+      endpoint,
+      probes,
+      serviceListError,
+      cached,
+      discoveredAt: new Date().toISOString(),
+    };
+    if (endpoint) endpointCache.set(cluster, { settingsKey, endpoint, verifiedAt: Date.now() });
+    else endpointCache.delete(cluster);
+    lastDiscoveries.set(cluster, discovery);
+    return discovery;
+  };
+
+  // The endpoint that answered last time, if the settings have not changed
+  const remembered = endpointCache.get(cluster);
+  if (remembered?.settingsKey === settingsKey) {
+    const error = await probePrometheus(remembered.endpoint.path);
+    probes.push({ candidate: remembered.endpoint, error });
+    if (!error) return finish(remembered.endpoint, null, true);
+  }
+
+  // Configured or default services, one at a time in order of preference
+  const tried = new Set(probes.map(p => p.candidate.path));
+  for (const candidate of getConfiguredCandidates(prometheus)) {
+    if (tried.has(candidate.path)) continue;
+    const error = await probePrometheus(candidate.path);
+    probes.push({ candidate, error });
+    if (!error) return finish(candidate);
+    tried.add(candidate.path);
+  }
+
+  // An explicit proxy path or service is respected: no cluster-wide search
+  if (prometheus.proxyPath?.trim() || prometheus.service?.trim()) return finish(null);
+
+  let services: KubeService[];
+  try {
+    const list = (await withTimeout(
+      ApiProxy.request('/api/v1/services'),
+      DEFAULT_REQUEST_TIMEOUT_MS
+    )) as { items?: KubeService[] };
+    services = list?.items ?? [];
+  } catch (e: unknown) {
+    return finish(null, describeProbeError(e));
+  }
+
+  // Discovered services are probed together; the best-ranked answer wins
+  const discovered = getServiceCandidates(services).filter(c => !tried.has(c.path));
+  const errors = await Promise.all(discovered.map(c => probePrometheus(c.path)));
+  discovered.forEach((candidate, i) => probes.push({ candidate, error: errors[i] }));
+  return finish(discovered.find((_, i) => !errors[i]) ?? null);
+}
+
+/**
+ * Find a Prometheus-compatible endpoint for the current cluster. Concurrent
+ * calls with the same settings share one discovery.
+ */
+export function discoverPrometheus(prometheus: PrometheusSettings): Promise<PrometheusDiscovery> {
+  const cluster = getClusterKey();
+  const settingsKey = JSON.stringify(prometheus);
+  const pendingKey = JSON.stringify([cluster, settingsKey]);
+  const pending = pendingDiscoveries.get(pendingKey);
+  if (pending) return pending;
+
+  // An endpoint that answered within the TTL is used without a probe
+  const remembered = endpointCache.get(cluster);
+  const last = lastDiscoveries.get(cluster);
+  if (
+    last &&
+    remembered?.settingsKey === settingsKey &&
+    Date.now() - remembered.verifiedAt < PROMETHEUS_ENDPOINT_TTL_MS
+  ) {
+    return Promise.resolve(last);
+  }
+
+  const discovery = runDiscovery(prometheus, cluster, settingsKey).finally(() =>
+    pendingDiscoveries.delete(pendingKey)
+  );
+  pendingDiscoveries.set(pendingKey, discovery);
+  return discovery;
+}
+
+/** The latest discovery for the current cluster, or null before the first one */
+export function getLastPrometheusDiscovery(): PrometheusDiscovery | null {
+  return lastDiscoveries.get(getClusterKey()) ?? null;
+}
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for Kubernetes quantity parsing and arithmetic.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  addQuantities,
+  compareQuantities,
+  formatBytes,
+  formatQuantity,
+  parseQuantity,
+  quantitiesEqual,
+  quantityToNumber,
+} from './quantity';
+
+// ---------------------------------------------------------------------------
+// parseQuantity
+// ---------------------------------------------------------------------------
+
+describe('parseQuantity', () => {
+  it('parses plain integers as DecimalSI', () => {
+    expect(parseQuantity('4')).toEqual({ value: 4, format: 'DecimalSI' });
+  });
+
+  it('parses binary suffixes as BinarySI', () => {
+    expect(parseQuantity('4Gi')).toEqual({ value: 4 * 2 ** 30, format: 'BinarySI' });
+    expect(parseQuantity('512Mi')?.value).toBe(512 * 2 ** 20);
+  });
+
+  it('parses decimal suffixes', () => {
+    expect(parseQuantity('500m')?.value).toBe(0.5);
+    expect(parseQuantity('2G')?.value).toBe(2e9);
+    expect(parseQuantity('1E')?.value).toBe(1e18);
+  });
+
+  it('parses exponents as DecimalExponent', () => {
+    expect(parseQuantity('1e9')).toEqual({ value: 1e9, format: 'DecimalExponent' });
+    expect(parseQuantity('1.5E3')?.value).toBe(1500);
+  });
+
+  it('returns null for missing or malformed values', () => {
+    expect(parseQuantity(undefined)).toBeNull();
+    expect(parseQuantity('')).toBeNull();
+    expect(parseQuantity('lots')).toBeNull();
+    expect(parseQuantity('4Xi')).toBeNull();
+  });
+});
+
+describe('quantityToNumber', () => {
+  it('returns the value in base units', () => {
+    expect(quantityToNumber('1Ki')).toBe(1024);
+  });
+
+  it('returns 0 for malformed input', () => {
+    expect(quantityToNumber('abc')).toBe(0);
+    expect(quantityToNumber(undefined)).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Arithmetic
+// ---------------------------------------------------------------------------
+
+describe('quantity arithmetic', () => {
+  const eight = parseQuantity('8Gi')!;
+  const half = parseQuantity('512Mi')!;
+
+  it('adds and keeps the left format', () => {
+    expect(addQuantities(eight, half)).toEqual({ value: 8.5 * 2 ** 30, format: 'BinarySI' });
+    expect(addQuantities(parseQuantity('2')!, parseQuantity('3')!).value).toBe(5);
+  });
+
+  it('compares', () => {
+    expect(compareQuantities(eight, half)).toBe(1);
+    expect(compareQuantities(half, eight)).toBe(-1);
+    expect(compareQuantities(parseQuantity('1Gi')!, parseQuantity('1024Mi')!)).toBe(0);
+  });
+
+  it('tests equality of quantity strings', () => {
+    expect(quantitiesEqual('1Gi', '1024Mi')).toBe(true);
+    expect(quantitiesEqual('1', '2')).toBe(false);
+    expect(quantitiesEqual('bogus', 'bogus')).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+describe('formatQuantity', () => {
+  it('uses the largest binary suffix for BinarySI', () => {
+    expect(formatQuantity(parseQuantity('8192Mi')!)).toBe('8Gi');
+    expect(formatQuantity(parseQuantity('1536Mi')!)).toBe('1.5Gi');
+  });
+
+  it('uses milli notation for fractional decimal values', () => {
+    expect(formatQuantity(parseQuantity('500m')!)).toBe('500m');
+  });
+
+  it('prints whole decimal values plainly', () => {
+    expect(formatQuantity(parseQuantity('2000')!)).toBe('2000');
+    expect(formatQuantity(parseQuantity('1e9')!)).toBe('1000000000');
+  });
+});
+
+describe('formatBytes', () => {
+  it('uses binary units', () => {
+    expect(formatBytes(4 * 2 ** 30)).toBe('4 GiB');
+    expect(formatBytes(1536 * 2 ** 20)).toBe('1.5 GiB');
+    expect(formatBytes(512)).toBe('512 B');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Kubernetes resource quantity parsing and arithmetic.
+ *
+ * Intel GPU resources mix plain counts (gpu.intel.com/i915), millicore
+ * counts (gpu.intel.com/millicores) and byte sizes (gpu.intel.com/memory.max,
+ * e.g. "8Gi", "512Mi", "1e9"). Every piece of GPU resource math in the plugin
+ * goes through this module instead of parseInt, which truncates "8Gi" to 8.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Serialization format of a quantity, mirroring apimachinery's resource.Format */
+export type QuantityFormat = 'DecimalSI' | 'BinarySI' | 'DecimalExponent';
+
+export interface Quantity {
+  /** Value in base units (bytes for memory, whole units for counts) */
+  readonly value: number;
+  /** Format the quantity was written in; arithmetic keeps the left operand's */
+  readonly format: QuantityFormat;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const DECIMAL_SUFFIXES: Record<string, number> = {
+  n: 1e-9,
+  u: 1e-6,
+  m: 1e-3,
+  '': 1,
+  k: 1e3,
+  M: 1e6,
+  G: 1e9,
+  T: 1e12,
+  P: 1e15,
+  E: 1e18,
+};
+
+const BINARY_SUFFIXES: Record<string, number> = {
+  Ki: 2 ** 10,
+  Mi: 2 ** 20,
+  Gi: 2 ** 30,
+  Ti: 2 ** 40,
+  Pi: 2 ** 50,
+  Ei: 2 ** 60,
+};
+
+const QUANTITY_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+))(?:([eE][+-]?\d+)|([a-zA-Z]*))$/;
+
+/**
+ * Parse a Kubernetes quantity ("2", "500m", "4Gi", "1e9").
+ * Returns null for missing or malformed input.
+ */
+export function parseQuantity(input: string | undefined): Quantity | null {
+  if (!input) return null;
+  const match = QUANTITY_PATTERN.exec(input.trim());
+  if (!match) return null;
+
+  const [, mantissa, exponent, suffix = ''] = match;
+  if (exponent) {
+    return { value: parseFloat(mantissa + exponent), format: 'DecimalExponent' };
+  }
+  if (suffix in BINARY_SUFFIXES) {
+    return { value: parseFloat(mantissa) * BINARY_SUFFIXES[suffix], format: 'BinarySI' };
+  }
+  if (suffix in DECIMAL_SUFFIXES) {
+    return { value: parseFloat(mantissa) * DECIMAL_SUFFIXES[suffix], format: 'DecimalSI' };
+  }
+  return null;
+}
+
+/** Parse a quantity straight to its numeric value; 0 for missing or malformed input */
+export function quantityToNumber(input: string | undefined): number {
+  return parseQuantity(input)?.value ?? 0;
+}
+
+// ---------------------------------------------------------------------------
+// Arithmetic
+// ---------------------------------------------------------------------------
+
+export function addQuantities(a: Quantity, b: Quantity): Quantity {
+  return { value: a.value + b.value, format: a.format };
+}
+
+/** Returns -1, 0 or 1 as a is less than, equal to or greater than b */
+export function compareQuantities(a: Quantity, b: Quantity): -1 | 0 | 1 {
+  if (a.value === b.value) return 0;
+  return a.value < b.value ? -1 : 1;
+}
+
+/** True when two quantity strings denote the same amount ("1Gi" and "1024Mi") */
+export function quantitiesEqual(a: string | undefined, b: string | undefined): boolean {
+  const qa = parseQuantity(a);
+  const qb = parseQuantity(b);
+  if (!qa || !qb) return a === b;
+  return compareQuantities(qa, qb) === 0;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+function trimNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Format a quantity back into Kubernetes notation: BinarySI values take the
+ * largest binary suffix that fits ("8Gi"), fractional values milli notation
+ * ("500m"), and other values print plainly ("3", "2000000").
+ */
+export function formatQuantity(q: Quantity): string {
+  if (q.format === 'BinarySI') {
+    const entries = Object.entries(BINARY_SUFFIXES).reverse();
+    for (const [suffix, multiplier] of entries) {
+      if (Math.abs(q.value) >= multiplier) return `${trimNumber(q.value / multiplier)}${suffix}`;
+    }
+    return trimNumber(q.value);
+  }
+  if (q.value !== 0 && Math.abs(q.value) < 1) {
+    return `${trimNumber(q.value * 1000)}m`;
+  }
+  return trimNumber(q.value);
+}
+
+/** Format a byte count with binary units (e.g. 4294967296 → "4 GiB") */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB', 'PiB'];
+  let value = bytes;
+  let unit = 0;
+  while (Math.abs(value) >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  const rounded = Number.isInteger(value) ? String(value) : value.toFixed(1);
+  return `${rounded} ${units[unit]}`;
+}
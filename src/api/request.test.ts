@@ -0,0 +1,29 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestTimeoutError, withTimeout } from './request';
+
+describe('withTimeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves with the value and clears its timer', async () => {
+    await expect(withTimeout(Promise.resolve('ok'), 2_000)).resolves.toBe('ok');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('passes on the rejection and clears its timer', async () => {
+    await expect(withTimeout(Promise.reject(new Error('403')), 2_000)).rejects.toThrow('403');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('rejects with a RequestTimeoutError when the promise hangs', async () => {
+    const result = withTimeout(new Promise(() => {}), 5_000);
+    vi.advanceTimersByTime(5_000);
+    await expect(result).rejects.toBeInstanceOf(RequestTimeoutError);
+    await expect(result).rejects.toThrow('Timed out after 5s');
+  });
+});
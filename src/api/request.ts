@@ -0,0 +1,28 @@
+/**
+ * Timeouts for ApiProxy requests.
+ *
+ * ApiProxy.request has no timeout of its own, and a request through the
+ * Kubernetes service proxy to an unresponsive backend can hang for minutes.
+ * Every list and probe goes through withTimeout so a page degrades instead
+ * of waiting forever.
+ */
+
+/** Timeout for Kubernetes API list and get requests */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 2_000;
+
+export class RequestTimeoutError extends Error {}
+
+/**
+ * Settles like `promise`, or rejects with a RequestTimeoutError when it has
+ * not settled within `ms`. The timer is cleared either way.
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new RequestTimeoutError(`Timed out after ${Math.round(ms / 1000)}s`)),
+      ms
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
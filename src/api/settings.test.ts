@@ -0,0 +1,101 @@
+/**
+ * Unit tests for plugin settings helpers.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_IDLE_GPU_THRESHOLDS,
+  DEFAULT_USAGE_THRESHOLDS,
+  formatGpuTypeMappings,
+  getAutoRefreshInterval,
+  getIdleGpuThresholds,
+  getUsageThresholds,
+  parseGpuTypeMappings,
+  parseListText,
+} from './settings';
+
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ConfigStore: class {
+    get() {
+      return {};
+    }
+    useConfig() {
+      return () => ({});
+    }
+  },
+}));
+
+describe('parseGpuTypeMappings', () => {
+  it('parses key=type lines and skips comments and blanks', () => {
+    const { mappings, invalid } = parseGpuTypeMappings(
+      '# lab cards\n56c0=discrete\n\nFlex 170 = DISCRETE\n4680=integrated'
+    );
+    expect(mappings).toEqual({ '56c0': 'discrete', 'Flex 170': 'discrete', '4680': 'integrated' });
+    expect(invalid).toEqual([]);
+  });
+
+  it('reports malformed lines', () => {
+    const { mappings, invalid } = parseGpuTypeMappings('56c0\n=discrete\n4680=unknown');
+    expect(mappings).toEqual({});
+    expect(invalid).toEqual(['56c0', '=discrete', '4680=unknown']);
+  });
+});
+
+describe('formatGpuTypeMappings', () => {
+  it('round-trips through parseGpuTypeMappings', () => {
+    const mappings = { '56c0': 'discrete', 'Arc A770': 'discrete' } as const;
+    expect(parseGpuTypeMappings(formatGpuTypeMappings(mappings)).mappings).toEqual(mappings);
+  });
+
+  it('returns an empty string when no mappings are set', () => {
+    expect(formatGpuTypeMappings(undefined)).toBe('');
+  });
+});
+
+describe('getAutoRefreshInterval', () => {
+  it('returns a saved interval that the selector offers', () => {
+    expect(getAutoRefreshInterval({ autoRefreshIntervalMs: 30_000 })).toBe(30_000);
+  });
+
+  it('falls back to off for unset or unknown intervals', () => {
+    expect(getAutoRefreshInterval({})).toBe(0);
+    expect(getAutoRefreshInterval({ autoRefreshIntervalMs: 1234 })).toBe(0);
+  });
+});
+
+describe('getUsageThresholds', () => {
+  it('uses the 70/90 defaults when unset', () => {
+    expect(getUsageThresholds({})).toEqual({ warning: 70, critical: 90 });
+  });
+
+  it('merges a partially configured pair with the defaults', () => {
+    expect(getUsageThresholds({ thresholds: { warning: 50 } })).toEqual({
+      warning: 50,
+      critical: 90,
+    });
+  });
+
+  it('falls back to the defaults when warning is not below critical', () => {
+    expect(getUsageThresholds({ thresholds: { warning: 95, critical: 90 } })).toBe(
+      DEFAULT_USAGE_THRESHOLDS
+    );
+    expect(getUsageThresholds({ thresholds: { warning: 80, critical: 120 } })).toBe(
+      DEFAULT_USAGE_THRESHOLDS
+    );
+  });
+});
+
+describe('getIdleGpuThresholds', () => {
+  it('uses the defaults for unset and out-of-range values', () => {
+    expect(getIdleGpuThresholds({})).toEqual(DEFAULT_IDLE_GPU_THRESHOLDS);
+    expect(
+      getIdleGpuThresholds({ idleThresholds: { powerPercent: 30, utilizationPercent: 150 } })
+    ).toEqual({ powerPercent: 30, utilizationPercent: 5 });
+  });
+});
+
+describe('parseListText', () => {
+  it('returns trimmed entries and skips blanks and comments', () => {
+    expect(parseListText(' app=gpu \n\n# old\nkube-system')).toEqual(['app=gpu', 'kube-system']);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Plugin settings persisted through Headlamp's ConfigStore.
+ *
+ * Settings are edited on the plugin's entry in Headlamp's Settings → Plugins
+ * page (see PluginSettings) and read by the data provider and by table column
+ * processors, which render outside any provider.
+ */
+
+import { ConfigStore } from '@kinvolk/headlamp-plugin/lib';
+import { GpuType, GpuTypeMappings } from './k8s';
+import { GpuMetricQueries } from './metrics';
+
+/** Plugin name as registered with Headlamp (package.json "name") */
+export const PLUGIN_NAME = 'intel-gpu';
+
+export interface IntelGpuPluginSettings {
+  /** PCI device ID or product name → GPU type, consulted before any other evidence */
+  gpuTypeMappings?: GpuTypeMappings;
+  /** Page toolbar auto-refresh interval in milliseconds; 0 or unset means off */
+  autoRefreshIntervalMs?: number;
+  /** Where to reach Prometheus; unset fields fall back to kube-prometheus-stack defaults */
+  prometheus?: PrometheusSettings;
+  /** Label selectors for device plugin pods deployed with non-standard labels */
+  pluginPodSelectors?: string[];
+  /** Namespaces to search for device plugin pods besides inteldeviceplugins-system */
+  pluginPodNamespaces?: string[];
+  /** Percent usage at which bars turn warning (orange) and critical (red) */
+  thresholds?: Partial<UsageThresholds>;
+  /** Custom PromQL per GPU reading, for exporters the plugin does not know */
+  metricQueries?: GpuMetricQueries;
+  /** Metric and label names of a textfile collector sidecar; unset fields use the defaults */
+  textfileMetrics?: TextfileMetricSettings;
+  /** Levels at or below which an allocated GPU counts as idle */
+  idleThresholds?: Partial<IdleGpuThresholds>;
+  /** Optional columns added to the native Nodes table; all off when unset */
+  nodeTableColumns?: NodeTableColumnSettings;
+  /** Optional columns added to the native Pods table; all off when unset */
+  podTableColumns?: PodTableColumnSettings;
+}
+
+export interface PrometheusSettings {
+  namespace?: string;
+  service?: string;
+  port?: string;
+  /** Full API proxy path to Prometheus; takes precedence over namespace/service/port */
+  proxyPath?: string;
+}
+
+export interface TextfileMetricSettings {
+  /** Frequency metric, one series per GPU and frequency type */
+  frequencyMetric?: string;
+  /** Label holding the frequency type: act, cur, min, max or boost */
+  frequencyTypeLabel?: string;
+  /** Throttle reason metric, 1 while the reason is active */
+  throttleMetric?: string;
+  /** Label holding the throttle reason */
+  throttleReasonLabel?: string;
+}
+
+export interface UsageThresholds {
+  warning: number;
+  critical: number;
+}
+
+export interface IdleGpuThresholds {
+  /** Power draw as a percentage of the GPU's TDP */
+  powerPercent: number;
+  /** XPU Manager GPU utilization percentage, used instead of power where reported */
+  utilizationPercent: number;
+}
+
+/** Optional Nodes table columns, each shown when true */
+export interface NodeTableColumnSettings {
+  /** Summed GPU power draw, from Prometheus */
+  power?: boolean;
+  /** Hottest GPU temperature, from Prometheus */
+  temperature?: boolean;
+  /** GPU devices requested by pods out of allocatable */
+  allocated?: boolean;
+}
+
+/** Optional Pods table columns, each shown when true */
+export interface PodTableColumnSettings {
+  /** Cards GPU Aware Scheduling assigned to the pod */
+  gpuCard?: boolean;
+}
+
+export const pluginSettingsStore = new ConfigStore<IntelGpuPluginSettings>(PLUGIN_NAME);
+
+/** Current settings, for callers outside React render (e.g. table column getters) */
+export function getPluginSettings(): IntelGpuPluginSettings {
+  return pluginSettingsStore.get() ?? {};
+}
+
+/** Reactive settings hook; re-renders when settings are saved */
+export function usePluginSettings(): IntelGpuPluginSettings {
+  const useConfig = pluginSettingsStore.useConfig();
+  return useConfig() ?? {};
+}
+
+// ---------------------------------------------------------------------------
+// Usage thresholds
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_USAGE_THRESHOLDS: UsageThresholds = { warning: 70, critical: 90 };
+
+/** True when 0 < warning < critical <= 100 */
+export function isValidUsageThresholds(thresholds: Partial<UsageThresholds>): boolean {
+  const { warning, critical } = thresholds;
+  return (
+    typeof warning === 'number' &&
+    typeof critical === 'number' &&
+    warning > 0 &&
+    warning < critical &&
+    critical <= 100
+  );
+}
+
+/** Saved thresholds, or the 70%/90% defaults when unset or inconsistent */
+export function getUsageThresholds(settings: IntelGpuPluginSettings): UsageThresholds {
+  const merged = { ...DEFAULT_USAGE_THRESHOLDS, ...settings.thresholds };
+  return isValidUsageThresholds(merged) ? merged : DEFAULT_USAGE_THRESHOLDS;
+}
+
+/** Reactive usage thresholds for bar colouring */
+export function useUsageThresholds(): UsageThresholds {
+  return getUsageThresholds(usePluginSettings());
+}
+
+// ---------------------------------------------------------------------------
+// Idle GPU thresholds
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_IDLE_GPU_THRESHOLDS: IdleGpuThresholds = {
+  powerPercent: 20,
+  utilizationPercent: 5,
+};
+
+function isPercent(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 100;
+}
+
+/** Saved idle thresholds; each unset or out-of-range value falls back to its default */
+export function getIdleGpuThresholds(settings: IntelGpuPluginSettings): IdleGpuThresholds {
+  const { powerPercent, utilizationPercent } = settings.idleThresholds ?? {};
+  return {
+    powerPercent: isPercent(powerPercent) ? powerPercent : DEFAULT_IDLE_GPU_THRESHOLDS.powerPercent,
+    utilizationPercent: isPercent(utilizationPercent)
+      ? utilizationPercent
+      : DEFAULT_IDLE_GPU_THRESHOLDS.utilizationPercent,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// List editor text format
+// ---------------------------------------------------------------------------
+
+/** One entry per line; blank lines and lines starting with # are ignored */
+export function parseListText(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+}
+
+export function formatListText(entries: string[] | undefined): string {
+  return (entries ?? []).join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// GPU type mapping table text format
+// ---------------------------------------------------------------------------
+
+function isMappedGpuType(value: string): value is Exclude<GpuType, 'unknown'> {
+  return value === 'discrete' || value === 'integrated';
+}
+
+/**
+ * Parse the mapping table editor text: one "key=type" entry per line, where
+ * key is a PCI device ID (e.g. 56c0) or product name and type is discrete or
+ * integrated. Blank lines and lines starting with # are ignored; malformed
+ * lines are returned in `invalid`.
+ */
+export function parseGpuTypeMappings(text: string): {
+  mappings: GpuTypeMappings;
+  invalid: string[];
+} {
+  const mappings: GpuTypeMappings = {};
+  const invalid: string[] = [];
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const separator = line.lastIndexOf('=');
+    const key = separator > 0 ? line.slice(0, separator).trim() : '';
+    const type =
+      separator > 0
+        ? line
+            .slice(separator + 1)
+            .trim()
+            .toLowerCase()
+        : '';
+    if (!key || !isMappedGpuType(type)) {
+      invalid.push(line);
+      continue;
+    }
+    mappings[key] = type;
+  }
+  return { mappings, invalid };
+}
+
+export function formatGpuTypeMappings(mappings: GpuTypeMappings | undefined): string {
+  return Object.entries(mappings ?? {})
+    .map(([key, type]) => `${key}=${type}`)
+    .join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Auto-refresh
+// ---------------------------------------------------------------------------
+
+/** Intervals offered by the page toolbar's auto-refresh selector */
+export const AUTO_REFRESH_INTERVALS: ReadonlyArray<{ label: string; ms: number }> = [
+  { label: 'Off', ms: 0 },
+  { label: '10s', ms: 10_000 },
+  { label: '30s', ms: 30_000 },
+  { label: '1m', ms: 60_000 },
+  { label: '5m', ms: 300_000 },
+];
+
+/** Saved auto-refresh interval, falling back to off for unset or unknown values */
+export function getAutoRefreshInterval(settings: IntelGpuPluginSettings): number {
+  const ms = settings.autoRefreshIntervalMs;
+  return AUTO_REFRESH_INTERVALS.some(option => option.ms === ms) ? (ms as number) : 0;
+}
+
+/** Remember the auto-refresh choice; merged so other settings are kept */
+export function saveAutoRefreshInterval(ms: number): void {
+  pluginSettingsStore.update({ autoRefreshIntervalMs: ms });
+}
@@ -0,0 +1,233 @@
+/**
+ * Unit tests for the list-then-watch helpers.
+ */
+
+import { ApiProxy } from '@kinvolk/headlamp-plugin/lib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  applyWatchEvent,
+  buildWatchUrl,
+  combineWatchStatuses,
+  getWatchBackoffMs,
+  watchKubeList,
+  WatchStatus,
+} from './watch';
+
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ApiProxy: { request: vi.fn(), stream: vi.fn() },
+}));
+
+const pluginA = { metadata: { name: 'a', uid: 'uid-a' }, status: { numberReady: 0 } };
+const pluginB = { metadata: { name: 'b', uid: 'uid-b' } };
+
+describe('applyWatchEvent', () => {
+  it('adds, replaces and removes objects by uid', () => {
+    const added = applyWatchEvent([pluginA], { type: 'ADDED', object: pluginB });
+    expect(added).toEqual([pluginA, pluginB]);
+
+    const ready = { ...pluginA, status: { numberReady: 1 } };
+    expect(applyWatchEvent(added, { type: 'MODIFIED', object: ready })).toEqual([ready, pluginB]);
+    expect(applyWatchEvent(added, { type: 'DELETED', object: pluginA })).toEqual([pluginB]);
+  });
+
+  it('falls back to namespace/name when an object has no uid', () => {
+    const pod = { metadata: { name: 'p', namespace: 'kube-system' } };
+    const items = applyWatchEvent([pod], { type: 'MODIFIED', object: { ...pod, spec: {} } });
+    expect(items).toHaveLength(1);
+  });
+
+  it('ignores bookmarks and objects without metadata', () => {
+    const items = [pluginA];
+    expect(applyWatchEvent(items, { type: 'BOOKMARK', object: pluginB })).toBe(items);
+    expect(applyWatchEvent(items, { type: 'ADDED', object: { status: 'Failure' } })).toBe(items);
+  });
+});
+
+describe('buildWatchUrl', () => {
+  it('appends watch parameters to plain and query URLs', () => {
+    expect(buildWatchUrl('/apis/x/v1/things', '42')).toBe(
+      '/apis/x/v1/things?watch=1&allowWatchBookmarks=true&resourceVersion=42'
+    );
+    expect(buildWatchUrl('/api/v1/pods?labelSelector=app%3Dx')).toBe(
+      '/api/v1/pods?labelSelector=app%3Dx&watch=1&allowWatchBookmarks=true'
+    );
+  });
+});
+
+describe('getWatchBackoffMs', () => {
+  it('doubles from 1s and caps at 30s', () => {
+    expect([0, 1, 2, 3, 4, 5, 10].map(getWatchBackoffMs)).toEqual([
+      1000, 2000, 4000, 8000, 16000, 30000, 30000,
+    ]);
+  });
+});
+
+describe('combineWatchStatuses', () => {
+  const live: WatchStatus = { state: 'live', staleSince: null };
+
+  it('is stale since the earliest failure when any watch is stale', () => {
+    expect(
+      combineWatchStatuses([
+        live,
+        { state: 'stale', staleSince: '2026-10-19T10:05:00Z' },
+        { state: 'stale', staleSince: '2026-10-19T10:01:00Z' },
+      ])
+    ).toEqual({ state: 'stale', staleSince: '2026-10-19T10:01:00Z' });
+  });
+
+  it('is connecting while any watch is connecting, otherwise live', () => {
+    expect(combineWatchStatuses([live, { state: 'connecting', staleSince: null }]).state).toBe(
+      'connecting'
+    );
+    expect(combineWatchStatuses([live, live])).toEqual(live);
+  });
+
+  it('is none when nothing is watched', () => {
+    expect(combineWatchStatuses([])).toEqual({ state: 'none', staleSince: null });
+  });
+});
+
+describe('watchKubeList', () => {
+  type StreamArgs = { connectCb?: () => void; failCb?: () => void };
+  interface FakeStream {
+    url: string;
+    cb: (data: unknown) => void;
+    args: StreamArgs;
+    /** Null until ApiProxy would have created the socket */
+    socket: (EventTarget & { readyState: number }) | null;
+  }
+  let streams: FakeStream[];
+
+  /** Create the stream's socket after a poll and open it */
+  async function openSocket(stream: FakeStream) {
+    const socket = Object.assign(new EventTarget(), { readyState: WebSocket.CONNECTING as number });
+    stream.socket = socket;
+    await vi.advanceTimersByTimeAsync(100);
+    socket.readyState = WebSocket.OPEN;
+    socket.dispatchEvent(new Event('open'));
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    streams = [];
+    vi.mocked(ApiProxy.stream).mockReset();
+    vi.mocked(ApiProxy.stream).mockImplementation(((
+      url: string,
+      cb: (data: unknown) => void,
+      args: StreamArgs
+    ) => {
+      // Like Headlamp, connectCb runs before the socket is opened
+      const stream: FakeStream = { url, cb, args, socket: null };
+      streams.push(stream);
+      args.connectCb?.();
+      return { cancel: vi.fn(), getSocket: () => stream.socket };
+    }) as any);
+    vi.mocked(ApiProxy.request).mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resumes from the list resourceVersion and applies events', async () => {
+    const onItems = vi.fn();
+    const onStatus = vi.fn();
+    watchKubeList('/apis/x/v1/things', {
+      items: [pluginA],
+      resourceVersion: '100',
+      onItems,
+      onStatus,
+    });
+
+    expect(streams[0].url).toContain('resourceVersion=100');
+    expect(onStatus).not.toHaveBeenCalled();
+    await openSocket(streams[0]);
+    expect(onStatus).toHaveBeenLastCalledWith({ state: 'live', staleSince: null });
+
+    streams[0].cb({ type: 'ADDED', object: pluginB });
+    expect(onItems).toHaveBeenLastCalledWith([pluginA, pluginB]);
+  });
+
+  it('goes stale on failure and re-lists after the backoff delay', async () => {
+    const onItems = vi.fn();
+    const onStatus = vi.fn();
+    vi.mocked(ApiProxy.request).mockResolvedValue({
+      items: [pluginB],
+      metadata: { resourceVersion: '205' },
+    });
+    watchKubeList('/apis/x/v1/things', {
+      items: [pluginA],
+      resourceVersion: '100',
+      onItems,
+      onStatus,
+    });
+
+    streams[0].args.failCb?.();
+    expect(onStatus).toHaveBeenLastCalledWith(expect.objectContaining({ state: 'stale' }));
+    expect(ApiProxy.request).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(getWatchBackoffMs(0));
+    expect(ApiProxy.request).toHaveBeenCalledWith('/apis/x/v1/things');
+    expect(onItems).toHaveBeenLastCalledWith([pluginB]);
+    expect(streams[1].url).toContain('resourceVersion=205');
+  });
+
+  it('counts the first event or bookmark as live', () => {
+    const onStatus = vi.fn();
+    watchKubeList('/apis/x/v1/things', { items: [], onItems: vi.fn(), onStatus });
+
+    streams[0].cb({ type: 'BOOKMARK', object: { metadata: { resourceVersion: '7' } } });
+    expect(onStatus).toHaveBeenCalledTimes(1);
+    expect(onStatus).toHaveBeenLastCalledWith({ state: 'live', staleSince: null });
+  });
+
+  it('keeps backing off and stays stale while reconnects fail', async () => {
+    const onStatus = vi.fn();
+    vi.mocked(ApiProxy.request).mockResolvedValue({ items: [], metadata: {} });
+    watchKubeList('/apis/x/v1/things', { items: [], onItems: vi.fn(), onStatus });
+
+    streams[0].args.failCb?.();
+    await vi.advanceTimersByTimeAsync(getWatchBackoffMs(0));
+    expect(streams).toHaveLength(2);
+
+    streams[1].args.failCb?.();
+    await vi.advanceTimersByTimeAsync(getWatchBackoffMs(0));
+    expect(streams).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(getWatchBackoffMs(1) - getWatchBackoffMs(0));
+    expect(streams).toHaveLength(3);
+
+    // Stale once, from the first failure, with no live status in between
+    expect(onStatus).toHaveBeenCalledTimes(1);
+    expect(onStatus).toHaveBeenLastCalledWith(expect.objectContaining({ state: 'stale' }));
+
+    await openSocket(streams[2]);
+    expect(onStatus).toHaveBeenLastCalledWith({ state: 'live', staleSince: null });
+  });
+
+  it('re-lists when the server reports the resourceVersion as expired', async () => {
+    vi.mocked(ApiProxy.request).mockResolvedValue({ items: [], metadata: {} });
+    watchKubeList('/apis/x/v1/things', {
+      items: [],
+      resourceVersion: '1',
+      onItems: vi.fn(),
+      onStatus: vi.fn(),
+    });
+
+    streams[0].cb({ type: 'ERROR', object: { code: 410, reason: 'Expired' } });
+    await vi.advanceTimersByTimeAsync(getWatchBackoffMs(0));
+    expect(streams).toHaveLength(2);
+    expect(streams[1].url).not.toContain('resourceVersion');
+  });
+
+  it('stops reconnecting once cancelled', async () => {
+    const stop = watchKubeList('/apis/x/v1/things', {
+      items: [],
+      onItems: vi.fn(),
+      onStatus: vi.fn(),
+    });
+    streams[0].args.failCb?.();
+    stop();
+    await vi.advanceTimersByTimeAsync(getWatchBackoffMs(5));
+    expect(ApiProxy.request).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * List-then-watch for resources fetched through ApiProxy.
+ *
+ * Headlamp's useList() hooks keep Nodes and Pods current, but the
+ * GpuDevicePlugin CRD and the device plugin DaemonSet pods are read with
+ * ApiProxy.request (ADR 002). This module keeps such a list current with a
+ * Kubernetes watch: it resumes from the list's resourceVersion, applies
+ * ADDED/MODIFIED/DELETED events, and on a dropped stream or a 410 Gone
+ * re-lists and reconnects with exponential backoff.
+ *
+ * ApiProxy.stream calls its connectCb before the socket is even opened, so a
+ * watch counts as live only once its socket opens or it delivers an event.
+ */
+
+import { ApiProxy } from '@kinvolk/headlamp-plugin/lib';
+import { isKubeList, KubeObject } from './k8s';
+import { DEFAULT_REQUEST_TIMEOUT_MS, withTimeout } from './request';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type WatchEventType = 'ADDED' | 'MODIFIED' | 'DELETED' | 'BOOKMARK' | 'ERROR';
+
+export interface WatchEvent {
+  type: WatchEventType;
+  object: unknown;
+}
+
+/** Connection state of a watch, or of several watches combined; 'none' when nothing is watched */
+export type WatchState = 'none' | 'connecting' | 'live' | 'stale';
+
+export interface WatchStatus {
+  state: WatchState;
+  /** ISO timestamp of when the data stopped being live; null unless stale */
+  staleSince: string | null;
+}
+
+export const CONNECTING_WATCH_STATUS: WatchStatus = { state: 'connecting', staleSince: null };
+export const NO_WATCH_STATUS: WatchStatus = { state: 'none', staleSince: null };
+
+export interface WatchListOptions {
+  /** Items and resourceVersion from the initial list request */
+  items: unknown[];
+  resourceVersion?: string;
+  /** Called with the full item list after every change */
+  onItems: (items: unknown[]) => void;
+  onStatus: (status: WatchStatus) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const WATCH_BACKOFF_BASE_MS = 1_000;
+const WATCH_BACKOFF_MAX_MS = 30_000;
+/** How often to look for the stream's socket while ApiProxy opens it */
+const SOCKET_POLL_MS = 100;
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+export function isWatchEvent(value: unknown): value is WatchEvent {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  return typeof v['type'] === 'string' && 'object' in v;
+}
+
+function objectKey(obj: unknown): string | null {
+  if (!obj || typeof obj !== 'object') return null;
+  const metadata = (obj as Partial<KubeObject>).metadata;
+  if (!metadata?.name) return null;
+  return metadata.uid ?? `${metadata.namespace ?? ''}/${metadata.name}`;
+}
+
+/** Apply one ADDED/MODIFIED/DELETED event to a list; other events return it unchanged */
+export function applyWatchEvent(items: unknown[], event: WatchEvent): unknown[] {
+  const key = objectKey(event.object);
+  if (!key) return items;
+
+  switch (event.type) {
+    case 'ADDED':
+    case 'MODIFIED': {
+      const index = items.findIndex(item => objectKey(item) === key);
+      if (index === -1) return [...items, event.object];
+      const next = [...items];
+      next[index] = event.object;
+      return next;
+    }
+    case 'DELETED':
+      return items.filter(item => objectKey(item) !== key);
+    default:
+      return items;
+  }
+}
+
+/** resourceVersion carried by an event's object (BOOKMARK events carry only this) */
+export function getEventResourceVersion(event: WatchEvent): string | undefined {
+  const obj = event.object as { metadata?: { resourceVersion?: string } } | null;
+  return obj?.metadata?.resourceVersion;
+}
+
+/** Add watch parameters to a list URL that may already have a query string */
+export function buildWatchUrl(listUrl: string, resourceVersion?: string): string {
+  const params = new URLSearchParams({ watch: '1', allowWatchBookmarks: 'true' });
+  if (resourceVersion) params.set('resourceVersion', resourceVersion);
+  return `${listUrl}${listUrl.includes('?') ? '&' : '?'}${params.toString()}`;
+}
+
+/** Delay before reconnect attempt n (0-based): 1s, 2s, 4s, ... capped at 30s */
+export function getWatchBackoffMs(attempt: number): number {
+  return Math.min(WATCH_BACKOFF_BASE_MS * 2 ** attempt, WATCH_BACKOFF_MAX_MS);
+}
+
+/**
+ * Combine the statuses of several watches: stale since the earliest failure
+ * when any is stale, connecting while any is connecting, none when there are
+ * no watches (e.g. no GpuDevicePlugin CRD and no plugin pods), otherwise live.
+ */
+export function combineWatchStatuses(statuses: WatchStatus[]): WatchStatus {
+  if (statuses.length === 0) return NO_WATCH_STATUS;
+  const stale = statuses
+    .filter(s => s.state === 'stale')
+    .map(s => s.staleSince)
+    .filter((t): t is string => t !== null)
+    .sort();
+  if (stale.length > 0) return { state: 'stale', staleSince: stale[0] };
+  if (statuses.some(s => s.state === 'connecting')) return CONNECTING_WATCH_STATUS;
+  return { state: 'live', staleSince: null };
+}
+
+// ---------------------------------------------------------------------------
+// Watch loop
+// ---------------------------------------------------------------------------
+
+/**
+ * Call `onOpen` once the stream's socket is open. ApiProxy.stream creates the
+ * socket asynchronously, so getSocket() is polled until it returns one.
+ * Returns a function that stops waiting.
+ */
+function onSocketOpen(getSocket: () => WebSocket | null, onOpen: () => void): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let socket: WebSocket | null = null;
+
+  const check = () => {
+    timer = null;
+    socket = getSocket();
+    if (!socket) {
+      timer = setTimeout(check, SOCKET_POLL_MS);
+    } else if (socket.readyState === WebSocket.OPEN) {
+      onOpen();
+    } else {
+      socket.addEventListener('open', onOpen, { once: true });
+    }
+  };
+  check();
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    socket?.removeEventListener('open', onOpen);
+  };
+}
+
+/**
+ * Watch `listUrl` starting from an already fetched list. Returns a function
+ * that closes the stream and cancels any pending reconnect.
+ */
+export function watchKubeList(listUrl: string, options: WatchListOptions): () => void {
+  const { onItems, onStatus } = options;
+  let items = options.items;
+  let resourceVersion = options.resourceVersion;
+  let attempt = 0;
+  let live = false;
+  let staleSince: string | null = null;
+  let stopped = false;
+  let cancelStream: (() => void) | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function closeStream() {
+    const cancel = cancelStream;
+    cancelStream = null;
+    cancel?.();
+  }
+
+  function markLive() {
+    if (stopped || live) return;
+    live = true;
+    attempt = 0;
+    staleSince = null;
+    onStatus({ state: 'live', staleSince: null });
+  }
+
+  function markStale() {
+    if (stopped) return;
+    live = false;
+    closeStream();
+    if (!staleSince) {
+      staleSince = new Date().toISOString();
+      onStatus({ state: 'stale', staleSince });
+    }
+    if (retryTimer) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void relist();
+    }, getWatchBackoffMs(attempt++));
+  }
+
+  async function relist() {
+    try {
+      const list = await withTimeout(ApiProxy.request(listUrl), DEFAULT_REQUEST_TIMEOUT_MS);
+      if (stopped) return;
+      if (!isKubeList(list)) throw new Error(`Unexpected list response from ${listUrl}`);
+      items = list.items;
+      resourceVersion = list.metadata?.resourceVersion;
+      onItems(items);
+      connect();
+    } catch {
+      markStale();
+    }
+  }
+
+  function handleMessage(data: unknown) {
+    if (stopped || !isWatchEvent(data)) return;
+    if (data.type === 'ERROR') {
+      // Typically 410 Gone: the resourceVersion is too old to resume from
+      resourceVersion = undefined;
+      markStale();
+      return;
+    }
+    markLive();
+    resourceVersion = getEventResourceVersion(data) ?? resourceVersion;
+    if (data.type === 'BOOKMARK') return;
+    items = applyWatchEvent(items, data);
+    onItems(items);
+  }
+
+  function connect() {
+    if (stopped) return;
+    try {
+      const stream = ApiProxy.stream(buildWatchUrl(listUrl, resourceVersion), handleMessage, {
+        isJson: true,
+        reconnectOnFailure: false,
+        failCb: markStale,
+      });
+      const stopWaiting = onSocketOpen(stream.getSocket, markLive);
+      cancelStream = () => {
+        stopWaiting();
+        stream.cancel();
+      };
+    } catch {
+      markStale();
+    }
+  }
+
+  connect();
+
+  return () => {
+    stopped = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    closeStream();
+  };
+}
@@ -2,7 +2,7 @@ import { render, screen } from '@testing-library/react';
 import React from 'react';
 import { describe, expect, it, vi } from 'vitest';
 import { IntelGpuContextValue, useIntelGpuContext } from '../api/IntelGpuDataContext';
-import { GpuDevicePlugin, IntelGpuPod } from '../api/k8s';
+import { GpuDevicePlugin, IntelDevicePlugin, IntelGpuPod } from '../api/k8s';
 import DevicePluginsPage from './DevicePluginsPage';
 
 vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
@@ -60,6 +60,18 @@ vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
   PercentageBar: () => <div data-testid="percentage-bar" />,
 }));
 
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ConfigStore: class {
+    get() {
+      return {};
+    }
+    update() {}
+    useConfig() {
+      return () => ({});
+    }
+  },
+}));
+
 vi.mock('../api/IntelGpuDataContext', () => ({
   useIntelGpuContext: vi.fn(),
 }));
@@ -72,9 +84,19 @@ function makeContext(overrides: Partial<IntelGpuContextValue> = {}): IntelGpuCon
     gpuPods: [],
     pluginPods: [],
     crdAvailable: false,
+    devicePluginsByKind: {},
+    resourceSlices: [],
+    deviceClasses: [],
+    resourceClaims: [],
+    draAvailable: false,
+    resourceQuotas: [],
+    quotasAvailable: false,
+    gpuTypeMappings: {},
+    watchStatus: { state: 'live', staleSince: null },
     loading: false,
     error: null,
     refresh: vi.fn(),
+    autoRefresh: vi.fn(),
     ...overrides,
   };
 }
@@ -170,4 +192,71 @@ describe('DevicePluginsPage', () => {
     render(<DevicePluginsPage />);
     expect(screen.getByText('fetch error')).toBeInTheDocument();
   });
+
+  it('lists the other Intel device plugin kinds with their kind-specific fields', () => {
+    const qatPlugin: IntelDevicePlugin = {
+      kind: 'QatDevicePlugin',
+      metadata: { name: 'qat-plugin', uid: 'uid-qat-1' },
+      spec: {
+        image: 'intel/intel-qat-plugin:0.32.0',
+        kernelVfDrivers: ['4xxxvf'],
+        maxNumDevices: 32,
+      },
+      status: { desiredNumberScheduled: 2, numberReady: 1 },
+    };
+    vi.mocked(useIntelGpuContext).mockReturnValue(
+      makeContext({
+        loading: false,
+        crdAvailable: true,
+        devicePlugins: [samplePlugin],
+        devicePluginsByKind: { QatDevicePlugin: [qatPlugin], SgxDevicePlugin: [] },
+      })
+    );
+    render(<DevicePluginsPage />);
+    expect(screen.getByText('Other Intel Device Plugins')).toBeInTheDocument();
+    expect(screen.getByText('QatDevicePlugin: qat-plugin')).toBeInTheDocument();
+    expect(screen.getByText('4xxxvf')).toBeInTheDocument();
+    expect(screen.getByText('32')).toBeInTheDocument();
+    expect(screen.getByText('1/2 ready')).toBeInTheDocument();
+    expect(screen.getAllByText('Installed')).toHaveLength(2);
+    expect(screen.getAllByText('Not installed')).toHaveLength(4);
+  });
+
+  it('hides the other kinds section when none of their CRDs are served', () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(
+      makeContext({ loading: false, crdAvailable: true, devicePlugins: [samplePlugin] })
+    );
+    render(<DevicePluginsPage />);
+    expect(screen.queryByText('Other Intel Device Plugins')).not.toBeInTheDocument();
+  });
+
+  it('shows whether the watched data is live or stale in the header', () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(
+      makeContext({ loading: false, crdAvailable: true, devicePlugins: [samplePlugin] })
+    );
+    const { unmount } = render(<DevicePluginsPage />);
+    expect(screen.getByText('Live')).toBeInTheDocument();
+    unmount();
+
+    const staleSince = new Date(Date.now() - 5 * 60_000).toISOString();
+    vi.mocked(useIntelGpuContext).mockReturnValue(
+      makeContext({
+        loading: false,
+        crdAvailable: true,
+        devicePlugins: [samplePlugin],
+        watchStatus: { state: 'stale', staleSince },
+      })
+    );
+    render(<DevicePluginsPage />);
+    expect(screen.getByText('Stale since 5m')).toBeInTheDocument();
+  });
+
+  it('shows no live indicator when nothing is watched', () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(
+      makeContext({ loading: false, watchStatus: { state: 'none', staleSince: null } })
+    );
+    render(<DevicePluginsPage />);
+    expect(screen.queryByText('Live')).not.toBeInTheDocument();
+    expect(screen.queryByText('Connecting…')).not.toBeInTheDocument();
+  });
 });
@@ -1,57 +1,139 @@
 /**
- * DevicePluginsPage — lists all GpuDevicePlugin CRD instances.
+ * DevicePluginsPage — lists Intel device plugin CRD instances.
  *
  * Shows configuration details for each Intel GPU device plugin deployment,
- * including spec and status information.
+ * including spec and status information, followed by the operator's other
+ * plugin kinds (QAT, SGX, DSA, IAA, DLB, FPGA) when their CRDs are served.
  */
 
 import {
   Loader,
   NameValueTable,
   SectionBox,
-  SectionHeader,
   SimpleTable,
   StatusLabel,
 } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
 import React from 'react';
 import { useIntelGpuContext } from '../api/IntelGpuDataContext';
-import { formatAge, isPodReady, pluginStatusText, pluginStatusToStatus } from '../api/k8s';
+import {
+  DevicePluginStatus,
+  formatAge,
+  formatDevicePluginSpecValue,
+  INTEL_DEVICE_PLUGIN_KIND_NAMES,
+  INTEL_DEVICE_PLUGIN_KINDS,
+  IntelDevicePluginKindInfo,
+  isPodReady,
+  KubeObject,
+  pluginStatusText,
+  pluginStatusToStatus,
+} from '../api/k8s';
+import { PageToolbar } from './PageToolbar';
+
+// ---------------------------------------------------------------------------
+// Plugin instance card
+// ---------------------------------------------------------------------------
+
+type DevicePluginObject = KubeObject & { spec: object; status?: DevicePluginStatus };
+
+function DevicePluginCard({
+  plugin,
+  kindInfo,
+}: {
+  plugin: DevicePluginObject;
+  kindInfo: IntelDevicePluginKindInfo;
+}) {
+  const spec = plugin.spec as Record<string, unknown>;
+
+  return (
+    <SectionBox title={`${kindInfo.kind}: ${plugin.metadata.name}`}>
+      <NameValueTable
+        rows={[
+          {
+            name: 'Status',
+            value: (
+              <StatusLabel status={pluginStatusToStatus(plugin)}>
+                {pluginStatusText(plugin)}
+              </StatusLabel>
+            ),
+          },
+          {
+            name: 'Image',
+            value: formatDevicePluginSpecValue(spec['image']),
+          },
+          ...kindInfo.specFields.map(field => ({
+            name: field.label,
+            value: field.toggle ? (
+              <StatusLabel status={spec[field.key] ? 'success' : 'warning'}>
+                {spec[field.key] ? 'Enabled' : 'Disabled'}
+              </StatusLabel>
+            ) : (
+              formatDevicePluginSpecValue(spec[field.key], field.fallback)
+            ),
+          })),
+          {
+            name: 'Desired Nodes',
+            value: String(plugin.status?.desiredNumberScheduled ?? '—'),
+          },
+          {
+            name: 'Ready Nodes',
+            value: String(plugin.status?.numberReady ?? '—'),
+          },
+          ...(plugin.status?.numberUnavailable
+            ? [
+                {
+                  name: 'Unavailable Nodes',
+                  value: (
+                    <StatusLabel status="error">{plugin.status.numberUnavailable}</StatusLabel>
+                  ),
+                },
+              ]
+            : []),
+          {
+            name: 'Node Selector',
+            value: formatDevicePluginSpecValue(spec['nodeSelector']),
+          },
+          {
+            name: 'Age',
+            value: formatAge(plugin.metadata.creationTimestamp),
+          },
+        ]}
+      />
+    </SectionBox>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
 
 export default function DevicePluginsPage() {
-  const { devicePlugins, pluginPods, crdAvailable, loading, error, refresh } = useIntelGpuContext();
+  const {
+    devicePlugins,
+    devicePluginsByKind,
+    pluginPods,
+    crdAvailable,
+    loading,
+    error,
+    watchStatus,
+    refresh,
+    autoRefresh,
+  } = useIntelGpuContext();
 
   if (loading) {
     return <Loader title="Loading device plugin data..." />;
   }
 
+  const otherKinds = INTEL_DEVICE_PLUGIN_KIND_NAMES.filter(kind => kind !== 'GpuDevicePlugin');
+
   return (
     <>
-      <div
-        style={{
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-          marginBottom: '20px',
-        }}
-      >
-        <SectionHeader title="Intel GPU — Device Plugins" />
-        <button
-          onClick={refresh}
-          aria-label="Refresh device plugin data"
-          style={{
-            padding: '6px 16px',
-            backgroundColor: 'transparent',
-            color: 'var(--mui-palette-primary-main, #0071c5)',
-            border: '1px solid var(--mui-palette-primary-main, #0071c5)',
-            borderRadius: '4px',
-            cursor: 'pointer',
-            fontSize: '13px',
-            fontWeight: 500,
-          }}
-        >
-          Refresh
-        </button>
-      </div>
+      <PageToolbar
+        title="Intel GPU — Device Plugins"
+        onRefresh={refresh}
+        onAutoRefresh={autoRefresh}
+        refreshLabel="Refresh device plugin data"
+        watchStatus={watchStatus}
+      />
 
       {error && (
         <SectionBox title="Error">
@@ -108,77 +190,11 @@ export default function DevicePluginsPage() {
       )}
 
       {devicePlugins.map(plugin => (
-        <SectionBox
+        <DevicePluginCard
           key={plugin.metadata.uid ?? plugin.metadata.name}
-          title={`GpuDevicePlugin: ${plugin.metadata.name}`}
-        >
-          <NameValueTable
-            rows={[
-              {
-                name: 'Status',
-                value: (
-                  <StatusLabel status={pluginStatusToStatus(plugin)}>
-                    {pluginStatusText(plugin)}
-                  </StatusLabel>
-                ),
-              },
-              {
-                name: 'Image',
-                value: plugin.spec.image ?? '—',
-              },
-              {
-                name: 'Shared Devices/Node',
-                value: String(plugin.spec.sharedDevNum ?? 1),
-              },
-              {
-                name: 'Allocation Policy',
-                value: plugin.spec.preferredAllocationPolicy ?? 'default',
-              },
-              {
-                name: 'Monitoring',
-                value: plugin.spec.enableMonitoring ? (
-                  <StatusLabel status="success">Enabled</StatusLabel>
-                ) : (
-                  <StatusLabel status="warning">Disabled</StatusLabel>
-                ),
-              },
-              {
-                name: 'Resource Manager',
-                value: plugin.spec.resourceManager ? 'Enabled' : 'Disabled',
-              },
-              {
-                name: 'Desired Nodes',
-                value: String(plugin.status?.desiredNumberScheduled ?? '—'),
-              },
-              {
-                name: 'Ready Nodes',
-                value: String(plugin.status?.numberReady ?? '—'),
-              },
-              ...(plugin.status?.numberUnavailable
-                ? [
-                    {
-                      name: 'Unavailable Nodes',
-                      value: (
-                        <StatusLabel status="error">{plugin.status.numberUnavailable}</StatusLabel>
-                      ),
-                    },
-                  ]
-                : []),
-              {
-                name: 'Node Selector',
-                value: plugin.spec.nodeSelector
-                  ? Object.entries(plugin.spec.nodeSelector)
-                      .map(([k, v]) => `${k}=${v}`)
-                      .join(', ')
-                  : '—',
-              },
-              {
-                name: 'Age',
-                value: formatAge(plugin.metadata.creationTimestamp),
-              },
-            ]}
-          />
-        </SectionBox>
+          plugin={plugin}
+          kindInfo={INTEL_DEVICE_PLUGIN_KINDS.GpuDevicePlugin}
+        />
       ))}
 
       {/* Plugin daemon pods */}
@@ -215,6 +231,39 @@ export default function DevicePluginsPage() {
           />
         </SectionBox>
       )}
+
+      {/* Other Intel device plugin kinds */}
+      {otherKinds.some(kind => devicePluginsByKind[kind]) && (
+        <SectionBox title="Other Intel Device Plugins">
+          <SimpleTable
+            columns={[
+              { label: 'Kind', getter: r => r.kind },
+              { label: 'Device', getter: r => INTEL_DEVICE_PLUGIN_KINDS[r.kind].device },
+              {
+                label: 'CRD',
+                getter: r =>
+                  r.plugins ? (
+                    <StatusLabel status="success">Installed</StatusLabel>
+                  ) : (
+                    'Not installed'
+                  ),
+              },
+              { label: 'Instances', getter: r => (r.plugins ? String(r.plugins.length) : '—') },
+            ]}
+            data={otherKinds.map(kind => ({ kind, plugins: devicePluginsByKind[kind] }))}
+          />
+        </SectionBox>
+      )}
+
+      {otherKinds.flatMap(kind =>
+        (devicePluginsByKind[kind] ?? []).map(plugin => (
+          <DevicePluginCard
+            key={plugin.metadata.uid ?? `${kind}/${plugin.metadata.name}`}
+            plugin={plugin}
+            kindInfo={INTEL_DEVICE_PLUGIN_KINDS[kind]}
+          />
+        ))
+      )}
     </>
   );
 }
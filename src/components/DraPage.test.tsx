@@ -0,0 +1,179 @@
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { DeviceClass, ResourceClaim, ResourceSlice } from '../api/dra';
+import { IntelGpuContextValue, useIntelGpuContext } from '../api/IntelGpuDataContext';
+import { IntelGpuPod } from '../api/k8s';
+import DraPage from './DraPage';
+
+vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
+  Loader: ({ title }: { title: string }) => <div data-testid="loader">{title}</div>,
+  SectionBox: ({ title, children }: { title: string; children?: React.ReactNode }) => (
+    <section>
+      <h2>{title}</h2>
+      {children}
+    </section>
+  ),
+  SectionHeader: ({ title }: { title: string }) => <h1>{title}</h1>,
+  NameValueTable: ({
+    rows,
+  }: {
+    rows: Array<{ name: React.ReactNode; value: React.ReactNode }>;
+  }) => (
+    <dl>
+      {rows.map((r, i) => (
+        <div key={i}>
+          <dt>{r.name}</dt>
+          <dd>{r.value}</dd>
+        </div>
+      ))}
+    </dl>
+  ),
+  SimpleTable: ({
+    columns,
+    data,
+  }: {
+    columns: Array<{ label: string; getter: (item: unknown) => React.ReactNode }>;
+    data: unknown[];
+  }) => (
+    <table>
+      <thead>
+        <tr>
+          {columns.map(c => (
+            <th key={c.label}>{c.label}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {data.map((item, i) => (
+          <tr key={i}>
+            {columns.map(c => (
+              <td key={c.label}>{c.getter(item)}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  ),
+  StatusLabel: ({ status, children }: { status: string; children?: React.ReactNode }) => (
+    <span data-status={status}>{children}</span>
+  ),
+}));
+
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ConfigStore: class {
+    get() {
+      return {};
+    }
+    update() {}
+    useConfig() {
+      return () => ({});
+    }
+  },
+}));
+
+vi.mock('../api/IntelGpuDataContext', () => ({
+  useIntelGpuContext: vi.fn(),
+}));
+
+function makeContext(overrides: Partial<IntelGpuContextValue> = {}): IntelGpuContextValue {
+  return {
+    devicePlugins: [],
+    pluginInstalled: false,
+    gpuNodes: [],
+    gpuPods: [],
+    pluginPods: [],
+    crdAvailable: false,
+    devicePluginsByKind: {},
+    resourceSlices: [],
+    deviceClasses: [],
+    resourceClaims: [],
+    draAvailable: false,
+    resourceQuotas: [],
+    quotasAvailable: false,
+    gpuTypeMappings: {},
+    watchStatus: { state: 'live', staleSince: null },
+    loading: false,
+    error: null,
+    refresh: vi.fn(),
+    autoRefresh: vi.fn(),
+    ...overrides,
+  };
+}
+
+const deviceClass: DeviceClass = {
+  metadata: { name: 'gpu.intel.com' },
+  spec: { selectors: [{ cel: { expression: 'device.driver == "gpu.intel.com"' } }] },
+};
+
+const slice: ResourceSlice = {
+  metadata: { name: 'gpu-node-1-gpu.intel.com-abcde' },
+  spec: {
+    driver: 'gpu.intel.com',
+    nodeName: 'gpu-node-1',
+    pool: { name: 'gpu-node-1', generation: 1 },
+    devices: [
+      { name: 'card0', attributes: { model: { string: 'Flex 170' } } },
+      { name: 'card1', attributes: { model: { string: 'Flex 170' } } },
+    ],
+  },
+};
+
+const claim: ResourceClaim = {
+  metadata: { name: 'trainer-gpu-x7k2', namespace: 'ml' },
+  spec: { devices: { requests: [{ name: 'gpu', exactly: { deviceClassName: 'gpu.intel.com' } }] } },
+  status: {
+    allocation: {
+      devices: {
+        results: [{ request: 'gpu', driver: 'gpu.intel.com', pool: 'gpu-node-1', device: 'card1' }],
+      },
+    },
+  },
+};
+
+const pod: IntelGpuPod = {
+  metadata: { name: 'trainer', namespace: 'ml' },
+  spec: { resourceClaims: [{ name: 'gpu', resourceClaimName: 'trainer-gpu-x7k2' }] },
+  status: { phase: 'Running' },
+};
+
+describe('DraPage', () => {
+  it('shows loader when loading=true', () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: true }));
+    render(<DraPage />);
+    expect(screen.getByTestId('loader')).toBeInTheDocument();
+  });
+
+  it('explains when the cluster does not serve resource.k8s.io', () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext());
+    render(<DraPage />);
+    expect(screen.getByText('DRA Not Available')).toBeInTheDocument();
+  });
+
+  it('warns when DRA is available but the Intel driver publishes nothing', () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ draAvailable: true }));
+    render(<DraPage />);
+    expect(screen.getByText('No Intel GPU Devices Published')).toBeInTheDocument();
+  });
+
+  it('lists slices per node and claims per pod', () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(
+      makeContext({
+        draAvailable: true,
+        deviceClasses: [deviceClass],
+        resourceSlices: [slice],
+        resourceClaims: [claim],
+        gpuPods: [pod],
+      })
+    );
+    render(<DraPage />);
+    expect(screen.getByText('Device Classes')).toBeInTheDocument();
+    expect(screen.getByText('Node: gpu-node-1')).toBeInTheDocument();
+    expect(screen.getByText('card0 (Flex 170)')).toBeInTheDocument();
+    expect(screen.getByText('Free')).toBeInTheDocument();
+    expect(screen.getByText('ml/trainer-gpu-x7k2')).toBeInTheDocument();
+    expect(screen.getByText('trainer')).toBeInTheDocument();
+    expect(screen.getByText('Allocated')).toBeInTheDocument();
+    expect(screen.getByText('gpu-node-1/card1')).toBeInTheDocument();
+  });
+});
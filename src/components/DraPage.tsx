@@ -0,0 +1,263 @@
+/**
+ * DraPage — Intel GPU Dynamic Resource Allocation (resource.k8s.io) view.
+ *
+ * Lists the DeviceClasses of the Intel GPU DRA driver, the devices each node
+ * publishes through ResourceSlices, and the ResourceClaims pods use to get
+ * them, with their allocation results.
+ */
+
+import {
+  Loader,
+  NameValueTable,
+  SectionBox,
+  SimpleTable,
+  StatusLabel,
+} from '@kinvolk/headlamp-plugin/lib/CommonComponents';
+import React from 'react';
+import {
+  DraDevice,
+  formatDraDevice,
+  getClaimDeviceClassNames,
+  getClaimIntelGpuResults,
+  getPodIntelGpuClaims,
+  getResourceSliceDevices,
+  INTEL_GPU_DRA_DRIVER,
+  isResourceClaimAllocated,
+  ResourceClaim,
+  ResourceSlice,
+} from '../api/dra';
+import { useIntelGpuContext } from '../api/IntelGpuDataContext';
+import { formatAge, IntelGpuPod } from '../api/k8s';
+import { PageToolbar } from './PageToolbar';
+
+// ---------------------------------------------------------------------------
+// Row builders
+// ---------------------------------------------------------------------------
+
+interface SliceDeviceRow {
+  slice: ResourceSlice;
+  device: DraDevice;
+  /** Claims holding this device, as namespace/name */
+  claimedBy: string[];
+}
+
+function buildSliceDeviceRows(slices: ResourceSlice[], claims: ResourceClaim[]) {
+  const holders = new Map<string, string[]>();
+  for (const claim of claims) {
+    for (const result of getClaimIntelGpuResults(claim)) {
+      const key = `${result.pool}/${result.device}`;
+      const existing = holders.get(key) ?? [];
+      existing.push(`${claim.metadata.namespace ?? 'default'}/${claim.metadata.name}`);
+      holders.set(key, existing);
+    }
+  }
+
+  // nodeName → rows; slices without a node (allNodes / nodeSelector) are cluster-wide
+  const byNode = new Map<string, SliceDeviceRow[]>();
+  for (const slice of slices) {
+    const nodeName = slice.spec.nodeName ?? '';
+    const rows = byNode.get(nodeName) ?? [];
+    for (const device of getResourceSliceDevices(slice)) {
+      rows.push({
+        slice,
+        device,
+        claimedBy: holders.get(`${slice.spec.pool.name}/${device.name}`) ?? [],
+      });
+    }
+    byNode.set(nodeName, rows);
+  }
+  return [...byNode.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+interface ClaimRow {
+  claim: ResourceClaim;
+  pod: IntelGpuPod | null;
+}
+
+function buildClaimRows(claims: ResourceClaim[], pods: IntelGpuPod[]): ClaimRow[] {
+  const rows: ClaimRow[] = [];
+  const used = new Set<ResourceClaim>();
+  for (const pod of pods) {
+    for (const claim of getPodIntelGpuClaims(pod, claims)) {
+      rows.push({ claim, pod });
+      used.add(claim);
+    }
+  }
+  for (const claim of claims) {
+    if (!used.has(claim)) rows.push({ claim, pod: null });
+  }
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+
+export default function DraPage() {
+  const {
+    resourceSlices,
+    deviceClasses,
+    resourceClaims,
+    draAvailable,
+    gpuPods,
+    loading,
+    error,
+    watchStatus,
+    refresh,
+    autoRefresh,
+  } = useIntelGpuContext();
+
+  if (loading) {
+    return <Loader title="Loading DRA data..." />;
+  }
+
+  const sliceGroups = buildSliceDeviceRows(resourceSlices, resourceClaims);
+  const claimRows = buildClaimRows(resourceClaims, gpuPods);
+
+  return (
+    <>
+      <PageToolbar
+        title="Intel GPU — Dynamic Resource Allocation"
+        onRefresh={refresh}
+        onAutoRefresh={autoRefresh}
+        refreshLabel="Refresh DRA data"
+        watchStatus={watchStatus}
+      />
+
+      {error && (
+        <SectionBox title="Error">
+          <NameValueTable
+            rows={[{ name: 'Status', value: <StatusLabel status="error">{error}</StatusLabel> }]}
+          />
+        </SectionBox>
+      )}
+
+      {!draAvailable && (
+        <SectionBox title="DRA Not Available">
+          <NameValueTable
+            rows={[
+              {
+                name: 'Status',
+                value: (
+                  <StatusLabel status="warning">
+                    The resource.k8s.io API is not served by this cluster
+                  </StatusLabel>
+                ),
+              },
+              {
+                name: 'Note',
+                value:
+                  'Dynamic Resource Allocation requires Kubernetes 1.32+ with the DRA feature ' +
+                  'enabled. GPUs exposed as gpu.intel.com extended resources are shown on the ' +
+                  'Nodes and Pods pages.',
+              },
+            ]}
+          />
+        </SectionBox>
+      )}
+
+      {draAvailable && resourceSlices.length === 0 && (
+        <SectionBox title="No Intel GPU Devices Published">
+          <NameValueTable
+            rows={[
+              {
+                name: 'Status',
+                value: (
+                  <StatusLabel status="warning">
+                    {`No ResourceSlices from the ${INTEL_GPU_DRA_DRIVER} DRA driver`}
+                  </StatusLabel>
+                ),
+              },
+              {
+                name: 'Install',
+                value: 'Deploy the Intel GPU resource driver to publish GPUs through DRA',
+              },
+            ]}
+          />
+        </SectionBox>
+      )}
+
+      {deviceClasses.length > 0 && (
+        <SectionBox title="Device Classes">
+          <SimpleTable
+            columns={[
+              { label: 'Name', getter: c => c.metadata.name },
+              {
+                label: 'Selectors',
+                getter: c =>
+                  (c.spec?.selectors ?? [])
+                    .map(s => s.cel?.expression)
+                    .filter(Boolean)
+                    .join('; ') || '—',
+              },
+              { label: 'Age', getter: c => formatAge(c.metadata.creationTimestamp) },
+            ]}
+            data={deviceClasses}
+          />
+        </SectionBox>
+      )}
+
+      {sliceGroups.map(([nodeName, rows]) => (
+        <SectionBox
+          key={nodeName || 'cluster-wide'}
+          title={nodeName ? `Node: ${nodeName}` : 'Cluster-wide Devices'}
+        >
+          <SimpleTable
+            columns={[
+              { label: 'Device', getter: r => formatDraDevice(r.device) },
+              { label: 'Pool', getter: r => r.slice.spec.pool.name },
+              { label: 'Slice', getter: r => r.slice.metadata.name },
+              {
+                label: 'Claimed By',
+                getter: r =>
+                  r.claimedBy.length > 0 ? (
+                    <StatusLabel status="success">{r.claimedBy.join(', ')}</StatusLabel>
+                  ) : (
+                    'Free'
+                  ),
+              },
+            ]}
+            data={rows}
+          />
+        </SectionBox>
+      ))}
+
+      {claimRows.length > 0 && (
+        <SectionBox title="Resource Claims">
+          <SimpleTable
+            columns={[
+              {
+                label: 'Pod',
+                getter: r => (r.pod ? r.pod.metadata.name : '—'),
+              },
+              { label: 'Namespace', getter: r => r.claim.metadata.namespace ?? 'default' },
+              { label: 'Claim', getter: r => r.claim.metadata.name },
+              {
+                label: 'Device Class',
+                getter: r => getClaimDeviceClassNames(r.claim).join(', ') || '—',
+              },
+              {
+                label: 'Status',
+                getter: r =>
+                  isResourceClaimAllocated(r.claim) ? (
+                    <StatusLabel status="success">Allocated</StatusLabel>
+                  ) : (
+                    <StatusLabel status="warning">Pending</StatusLabel>
+                  ),
+              },
+              {
+                label: 'Devices',
+                getter: r =>
+                  getClaimIntelGpuResults(r.claim)
+                    .map(res => `${res.pool}/${res.device}`)
+                    .join(', ') || '—',
+              },
+              { label: 'Age', getter: r => formatAge(r.claim.metadata.creationTimestamp) },
+            ]}
+            data={claimRows}
+          />
+        </SectionBox>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,153 @@
+/**
+ * GpuAllocationBars — compact used/allocatable bars for Intel GPU resources.
+ *
+ * Renders one bar per allocation category (devices, millicores, memory) so
+ * shared-GPU clusters see millicore and memory pressure next to device counts,
+ * plus a per-pod breakdown of who holds what.
+ */
+
+import { LightTooltip } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
+import React from 'react';
+import {
+  formatGpuAllocationCategory,
+  formatGpuAllocationValue,
+  formatGpuResourceName,
+  getGpuAllocationCategory,
+  GPU_ALLOCATION_CATEGORIES,
+  GpuAllocationCategory,
+  GpuAllocationHolder,
+  GpuResourceAllocation,
+} from '../api/k8s';
+import { UsageThresholds, useUsageThresholds } from '../api/settings';
+
+// ---------------------------------------------------------------------------
+// Single bar
+// ---------------------------------------------------------------------------
+
+/** Bar colour for a usage percentage under the configured thresholds */
+export function getUsageColor(pct: number, thresholds: UsageThresholds): string {
+  if (pct >= thresholds.critical) return '#d32f2f';
+  if (pct >= thresholds.warning) return '#f57c00';
+  return '#0071c5';
+}
+
+export function GpuAllocationBar({
+  used,
+  allocatable,
+  format = String,
+}: {
+  used: number;
+  allocatable: number;
+  format?: (value: number) => string;
+}) {
+  const thresholds = useUsageThresholds();
+  if (allocatable === 0) return <span>—</span>;
+  const pct = Math.min(100, Math.round((used / allocatable) * 100));
+  const color = getUsageColor(pct, thresholds);
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+      <div
+        style={{
+          width: '80px',
+          height: '8px',
+          backgroundColor: '#e0e0e0',
+          borderRadius: '4px',
+          overflow: 'hidden',
+        }}
+      >
+        <div
+          style={{
+            width: `${pct}%`,
+            height: '100%',
+            backgroundColor: color,
+            borderRadius: '4px',
+          }}
+        />
+      </div>
+      <span style={{ fontSize: '12px' }}>{`${format(used)}/${format(allocatable)} (${pct}%)`}</span>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// One bar per category
+// ---------------------------------------------------------------------------
+
+export function GpuAllocationBars({
+  summary,
+}: {
+  summary: Partial<Record<GpuAllocationCategory, GpuResourceAllocation>>;
+}) {
+  const categories = GPU_ALLOCATION_CATEGORIES.filter(c => summary[c]);
+  if (categories.length === 0) return <span>—</span>;
+
+  return (
+    <>
+      {categories.map(category => {
+        const entry = summary[category]!;
+        return (
+          <div
+            key={category}
+            style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '2px' }}
+          >
+            <span style={{ fontSize: '12px', minWidth: '100px' }}>
+              {formatGpuAllocationCategory(category)}
+            </span>
+            <GpuAllocationBar
+              used={entry.used}
+              allocatable={entry.allocatable}
+              format={v => formatGpuAllocationValue(category, v)}
+            />
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Per-pod breakdown
+// ---------------------------------------------------------------------------
+
+function formatHolderRequests(requests: Record<string, number>): string {
+  return Object.entries(requests)
+    .map(([key, value]) => {
+      const category = getGpuAllocationCategory(key);
+      const amount = category ? formatGpuAllocationValue(category, value) : String(value);
+      return `${formatGpuResourceName(key)}: ${amount}`;
+    })
+    .join(', ');
+}
+
+export function GpuAllocationBreakdown({ holders }: { holders: GpuAllocationHolder[] }) {
+  if (holders.length === 0) return <span>No pods hold GPU resources on this node</span>;
+
+  return (
+    <div style={{ fontSize: '12px' }}>
+      {holders.map(({ pod, requests }) => (
+        <div key={pod.metadata.uid ?? `${pod.metadata.namespace}/${pod.metadata.name}`}>
+          <strong>{`${pod.metadata.namespace ?? 'default'}/${pod.metadata.name}`}</strong>
+          {` (${pod.status?.phase ?? 'Unknown'}) — ${formatHolderRequests(requests)}`}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Allocation bars with a hover tooltip listing which pod holds how much */
+export function GpuAllocationBarsWithBreakdown({
+  summary,
+  holders,
+}: {
+  summary: Partial<Record<GpuAllocationCategory, GpuResourceAllocation>>;
+  holders: GpuAllocationHolder[];
+}) {
+  return (
+    <LightTooltip title={<GpuAllocationBreakdown holders={holders} />}>
+      <div>
+        <GpuAllocationBars summary={summary} />
+      </div>
+    </LightTooltip>
+  );
+}
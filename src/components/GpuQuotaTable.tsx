@@ -0,0 +1,93 @@
+/**
+ * GpuQuotaTable — GPU ResourceQuota hard/used, live GPU pod requests and
+ * headroom, one row per namespace and GPU resource.
+ *
+ * Shared by the Namespaces page and the Namespace detail section. Resources
+ * that pods request without any quota are listed too, with no limit.
+ */
+
+import { SimpleTable, StatusLabel } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
+import React from 'react';
+import {
+  formatGpuResourceAmount,
+  formatGpuResourceName,
+  GpuQuotaUsage,
+  NamespaceGpuQuota,
+} from '../api/k8s';
+import { useUsageThresholds } from '../api/settings';
+import { GpuAllocationBar } from './GpuAllocationBars';
+
+export interface GpuQuotaRow {
+  namespace: string;
+  resource: string;
+  /** Null when pods request the resource without a quota limiting it */
+  quota: GpuQuotaUsage | null;
+  /** Summed requests of the namespace's live GPU pods */
+  requested: number;
+}
+
+/** Rows for the namespaces' quota-limited and requested GPU resources */
+export function getGpuQuotaRows(namespaces: NamespaceGpuQuota[]): GpuQuotaRow[] {
+  return namespaces.flatMap(ns => {
+    const resources = new Set([...ns.quotas.map(q => q.resource), ...Object.keys(ns.requests)]);
+    return [...resources].sort().map(resource => ({
+      namespace: ns.namespace,
+      resource,
+      quota: ns.quotas.find(q => q.resource === resource) ?? null,
+      requested: ns.requests[resource] ?? 0,
+    }));
+  });
+}
+
+/** True when some GPU resource in the namespace has no headroom left */
+export function isAtGpuQuota(ns: NamespaceGpuQuota): boolean {
+  return ns.quotas.some(q => q.headroom === 0);
+}
+
+function Headroom({ quota }: { quota: GpuQuotaUsage }) {
+  const thresholds = useUsageThresholds();
+  const text = formatGpuResourceAmount(quota.resource, quota.headroom);
+  if (quota.headroom === 0) return <StatusLabel status="error">{text}</StatusLabel>;
+  const pct = quota.hard > 0 ? (quota.used / quota.hard) * 100 : 0;
+  if (pct >= thresholds.warning) return <StatusLabel status="warning">{text}</StatusLabel>;
+  return <>{text}</>;
+}
+
+export function GpuQuotaTable({
+  rows,
+  showNamespace = true,
+}: {
+  rows: GpuQuotaRow[];
+  showNamespace?: boolean;
+}) {
+  const format = (row: GpuQuotaRow) => (value: number) =>
+    formatGpuResourceAmount(row.resource, value);
+
+  return (
+    <SimpleTable
+      columns={[
+        ...(showNamespace ? [{ label: 'Namespace', getter: (r: GpuQuotaRow) => r.namespace }] : []),
+        { label: 'Resource', getter: (r: GpuQuotaRow) => formatGpuResourceName(r.resource) },
+        { label: 'Quota', getter: (r: GpuQuotaRow) => r.quota?.quotaName ?? '—' },
+        {
+          label: 'Used / Hard',
+          getter: (r: GpuQuotaRow) =>
+            r.quota ? (
+              <GpuAllocationBar used={r.quota.used} allocatable={r.quota.hard} format={format(r)} />
+            ) : (
+              'No quota'
+            ),
+        },
+        {
+          label: 'Pod Requests',
+          getter: (r: GpuQuotaRow) => formatGpuResourceAmount(r.resource, r.requested),
+        },
+        {
+          label: 'Headroom',
+          getter: (r: GpuQuotaRow) => (r.quota ? <Headroom quota={r.quota} /> : '—'),
+        },
+      ]}
+      data={rows}
+    />
+  );
+}
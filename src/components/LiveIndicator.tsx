@@ -0,0 +1,45 @@
+/**
+ * LiveIndicator — shows whether the watched device plugin data is live.
+ *
+ * Rendered in page headers next to Refresh. "Stale since" appears while a
+ * watch is reconnecting, so users know the data may lag the cluster. Nothing
+ * is shown when no watch is open.
+ */
+
+import { StatusLabel } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
+import React, { useEffect, useState } from 'react';
+import { formatAge } from '../api/k8s';
+import { WatchStatus } from '../api/watch';
+
+const STALE_AGE_TICK_MS = 15_000;
+
+export function LiveIndicator({ status }: { status: WatchStatus }) {
+  // Re-render periodically so the stale age keeps counting up
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    if (status.state !== 'stale') return;
+    const timer = setInterval(() => setTick(t => t + 1), STALE_AGE_TICK_MS);
+    return () => clearInterval(timer);
+  }, [status.state]);
+
+  if (status.state === 'none') return null;
+  if (status.state === 'live') {
+    return (
+      <span title="Device plugin and plugin pod changes are streamed from the cluster">
+        <StatusLabel status="success">Live</StatusLabel>
+      </span>
+    );
+  }
+  if (status.state === 'stale' && status.staleSince) {
+    return (
+      <span
+        title={`Watch connection lost at ${new Date(
+          status.staleSince
+        ).toLocaleTimeString()}; reconnecting`}
+      >
+        <StatusLabel status="warning">{`Stale since ${formatAge(status.staleSince)}`}</StatusLabel>
+      </span>
+    );
+  }
+  return <StatusLabel status="">Connecting…</StatusLabel>;
+}
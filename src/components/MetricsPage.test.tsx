@@ -1,8 +1,21 @@
-import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
 import React from 'react';
 import { describe, expect, it, vi } from 'vitest';
+import { clearGpuMetricsCache, GpuMetricsProvider } from '../api/GpuMetricsContext';
 import { IntelGpuContextValue, useIntelGpuContext } from '../api/IntelGpuDataContext';
-import { fetchGpuMetrics, GpuChipMetrics, GpuMetrics } from '../api/metrics';
+import {
+  attributeGpuEnergy,
+  fetchGpuChipEnergy,
+  fetchGpuIdleStates,
+  fetchGpuMetrics,
+  fetchGpuPowerHistory,
+  findIdleGpuAllocations,
+  GpuDeviceMetrics,
+  GpuMetrics,
+  GpuReadings,
+} from '../api/metrics';
+import { getLastPrometheusDiscovery } from '../api/prometheus';
+import { usePluginSettings } from '../api/settings';
 import MetricsPage from './MetricsPage';
 
 vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
@@ -60,13 +73,69 @@ vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
   PercentageBar: () => <div data-testid="percentage-bar" />,
 }));
 
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  Utils: { getCluster: () => 'test' },
+  ConfigStore: class {
+    get() {
+      return {};
+    }
+    update() {}
+    useConfig() {
+      return () => ({});
+    }
+  },
+}));
+
 vi.mock('../api/IntelGpuDataContext', () => ({
   useIntelGpuContext: vi.fn(),
 }));
 
+vi.mock('../api/prometheus', () => ({
+  getLastPrometheusDiscovery: vi.fn(() => null),
+}));
+
+vi.mock('../api/settings', async importOriginal => ({
+  ...(await importOriginal<typeof import('../api/settings')>()),
+  usePluginSettings: vi.fn(() => ({})),
+}));
+
 vi.mock('../api/metrics', () => ({
   fetchGpuMetrics: vi.fn(),
+  fetchGpuPowerHistory: vi.fn(() => Promise.resolve(null)),
+  fetchGpuChipEnergy: vi.fn(() => Promise.resolve(null)),
+  attributeGpuEnergy: vi.fn(),
+  fetchGpuIdleStates: vi.fn(() => Promise.resolve(null)),
+  findIdleGpuAllocations: vi.fn(() => []),
+  IDLE_LOOKBACK_RANGE: '7d',
+  getRangeSeconds: (range: string) =>
+    ({ '1h': 3600, '6h': 21600, '24h': 86400, '7d': 604800 }[range]),
+  METRICS_RANGES: [
+    { range: '1h', seconds: 3600 },
+    { range: '6h', seconds: 21600 },
+    { range: '24h', seconds: 86400 },
+    { range: '7d', seconds: 604800 },
+  ],
   formatWatts: (w: number) => `${w.toFixed(1)} W`,
+  formatCelsius: (c: number) => `${Math.round(c)} °C`,
+  formatEnergy: (joules: number) => `${(joules / 3600).toFixed(1)} Wh`,
+  GPU_ENGINE_GROUPS: ['compute', 'render', 'media', 'copy'],
+  TEMPERATURE_LABEL_STATUS: { normal: 'success', warning: 'warning', critical: 'error' },
+  getTemperatureStatus: (readings: GpuReadings) =>
+    readings.temperatureCelsius !== null && readings.temperatureCelsius >= 105
+      ? 'critical'
+      : 'normal',
+  getThrottleStatus: (readings: GpuReadings) =>
+    readings.throttleReasons === null
+      ? 'unknown'
+      : readings.throttleReasons.length > 0
+      ? 'throttled'
+      : 'none',
+  getTextfileMetricNames: () => ({
+    frequencyMetric: 'intel_gpu_frequency_mhz',
+    frequencyTypeLabel: 'type',
+    throttleMetric: 'intel_gpu_throttle_reason',
+    throttleReasonLabel: 'reason',
+  }),
   formatPercent: (used: number, max: number) =>
     max <= 0 ? '—' : `${Math.round((used / max) * 100)}%`,
 }));
@@ -79,38 +148,99 @@ function makeContext(overrides: Partial<IntelGpuContextValue> = {}): IntelGpuCon
     gpuPods: [],
     pluginPods: [],
     crdAvailable: false,
+    devicePluginsByKind: {},
+    resourceSlices: [],
+    deviceClasses: [],
+    resourceClaims: [],
+    draAvailable: false,
+    resourceQuotas: [],
+    quotasAvailable: false,
+    gpuTypeMappings: {},
+    watchStatus: { state: 'live', staleSince: null },
     loading: false,
     error: null,
     refresh: vi.fn(),
+    autoRefresh: vi.fn(),
     ...overrides,
   };
 }
 
-function makeMetrics(chips: GpuChipMetrics[]): GpuMetrics {
+function makeMetrics(devices: GpuDeviceMetrics[]): GpuMetrics {
   return {
-    chips,
+    devices,
+    sources: [
+      { id: 'hwmon', label: 'node-exporter hwmon', deviceCount: devices.length, error: null },
+    ],
     fetchedAt: new Date('2025-03-21T10:00:00Z').toISOString(),
   };
 }
 
-const sampleChip: GpuChipMetrics = {
-  nodeName: 'gpu-node-1',
-  chip: '0000:09:01_0',
-  instance: '192.168.1.10:9100',
-  powerWatts: 45.3,
-  powerMaxWatts: 120.0,
+const NO_READINGS: GpuReadings = {
+  powerWatts: null,
+  powerMaxWatts: null,
+  packagePowerWatts: null,
+  temperatureCelsius: null,
+  temperatureMaxCelsius: null,
+  temperatureCritCelsius: null,
+  fanRpm: null,
+  gpuUtilizationPercent: null,
+  engineUtilizationPercent: {},
+  gpuFrequencyMhz: null,
+  gpuFrequencyRequestedMhz: null,
+  gpuFrequencyMinMhz: null,
+  gpuFrequencyMaxMhz: null,
+  gpuFrequencyBoostMhz: null,
+  throttleReasons: null,
+  memoryFrequencyMhz: null,
+  memoryUsedBytes: null,
+  memoryBandwidthPercent: null,
 };
 
+function makeDevice(overrides: Partial<GpuDeviceMetrics> = {}): GpuDeviceMetrics {
+  return {
+    ...NO_READINGS,
+    key: 'gpu-node-1/0000:09:01.0',
+    nodeName: 'gpu-node-1',
+    pciAddress: '0000:09:01.0',
+    sources: ['hwmon'],
+    sourceIds: { hwmon: '0000:09:01_0' },
+    hwmon: { chip: '0000:09:01_0', instance: '192.168.1.10:9100', driver: 'i915' },
+    tiles: [],
+    powerWatts: 45.3,
+    powerMaxWatts: 120.0,
+    temperatureCelsius: 62,
+    temperatureMaxCelsius: 95,
+    temperatureCritCelsius: 105,
+    ...overrides,
+  };
+}
+
+const sampleDevice = makeDevice();
+
+function renderPage() {
+  return render(
+    <GpuMetricsProvider>
+      <MetricsPage />
+    </GpuMetricsProvider>
+  );
+}
+
 describe('MetricsPage', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    clearGpuMetricsCache();
+    vi.mocked(usePluginSettings).mockReturnValue({});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
   });
 
   it('shows loader when ctxLoading=true but heading is visible immediately', () => {
     vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: true }));
     // fetchGpuMetrics should never be called in loading state
     vi.mocked(fetchGpuMetrics).mockResolvedValue(null);
-    render(<MetricsPage />);
+    renderPage();
     // Heading renders immediately, loader appears below it while waiting for context
     expect(screen.getByText('Intel GPU — Metrics')).toBeInTheDocument();
     expect(screen.getByTestId('loader')).toHaveTextContent('Loading Intel GPU data...');
@@ -120,33 +250,66 @@ describe('MetricsPage', () => {
     vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
     vi.mocked(fetchGpuMetrics).mockResolvedValue(null);
 
-    render(<MetricsPage />);
+    renderPage();
 
     await waitFor(() => {
       expect(screen.getByText('Prometheus Unreachable')).toBeInTheDocument();
     });
   });
 
-  it('shows "No i915 Metrics in Prometheus" when fetchGpuMetrics returns empty chips', async () => {
+  it('lists the Prometheus endpoints tried and why each failed', async () => {
+    const candidate = (label: string, source: 'default' | 'discovered') => ({
+      path: `/proxy/${label}`,
+      label,
+      backend: 'prometheus' as const,
+      source,
+    });
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(null);
+    vi.mocked(getLastPrometheusDiscovery).mockReturnValueOnce({
+      endpoint: null,
+      probes: [
+        {
+          candidate: candidate('monitoring/prometheus-operated:9090', 'default'),
+          error: 'Forbidden (403)',
+        },
+        { candidate: candidate('obs/prom:9090', 'discovered'), error: 'Timed out after 5s' },
+      ],
+      serviceListError: null,
+      cached: false,
+      discoveredAt: '2026-10-19T10:00:00Z',
+    });
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('Forbidden (403)')).toBeInTheDocument();
+    });
+    expect(screen.getByText('monitoring/prometheus-operated:9090')).toBeInTheDocument();
+    expect(screen.getByText('Service search')).toBeInTheDocument();
+    expect(screen.getByText('Timed out after 5s')).toHaveAttribute('data-status', 'error');
+  });
+
+  it('shows "No GPU Metrics in Prometheus" when fetchGpuMetrics returns no devices', async () => {
     vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
     vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([]));
 
-    render(<MetricsPage />);
+    renderPage();
 
     await waitFor(() => {
-      expect(screen.getByText('No i915 Metrics in Prometheus')).toBeInTheDocument();
+      expect(screen.getByText('No GPU Metrics in Prometheus')).toBeInTheDocument();
     });
   });
 
-  it('shows chip cards with node name when fetchGpuMetrics returns chips', async () => {
+  it('shows device cards with node name when fetchGpuMetrics returns devices', async () => {
     vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
-    vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([sampleChip]));
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([sampleDevice]));
 
-    render(<MetricsPage />);
+    renderPage();
 
     await waitFor(() => {
-      // GpuChipCard title format: "{nodeName} — {chip}"
-      expect(screen.getByText('gpu-node-1 — 0000:09:01_0')).toBeInTheDocument();
+      // GpuDeviceCard title format: "{nodeName} — {pciAddress}"
+      expect(screen.getByText('gpu-node-1 — 0000:09:01.0')).toBeInTheDocument();
     });
   });
 
@@ -154,17 +317,17 @@ describe('MetricsPage', () => {
     vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
     vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([]));
 
-    render(<MetricsPage />);
+    renderPage();
 
     // The MetricRequirements section box is titled "Metric Availability"
     expect(screen.getByText('Metric Availability')).toBeInTheDocument();
   });
 
-  it('shows GPU Power Summary section when chips are present', async () => {
+  it('shows GPU Power Summary section when devices are present', async () => {
     vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
-    vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([sampleChip]));
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([sampleDevice]));
 
-    render(<MetricsPage />);
+    renderPage();
 
     await waitFor(() => {
       expect(screen.getByText('GPU Power Summary')).toBeInTheDocument();
@@ -175,11 +338,11 @@ describe('MetricsPage', () => {
     vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
     vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([]));
 
-    render(<MetricsPage />);
+    renderPage();
 
-    // Wait for initial fetch to complete
+    // Wait for initial fetch to complete; the button is disabled until then
     await waitFor(() => {
-      expect(vi.mocked(fetchGpuMetrics)).toHaveBeenCalled();
+      expect(screen.getByRole('button', { name: /refresh metrics/i })).toBeEnabled();
     });
 
     const callsBefore = vi.mocked(fetchGpuMetrics).mock.calls.length;
@@ -191,24 +354,286 @@ describe('MetricsPage', () => {
     });
   });
 
+  it('refreshes the cluster data along with the metrics', async () => {
+    const context = makeContext({ loading: false });
+    vi.mocked(useIntelGpuContext).mockReturnValue(context);
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([]));
+
+    renderPage();
+    const button = screen.getByRole('button', { name: /refresh metrics/i });
+    await waitFor(() => expect(button).toBeEnabled());
+
+    fireEvent.click(button);
+    expect(context.refresh).toHaveBeenCalledTimes(1);
+    expect(context.autoRefresh).not.toHaveBeenCalled();
+  });
+
+  it('leaves the energy and idle queries to manual refresh on auto-refresh', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    vi.mocked(usePluginSettings).mockReturnValue({ autoRefreshIntervalMs: 10_000 });
+    const context = makeContext({ loading: false });
+    vi.mocked(useIntelGpuContext).mockReturnValue(context);
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([]));
+
+    renderPage();
+    await waitFor(() => expect(vi.mocked(fetchGpuIdleStates)).toHaveBeenCalledTimes(1));
+    expect(vi.mocked(fetchGpuChipEnergy)).toHaveBeenCalledTimes(1);
+
+    act(() => vi.advanceTimersByTime(10_000));
+    await waitFor(() => expect(vi.mocked(fetchGpuMetrics)).toHaveBeenCalledTimes(2));
+    expect(context.autoRefresh).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(fetchGpuChipEnergy)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(fetchGpuIdleStates)).toHaveBeenCalledTimes(1);
+
+    const button = screen.getByRole('button', { name: /refresh metrics/i });
+    await waitFor(() => expect(button).toBeEnabled());
+    fireEvent.click(button);
+    await waitFor(() => expect(vi.mocked(fetchGpuIdleStates)).toHaveBeenCalledTimes(2));
+    expect(vi.mocked(fetchGpuChipEnergy)).toHaveBeenCalledTimes(2);
+  });
+
   it('shows "Intel GPU — Metrics" heading', async () => {
     vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
     vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([]));
 
-    render(<MetricsPage />);
+    renderPage();
 
     expect(screen.getByText('Intel GPU — Metrics')).toBeInTheDocument();
   });
 
-  it('shows power values for chip cards', async () => {
+  it('shows power values for device cards', async () => {
     vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
-    vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([sampleChip]));
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([sampleDevice]));
 
-    render(<MetricsPage />);
+    renderPage();
 
     await waitFor(() => {
       // formatWatts mock: "45.3 W" and "120.0 W"
       expect(screen.getAllByText(/45\.3 W/).length).toBeGreaterThan(0);
     });
   });
+
+  it('shows temperature, fan speed and over-temperature status', async () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
+    const hotDevice = makeDevice({
+      key: 'gpu-node-2/0000:09:01.0',
+      nodeName: 'gpu-node-2',
+      temperatureCelsius: 106,
+      fanRpm: 2150,
+    });
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([sampleDevice, hotDevice]));
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('2150 RPM')).toBeInTheDocument();
+    });
+    expect(screen.getByText('62 °C')).toHaveAttribute('data-status', 'success');
+    expect(screen.getAllByText('106 °C')[0]).toHaveAttribute('data-status', 'error');
+    expect(screen.getByText('on gpu-node-2 (0000:09:01.0)')).toBeInTheDocument();
+    expect(screen.getByText('1 of 2 GPUs at or above their limit')).toHaveAttribute(
+      'data-status',
+      'error'
+    );
+  });
+
+  it('merges XPU Manager readings into the device card and reports live availability', async () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
+    const readings = {
+      gpuUtilizationPercent: 42,
+      engineUtilizationPercent: { compute: 40, copy: 1 },
+      gpuFrequencyMhz: 1550,
+      memoryUsedBytes: 2147483648,
+      temperatureCelsius: 61,
+    };
+    vi.mocked(fetchGpuMetrics).mockResolvedValue({
+      ...makeMetrics([
+        makeDevice({
+          ...NO_READINGS,
+          ...readings,
+          key: 'gpu-node-2/0000:4d:00.0',
+          nodeName: 'gpu-node-2',
+          pciAddress: '0000:4d:00.0',
+          sources: ['xpum'],
+          sourceIds: { xpum: '0' },
+          hwmon: null,
+          tiles: [{ ...NO_READINGS, ...readings, tileId: '0', gpuUtilizationPercent: 34 }],
+        }),
+      ]),
+      sources: [
+        { id: 'hwmon', label: 'node-exporter hwmon', deviceCount: 0, error: null },
+        { id: 'xpum', label: 'XPU Manager', deviceCount: 1, error: null },
+      ],
+    });
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('gpu-node-2 — 0000:4d:00.0')).toBeInTheDocument();
+    });
+    expect(screen.getByText('XPU Manager: 1 GPU')).toBeInTheDocument();
+    expect(screen.getByText('compute 40% · copy 1%')).toBeInTheDocument();
+    expect(screen.getAllByText('1550 MHz').length).toBe(2);
+    expect(screen.getAllByText('2 GiB').length).toBe(2);
+    expect(screen.getByText('34%')).toBeInTheDocument();
+    // Utilization, frequency, memory and temperature come from XPU Manager; power does not
+    expect(screen.getAllByText('Available — 1 GPU')).toHaveLength(4);
+    expect(screen.getByText('Not available')).toHaveAttribute('data-status', 'error');
+  });
+
+  it('shows frequency limits and throttle reasons from the textfile collector', async () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
+    const throttled = makeDevice({
+      sources: ['hwmon', 'textfile'],
+      gpuFrequencyMhz: 1100,
+      gpuFrequencyRequestedMhz: 2050,
+      gpuFrequencyMinMhz: 300,
+      gpuFrequencyMaxMhz: 2050,
+      gpuFrequencyBoostMhz: 2050,
+      throttleReasons: ['pl1', 'thermal'],
+    });
+    const unthrottled = makeDevice({
+      key: 'gpu-node-2/0000:09:01.0',
+      nodeName: 'gpu-node-2',
+      gpuFrequencyMhz: 2050,
+      throttleReasons: [],
+    });
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([throttled, unthrottled]));
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('Throttled: pl1, thermal')).toHaveAttribute('data-status', 'warning');
+    });
+    expect(
+      screen.getByText('requested 2050 MHz · min 300 MHz · max 2050 MHz · boost 2050 MHz')
+    ).toBeInTheDocument();
+    expect(screen.getByText('Not throttled')).toHaveAttribute('data-status', 'success');
+    expect(screen.getByText('1 of 2 GPUs throttled')).toHaveAttribute('data-status', 'warning');
+  });
+
+  it('shows GPU energy by namespace and pod for the chosen window', async () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([sampleDevice]));
+    const chips = [
+      {
+        nodeName: 'gpu-node-1',
+        instance: '192.168.1.10:9100',
+        chip: '0000:09:01_0',
+        pciAddress: '0000:09:01.0',
+        joules: 72000,
+      },
+    ];
+    vi.mocked(fetchGpuChipEnergy).mockResolvedValue(chips);
+    vi.mocked(attributeGpuEnergy).mockReturnValue({
+      totalJoules: 72000,
+      attributedJoules: 36000,
+      pods: [
+        { namespace: 'ml', name: 'train', nodeName: 'gpu-node-1', joules: 36000, basis: 'gas' },
+      ],
+      namespaces: [{ namespace: 'ml', joules: 36000, podCount: 1 }],
+    });
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('ml/train')).toBeInTheDocument();
+    });
+    expect(attributeGpuEnergy).toHaveBeenCalledWith(chips, [], [], 86_400);
+    expect(screen.getByText('20.0 Wh')).toBeInTheDocument();
+    expect(screen.getByText('10.0 Wh (50%)')).toBeInTheDocument();
+    expect(screen.getByText('GAS card assignment')).toBeInTheDocument();
+    expect(fetchGpuChipEnergy).toHaveBeenLastCalledWith('24h', {});
+
+    fireEvent.change(screen.getByLabelText('Energy window'), { target: { value: '7d' } });
+    await waitFor(() => {
+      expect(fetchGpuChipEnergy).toHaveBeenLastCalledWith('7d', {});
+    });
+  });
+
+  it('lists pods whose allocated GPUs have been idle for the chosen time', async () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([sampleDevice]));
+    const states = [
+      {
+        nodeName: 'gpu-node-1',
+        pciAddress: '0000:09:01.0',
+        basis: 'power' as const,
+        idleSince: 0,
+        idleThroughout: true,
+      },
+    ];
+    vi.mocked(fetchGpuIdleStates).mockResolvedValue(states);
+    vi.mocked(findIdleGpuAllocations).mockReturnValue([
+      {
+        namespace: 'team-a',
+        name: 'notebook-0',
+        owner: 'StatefulSet/notebook',
+        nodeName: 'gpu-node-1',
+        devices: '1',
+        basis: 'power',
+        idleSeconds: 604800,
+        idleAtLeast: true,
+      },
+    ]);
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('notebook-0')).toBeInTheDocument();
+    });
+    expect(fetchGpuIdleStates).toHaveBeenCalledWith(
+      { powerPercent: 20, utilizationPercent: 5 },
+      {}
+    );
+    expect(findIdleGpuAllocations).toHaveBeenLastCalledWith(states, [], [], 3600);
+    expect(screen.getByText('StatefulSet/notebook')).toBeInTheDocument();
+    expect(screen.getByText('≥ 7d')).toHaveAttribute('data-status', 'warning');
+
+    fireEvent.change(screen.getByLabelText('Idle for at least'), { target: { value: '24h' } });
+    expect(findIdleGpuAllocations).toHaveBeenLastCalledWith(states, [], [], 86400);
+  });
+
+  it('charts cluster-total and per-chip power history and re-queries on window change', async () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
+    vi.mocked(fetchGpuMetrics).mockResolvedValue(makeMetrics([sampleDevice]));
+    const points = [
+      { time: 1000, value: 40 },
+      { time: 1015, value: 50 },
+    ];
+    vi.mocked(fetchGpuPowerHistory).mockResolvedValue({
+      range: '1h',
+      step: 15,
+      start: 1000,
+      end: 4600,
+      chips: [
+        {
+          nodeName: 'gpu-node-1',
+          chip: sampleDevice.hwmon!.chip,
+          instance: sampleDevice.hwmon!.instance,
+          points,
+        },
+      ],
+      total: points,
+    });
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(
+        screen.getByRole('img', { name: /Total GPU power: latest 50\.0 W/ })
+      ).toBeInTheDocument();
+    });
+    expect(
+      screen.getByRole('img', {
+        name: /Power on gpu-node-1 0000:09:01\.0: latest 50\.0 W, peak 50\.0 W/,
+      })
+    ).toBeInTheDocument();
+    expect(vi.mocked(fetchGpuPowerHistory)).toHaveBeenLastCalledWith('1h', {});
+
+    fireEvent.change(screen.getByLabelText('Window'), { target: { value: '7d' } });
+    await waitFor(() => {
+      expect(vi.mocked(fetchGpuPowerHistory)).toHaveBeenLastCalledWith('7d', {});
+    });
+  });
 });
@@ -1,25 +1,52 @@
 /**
- * MetricsPage — Intel GPU metrics from Prometheus (node-exporter hwmon).
+ * MetricsPage — Intel GPU metrics from Prometheus.
+ *
+ * Readings come from the metrics sources in api/metrics (node-exporter hwmon,
+ * XPU Manager, a textfile collector and custom PromQL) merged into one card
+ * per GPU; the page only knows the merged GpuDeviceMetrics model.
  *
  * METRIC AVAILABILITY
  * -------------------
  * Power (current W, TDP)
  *   Source:   node_hwmon_energy_joule_total, node_hwmon_power_max_watt
- *   Driver:   i915 hwmon sysfs (/sys/class/drm/card{N}/device/hwmon/)
+ *   Driver:   i915 or xe hwmon sysfs (/sys/class/drm/card{N}/device/hwmon/)
  *   Scraped:  node-exporter hwmon collector (enabled by default)
- *   Nodes:    Discrete GPU nodes only (i915 driver exposes hwmon; iGPU driver does not)
+ *   Nodes:    Discrete GPU nodes only (i915/xe expose hwmon; iGPU driver does not)
+ *   Channels: xe reports card and package power separately; card is the
+ *             primary reading and package is shown alongside it.
  *   No extra config required — works out of the box with kube-prometheus-stack.
+ *   History:  the same rate over a 1h/6h/24h/7d window via query_range, charted
+ *             per chip and as a cluster total.
+ *   Energy:   increase() of the energy counter over the chosen window, split
+ *             between the pods holding each node's GPUs (GAS card assignment,
+ *             else device requests) and summed per namespace for chargeback.
+ *   Idle:     per-step peaks over the last 7d; an allocated GPU is idle while
+ *             its peak power stays under a share of TDP (or XPU Manager
+ *             utilization under a threshold), reported by pod and owner.
+ *
+ * Temperature (current, max, critical °C) and fan speed (RPM)
+ *   Source:   node_hwmon_temp_celsius, node_hwmon_temp_{max,crit}_celsius, node_hwmon_fan_rpm
+ *   Driver:   the same i915/xe hwmon chips as power; fans only on cards with a fan controller
+ *   Status:   warning at the max limit (or 10 °C below critical), critical at the critical limit
  *
- * GPU Frequency (current, boost, min, max MHz)
- *   Source:   DRM sysfs (/sys/class/drm/card{N}/gt_{x}_freq_mhz)
+ * GPU Frequency (actual, requested, min, max, boost MHz) and throttling
+ *   Source:   DRM sysfs (/sys/class/drm/card{N}/gt_{x}_freq_mhz, gt/gt0/throttle_reason_*)
  *   Driver:   i915 kernel driver
- *   Scraped:  NOT available -- node-exporter --collector.drm is AMD-only and does not
- *             read i915 gt_freq sysfs files. Would require a custom exporter or
- *             node-exporter textfile collector sidecar writing these values.
+ *   Scraped:  not by node-exporter -- --collector.drm is AMD-only and does not
+ *             read i915 gt_freq sysfs files. Available through XPU Manager
+ *             (xpum_gpu_frequency_mhz, xpum_memory_frequency_mhz) or a textfile
+ *             collector sidecar writing intel_gpu_frequency_mhz{type="act|cur|min|max|boost"}
+ *             and intel_gpu_throttle_reason{reason="..."}; the names can be
+ *             changed in the plugin settings.
+ *   Status:   throttled while a throttle reason is active or, without reasons,
+ *             while the actual frequency is well below the requested one
  *
- * GPU Utilization (engine busy %)
+ * GPU Utilization (engine busy %), memory used and bandwidth
  *   Source:   Not exposed via hwmon or any standard Prometheus collector for i915.
- *             Would require intel-gpu-top, XPU Manager, or a custom DRM-based exporter.
+ *             Available through XPU Manager's exporter (xpum_gpu_utilization,
+ *             xpum_engine_group_*_utilization, xpum_memory_*), per device and tile.
+ *
+ * The Metric Availability section reports which of these the last fetch found.
  *
  * Integrated GPU (iGPU) nodes
  *   The iGPU driver does not expose hwmon sensors. No Prometheus metrics are
@@ -30,27 +57,75 @@ import {
   Loader,
   NameValueTable,
   SectionBox,
-  SectionHeader,
+  SimpleTable,
   StatusLabel,
 } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
 import React, { useCallback, useEffect, useState } from 'react';
+import {
+  GpuMetricsContextValue,
+  useCachedMetrics,
+  useGpuMetrics,
+  useGpuMetricsContext,
+  useGpuPowerHistory,
+} from '../api/GpuMetricsContext';
 import { useIntelGpuContext } from '../api/IntelGpuDataContext';
+import { formatDuration } from '../api/k8s';
 import {
-  fetchGpuMetrics,
+  attributeGpuEnergy,
+  fetchGpuChipEnergy,
+  fetchGpuIdleStates,
+  findIdleGpuAllocations,
+  formatCelsius,
+  formatEnergy,
   formatPercent,
   formatWatts,
-  GpuChipMetrics,
+  getRangeSeconds,
+  getTemperatureStatus,
+  getTextfileMetricNames,
+  getThrottleStatus,
+  GPU_ENGINE_GROUPS,
+  GpuChipPowerSeries,
+  GpuDeviceMetrics,
+  GpuEnergyAttribution,
+  GpuEnergyBasis,
+  GpuIdleBasis,
   GpuMetrics,
+  GpuNamespaceEnergy,
+  GpuPodEnergy,
+  GpuPowerHistory,
+  GpuReadings,
+  GpuTileMetrics,
+  IDLE_LOOKBACK_RANGE,
+  IdleGpuAllocation,
+  METRICS_RANGES,
+  MetricsRange,
+  TEMPERATURE_LABEL_STATUS,
 } from '../api/metrics';
+import {
+  getLastPrometheusDiscovery,
+  PrometheusBackend,
+  PrometheusCandidateSource,
+  PrometheusDiscovery,
+} from '../api/prometheus';
+import { formatBytes } from '../api/quantity';
+import {
+  getIdleGpuThresholds,
+  TextfileMetricSettings,
+  usePluginSettings,
+  useUsageThresholds,
+} from '../api/settings';
+import { getUsageColor } from './GpuAllocationBars';
+import { PageToolbar } from './PageToolbar';
+import { TimeSeriesChart } from './TimeSeriesChart';
 
 // ---------------------------------------------------------------------------
 // Power bar
 // ---------------------------------------------------------------------------
 
 function PowerBar({ watts, maxWatts }: { watts: number; maxWatts: number | null }) {
+  const thresholds = useUsageThresholds();
   const pct = maxWatts && maxWatts > 0 ? Math.min(100, Math.round((watts / maxWatts) * 100)) : null;
-  const color =
-    pct === null ? '#0071c5' : pct >= 90 ? '#d32f2f' : pct >= 70 ? '#f57c00' : '#0071c5';
+  const color = pct === null ? '#0071c5' : getUsageColor(pct, thresholds);
 
   return (
     <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
@@ -89,40 +164,621 @@ function PowerBar({ watts, maxWatts }: { watts: number; maxWatts: number | null
 }
 
 // ---------------------------------------------------------------------------
-// Per-chip card
+// Temperature
 // ---------------------------------------------------------------------------
 
-function GpuChipCard({ chip }: { chip: GpuChipMetrics }) {
-  const rows: Array<{ name: string; value: React.ReactNode }> = [
-    { name: 'Node', value: chip.nodeName },
-    { name: 'GPU (PCI)', value: chip.chip },
+function TemperatureValue({ readings }: { readings: GpuReadings }) {
+  if (readings.temperatureCelsius === null) return null;
+  const limits = [
+    readings.temperatureMaxCelsius !== null &&
+      `max ${formatCelsius(readings.temperatureMaxCelsius)}`,
+    readings.temperatureCritCelsius !== null &&
+      `crit ${formatCelsius(readings.temperatureCritCelsius)}`,
+  ].filter(Boolean);
+
+  return (
+    <span style={{ fontSize: '13px', fontVariantNumeric: 'tabular-nums' }}>
+      <StatusLabel status={TEMPERATURE_LABEL_STATUS[getTemperatureStatus(readings)]}>
+        {formatCelsius(readings.temperatureCelsius)}
+      </StatusLabel>
+      {limits.length > 0 && (
+        <span style={{ color: '#888', marginLeft: '6px' }}>{limits.join(' · ')}</span>
+      )}
+    </span>
+  );
+}
+
+/** Rows for the power summary: hottest GPU, and a count of GPUs over their limits */
+function temperatureSummaryRows(devices: GpuDeviceMetrics[]) {
+  const withTemp = devices.filter(d => d.temperatureCelsius !== null);
+  if (withTemp.length === 0) return [];
+
+  const hottest = withTemp.reduce((a, b) =>
+    b.temperatureCelsius! > a.temperatureCelsius! ? b : a
+  );
+  const statuses = withTemp.map(getTemperatureStatus);
+  const critical = statuses.filter(st => st === 'critical').length;
+  const hot = statuses.filter(st => st !== 'normal').length;
+
+  return [
     {
-      name: 'Current Power',
+      name: 'Hottest GPU',
+      value: (
+        <span>
+          <TemperatureValue readings={hottest} />
+          <span style={{ fontSize: '13px', marginLeft: '6px' }}>
+            {`on ${hottest.nodeName} (${deviceLabel(hottest)})`}
+          </span>
+        </span>
+      ),
+    },
+    {
+      name: 'Over Temperature',
       value:
-        chip.powerWatts !== null ? (
-          <PowerBar watts={chip.powerWatts} maxWatts={chip.powerMaxWatts} />
+        hot === 0 ? (
+          <StatusLabel status="success">None</StatusLabel>
         ) : (
-          <StatusLabel status="warning">No data — needs ≥5m of scrape history</StatusLabel>
+          <StatusLabel status={critical > 0 ? 'error' : 'warning'}>
+            {`${hot} of ${withTemp.length} GPUs at or above their limit`}
+          </StatusLabel>
         ),
     },
   ];
+}
+
+// ---------------------------------------------------------------------------
+// Frequency and throttling
+// ---------------------------------------------------------------------------
+
+function formatMhz(mhz: number): string {
+  return `${Math.round(mhz)} MHz`;
+}
+
+function hasGpuFrequency(readings: GpuReadings): boolean {
+  return [
+    readings.gpuFrequencyMhz,
+    readings.gpuFrequencyRequestedMhz,
+    readings.gpuFrequencyMinMhz,
+    readings.gpuFrequencyMaxMhz,
+    readings.gpuFrequencyBoostMhz,
+  ].some(mhz => mhz !== null);
+}
+
+/** Actual frequency with the requested frequency and limits beside it */
+function FrequencyValue({ readings }: { readings: GpuReadings }) {
+  const details = [
+    readings.gpuFrequencyRequestedMhz !== null &&
+      `requested ${formatMhz(readings.gpuFrequencyRequestedMhz)}`,
+    readings.gpuFrequencyMinMhz !== null && `min ${formatMhz(readings.gpuFrequencyMinMhz)}`,
+    readings.gpuFrequencyMaxMhz !== null && `max ${formatMhz(readings.gpuFrequencyMaxMhz)}`,
+    readings.gpuFrequencyBoostMhz !== null && `boost ${formatMhz(readings.gpuFrequencyBoostMhz)}`,
+  ].filter(Boolean);
+
+  return (
+    <span style={{ fontSize: '13px', fontVariantNumeric: 'tabular-nums' }}>
+      {orDash(readings.gpuFrequencyMhz, formatMhz)}
+      {details.length > 0 && (
+        <span style={{ color: '#888', marginLeft: '6px' }}>{details.join(' · ')}</span>
+      )}
+    </span>
+  );
+}
+
+/** Throttling label, or null when neither throttle reasons nor a requested frequency are known */
+function ThrottleValue({ readings }: { readings: GpuReadings }) {
+  const status = getThrottleStatus(readings);
+  if (status === 'unknown') return null;
+  if (status === 'none') return <StatusLabel status="success">Not throttled</StatusLabel>;
+  return (
+    <StatusLabel status="warning">
+      {readings.throttleReasons && readings.throttleReasons.length > 0
+        ? `Throttled: ${readings.throttleReasons.join(', ')}`
+        : 'Throttled: below requested frequency'}
+    </StatusLabel>
+  );
+}
+
+/** Row for the power summary: how many GPUs are throttled, when any GPU reports it */
+function throttleSummaryRows(devices: GpuDeviceMetrics[]) {
+  const statuses = devices.map(getThrottleStatus).filter(st => st !== 'unknown');
+  if (statuses.length === 0) return [];
+
+  const throttled = statuses.filter(st => st === 'throttled').length;
+  return [
+    {
+      name: 'Throttled',
+      value:
+        throttled === 0 ? (
+          <StatusLabel status="success">None</StatusLabel>
+        ) : (
+          <StatusLabel status="warning">
+            {`${throttled} of ${statuses.length} GPUs throttled`}
+          </StatusLabel>
+        ),
+    },
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// Per-device card
+// ---------------------------------------------------------------------------
+
+function formatUtilization(percent: number): string {
+  return `${Math.round(percent)}%`;
+}
+
+function orDash<T>(value: T | null, format: (v: T) => string): string {
+  return value === null ? '—' : format(value);
+}
+
+/** The PCI address, or the first source's own ID when no source reported one */
+function deviceLabel(device: GpuDeviceMetrics): string {
+  return device.pciAddress ?? device.sourceIds[device.sources[0]] ?? device.key;
+}
+
+/** Utilization, frequency and memory rows for whatever readings are present */
+function activityRows(readings: GpuReadings) {
+  const rows: Array<{ name: string; value: React.ReactNode }> = [];
+  const engines = GPU_ENGINE_GROUPS.filter(g => readings.engineUtilizationPercent[g] !== undefined);
+
+  if (readings.gpuUtilizationPercent !== null) {
+    rows.push({
+      name: 'GPU Utilization',
+      value: formatUtilization(readings.gpuUtilizationPercent),
+    });
+  }
+  if (engines.length > 0) {
+    rows.push({
+      name: 'Engine Utilization',
+      value: engines
+        .map(g => `${g} ${formatUtilization(readings.engineUtilizationPercent[g]!)}`)
+        .join(' · '),
+    });
+  }
+  if (hasGpuFrequency(readings)) {
+    rows.push({ name: 'GPU Frequency', value: <FrequencyValue readings={readings} /> });
+  }
+  if (getThrottleStatus(readings) !== 'unknown') {
+    rows.push({ name: 'Throttling', value: <ThrottleValue readings={readings} /> });
+  }
+  if (readings.memoryFrequencyMhz !== null) {
+    rows.push({ name: 'Memory Frequency', value: formatMhz(readings.memoryFrequencyMhz) });
+  }
+  if (readings.memoryUsedBytes !== null) {
+    rows.push({ name: 'Memory Used', value: formatBytes(readings.memoryUsedBytes) });
+  }
+  if (readings.memoryBandwidthPercent !== null) {
+    rows.push({
+      name: 'Memory Bandwidth',
+      value: formatUtilization(readings.memoryBandwidthPercent),
+    });
+  }
+  return rows;
+}
+
+function TileTable({ tiles }: { tiles: GpuTileMetrics[] }) {
+  return (
+    <SimpleTable
+      columns={[
+        { label: 'Tile', getter: (t: GpuTileMetrics) => t.tileId },
+        {
+          label: 'Utilization',
+          getter: (t: GpuTileMetrics) => orDash(t.gpuUtilizationPercent, formatUtilization),
+        },
+        {
+          label: 'Frequency',
+          getter: (t: GpuTileMetrics) => orDash(t.gpuFrequencyMhz, formatMhz),
+        },
+        {
+          label: 'Memory Used',
+          getter: (t: GpuTileMetrics) => orDash(t.memoryUsedBytes, formatBytes),
+        },
+        {
+          label: 'Temperature',
+          getter: (t: GpuTileMetrics) => orDash(t.temperatureCelsius, formatCelsius),
+        },
+      ]}
+      data={tiles}
+    />
+  );
+}
+
+function GpuDeviceCard({
+  device,
+  sourceLabels,
+  history,
+}: {
+  device: GpuDeviceMetrics;
+  sourceLabels: Map<string, string>;
+  history: { series: GpuChipPowerSeries | undefined; start: number; end: number } | null;
+}) {
+  const rows: Array<{ name: string; value: React.ReactNode }> = [
+    { name: 'Node', value: device.nodeName },
+    { name: 'GPU (PCI)', value: deviceLabel(device) },
+  ];
+
+  if (device.hwmon) {
+    rows.push({ name: 'Driver', value: device.hwmon.driver });
+  }
+
+  rows.push({
+    name: 'Sources',
+    value: device.sources.map(id => sourceLabels.get(id) ?? id).join(', '),
+  });
+
+  if (device.powerWatts !== null) {
+    rows.push({
+      name: 'Current Power',
+      value: <PowerBar watts={device.powerWatts} maxWatts={device.powerMaxWatts} />,
+    });
+  } else if (device.hwmon) {
+    rows.push({
+      name: 'Current Power',
+      value: <StatusLabel status="warning">No data — needs ≥5m of scrape history</StatusLabel>,
+    });
+  }
+
+  if (device.packagePowerWatts !== null) {
+    rows.push({ name: 'Package Power', value: formatWatts(device.packagePowerWatts) });
+  }
+
+  if (device.powerMaxWatts !== null && device.powerMaxWatts > 0) {
+    rows.push({ name: 'TDP', value: formatWatts(device.powerMaxWatts) });
+  }
+
+  if (device.temperatureCelsius !== null) {
+    rows.push({ name: 'Temperature', value: <TemperatureValue readings={device} /> });
+  }
+
+  if (device.fanRpm !== null) {
+    rows.push({ name: 'Fan', value: `${Math.round(device.fanRpm)} RPM` });
+  }
+
+  rows.push(...activityRows(device));
 
-  if (chip.powerMaxWatts !== null && chip.powerMaxWatts > 0) {
-    rows.push({ name: 'TDP', value: formatWatts(chip.powerMaxWatts) });
+  if (device.tiles.length > 0) {
+    rows.push({ name: 'Tiles', value: <TileTable tiles={device.tiles} /> });
+  }
+
+  if (history) {
+    rows.push({
+      name: 'Power History',
+      value: (
+        <TimeSeriesChart
+          points={history.series?.points ?? []}
+          start={history.start}
+          end={history.end}
+          formatValue={formatWatts}
+          label={`Power on ${device.nodeName} ${deviceLabel(device)}`}
+          referenceValue={device.powerMaxWatts}
+        />
+      ),
+    });
   }
 
   return (
-    <SectionBox title={`${chip.nodeName} — ${chip.chip}`}>
+    <SectionBox title={`${device.nodeName} — ${deviceLabel(device)}`}>
       <NameValueTable rows={rows} />
     </SectionBox>
   );
 }
 
+// ---------------------------------------------------------------------------
+// Power history
+// ---------------------------------------------------------------------------
+
+function PowerHistorySection({
+  range,
+  onRangeChange,
+  history,
+  loading,
+  maxTotalWatts,
+}: {
+  range: MetricsRange;
+  onRangeChange: (range: MetricsRange) => void;
+  history: GpuPowerHistory | null;
+  loading: boolean;
+  maxTotalWatts: number | null;
+}) {
+  return (
+    <SectionBox title="Power History">
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+        <label htmlFor="intel-gpu-metrics-range" style={{ fontSize: '13px' }}>
+          Window
+        </label>
+        <select
+          id="intel-gpu-metrics-range"
+          value={range}
+          onChange={e => onRangeChange(e.target.value as MetricsRange)}
+          style={{ fontSize: '13px', padding: '4px 8px' }}
+        >
+          {METRICS_RANGES.map(r => (
+            <option key={r.range} value={r.range}>
+              {r.range}
+            </option>
+          ))}
+        </select>
+        {history && (
+          <span style={{ fontSize: '12px', color: '#666' }}>{`Step ${history.step}s`}</span>
+        )}
+      </div>
+      {history ? (
+        <NameValueTable
+          rows={[
+            {
+              name: 'Cluster Total',
+              value: (
+                <TimeSeriesChart
+                  points={history.total}
+                  start={history.start}
+                  end={history.end}
+                  formatValue={formatWatts}
+                  label="Total GPU power"
+                  referenceValue={maxTotalWatts}
+                />
+              ),
+            },
+          ]}
+        />
+      ) : (
+        <span style={{ fontSize: '13px', color: '#666' }}>
+          {loading ? 'Querying power history…' : 'Power history is not available.'}
+        </span>
+      )}
+    </SectionBox>
+  );
+}
+
+/** A GPU's series from the history, matched on its hwmon instance and chip */
+function deviceHistory(history: GpuPowerHistory | null, device: GpuDeviceMetrics) {
+  const hwmon = device.hwmon;
+  if (!history || !hwmon) return null;
+  return {
+    series: history.chips.find(c => c.instance === hwmon.instance && c.chip === hwmon.chip),
+    start: history.start,
+    end: history.end,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Energy attribution
+// ---------------------------------------------------------------------------
+
+const ENERGY_BASIS_LABELS: Record<GpuEnergyBasis, string> = {
+  gas: 'GAS card assignment',
+  devices: 'Device requests',
+};
+
+function EnergyAttributionSection({
+  range,
+  onRangeChange,
+  attribution,
+  loading,
+}: {
+  range: MetricsRange;
+  onRangeChange: (range: MetricsRange) => void;
+  attribution: GpuEnergyAttribution | null;
+  loading: boolean;
+}) {
+  return (
+    <SectionBox title="GPU Energy by Namespace / Pod">
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+        <label htmlFor="intel-gpu-energy-range" style={{ fontSize: '13px' }}>
+          Energy window
+        </label>
+        <select
+          id="intel-gpu-energy-range"
+          value={range}
+          onChange={e => onRangeChange(e.target.value as MetricsRange)}
+          style={{ fontSize: '13px', padding: '4px 8px' }}
+        >
+          {METRICS_RANGES.map(r => (
+            <option key={r.range} value={r.range}>
+              {r.range}
+            </option>
+          ))}
+        </select>
+        <span style={{ fontSize: '12px', color: '#666' }}>
+          Attributed to the pods holding GPUs now, by GAS card assignment or device requests; pods
+          created during the window are charged only for the time since
+        </span>
+      </div>
+      {!attribution ? (
+        <span style={{ fontSize: '13px', color: '#666' }}>
+          {loading ? 'Querying GPU energy…' : 'GPU energy is not available.'}
+        </span>
+      ) : (
+        <>
+          <NameValueTable
+            rows={[
+              { name: 'Total GPU Energy', value: formatEnergy(attribution.totalJoules) },
+              {
+                name: 'Attributed to Current Holders',
+                value: `${formatEnergy(attribution.attributedJoules)} (${formatPercent(
+                  attribution.attributedJoules,
+                  attribution.totalJoules
+                )})`,
+              },
+            ]}
+          />
+          {attribution.pods.length === 0 ? (
+            <span style={{ fontSize: '13px', color: '#666' }}>
+              No pods hold GPUs on nodes that reported energy in this window.
+            </span>
+          ) : (
+            <>
+              <SimpleTable
+                columns={[
+                  { label: 'Namespace', getter: (n: GpuNamespaceEnergy) => n.namespace },
+                  { label: 'Pods', getter: (n: GpuNamespaceEnergy) => String(n.podCount) },
+                  { label: 'Energy', getter: (n: GpuNamespaceEnergy) => formatEnergy(n.joules) },
+                  {
+                    label: 'Share',
+                    getter: (n: GpuNamespaceEnergy) =>
+                      formatPercent(n.joules, attribution.totalJoules),
+                  },
+                ]}
+                data={attribution.namespaces}
+              />
+              <SimpleTable
+                columns={[
+                  { label: 'Pod', getter: (p: GpuPodEnergy) => `${p.namespace}/${p.name}` },
+                  { label: 'Node', getter: (p: GpuPodEnergy) => p.nodeName },
+                  { label: 'Split By', getter: (p: GpuPodEnergy) => ENERGY_BASIS_LABELS[p.basis] },
+                  { label: 'Energy', getter: (p: GpuPodEnergy) => formatEnergy(p.joules) },
+                ]}
+                data={attribution.pods}
+              />
+            </>
+          )}
+        </>
+      )}
+    </SectionBox>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Idle allocated GPUs
+// ---------------------------------------------------------------------------
+
+const IDLE_BASIS_LABELS: Record<GpuIdleBasis, string> = {
+  utilization: 'Utilization',
+  power: 'Power',
+};
+
+function formatIdleTime(allocation: IdleGpuAllocation): string {
+  const duration = formatDuration(allocation.idleSeconds);
+  return allocation.idleAtLeast ? `≥ ${duration}` : duration;
+}
+
+function IdleAllocationsSection({
+  range,
+  onRangeChange,
+  allocations,
+  loading,
+}: {
+  range: MetricsRange;
+  onRangeChange: (range: MetricsRange) => void;
+  /** Null when GPU activity could not be fetched */
+  allocations: IdleGpuAllocation[] | null;
+  loading: boolean;
+}) {
+  return (
+    <SectionBox title="Idle Allocated GPUs">
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+        <label htmlFor="intel-gpu-idle-range" style={{ fontSize: '13px' }}>
+          Idle for at least
+        </label>
+        <select
+          id="intel-gpu-idle-range"
+          value={range}
+          onChange={e => onRangeChange(e.target.value as MetricsRange)}
+          style={{ fontSize: '13px', padding: '4px 8px' }}
+        >
+          {METRICS_RANGES.map(r => (
+            <option key={r.range} value={r.range}>
+              {r.range}
+            </option>
+          ))}
+        </select>
+        <span style={{ fontSize: '12px', color: '#666' }}>
+          {`Looks back ${IDLE_LOOKBACK_RANGE}; idle levels are set in the plugin settings`}
+        </span>
+      </div>
+      {!allocations ? (
+        <span style={{ fontSize: '13px', color: '#666' }}>
+          {loading ? 'Querying GPU activity…' : 'GPU activity is not available.'}
+        </span>
+      ) : allocations.length === 0 ? (
+        <StatusLabel status="success">{`No allocated GPU has been idle for ${range}`}</StatusLabel>
+      ) : (
+        <SimpleTable
+          columns={[
+            { label: 'Pod', getter: (a: IdleGpuAllocation) => a.name },
+            { label: 'Namespace', getter: (a: IdleGpuAllocation) => a.namespace },
+            { label: 'Owner', getter: (a: IdleGpuAllocation) => a.owner ?? '—' },
+            { label: 'Node', getter: (a: IdleGpuAllocation) => a.nodeName },
+            { label: 'GPUs', getter: (a: IdleGpuAllocation) => a.devices },
+            {
+              label: 'Idle For',
+              getter: (a: IdleGpuAllocation) => (
+                <StatusLabel status="warning">{formatIdleTime(a)}</StatusLabel>
+              ),
+            },
+            { label: 'Based On', getter: (a: IdleGpuAllocation) => IDLE_BASIS_LABELS[a.basis] },
+          ]}
+          data={allocations}
+        />
+      )}
+    </SectionBox>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Requirements info box
 // ---------------------------------------------------------------------------
 
-function MetricRequirements() {
+type Availability = { status: 'success' | 'error' | ''; label: string };
+
+/** Live availability of one metric from the last fetch: how many GPUs reported it */
+function getAvailability(metrics: GpuMetrics | null, reporting: number): Availability {
+  if (!metrics) return { status: '', label: 'Unknown — Prometheus has not answered' };
+  if (reporting === 0) return { status: 'error', label: 'Not available' };
+  return { status: 'success', label: `Available — ${reporting} GPU${reporting === 1 ? '' : 's'}` };
+}
+
+function AvailabilityValue({
+  availability,
+  children,
+}: {
+  availability: Availability;
+  children: React.ReactNode;
+}) {
+  return (
+    <>
+      <StatusLabel status={availability.status}>{availability.label}</StatusLabel>
+      <div style={{ marginTop: '4px', fontSize: '12px', color: '#666' }}>{children}</div>
+    </>
+  );
+}
+
+/** GPUs with a reading on the device or any of its tiles */
+function countReporting(
+  metrics: GpuMetrics | null,
+  has: (readings: GpuReadings) => boolean
+): number {
+  return (metrics?.devices ?? []).filter(d => has(d) || d.tiles.some(has)).length;
+}
+
+function MetricRequirements({
+  metrics,
+  textfileMetrics,
+}: {
+  metrics: GpuMetrics | null;
+  textfileMetrics: TextfileMetricSettings;
+}) {
+  const textfileNames = getTextfileMetricNames(textfileMetrics);
+  const power = getAvailability(
+    metrics,
+    countReporting(metrics, r => r.powerWatts !== null)
+  );
+  const temperature = getAvailability(
+    metrics,
+    countReporting(metrics, r => r.temperatureCelsius !== null)
+  );
+  const frequency = getAvailability(metrics, countReporting(metrics, hasGpuFrequency));
+  const utilization = getAvailability(
+    metrics,
+    countReporting(
+      metrics,
+      r => r.gpuUtilizationPercent !== null || Object.keys(r.engineUtilizationPercent).length > 0
+    )
+  );
+  const memory = getAvailability(
+    metrics,
+    countReporting(metrics, r => r.memoryUsedBytes !== null)
+  );
+
   return (
     <SectionBox title="Metric Availability">
       <NameValueTable
@@ -130,40 +786,53 @@ function MetricRequirements() {
           {
             name: 'Power (W)',
             value: (
-              <>
-                <StatusLabel status="success">Available — discrete GPU nodes</StatusLabel>
-                <div style={{ marginTop: '4px', fontSize: '12px', color: '#666' }}>
-                  Source: <code>node_hwmon_energy_joule_total</code> via node-exporter hwmon
-                  collector (enabled by default). Requires the i915 kernel driver on the node. iGPU
-                  nodes do not expose hwmon sensors.
-                </div>
-              </>
+              <AvailabilityValue availability={power}>
+                Source: <code>node_hwmon_energy_joule_total</code> via node-exporter hwmon collector
+                (enabled by default). Requires the i915 or xe kernel driver on the node. iGPU nodes
+                do not expose hwmon sensors.
+              </AvailabilityValue>
+            ),
+          },
+          {
+            name: 'Temperature (°C)',
+            value: (
+              <AvailabilityValue availability={temperature}>
+                Source: <code>node_hwmon_temp_celsius</code> on the same hwmon chips, or{' '}
+                <code>xpum_temperature_celsius</code> from XPU Manager.
+              </AvailabilityValue>
             ),
           },
           {
             name: 'Frequency (MHz)',
             value: (
-              <>
-                <StatusLabel status="error">Not available</StatusLabel>
-                <div style={{ marginTop: '4px', fontSize: '12px', color: '#666' }}>
-                  i915 exposes <code>gt_*_freq_mhz</code> via DRM sysfs but node-exporter&apos;s{' '}
-                  <code>--collector.drm</code> flag is AMD-only and does not read these files. A
-                  custom exporter or textfile-collector sidecar writing these values would be
-                  required.
-                </div>
-              </>
+              <AvailabilityValue availability={frequency}>
+                Source: <code>xpum_gpu_frequency_mhz</code> and{' '}
+                <code>xpum_memory_frequency_mhz</code> from the XPU Manager (xpumd) exporter, or{' '}
+                <code>{`${textfileNames.frequencyMetric}{${textfileNames.frequencyTypeLabel}="act|cur|min|max|boost"}`}</code>{' '}
+                and{' '}
+                <code>{`${textfileNames.throttleMetric}{${textfileNames.throttleReasonLabel}="..."}`}</code>{' '}
+                from a textfile collector. node-exporter&apos;s <code>--collector.drm</code> is
+                AMD-only and does not read i915 <code>gt_*_freq_mhz</code> files.
+              </AvailabilityValue>
             ),
           },
           {
             name: 'Utilization (%)',
             value: (
-              <>
-                <StatusLabel status="error">Not available</StatusLabel>
-                <div style={{ marginTop: '4px', fontSize: '12px', color: '#666' }}>
-                  No standard Prometheus collector exposes i915 engine busy percentage. Would
-                  require intel-gpu-top, XPU Manager, or a custom DRM-based exporter.
-                </div>
-              </>
+              <AvailabilityValue availability={utilization}>
+                Source: <code>xpum_gpu_utilization</code> and{' '}
+                <code>xpum_engine_group_*_utilization</code> from the XPU Manager exporter. No
+                standard Prometheus collector exposes i915 engine busy percentage.
+              </AvailabilityValue>
+            ),
+          },
+          {
+            name: 'Memory',
+            value: (
+              <AvailabilityValue availability={memory}>
+                Source: <code>xpum_memory_used_bytes</code> and <code>xpum_memory_bandwidth</code>{' '}
+                from the XPU Manager exporter.
+              </AvailabilityValue>
             ),
           },
           {
@@ -184,86 +853,188 @@ function MetricRequirements() {
   );
 }
 
+// ---------------------------------------------------------------------------
+// Prometheus discovery
+// ---------------------------------------------------------------------------
+
+const PROMETHEUS_BACKEND_LABELS: Record<PrometheusBackend, string> = {
+  prometheus: 'Prometheus',
+  thanos: 'Thanos Query',
+  victoriametrics: 'VictoriaMetrics',
+};
+
+const CANDIDATE_SOURCE_LABELS: Record<PrometheusCandidateSource, string> = {
+  settings: 'Plugin settings',
+  default: 'Default service',
+  discovered: 'Service search',
+};
+
+/** "monitoring/prometheus-operated:9090 (Prometheus, found by service search)" */
+function endpointSummary(discovery: PrometheusDiscovery | null): string {
+  const endpoint = discovery?.endpoint;
+  if (!endpoint) return '—';
+  const how = discovery.cached ? 'remembered' : CANDIDATE_SOURCE_LABELS[endpoint.source];
+  return `${endpoint.label} (${PROMETHEUS_BACKEND_LABELS[endpoint.backend]}, ${how.toLowerCase()})`;
+}
+
+/** Every candidate the last discovery probed and why each failed */
+function PrometheusCandidatesTable({ discovery }: { discovery: PrometheusDiscovery }) {
+  return (
+    <>
+      {discovery.serviceListError && (
+        <p style={{ fontSize: '13px', color: '#666' }}>
+          {`Could not list services for the cluster-wide search: ${discovery.serviceListError}. `}
+          Grant list on services, or set the Prometheus location in the plugin settings.
+        </p>
+      )}
+      <SimpleTable
+        columns={[
+          { label: 'Endpoint', getter: probe => probe.candidate.label },
+          {
+            label: 'Type',
+            getter: probe => PROMETHEUS_BACKEND_LABELS[probe.candidate.backend],
+          },
+          {
+            label: 'Found By',
+            getter: probe => CANDIDATE_SOURCE_LABELS[probe.candidate.source],
+          },
+          {
+            label: 'Result',
+            getter: probe =>
+              probe.error ? (
+                <StatusLabel status="error">{probe.error}</StatusLabel>
+              ) : (
+                <StatusLabel status="success">Answered</StatusLabel>
+              ),
+          },
+        ]}
+        data={discovery.probes}
+      />
+    </>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main page
 // ---------------------------------------------------------------------------
 
+/** "node-exporter hwmon: 2 GPUs · XPU Manager: failed (…)" for sources that found anything */
+function sourceSummary(metrics: GpuMetrics): React.ReactNode {
+  const active = metrics.sources.filter(source => source.deviceCount > 0 || source.error);
+  if (active.length === 0) return 'None';
+  return (
+    <span style={{ display: 'inline-flex', flexWrap: 'wrap', gap: '8px' }}>
+      {active.map(source =>
+        source.error ? (
+          <StatusLabel key={source.id} status="error">
+            {`${source.label}: failed (${source.error})`}
+          </StatusLabel>
+        ) : (
+          <StatusLabel key={source.id} status="success">
+            {`${source.label}: ${source.deviceCount} GPU${source.deviceCount === 1 ? '' : 's'}`}
+          </StatusLabel>
+        )
+      )}
+    </span>
+  );
+}
+
 export default function MetricsPage() {
-  const { gpuNodes, loading: ctxLoading } = useIntelGpuContext();
+  const {
+    gpuNodes,
+    gpuPods,
+    loading: ctxLoading,
+    refresh: refreshCluster,
+    autoRefresh: autoRefreshCluster,
+  } = useIntelGpuContext();
+  const settings = usePluginSettings();
+  const {
+    textfileMetrics,
+    refresh: refreshMetrics,
+    autoRefresh: autoRefreshMetrics,
+  } = useGpuMetricsContext();
 
-  const [metrics, setMetrics] = useState<GpuMetrics | null>(null);
-  const [fetchError, setFetchError] = useState<string | null>(null);
-  const [fetching, setFetching] = useState(false);
-  const [fetchSeq, setFetchSeq] = useState(0);
+  // Energy and idle attribution join the metrics with the cluster's pods, so
+  // both are refreshed together
+  const refresh = useCallback(() => {
+    refreshCluster();
+    refreshMetrics();
+  }, [refreshCluster, refreshMetrics]);
+  const autoRefresh = useCallback(() => {
+    autoRefreshCluster();
+    autoRefreshMetrics();
+  }, [autoRefreshCluster, autoRefreshMetrics]);
 
-  const doFetch = useCallback(() => {
-    setFetchSeq(s => s + 1);
-  }, []);
+  // Queries go through the shared metrics cache, so returning to the page or
+  // opening it after a detail view reuses recent results. They wait for the
+  // cluster data, which energy and idle attribution need.
+  const metricsQuery = useGpuMetrics(!ctxLoading);
+  const metrics = metricsQuery.data ?? null;
+  const fetching = metricsQuery.loading;
+  const fetchError =
+    metricsQuery.error ??
+    (metricsQuery.data === null
+      ? 'No Prometheus-compatible service answered. See the endpoints tried below, or set the Prometheus location in the plugin settings.'
+      : null);
 
+  const [discovery, setDiscovery] = useState<PrometheusDiscovery | null>(null);
   useEffect(() => {
-    if (ctxLoading) return;
-
-    let cancelled = false;
-    setFetching(true);
-    setFetchError(null);
-
-    fetchGpuMetrics()
-      .then(result => {
-        if (cancelled) return;
-        setMetrics(result);
-        if (!result) {
-          setFetchError(
-            'Could not reach Prometheus. Ensure kube-prometheus-stack is installed in the monitoring namespace.'
-          );
-        }
-      })
-      .catch((e: unknown) => {
-        if (cancelled) return;
-        setFetchError(e instanceof Error ? e.message : String(e));
-      })
-      .finally(() => {
-        if (!cancelled) setFetching(false);
-      });
-
-    return () => {
-      cancelled = true;
-    };
-  }, [ctxLoading, fetchSeq]);
+    if (metricsQuery.data !== undefined) setDiscovery(getLastPrometheusDiscovery());
+  }, [metricsQuery.data]);
+
+  const [range, setRange] = useState<MetricsRange>('1h');
+  const historyQuery = useGpuPowerHistory(range, !ctxLoading);
+  const history = historyQuery.error ? null : historyQuery.data ?? null;
+
+  const [energyRange, setEnergyRange] = useState<MetricsRange>('24h');
+  const fetchEnergy = useCallback(
+    (ctx: GpuMetricsContextValue) => fetchGpuChipEnergy(energyRange, ctx.prometheus),
+    [energyRange]
+  );
+  // Energy and idle queries span long windows, so only a manual refresh repeats them
+  const energyQuery = useCachedMetrics(
+    ctxLoading ? null : `chip-energy:${energyRange}`,
+    fetchEnergy,
+    { autoRefresh: false }
+  );
+  const chipEnergy = energyQuery.error ? null : energyQuery.data ?? null;
+
+  const { powerPercent, utilizationPercent } = getIdleGpuThresholds(settings);
+  const [idleRange, setIdleRange] = useState<MetricsRange>('1h');
+  const fetchIdle = useCallback(
+    (ctx: GpuMetricsContextValue) =>
+      fetchGpuIdleStates({ powerPercent, utilizationPercent }, ctx.prometheus),
+    [powerPercent, utilizationPercent]
+  );
+  const idleQuery = useCachedMetrics(
+    ctxLoading ? null : `idle-states:${powerPercent}:${utilizationPercent}`,
+    fetchIdle,
+    { autoRefresh: false }
+  );
+  const idleStates = idleQuery.error ? null : idleQuery.data ?? null;
+
+  const energyAttribution = chipEnergy
+    ? attributeGpuEnergy(chipEnergy, gpuNodes, gpuPods, getRangeSeconds(energyRange))
+    : null;
+  const idleAllocations = idleStates
+    ? findIdleGpuAllocations(idleStates, gpuNodes, gpuPods, getRangeSeconds(idleRange))
+    : null;
+  const sourceLabels = new Map((metrics?.sources ?? []).map(source => [source.id, source.label]));
 
   return (
     <>
-      <div
-        style={{
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-          marginBottom: '20px',
-        }}
-      >
-        <SectionHeader title="Intel GPU — Metrics" />
-        <button
-          onClick={() => void doFetch()}
-          disabled={fetching || ctxLoading}
-          aria-label="Refresh metrics"
-          style={{
-            padding: '6px 16px',
-            backgroundColor: 'transparent',
-            color: 'var(--mui-palette-primary-main, #0071c5)',
-            border: '1px solid var(--mui-palette-primary-main, #0071c5)',
-            borderRadius: '4px',
-            cursor: fetching || ctxLoading ? 'not-allowed' : 'pointer',
-            fontSize: '13px',
-            fontWeight: 500,
-            opacity: fetching || ctxLoading ? 0.6 : 1,
-          }}
-        >
-          {fetching ? 'Refreshing…' : 'Refresh'}
-        </button>
-      </div>
+      <PageToolbar
+        title="Intel GPU — Metrics"
+        onRefresh={refresh}
+        onAutoRefresh={autoRefresh}
+        refreshLabel="Refresh metrics"
+        refreshing={fetching}
+        disabled={ctxLoading}
+      />
 
       {ctxLoading && <Loader title="Loading Intel GPU data..." />}
 
-      <MetricRequirements />
+      <MetricRequirements metrics={metrics} textfileMetrics={textfileMetrics} />
 
       {fetching && !metrics && <Loader title="Querying Prometheus for GPU metrics..." />}
 
@@ -275,29 +1046,35 @@ export default function MetricsPage() {
                 name: 'Error',
                 value: <StatusLabel status="error">{fetchError}</StatusLabel>,
               },
-              {
-                name: 'Checked services',
-                value:
-                  'kube-prometheus-stack-prometheus:9090, prometheus-operated:9090, prometheus:9090 (monitoring namespace)',
-              },
             ]}
           />
+          {discovery && <PrometheusCandidatesTable discovery={discovery} />}
         </SectionBox>
       )}
 
-      {metrics && metrics.chips.length === 0 && (
-        <SectionBox title="No i915 Metrics in Prometheus">
+      {metrics && metrics.devices.length === 0 && (
+        <SectionBox title="No GPU Metrics in Prometheus">
           <NameValueTable
             rows={[
               {
                 name: 'Status',
                 value: (
                   <StatusLabel status="warning">
-                    Prometheus reachable — no
-                    node_hwmon_chip_names&#123;chip_name=&quot;i915&quot;&#125; found
+                    Prometheus reachable — no metrics source reported a GPU
                   </StatusLabel>
                 ),
               },
+              {
+                name: 'Looked for',
+                value: (
+                  <>
+                    node_hwmon_chip_names&#123;chip_name=~&quot;i915|xe&quot;&#125;, xpum_* series,{' '}
+                    {getTextfileMetricNames(textfileMetrics).frequencyMetric},{' '}
+                    {getTextfileMetricNames(textfileMetrics).throttleMetric} and any custom PromQL
+                    queries from the plugin settings
+                  </>
+                ),
+              },
               {
                 name: 'GPU Nodes',
                 value:
@@ -315,38 +1092,73 @@ export default function MetricsPage() {
         </SectionBox>
       )}
 
-      {metrics && metrics.chips.length > 0 && (
+      {metrics && metrics.devices.length > 0 && (
         <>
           <SectionBox title="GPU Power Summary">
             <NameValueTable
               rows={[
                 {
                   name: 'GPUs Monitored',
-                  value: String(metrics.chips.length),
+                  value: String(metrics.devices.length),
                 },
                 {
                   name: 'Total Power',
                   value: (() => {
-                    const total = metrics.chips.reduce((s, c) => s + (c.powerWatts ?? 0), 0);
-                    const maxTotal = metrics.chips.reduce((s, c) => s + (c.powerMaxWatts ?? 0), 0);
+                    const total = metrics.devices.reduce((s, d) => s + (d.powerWatts ?? 0), 0);
+                    const maxTotal = metrics.devices.reduce(
+                      (s, d) => s + (d.powerMaxWatts ?? 0),
+                      0
+                    );
                     return <PowerBar watts={total} maxWatts={maxTotal > 0 ? maxTotal : null} />;
                   })(),
                 },
+                ...temperatureSummaryRows(metrics.devices),
+                ...throttleSummaryRows(metrics.devices),
                 {
                   name: 'Last Fetched',
                   value: new Date(metrics.fetchedAt).toLocaleTimeString(),
                 },
                 {
-                  name: 'Query',
-                  value:
-                    'rate(node_hwmon_energy_joule_total[5m]) joined with node_hwmon_chip_names{chip_name="i915"}',
+                  name: 'Prometheus',
+                  value: endpointSummary(discovery),
+                },
+                {
+                  name: 'Sources',
+                  value: sourceSummary(metrics),
                 },
               ]}
             />
           </SectionBox>
 
-          {metrics.chips.map(chip => (
-            <GpuChipCard key={`${chip.instance}-${chip.chip}`} chip={chip} />
+          <PowerHistorySection
+            range={range}
+            onRangeChange={setRange}
+            history={history}
+            loading={historyQuery.loading}
+            maxTotalWatts={metrics.devices.reduce((s, d) => s + (d.powerMaxWatts ?? 0), 0) || null}
+          />
+
+          <EnergyAttributionSection
+            range={energyRange}
+            onRangeChange={setEnergyRange}
+            attribution={energyAttribution}
+            loading={energyQuery.loading}
+          />
+
+          <IdleAllocationsSection
+            range={idleRange}
+            onRangeChange={setIdleRange}
+            allocations={idleAllocations}
+            loading={idleQuery.loading}
+          />
+
+          {metrics.devices.map(device => (
+            <GpuDeviceCard
+              key={device.key}
+              device={device}
+              sourceLabels={sourceLabels}
+              history={deviceHistory(history, device)}
+            />
           ))}
         </>
       )}
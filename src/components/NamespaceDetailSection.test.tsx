@@ -0,0 +1,165 @@
+import { ApiProxy } from '@kinvolk/headlamp-plugin/lib';
+import { render, screen, waitFor } from '@testing-library/react';
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IntelGpuPod, KubeResourceQuota } from '../api/k8s';
+import NamespaceDetailSection from './NamespaceDetailSection';
+
+vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
+  Loader: ({ title }: { title: string }) => <div data-testid="loader">{title}</div>,
+  SectionBox: ({ title, children }: { title: string; children?: React.ReactNode }) => (
+    <section>
+      <h2>{title}</h2>
+      {children}
+    </section>
+  ),
+  SectionHeader: ({ title }: { title: string }) => <h1>{title}</h1>,
+  NameValueTable: ({
+    rows,
+  }: {
+    rows: Array<{ name: React.ReactNode; value: React.ReactNode }>;
+  }) => (
+    <dl>
+      {rows.map((r, i) => (
+        <div key={i}>
+          <dt>{r.name}</dt>
+          <dd>{r.value}</dd>
+        </div>
+      ))}
+    </dl>
+  ),
+  SimpleTable: ({
+    columns,
+    data,
+  }: {
+    columns: Array<{ label: string; getter: (item: unknown) => React.ReactNode }>;
+    data: unknown[];
+  }) => (
+    <table>
+      <thead>
+        <tr>
+          {columns.map(c => (
+            <th key={c.label}>{c.label}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {data.map((item, i) => (
+          <tr key={i}>
+            {columns.map(c => (
+              <td key={c.label}>{c.getter(item)}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  ),
+  StatusLabel: ({ status, children }: { status: string; children?: React.ReactNode }) => (
+    <span data-status={status}>{children}</span>
+  ),
+}));
+
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ApiProxy: { request: vi.fn() },
+  ConfigStore: class {
+    get() {
+      return {};
+    }
+    update() {}
+    useConfig() {
+      return () => ({});
+    }
+  },
+}));
+
+const quota: KubeResourceQuota = {
+  metadata: { name: 'gpu-cap', namespace: 'ml' },
+  spec: { hard: { 'requests.gpu.intel.com/i915': '2' } },
+  status: {
+    hard: { 'requests.gpu.intel.com/i915': '2' },
+    used: { 'requests.gpu.intel.com/i915': '2' },
+  },
+};
+
+function makePod(name: string, namespace: string): IntelGpuPod {
+  return {
+    metadata: { name, namespace, uid: `uid-${name}` },
+    spec: {
+      nodeName: 'gpu-node-1',
+      containers: [{ name: 'main', resources: { requests: { 'gpu.intel.com/i915': '1' } } }],
+    },
+    status: { phase: 'Running' },
+  };
+}
+
+const pods = [makePod('a', 'ml'), makePod('b', 'ml'), makePod('c', 'batch')];
+
+/** Serve namespaced lists; ResourceQuotas fail with 403 when `forbidQuotas` is set */
+function serveNamespaces({ forbidQuotas = false } = {}) {
+  vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+    const [, namespace, plural] = url.match(/^\/api\/v1\/namespaces\/([^/]+)\/(\w+)$/) ?? [];
+    if (plural === 'resourcequotas') {
+      if (forbidQuotas) throw Object.assign(new Error('forbidden'), { status: 403 });
+      return { items: [quota].filter(q => q.metadata.namespace === namespace) };
+    }
+    if (plural === 'pods') return { items: pods.filter(p => p.metadata.namespace === namespace) };
+    throw new Error(`unexpected request ${url}`);
+  });
+}
+
+beforeEach(() => {
+  vi.mocked(ApiProxy.request).mockReset();
+  serveNamespaces();
+});
+
+describe('NamespaceDetailSection', () => {
+  it('renders nothing for a namespace without GPU quota or pods', async () => {
+    const { container } = render(
+      <NamespaceDetailSection resource={{ kind: 'Namespace', metadata: { name: 'web' } }} />
+    );
+    await waitFor(() => expect(ApiProxy.request).toHaveBeenCalledTimes(2));
+    expect(container.innerHTML).toBe('');
+  });
+
+  it("shows the namespace's quota usage without a namespace column", async () => {
+    render(
+      <NamespaceDetailSection
+        resource={{ kind: 'Namespace', jsonData: { metadata: { name: 'ml' } } }}
+      />
+    );
+
+    expect(await screen.findByText('Intel GPU Quota')).toBeTruthy();
+    expect(screen.getByText('At quota — new GPU pods will be rejected')).toBeTruthy();
+    expect(screen.queryByText('Namespace')).toBeNull();
+    expect(screen.getByText('2/2 (100%)')).toBeTruthy();
+  });
+
+  it('shows pod requests in a namespace without quota', async () => {
+    render(
+      <NamespaceDetailSection resource={{ kind: 'Namespace', metadata: { name: 'batch' } }} />
+    );
+
+    expect(await screen.findByText('No GPU quota')).toBeTruthy();
+    expect(screen.getByText('No quota')).toBeTruthy();
+  });
+
+  it("lists only the namespace's quotas and pods", async () => {
+    render(<NamespaceDetailSection resource={{ kind: 'Namespace', metadata: { name: 'ml' } }} />);
+
+    await screen.findByText('Intel GPU Quota');
+    expect(
+      vi
+        .mocked(ApiProxy.request)
+        .mock.calls.map(([url]) => url)
+        .sort()
+    ).toEqual(['/api/v1/namespaces/ml/pods', '/api/v1/namespaces/ml/resourcequotas']);
+  });
+
+  it('shows pods when ResourceQuotas cannot be listed', async () => {
+    serveNamespaces({ forbidQuotas: true });
+    render(<NamespaceDetailSection resource={{ kind: 'Namespace', metadata: { name: 'ml' } }} />);
+
+    expect(await screen.findByText('Unknown — ResourceQuotas could not be listed')).toBeTruthy();
+    expect(screen.getByText('GPU Pods').nextSibling?.textContent).toBe('2');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * NamespaceDetailSection — injected into Headlamp's native Namespace detail page.
+ *
+ * Shows the namespace's GPU ResourceQuota hard/used, its GPU pods' live
+ * requests and the headroom left, as on the Namespaces page. Returns null for
+ * namespaces with neither a GPU quota nor a GPU pod that has not finished.
+ *
+ * Rendered outside the IntelGpuDataProvider: the namespace's ResourceQuotas
+ * and pods are listed with namespaced requests.
+ */
+
+import { ApiProxy } from '@kinvolk/headlamp-plugin/lib';
+import {
+  NameValueTable,
+  SectionBox,
+  StatusLabel,
+} from '@kinvolk/headlamp-plugin/lib/CommonComponents';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  computeNamespaceGpuQuotas,
+  filterGpuRequestingPods,
+  IntelGpuPod,
+  isKubeList,
+  isResourceQuota,
+  KubeResourceQuota,
+} from '../api/k8s';
+import { DEFAULT_REQUEST_TIMEOUT_MS, withTimeout } from '../api/request';
+import { getGpuQuotaRows, GpuQuotaTable, isAtGpuQuota } from './GpuQuotaTable';
+
+interface NamespaceDetailSectionProps {
+  resource: {
+    kind?: string;
+    metadata?: { name?: string };
+    jsonData?: unknown;
+  };
+}
+
+interface NamespaceGpuData {
+  /** Null when the namespace's ResourceQuotas could not be listed */
+  quotas: KubeResourceQuota[] | null;
+  pods: IntelGpuPod[];
+}
+
+/** List one namespace's items; null when the request fails or times out */
+async function listNamespaced(namespace: string, plural: string): Promise<unknown[] | null> {
+  try {
+    const list = await withTimeout(
+      ApiProxy.request(`/api/v1/namespaces/${namespace}/${plural}`),
+      DEFAULT_REQUEST_TIMEOUT_MS
+    );
+    return isKubeList(list) ? list.items : null;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchNamespaceGpuData(namespace: string): Promise<NamespaceGpuData> {
+  const [quotas, pods] = await Promise.all([
+    listNamespaced(namespace, 'resourcequotas'),
+    listNamespaced(namespace, 'pods'),
+  ]);
+  return {
+    quotas: quotas && quotas.filter(isResourceQuota),
+    pods: filterGpuRequestingPods(pods ?? []),
+  };
+}
+
+function useNamespaceGpuData(namespace: string | undefined): NamespaceGpuData | null {
+  const [data, setData] = useState<NamespaceGpuData | null>(null);
+
+  useEffect(() => {
+    setData(null);
+    if (!namespace) return;
+    let cancelled = false;
+    void fetchNamespaceGpuData(namespace).then(result => {
+      if (!cancelled) setData(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [namespace]);
+
+  return data;
+}
+
+export default function NamespaceDetailSection({ resource }: NamespaceDetailSectionProps) {
+  const name =
+    resource.metadata?.name ??
+    (resource.jsonData as { metadata?: { name?: string } } | undefined)?.metadata?.name;
+
+  const data = useNamespaceGpuData(name);
+  const quotasAvailable = data?.quotas !== null;
+
+  const namespace = useMemo(
+    () => data && computeNamespaceGpuQuotas(data.quotas ?? [], data.pods)[0],
+    [data]
+  );
+
+  if (!namespace) return null;
+
+  return (
+    <SectionBox title="Intel GPU Quota">
+      <NameValueTable
+        rows={[
+          { name: 'GPU Pods', value: String(namespace.podCount) },
+          {
+            name: 'Quota Status',
+            value: !quotasAvailable ? (
+              'Unknown — ResourceQuotas could not be listed'
+            ) : namespace.quotas.length === 0 ? (
+              'No GPU quota'
+            ) : isAtGpuQuota(namespace) ? (
+              <StatusLabel status="error">At quota — new GPU pods will be rejected</StatusLabel>
+            ) : (
+              <StatusLabel status="success">Within quota</StatusLabel>
+            ),
+          },
+        ]}
+      />
+      <GpuQuotaTable rows={getGpuQuotaRows([namespace])} showNamespace={false} />
+    </SectionBox>
+  );
+}
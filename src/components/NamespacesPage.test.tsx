@@ -0,0 +1,161 @@
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { IntelGpuContextValue, useIntelGpuContext } from '../api/IntelGpuDataContext';
+import { IntelGpuPod, KubeResourceQuota } from '../api/k8s';
+import NamespacesPage from './NamespacesPage';
+
+vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
+  Loader: ({ title }: { title: string }) => <div data-testid="loader">{title}</div>,
+  SectionBox: ({ title, children }: { title: string; children?: React.ReactNode }) => (
+    <section>
+      <h2>{title}</h2>
+      {children}
+    </section>
+  ),
+  SectionHeader: ({ title }: { title: string }) => <h1>{title}</h1>,
+  NameValueTable: ({
+    rows,
+  }: {
+    rows: Array<{ name: React.ReactNode; value: React.ReactNode }>;
+  }) => (
+    <dl>
+      {rows.map((r, i) => (
+        <div key={i}>
+          <dt>{r.name}</dt>
+          <dd>{r.value}</dd>
+        </div>
+      ))}
+    </dl>
+  ),
+  SimpleTable: ({
+    columns,
+    data,
+  }: {
+    columns: Array<{ label: string; getter: (item: unknown) => React.ReactNode }>;
+    data: unknown[];
+  }) => (
+    <table>
+      <thead>
+        <tr>
+          {columns.map(c => (
+            <th key={c.label}>{c.label}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {data.map((item, i) => (
+          <tr key={i}>
+            {columns.map(c => (
+              <td key={c.label}>{c.getter(item)}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  ),
+  StatusLabel: ({ status, children }: { status: string; children?: React.ReactNode }) => (
+    <span data-status={status}>{children}</span>
+  ),
+}));
+
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ConfigStore: class {
+    get() {
+      return {};
+    }
+    update() {}
+    useConfig() {
+      return () => ({});
+    }
+  },
+}));
+
+vi.mock('../api/IntelGpuDataContext', () => ({
+  useIntelGpuContext: vi.fn(),
+}));
+
+function makeContext(overrides: Partial<IntelGpuContextValue> = {}): IntelGpuContextValue {
+  return {
+    devicePlugins: [],
+    pluginInstalled: false,
+    gpuNodes: [],
+    gpuPods: [],
+    pluginPods: [],
+    crdAvailable: false,
+    devicePluginsByKind: {},
+    resourceSlices: [],
+    deviceClasses: [],
+    resourceClaims: [],
+    draAvailable: false,
+    resourceQuotas: [],
+    quotasAvailable: false,
+    gpuTypeMappings: {},
+    watchStatus: { state: 'live', staleSince: null },
+    loading: false,
+    error: null,
+    refresh: vi.fn(),
+    autoRefresh: vi.fn(),
+    ...overrides,
+  };
+}
+
+const quota: KubeResourceQuota = {
+  metadata: { name: 'gpu-cap', namespace: 'ml' },
+  spec: { hard: { 'requests.gpu.intel.com/i915': '2' } },
+  status: {
+    hard: { 'requests.gpu.intel.com/i915': '2' },
+    used: { 'requests.gpu.intel.com/i915': '2' },
+  },
+};
+
+function makePod(name: string, namespace: string): IntelGpuPod {
+  return {
+    metadata: { name, namespace, uid: `uid-${name}` },
+    spec: {
+      nodeName: 'gpu-node-1',
+      containers: [{ name: 'main', resources: { requests: { 'gpu.intel.com/i915': '1' } } }],
+    },
+    status: { phase: 'Running' },
+  };
+}
+
+describe('NamespacesPage', () => {
+  it('shows loader while loading', () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: true }));
+    render(<NamespacesPage />);
+    expect(screen.getByTestId('loader')).toBeTruthy();
+  });
+
+  it('shows an empty state when no namespace has GPU quota or pods', () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ quotasAvailable: true }));
+    render(<NamespacesPage />);
+    expect(screen.getByText('No GPU Namespaces Found')).toBeTruthy();
+  });
+
+  it('lists quota hard/used, pod requests and headroom per namespace', () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(
+      makeContext({
+        quotasAvailable: true,
+        resourceQuotas: [quota],
+        gpuPods: [makePod('a', 'ml'), makePod('b', 'ml'), makePod('c', 'batch')],
+      })
+    );
+    render(<NamespacesPage />);
+
+    expect(screen.getByText('GPU Quota by Namespace')).toBeTruthy();
+    const rows = screen.getAllByRole('row').slice(1);
+    expect(rows.map(r => r.textContent)).toEqual([
+      'batchGPU (i915)—No quota1—',
+      'mlGPU (i915)gpu-cap2/2 (100%)20',
+    ]);
+    // ml has used its whole quota
+    expect(screen.getAllByText('ml')[0].getAttribute('data-status')).toBe('error');
+  });
+
+  it('explains when ResourceQuotas cannot be listed', () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ gpuPods: [makePod('a', 'ml')] }));
+    render(<NamespacesPage />);
+    expect(screen.getByText(/ResourceQuotas could not be listed/)).toBeTruthy();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * NamespacesPage — GPU ResourceQuota usage and live GPU requests per namespace.
+ *
+ * Lists every namespace with a quota on gpu.intel.com/* requests or a GPU pod
+ * that has not finished, with the quota's hard limit and recorded usage, the
+ * pods' summed requests and the headroom left before new pods are rejected.
+ */
+
+import {
+  Loader,
+  NameValueTable,
+  SectionBox,
+  StatusLabel,
+} from '@kinvolk/headlamp-plugin/lib/CommonComponents';
+import React, { useMemo } from 'react';
+import { useIntelGpuContext } from '../api/IntelGpuDataContext';
+import { computeNamespaceGpuQuotas } from '../api/k8s';
+import { getGpuQuotaRows, GpuQuotaTable, isAtGpuQuota } from './GpuQuotaTable';
+import { PageToolbar } from './PageToolbar';
+
+const QUOTAS_UNAVAILABLE_NOTE =
+  'ResourceQuotas could not be listed. Grant list on resourcequotas to see GPU quota limits; ' +
+  'pod requests are shown without them.';
+
+export default function NamespacesPage() {
+  const {
+    gpuPods,
+    resourceQuotas,
+    quotasAvailable,
+    loading,
+    error,
+    watchStatus,
+    refresh,
+    autoRefresh,
+  } = useIntelGpuContext();
+
+  const namespaces = useMemo(
+    () => computeNamespaceGpuQuotas(resourceQuotas, gpuPods),
+    [resourceQuotas, gpuPods]
+  );
+
+  if (loading) {
+    return <Loader title="Loading GPU quota data..." />;
+  }
+
+  const withPods = namespaces.filter(ns => ns.podCount > 0);
+  const withQuota = namespaces.filter(ns => ns.quotas.length > 0);
+  const atQuota = namespaces.filter(isAtGpuQuota);
+
+  return (
+    <>
+      <PageToolbar
+        title="Intel GPU — Namespaces"
+        onRefresh={refresh}
+        onAutoRefresh={autoRefresh}
+        refreshLabel="Refresh quota data"
+        watchStatus={watchStatus}
+      />
+
+      {error && (
+        <SectionBox title="Error">
+          <NameValueTable
+            rows={[{ name: 'Status', value: <StatusLabel status="error">{error}</StatusLabel> }]}
+          />
+        </SectionBox>
+      )}
+
+      {namespaces.length === 0 && (
+        <SectionBox title="No GPU Namespaces Found">
+          <NameValueTable
+            rows={[
+              {
+                name: 'Status',
+                value: (
+                  <StatusLabel status="warning">
+                    No namespace has a GPU quota or a running GPU pod
+                  </StatusLabel>
+                ),
+              },
+              {
+                name: 'Note',
+                value: quotasAvailable
+                  ? 'Namespaces appear here when a ResourceQuota limits requests.gpu.intel.com/* or a pod requests gpu.intel.com/* resources.'
+                  : QUOTAS_UNAVAILABLE_NOTE,
+              },
+            ]}
+          />
+        </SectionBox>
+      )}
+
+      {namespaces.length > 0 && (
+        <SectionBox title="Summary">
+          <NameValueTable
+            rows={[
+              { name: 'Namespaces with GPU Pods', value: String(withPods.length) },
+              { name: 'Namespaces with GPU Quota', value: String(withQuota.length) },
+              {
+                name: 'At Quota',
+                value:
+                  atQuota.length > 0 ? (
+                    <StatusLabel status="error">
+                      {atQuota.map(ns => ns.namespace).join(', ')}
+                    </StatusLabel>
+                  ) : (
+                    'None'
+                  ),
+              },
+              ...(quotasAvailable ? [] : [{ name: 'Note', value: QUOTAS_UNAVAILABLE_NOTE }]),
+            ]}
+          />
+        </SectionBox>
+      )}
+
+      {namespaces.length > 0 && (
+        <SectionBox title="GPU Quota by Namespace">
+          <GpuQuotaTable rows={getGpuQuotaRows(namespaces)} />
+        </SectionBox>
+      )}
+    </>
+  );
+}
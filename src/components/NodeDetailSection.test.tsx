@@ -1,8 +1,10 @@
 import { render, screen } from '@testing-library/react';
 import React from 'react';
 import { describe, expect, it, vi } from 'vitest';
+import { useNodeGpuMetrics, useNodeGpuPowerHistory } from '../api/GpuMetricsContext';
 import { IntelGpuContextValue, useIntelGpuContext } from '../api/IntelGpuDataContext';
 import { IntelGpuPod } from '../api/k8s';
+import { GpuDeviceMetrics } from '../api/metrics';
 import NodeDetailSection from './NodeDetailSection';
 
 vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
@@ -31,10 +33,34 @@ vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
   ),
 }));
 
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ConfigStore: class {
+    get() {
+      return {};
+    }
+    update() {}
+    useConfig() {
+      return () => ({});
+    }
+  },
+}));
+
 vi.mock('../api/IntelGpuDataContext', () => ({
   useIntelGpuContext: vi.fn(),
 }));
 
+vi.mock('../api/GpuMetricsContext', () => ({
+  useNodeGpuMetrics: vi.fn(() => ({ data: undefined, loading: true, error: null })),
+  useNodeGpuPowerHistory: vi.fn(() => ({ data: undefined, loading: true, error: null })),
+}));
+
+vi.mock('../api/metrics', () => ({
+  formatWatts: (w: number) => `${w.toFixed(1)} W`,
+  formatCelsius: (c: number) => `${Math.round(c)} °C`,
+  TEMPERATURE_LABEL_STATUS: { normal: 'success', warning: 'warning', critical: 'error' },
+  getTemperatureStatus: () => 'warning',
+}));
+
 function makeContext(overrides: Partial<IntelGpuContextValue> = {}): IntelGpuContextValue {
   return {
     devicePlugins: [],
@@ -43,9 +69,19 @@ function makeContext(overrides: Partial<IntelGpuContextValue> = {}): IntelGpuCon
     gpuPods: [],
     pluginPods: [],
     crdAvailable: false,
+    devicePluginsByKind: {},
+    resourceSlices: [],
+    deviceClasses: [],
+    resourceClaims: [],
+    draAvailable: false,
+    resourceQuotas: [],
+    quotasAvailable: false,
+    gpuTypeMappings: {},
+    watchStatus: { state: 'live', staleSince: null },
     loading: false,
     error: null,
     refresh: vi.fn(),
+    autoRefresh: vi.fn(),
     ...overrides,
   };
 }
@@ -140,4 +176,214 @@ describe('NodeDetailSection', () => {
     render(<NodeDetailSection resource={gpuNodeRaw} />);
     expect(screen.getByText('my-gpu-pod')).toBeInTheDocument();
   });
+
+  it('shows separate allocation rows for devices, millicores and memory', () => {
+    const sharedResources = {
+      'gpu.intel.com/i915': '2',
+      'gpu.intel.com/millicores': '2000',
+      'gpu.intel.com/memory.max': '8Gi',
+    };
+    const sharedNode = {
+      ...gpuNodeRaw,
+      status: { capacity: sharedResources, allocatable: sharedResources },
+    };
+    const sharedPod: IntelGpuPod = {
+      metadata: { name: 'shared-pod', namespace: 'default', uid: 'uid-pod-2' },
+      spec: {
+        nodeName: 'gpu-node-1',
+        containers: [
+          {
+            name: 'main',
+            resources: {
+              requests: {
+                'gpu.intel.com/i915': '1',
+                'gpu.intel.com/millicores': '500',
+                'gpu.intel.com/memory.max': '2Gi',
+              },
+            },
+          },
+        ],
+      },
+      status: { phase: 'Running' },
+    };
+    vi.mocked(useIntelGpuContext).mockReturnValue(
+      makeContext({ loading: false, gpuPods: [sharedPod] })
+    );
+    render(<NodeDetailSection resource={sharedNode} />);
+    expect(screen.getByText('GPU Devices Allocation')).toBeInTheDocument();
+    expect(screen.getByText('1/2 (50%)')).toBeInTheDocument();
+    expect(screen.getByText('500/2000 (25%)')).toBeInTheDocument();
+    expect(screen.getByText('2 GiB/8 GiB (25%)')).toBeInTheDocument();
+  });
+
+  it('shows a per-card occupancy map from GAS annotations', () => {
+    const gasNode = {
+      ...gpuNodeRaw,
+      metadata: {
+        ...gpuNodeRaw.metadata,
+        labels: {
+          ...gpuNodeRaw.metadata.labels,
+          'gpu.intel.com/cards': 'card0.card1',
+          'gpu.intel.com/tiles': '2',
+        },
+      },
+    };
+    const gasPod: IntelGpuPod = {
+      metadata: {
+        name: 'gas-pod',
+        namespace: 'default',
+        uid: 'uid-gas-1',
+        annotations: {
+          'gas-container-cards': 'card1',
+          'gas-container-tiles': 'card1:gt0',
+        },
+      },
+      spec: {
+        nodeName: 'gpu-node-1',
+        containers: [{ name: 'main', resources: { requests: { 'gpu.intel.com/i915': '1' } } }],
+      },
+      status: { phase: 'Running' },
+    };
+    vi.mocked(useIntelGpuContext).mockReturnValue(
+      makeContext({ loading: false, gpuPods: [gasPod] })
+    );
+    render(<NodeDetailSection resource={gasNode} />);
+    expect(screen.getByText('GPU Card Occupancy')).toBeInTheDocument();
+    expect(screen.getByTestId('gpu-card-card0')).toHaveTextContent('Idle');
+    expect(screen.getByTestId('gpu-card-card1')).toHaveTextContent('Tiles in use: 1/2');
+    expect(screen.getByTestId('gpu-card-card1')).toHaveTextContent('gas-pod/main (gt0)');
+  });
+
+  it('lists devices decoded from NFD labels', () => {
+    const nfdNode = {
+      ...gpuNodeRaw,
+      metadata: {
+        ...gpuNodeRaw.metadata,
+        labels: {
+          ...gpuNodeRaw.metadata.labels,
+          'gpu.intel.com/device-id.0300-56a0.present': 'true',
+          'gpu.intel.com/product': 'Arc_A770',
+          'gpu.intel.com/memory.max': '17179869184',
+          'gpu.intel.com/cards': 'card0.card1',
+        },
+      },
+    };
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
+    render(<NodeDetailSection resource={nfdNode} />);
+    expect(screen.getByText('GPU Product')).toBeInTheDocument();
+    expect(screen.getByText('56a0 (class 0300)')).toBeInTheDocument();
+    expect(screen.getByTestId('gpu-device-card1')).toHaveTextContent('card1 — Arc A770, 16 GiB');
+  });
+
+  it('renders for nodes that only publish devices through DRA', () => {
+    const draNode = {
+      kind: 'Node',
+      metadata: { name: 'dra-node', labels: {} },
+      status: { capacity: { cpu: '8' }, allocatable: { cpu: '8' } },
+    };
+    vi.mocked(useIntelGpuContext).mockReturnValue(
+      makeContext({
+        resourceSlices: [
+          {
+            metadata: { name: 'dra-node-gpu.intel.com-abcde' },
+            spec: {
+              driver: 'gpu.intel.com',
+              nodeName: 'dra-node',
+              pool: { name: 'dra-node', generation: 1 },
+              devices: [{ name: 'card0' }, { name: 'card1' }],
+            },
+          },
+        ],
+        resourceClaims: [
+          {
+            metadata: { name: 'trainer-gpu', namespace: 'ml' },
+            status: {
+              allocation: {
+                devices: {
+                  results: [
+                    { request: 'gpu', driver: 'gpu.intel.com', pool: 'dra-node', device: 'card1' },
+                  ],
+                },
+              },
+            },
+          },
+        ],
+      })
+    );
+    render(<NodeDetailSection resource={draNode} />);
+    expect(screen.getByText('Intel GPU')).toBeInTheDocument();
+    expect(screen.getByText('card0, card1')).toBeInTheDocument();
+    expect(screen.getByText('card1 → ml/trainer-gpu')).toBeInTheDocument();
+  });
+
+  it('shows per-GPU power, TDP, temperature and a power sparkline from Prometheus', () => {
+    const hwmon = { chip: 'hwmon2', instance: '10.0.0.1:9100', driver: 'xe' as const };
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
+    vi.mocked(useNodeGpuMetrics).mockReturnValueOnce({
+      loading: false,
+      error: null,
+      data: {
+        devices: [
+          {
+            key: 'gpu-node-1/0000:03:00.0',
+            nodeName: 'gpu-node-1',
+            pciAddress: '0000:03:00.0',
+            sources: ['hwmon'],
+            sourceIds: { hwmon: 'hwmon2' },
+            hwmon,
+            tiles: [],
+            powerWatts: 42,
+            powerMaxWatts: 150,
+            temperatureCelsius: 91,
+          } as unknown as GpuDeviceMetrics,
+        ],
+        sources: [],
+        fetchedAt: '2026-10-19T10:00:00Z',
+      },
+    });
+    vi.mocked(useNodeGpuPowerHistory).mockReturnValueOnce({
+      loading: false,
+      error: null,
+      data: {
+        range: '1h',
+        step: 15,
+        start: 1000,
+        end: 4600,
+        chips: [
+          {
+            nodeName: 'gpu-node-1',
+            chip: 'hwmon2',
+            instance: hwmon.instance,
+            points: [
+              { time: 1000, value: 40 },
+              { time: 4600, value: 42 },
+            ],
+          },
+        ],
+        total: [],
+      },
+    });
+
+    render(<NodeDetailSection resource={gpuNodeRaw} />);
+
+    expect(screen.getByText('Intel GPU Telemetry')).toBeInTheDocument();
+    expect(useNodeGpuMetrics).toHaveBeenLastCalledWith('gpu-node-1');
+    expect(useNodeGpuPowerHistory).toHaveBeenLastCalledWith('gpu-node-1', '1h');
+    expect(screen.getByText('0000:03:00.0')).toBeInTheDocument();
+    expect(screen.getByText('/ TDP 150.0 W')).toBeInTheDocument();
+    expect(screen.getByText('91 °C')).toHaveAttribute('data-status', 'warning');
+    expect(
+      screen.getByRole('img', { name: /Power over the last 1h on 0000:03:00.0/ })
+    ).toBeInTheDocument();
+  });
+
+  it('leaves the telemetry out when Prometheus cannot be reached', () => {
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ loading: false }));
+    vi.mocked(useNodeGpuMetrics).mockReturnValueOnce({ data: null, loading: false, error: null });
+
+    render(<NodeDetailSection resource={gpuNodeRaw} />);
+
+    expect(screen.getByText('Intel GPU')).toBeInTheDocument();
+    expect(screen.queryByText('Intel GPU Telemetry')).not.toBeInTheDocument();
+  });
 });
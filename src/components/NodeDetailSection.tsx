@@ -2,8 +2,13 @@
  * NodeDetailSection — injected into Headlamp's native Node detail page.
  *
  * Shows Intel GPU resources available on the node (capacity, allocatable),
- * GPU type, and pods currently using GPU resources on this node.
- * Returns null for non-GPU nodes.
+ * GPU type, the per-card device inventory decoded from NFD labels, pods
+ * currently using GPU resources on this node, and a per-card occupancy map
+ * when pods carry GPU Aware Scheduling card assignments. Nodes served by the
+ * Intel GPU DRA driver also list their published devices and claim allocations.
+ * When Prometheus has readings for the node, a second section shows each GPU's
+ * power against TDP, temperature and the last hour of power; without Prometheus
+ * that section is left out. Returns null for non-GPU nodes.
  */
 
 import {
@@ -12,16 +17,210 @@ import {
   StatusLabel,
 } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
 import React from 'react';
+import {
+  DraDeviceAllocation,
+  formatDraDevice,
+  getNodeDraAllocations,
+  getNodeIntelGpuSlices,
+  getResourceSliceDevices,
+} from '../api/dra';
+import { useNodeGpuMetrics, useNodeGpuPowerHistory } from '../api/GpuMetricsContext';
 import { useIntelGpuContext } from '../api/IntelGpuDataContext';
 import {
+  computeNodeCardOccupancy,
+  computeNodeGpuAllocation,
+  formatGpuAllocationCategory,
+  formatGpuAllocationValue,
+  formatGpuProduct,
   formatGpuResourceName,
+  formatGpuResourceValue,
   formatGpuType,
   getGpuResources,
+  getNodeGpuInventory,
   getNodeGpuType,
-  INTEL_GPU_RESOURCE,
-  INTEL_GPU_XE_RESOURCE,
+  GPU_ALLOCATION_CATEGORIES,
+  GpuCardOccupancy,
+  GpuDeviceInventory,
   isIntelGpuNode,
+  summarizeGpuAllocation,
 } from '../api/k8s';
+import {
+  formatCelsius,
+  formatWatts,
+  getTemperatureStatus,
+  GpuDeviceMetrics,
+  GpuPowerHistory,
+  MetricsRange,
+  TEMPERATURE_LABEL_STATUS,
+} from '../api/metrics';
+import { formatBytes } from '../api/quantity';
+import { GpuAllocationBar } from './GpuAllocationBars';
+import { TimeSeriesChart } from './TimeSeriesChart';
+
+// ---------------------------------------------------------------------------
+// Device inventory (NFD labels)
+// ---------------------------------------------------------------------------
+
+function GpuDeviceList({ inventory }: { inventory: GpuDeviceInventory }) {
+  const product = formatGpuProduct(inventory);
+  const details = [
+    product,
+    inventory.memoryBytes !== null ? formatBytes(inventory.memoryBytes) : null,
+    inventory.tilesPerCard !== null
+      ? `${inventory.tilesPerCard} tile${inventory.tilesPerCard === 1 ? '' : 's'}`
+      : null,
+  ].filter(Boolean);
+
+  return (
+    <div style={{ fontSize: '12px' }}>
+      {inventory.cards.map(card => (
+        <div key={card} data-testid={`gpu-device-${card}`}>
+          <strong>{card}</strong>
+          {details.length > 0 && ` — ${details.join(', ')}`}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function formatPciDevices(inventory: GpuDeviceInventory): string {
+  return inventory.pciDevices
+    .map(d => `${d.deviceId} (class ${d.pciClass})${d.count !== null ? ` ×${d.count}` : ''}`)
+    .join(', ');
+}
+
+// ---------------------------------------------------------------------------
+// Per-card occupancy map (GPU Aware Scheduling)
+// ---------------------------------------------------------------------------
+
+function GpuCardOccupancyMap({ cards }: { cards: GpuCardOccupancy[] }) {
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+      {cards.map(({ card, tileCount, occupants }) => {
+        const usedTiles = new Set(occupants.flatMap(o => o.tiles));
+        const busy = occupants.length > 0;
+        return (
+          <div
+            key={card}
+            data-testid={`gpu-card-${card}`}
+            style={{
+              minWidth: '140px',
+              padding: '6px 8px',
+              border: `1px solid ${busy ? '#0071c5' : '#e0e0e0'}`,
+              borderRadius: '4px',
+              fontSize: '12px',
+            }}
+          >
+            <div style={{ fontWeight: 600 }}>{card}</div>
+            {tileCount !== null && (
+              <div style={{ color: '#666' }}>{`Tiles in use: ${usedTiles.size}/${tileCount}`}</div>
+            )}
+            {busy ? (
+              occupants.map(o => (
+                <div key={`${o.pod.metadata.uid ?? o.pod.metadata.name}-${o.containerName}`}>
+                  {`${o.pod.metadata.name}/${o.containerName}`}
+                  {o.tiles.length > 0 && ` (${o.tiles.join(', ')})`}
+                </div>
+              ))
+            ) : (
+              <div style={{ color: '#666' }}>Idle</div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// DRA allocations
+// ---------------------------------------------------------------------------
+
+function DraAllocationList({ allocations }: { allocations: DraDeviceAllocation[] }) {
+  if (allocations.length === 0) return <span>None</span>;
+
+  return (
+    <div style={{ fontSize: '12px' }}>
+      {allocations.map(({ claim, result }) => (
+        <div key={`${claim.metadata.uid ?? claim.metadata.name}-${result.device}`}>
+          {`${result.device} → ${claim.metadata.namespace ?? 'default'}/${claim.metadata.name}`}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Telemetry (Prometheus)
+// ---------------------------------------------------------------------------
+
+/** Window of the per-GPU power sparkline */
+const SPARKLINE_RANGE: MetricsRange = '1h';
+
+function GpuTelemetry({
+  device,
+  history,
+}: {
+  device: GpuDeviceMetrics;
+  history: GpuPowerHistory | null;
+}) {
+  const hwmon = device.hwmon;
+  const series =
+    history && hwmon
+      ? history.chips.find(c => c.instance === hwmon.instance && c.chip === hwmon.chip)
+      : undefined;
+
+  return (
+    <div style={{ fontSize: '13px' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', alignItems: 'center' }}>
+        <span>
+          {device.powerWatts !== null ? formatWatts(device.powerWatts) : 'Power —'}
+          {device.powerMaxWatts !== null && (
+            <span style={{ color: '#888' }}>{` / TDP ${formatWatts(device.powerMaxWatts)}`}</span>
+          )}
+        </span>
+        {device.temperatureCelsius !== null && (
+          <StatusLabel status={TEMPERATURE_LABEL_STATUS[getTemperatureStatus(device)]}>
+            {formatCelsius(device.temperatureCelsius)}
+          </StatusLabel>
+        )}
+      </div>
+      {history && series && (
+        <TimeSeriesChart
+          points={series.points}
+          start={history.start}
+          end={history.end}
+          formatValue={formatWatts}
+          label={`Power over the last ${SPARKLINE_RANGE} on ${device.pciAddress ?? hwmon?.chip}`}
+          referenceValue={device.powerMaxWatts}
+          height={60}
+        />
+      )}
+    </div>
+  );
+}
+
+/** Per-GPU readings for one node; renders nothing until Prometheus has some */
+function NodeGpuTelemetry({ nodeName }: { nodeName: string }) {
+  // Both query only this node's series through the shared metrics cache;
+  // errors and an unreachable Prometheus leave the section out
+  const { data: metrics } = useNodeGpuMetrics(nodeName);
+  const { data: history } = useNodeGpuPowerHistory(nodeName, SPARKLINE_RANGE);
+
+  const devices = metrics?.devices ?? [];
+  if (devices.length === 0) return null;
+
+  return (
+    <SectionBox title="Intel GPU Telemetry">
+      <NameValueTable
+        rows={devices.map(device => ({
+          name: device.pciAddress ?? device.hwmon?.chip ?? device.key,
+          value: <GpuTelemetry device={device} history={history ?? null} />,
+        }))}
+      />
+    </SectionBox>
+  );
+}
 
 interface NodeDetailSectionProps {
   resource: {
@@ -34,14 +233,17 @@ interface NodeDetailSectionProps {
 }
 
 export default function NodeDetailSection({ resource }: NodeDetailSectionProps) {
-  const { gpuPods, loading } = useIntelGpuContext();
+  const { gpuPods, gpuTypeMappings, resourceSlices, resourceClaims, loading } =
+    useIntelGpuContext();
 
   // Extract the raw Kubernetes JSON — Headlamp KubeObject wraps it in jsonData
   const rawNode =
     resource.jsonData && typeof resource.jsonData === 'object' ? resource.jsonData : resource;
 
-  // Only render for Node resources that have Intel GPU
-  if (!isIntelGpuNode(rawNode)) return null;
+  // Only render for Node resources that have Intel GPU, via labels/resources or DRA
+  const rawName = (rawNode as { metadata?: { name?: string } }).metadata?.name;
+  const hasDraDevices = !!rawName && resourceSlices.some(s => s.spec.nodeName === rawName);
+  if (!isIntelGpuNode(rawNode) && !hasDraDevices) return null;
 
   const node = rawNode as Parameters<typeof isIntelGpuNode>[0] & {
     status?: {
@@ -56,83 +258,109 @@ export default function NodeDetailSection({ resource }: NodeDetailSectionProps)
   const capacity = getGpuResources(node.status?.capacity);
   const allocatable = getGpuResources(node.status?.allocatable);
 
-  const gpuType = getNodeGpuType(node);
+  const gpuType = getNodeGpuType(node, gpuTypeMappings);
+  const inventory = getNodeGpuInventory(node);
+  const product = formatGpuProduct(inventory);
 
   // Find GPU pods scheduled on this node
   const podsOnNode = loading ? [] : gpuPods.filter(p => p.spec?.nodeName === nodeName);
 
-  if (Object.keys(capacity).length === 0 && Object.keys(allocatable).length === 0) {
+  if (
+    Object.keys(capacity).length === 0 &&
+    Object.keys(allocatable).length === 0 &&
+    !hasDraDevices
+  ) {
     return null;
   }
 
-  // GPU utilization: count GPU units used by running pods
-  let gpuInUse = 0;
-  let gpuAllocatable = 0;
+  // Allocation per category: devices, millicores and memory
+  const allocationSummary = summarizeGpuAllocation(computeNodeGpuAllocation(node, podsOnNode));
+  const allocationRows = GPU_ALLOCATION_CATEGORIES.flatMap(category => {
+    const entry = allocationSummary[category];
+    if (!entry || entry.allocatable <= 0) return [];
+    return [
+      {
+        name: `${formatGpuAllocationCategory(category)} Allocation`,
+        value: (
+          <GpuAllocationBar
+            used={entry.used}
+            allocatable={entry.allocatable}
+            format={v => formatGpuAllocationValue(category, v)}
+          />
+        ),
+      },
+    ];
+  });
 
-  for (const [key, val] of Object.entries(allocatable)) {
-    if (key === INTEL_GPU_RESOURCE || key === INTEL_GPU_XE_RESOURCE) {
-      gpuAllocatable += parseInt(val, 10) || 0;
-    }
-  }
-  for (const pod of podsOnNode.filter(p => p.status?.phase === 'Running')) {
-    const reqs =
-      pod.spec?.containers?.flatMap(c =>
-        Object.entries(c.resources?.requests ?? {}).filter(
-          ([k]) => k === INTEL_GPU_RESOURCE || k === INTEL_GPU_XE_RESOURCE
-        )
-      ) ?? [];
-    for (const [, val] of reqs) {
-      gpuInUse += parseInt(val, 10) || 0;
-    }
-  }
+  // Card-level placement from GPU Aware Scheduling annotations
+  const cardOccupancy = computeNodeCardOccupancy(node, podsOnNode);
 
-  const utilizationPct = gpuAllocatable > 0 ? Math.round((gpuInUse / gpuAllocatable) * 100) : 0;
-  const utilizationStatus: 'success' | 'warning' | 'error' =
-    utilizationPct >= 90 ? 'error' : utilizationPct >= 70 ? 'warning' : 'success';
+  // Devices published by the DRA driver and the claims holding them
+  const draDevices = getNodeIntelGpuSlices(node, resourceSlices).flatMap(getResourceSliceDevices);
+  const draAllocations = getNodeDraAllocations(node, resourceSlices, resourceClaims);
 
   return (
-    <SectionBox title="Intel GPU">
-      <NameValueTable
-        rows={[
-          {
-            name: 'GPU Type',
-            value: formatGpuType(gpuType),
-          },
-          // Capacity rows
-          ...Object.entries(capacity).map(([key, val]) => ({
-            name: `${formatGpuResourceName(key)} (capacity)`,
-            value: val,
-          })),
-          // Allocatable rows
-          ...Object.entries(allocatable).map(([key, val]) => ({
-            name: `${formatGpuResourceName(key)} (allocatable)`,
-            value: val,
-          })),
-          // Utilization
-          ...(gpuAllocatable > 0
-            ? [
-                {
-                  name: 'GPU Utilization',
-                  value: (
-                    <StatusLabel status={utilizationStatus}>
-                      {`${gpuInUse}/${gpuAllocatable} (${utilizationPct}%)`}
-                    </StatusLabel>
-                  ),
-                },
-              ]
-            : []),
-          // Workload pods
-          {
-            name: 'GPU Workload Pods',
-            value:
-              podsOnNode.length > 0
-                ? podsOnNode.map(p => p.metadata.name).join(', ')
-                : loading
-                ? 'Loading…'
-                : 'None',
-          },
-        ]}
-      />
-    </SectionBox>
+    <>
+      <SectionBox title="Intel GPU">
+        <NameValueTable
+          rows={[
+            {
+              name: 'GPU Type',
+              value: formatGpuType(gpuType),
+            },
+            // Device inventory from NFD labels
+            ...(product ? [{ name: 'GPU Product', value: product }] : []),
+            ...(inventory.pciDevices.length > 0
+              ? [{ name: 'PCI Device IDs', value: formatPciDevices(inventory) }]
+              : []),
+            ...(inventory.cards.length > 0
+              ? [{ name: 'GPU Devices', value: <GpuDeviceList inventory={inventory} /> }]
+              : []),
+            // Capacity rows
+            ...Object.entries(capacity).map(([key, val]) => ({
+              name: `${formatGpuResourceName(key)} (capacity)`,
+              value: formatGpuResourceValue(key, val),
+            })),
+            // Allocatable rows
+            ...Object.entries(allocatable).map(([key, val]) => ({
+              name: `${formatGpuResourceName(key)} (allocatable)`,
+              value: formatGpuResourceValue(key, val),
+            })),
+            // Allocation
+            ...allocationRows,
+            // Per-card occupancy
+            ...(cardOccupancy.length > 0
+              ? [
+                  {
+                    name: 'GPU Card Occupancy',
+                    value: <GpuCardOccupancyMap cards={cardOccupancy} />,
+                  },
+                ]
+              : []),
+            // DRA devices and claim allocations
+            ...(draDevices.length > 0
+              ? [
+                  { name: 'DRA Devices', value: draDevices.map(formatDraDevice).join(', ') },
+                  {
+                    name: 'DRA Allocations',
+                    value: <DraAllocationList allocations={draAllocations} />,
+                  },
+                ]
+              : []),
+            // Workload pods
+            {
+              name: 'GPU Workload Pods',
+              value:
+                podsOnNode.length > 0
+                  ? podsOnNode.map(p => p.metadata.name).join(', ')
+                  : loading
+                  ? 'Loading…'
+                  : 'None',
+            },
+          ]}
+        />
+      </SectionBox>
+      <NodeGpuTelemetry nodeName={nodeName} />
+    </>
   );
 }
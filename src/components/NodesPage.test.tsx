@@ -2,7 +2,7 @@ import { render, screen } from '@testing-library/react';
 import React from 'react';
 import { describe, expect, it, vi } from 'vitest';
 import { IntelGpuContextValue, useIntelGpuContext } from '../api/IntelGpuDataContext';
-import { IntelGpuNode } from '../api/k8s';
+import { IntelGpuNode, IntelGpuPod } from '../api/k8s';
 import NodesPage from './NodesPage';
 
 vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
@@ -58,6 +58,24 @@ vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
     <span data-status={status}>{children}</span>
   ),
   PercentageBar: () => <div data-testid="percentage-bar" />,
+  LightTooltip: ({ title, children }: { title: React.ReactNode; children?: React.ReactNode }) => (
+    <div>
+      {children}
+      <div role="tooltip">{title}</div>
+    </div>
+  ),
+}));
+
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ConfigStore: class {
+    get() {
+      return {};
+    }
+    update() {}
+    useConfig() {
+      return () => ({});
+    }
+  },
 }));
 
 vi.mock('../api/IntelGpuDataContext', () => ({
@@ -72,9 +90,19 @@ function makeContext(overrides: Partial<IntelGpuContextValue> = {}): IntelGpuCon
     gpuPods: [],
     pluginPods: [],
     crdAvailable: false,
+    devicePluginsByKind: {},
+    resourceSlices: [],
+    deviceClasses: [],
+    resourceClaims: [],
+    draAvailable: false,
+    resourceQuotas: [],
+    quotasAvailable: false,
+    gpuTypeMappings: {},
+    watchStatus: { state: 'live', staleSince: null },
     loading: false,
     error: null,
     refresh: vi.fn(),
+    autoRefresh: vi.fn(),
     ...overrides,
   };
 }
@@ -150,4 +178,90 @@ describe('NodesPage', () => {
     render(<NodesPage />);
     expect(screen.getByText('node fetch failed')).toBeInTheDocument();
   });
+
+  it('counts only pods holding devices and sums their actual requests', () => {
+    function makePod(name: string, phase: string, amount: string, nodeName?: string): IntelGpuPod {
+      return {
+        metadata: { name, namespace: 'ml', uid: `uid-${name}` },
+        spec: {
+          nodeName,
+          containers: [{ name: 'main', resources: { requests: { 'gpu.intel.com/i915': amount } } }],
+        },
+        status: { phase },
+      };
+    }
+    vi.mocked(useIntelGpuContext).mockReturnValue(
+      makeContext({
+        loading: false,
+        gpuNodes: [gpuNode],
+        gpuPods: [
+          makePod('trainer', 'Running', '1', 'gpu-node-1'),
+          makePod('starting', 'Pending', '1', 'gpu-node-1'),
+          makePod('unscheduled', 'Pending', '1'),
+          makePod('finished', 'Succeeded', '1', 'gpu-node-1'),
+        ],
+      })
+    );
+    render(<NodesPage />);
+    // Summary row and per-node card both render the device bar
+    expect(screen.getAllByText('2/2 (100%)').length).toBeGreaterThanOrEqual(1);
+    // The GPU Type cell has its own classification tooltip
+    const tooltip = screen
+      .getAllByRole('tooltip')
+      .find(t => t.textContent?.includes('GPU (i915)')) as HTMLElement;
+    expect(tooltip).toHaveTextContent('ml/trainer (Running) — GPU (i915): 1');
+    expect(tooltip).toHaveTextContent('ml/starting (Pending) — GPU (i915): 1');
+    expect(tooltip).not.toHaveTextContent('finished');
+    expect(tooltip).not.toHaveTextContent('unscheduled');
+  });
+
+  it('shows product, memory and cards from NFD labels in the summary', () => {
+    const nfdNode: IntelGpuNode = {
+      ...gpuNode,
+      metadata: {
+        ...gpuNode.metadata,
+        labels: {
+          ...gpuNode.metadata.labels,
+          'gpu.intel.com/product': 'Max_1550',
+          'gpu.intel.com/memory.max': '137438953472',
+          'gpu.intel.com/cards': 'card0.card1',
+        },
+      },
+    };
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ gpuNodes: [nfdNode] }));
+    render(<NodesPage />);
+    expect(screen.getByText('Max 1550')).toBeInTheDocument();
+    expect(screen.getByText('128 GiB')).toBeInTheDocument();
+    expect(screen.getByText('card0, card1')).toBeInTheDocument();
+  });
+
+  it('explains the GPU type classification with its evidence', () => {
+    const nfdNode: IntelGpuNode = {
+      ...gpuNode,
+      metadata: {
+        ...gpuNode.metadata,
+        labels: { 'gpu.intel.com/device-id.0380-56c0.present': 'true' },
+      },
+    };
+    vi.mocked(useIntelGpuContext).mockReturnValue(makeContext({ gpuNodes: [nfdNode] }));
+    render(<NodesPage />);
+    expect(screen.getByText('Classification Evidence')).toBeInTheDocument();
+    expect(screen.getAllByText(/PCI device 56c0 is Data Center GPU Flex 170/).length).toBe(2);
+    expect(screen.getAllByText('Discrete').length).toBeGreaterThan(0);
+  });
+
+  it('applies user GPU type mappings from context', () => {
+    const nfdNode: IntelGpuNode = {
+      ...gpuNode,
+      metadata: {
+        ...gpuNode.metadata,
+        labels: { 'gpu.intel.com/device-id.0300-ffff.present': 'true' },
+      },
+    };
+    vi.mocked(useIntelGpuContext).mockReturnValue(
+      makeContext({ gpuNodes: [nfdNode], gpuTypeMappings: { ffff: 'integrated' } })
+    );
+    render(<NodesPage />);
+    expect(screen.getAllByText('Integrated').length).toBeGreaterThan(0);
+  });
 });
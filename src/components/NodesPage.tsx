@@ -1,63 +1,63 @@
 /**
  * NodesPage — lists all nodes with Intel GPU capabilities.
  *
- * Shows GPU type, device count, resource allocation, and pod assignments
- * for each GPU-capable node in the cluster.
+ * Shows GPU type, product and memory from NFD labels, device count, resource
+ * allocation, and pod assignments for each GPU-capable node in the cluster.
  */
 
 import {
+  LightTooltip,
   Loader,
   NameValueTable,
   SectionBox,
-  SectionHeader,
   SimpleTable,
   StatusLabel,
 } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
 import React from 'react';
 import { useIntelGpuContext } from '../api/IntelGpuDataContext';
 import {
+  classifyNodeGpu,
+  computeNodeGpuAllocation,
   formatAge,
+  formatGpuClassificationSource,
+  formatGpuProduct,
   formatGpuResourceName,
+  formatGpuResourceValue,
   formatGpuType,
   getGpuResources,
+  getNodeGpuAllocationHolders,
   getNodeGpuCount,
-  getNodeGpuType,
-  INTEL_GPU_RESOURCE,
-  INTEL_GPU_XE_RESOURCE,
+  getNodeGpuInventory,
+  GpuClassification,
+  GpuTypeMappings,
   IntelGpuNode,
+  IntelGpuPod,
   isNodeReady,
+  summarizeGpuAllocation,
 } from '../api/k8s';
+import { formatBytes } from '../api/quantity';
+import { GpuAllocationBars, GpuAllocationBarsWithBreakdown } from './GpuAllocationBars';
+import { PageToolbar } from './PageToolbar';
 
 // ---------------------------------------------------------------------------
-// GPU allocation bar component
+// Classification evidence
 // ---------------------------------------------------------------------------
 
-function GpuAllocationBar({ used, allocatable }: { used: number; allocatable: number }) {
-  if (allocatable === 0) return <span>—</span>;
-  const pct = Math.min(100, Math.round((used / allocatable) * 100));
-  const color = pct >= 90 ? '#d32f2f' : pct >= 70 ? '#f57c00' : '#0071c5';
+/** Evidence behind a node's GPU type, decisive entries first */
+function GpuClassificationEvidenceList({ classification }: { classification: GpuClassification }) {
+  if (classification.evidence.length === 0) {
+    return <span>No classification evidence — add a GPU type mapping in plugin settings</span>;
+  }
 
   return (
-    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-      <div
-        style={{
-          width: '80px',
-          height: '8px',
-          backgroundColor: '#e0e0e0',
-          borderRadius: '4px',
-          overflow: 'hidden',
-        }}
-      >
-        <div
-          style={{
-            width: `${pct}%`,
-            height: '100%',
-            backgroundColor: color,
-            borderRadius: '4px',
-          }}
-        />
-      </div>
-      <span style={{ fontSize: '12px' }}>{`${used}/${allocatable} (${pct}%)`}</span>
+    <div style={{ fontSize: '12px' }}>
+      {classification.evidence.map((e, i) => (
+        <div key={i} style={{ color: e.suggests === 'unknown' ? '#666' : undefined }}>
+          <strong>{formatGpuClassificationSource(e.source)}</strong>
+          {`: ${e.detail}`}
+          {e.suggests !== 'unknown' && ` → ${formatGpuType(e.suggests)}`}
+        </div>
+      ))}
     </div>
   );
 }
@@ -68,14 +68,20 @@ function GpuAllocationBar({ used, allocatable }: { used: number; allocatable: nu
 
 function NodeDetailCard({
   node,
+  gpuPods,
+  gpuTypeMappings,
   podsByNode,
 }: {
   node: IntelGpuNode;
+  gpuPods: IntelGpuPod[];
+  gpuTypeMappings: GpuTypeMappings;
   podsByNode: Map<string, string[]>;
 }) {
-  const gpuType = getNodeGpuType(node);
+  const classification = classifyNodeGpu(node, gpuTypeMappings);
+  const gpuType = classification.type;
   const gpuCount = getNodeGpuCount(node);
   const ready = isNodeReady(node);
+  const allocationSummary = summarizeGpuAllocation(computeNodeGpuAllocation(node, gpuPods));
 
   const capacityResources = getGpuResources(node.status?.capacity);
   const allocatableResources = getGpuResources(node.status?.allocatable);
@@ -98,20 +104,27 @@ function NodeDetailCard({
             name: 'GPU Type',
             value: formatGpuType(gpuType),
           },
+          {
+            name: 'Classification Evidence',
+            value: <GpuClassificationEvidenceList classification={classification} />,
+          },
           ...(gpuCount > 0 ? [{ name: 'GPU Devices (i915/xe)', value: String(gpuCount) }] : []),
           ...Object.entries(capacityResources).map(([key, cap]) => {
-            const total = parseInt(cap, 10);
             return {
               name: `${formatGpuResourceName(key)} (capacity)`,
-              value: String(total),
+              value: formatGpuResourceValue(key, cap),
             };
           }),
           ...Object.entries(allocatableResources).map(([key, value]) => {
             return {
               name: `${formatGpuResourceName(key)} (allocatable)`,
-              value: value ?? '0',
+              value: formatGpuResourceValue(key, value),
             };
           }),
+          {
+            name: 'Allocation',
+            value: <GpuAllocationBars summary={allocationSummary} />,
+          },
           {
             name: 'GPU Workload Pods',
             value: podsOnNode.length > 0 ? podsOnNode.join(', ') : '—',
@@ -143,7 +156,8 @@ function NodeDetailCard({
 // ---------------------------------------------------------------------------
 
 export default function NodesPage() {
-  const { gpuNodes, gpuPods, loading, error, refresh } = useIntelGpuContext();
+  const { gpuNodes, gpuPods, gpuTypeMappings, loading, error, watchStatus, refresh, autoRefresh } =
+    useIntelGpuContext();
 
   if (loading) {
     return <Loader title="Loading GPU node data..." />;
@@ -160,62 +174,36 @@ export default function NodesPage() {
 
   // Build table data for summary
   const tableData = gpuNodes.map(node => {
-    const gpuType = getNodeGpuType(node);
+    const classification = classifyNodeGpu(node, gpuTypeMappings);
     const gpuCount = getNodeGpuCount(node);
+    const inventory = getNodeGpuInventory(node);
     const ready = isNodeReady(node);
-    const capacity = node.status?.capacity ?? {};
-    const allocatable = node.status?.allocatable ?? {};
-
-    let totalCapacity = 0;
-    let totalAllocatable = 0;
-    for (const key of Object.keys(capacity)) {
-      if (key === INTEL_GPU_RESOURCE || key === INTEL_GPU_XE_RESOURCE) {
-        totalCapacity += parseInt(capacity[key] ?? '0', 10);
-        totalAllocatable += parseInt(allocatable[key] ?? '0', 10);
-      }
-    }
+    const allocationSummary = summarizeGpuAllocation(computeNodeGpuAllocation(node, gpuPods));
+    const allocationHolders = getNodeGpuAllocationHolders(node, gpuPods);
 
     const podsOnNode = podsByNode.get(node.metadata.name) ?? [];
 
     return {
       node,
-      gpuType,
+      classification,
       gpuCount,
+      inventory,
       ready,
-      totalCapacity,
-      totalAllocatable,
+      allocationSummary,
+      allocationHolders,
       podsOnNode,
     };
   });
 
   return (
     <>
-      <div
-        style={{
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-          marginBottom: '20px',
-        }}
-      >
-        <SectionHeader title="Intel GPU — Nodes" />
-        <button
-          onClick={refresh}
-          aria-label="Refresh node data"
-          style={{
-            padding: '6px 16px',
-            backgroundColor: 'transparent',
-            color: 'var(--mui-palette-primary-main, #0071c5)',
-            border: '1px solid var(--mui-palette-primary-main, #0071c5)',
-            borderRadius: '4px',
-            cursor: 'pointer',
-            fontSize: '13px',
-            fontWeight: 500,
-          }}
-        >
-          Refresh
-        </button>
-      </div>
+      <PageToolbar
+        title="Intel GPU — Nodes"
+        onRefresh={refresh}
+        onAutoRefresh={autoRefresh}
+        refreshLabel="Refresh node data"
+        watchStatus={watchStatus}
+      />
 
       {error && (
         <SectionBox title="Error">
@@ -262,14 +250,33 @@ export default function NodesPage() {
                   </StatusLabel>
                 ),
               },
-              { label: 'GPU Type', getter: d => formatGpuType(d.gpuType) },
+              {
+                label: 'GPU Type',
+                getter: d => (
+                  <LightTooltip
+                    title={<GpuClassificationEvidenceList classification={d.classification} />}
+                  >
+                    <span>{formatGpuType(d.classification.type)}</span>
+                  </LightTooltip>
+                ),
+              },
+              { label: 'Product', getter: d => formatGpuProduct(d.inventory) ?? '—' },
               { label: 'GPU Devices', getter: d => String(d.gpuCount || '—') },
+              {
+                label: 'Memory / GPU',
+                getter: d =>
+                  d.inventory.memoryBytes !== null ? formatBytes(d.inventory.memoryBytes) : '—',
+              },
+              {
+                label: 'Cards',
+                getter: d => (d.inventory.cards.length > 0 ? d.inventory.cards.join(', ') : '—'),
+              },
               {
                 label: 'Allocation',
                 getter: d => (
-                  <GpuAllocationBar
-                    used={d.podsOnNode.length}
-                    allocatable={d.totalAllocatable || d.gpuCount}
+                  <GpuAllocationBarsWithBreakdown
+                    summary={d.allocationSummary}
+                    holders={d.allocationHolders}
                   />
                 ),
               },
@@ -286,6 +293,8 @@ export default function NodesPage() {
         <NodeDetailCard
           key={node.metadata.uid ?? node.metadata.name}
           node={node}
+          gpuPods={gpuPods}
+          gpuTypeMappings={gpuTypeMappings}
           podsByNode={podsByNode}
         />
       ))}
@@ -60,6 +60,18 @@ vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
   PercentageBar: () => <div data-testid="percentage-bar" />,
 }));
 
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ConfigStore: class {
+    get() {
+      return {};
+    }
+    update() {}
+    useConfig() {
+      return () => ({});
+    }
+  },
+}));
+
 vi.mock('../api/IntelGpuDataContext', () => ({
   useIntelGpuContext: vi.fn(),
 }));
@@ -72,9 +84,19 @@ function makeContext(overrides: Partial<IntelGpuContextValue> = {}): IntelGpuCon
     gpuPods: [],
     pluginPods: [],
     crdAvailable: false,
+    devicePluginsByKind: {},
+    resourceSlices: [],
+    deviceClasses: [],
+    resourceClaims: [],
+    draAvailable: false,
+    resourceQuotas: [],
+    quotasAvailable: false,
+    gpuTypeMappings: {},
+    watchStatus: { state: 'live', staleSince: null },
     loading: false,
     error: null,
     refresh: vi.fn(),
+    autoRefresh: vi.fn(),
     ...overrides,
   };
 }
@@ -195,4 +217,46 @@ describe('OverviewPage', () => {
     expect(screen.getByText('Active GPU Pods')).toBeInTheDocument();
     expect(screen.getByText('workload-pod-1')).toBeInTheDocument();
   });
+
+  it('shows allocation for devices, millicores and memory', () => {
+    const resources = {
+      'gpu.intel.com/i915': '2',
+      'gpu.intel.com/millicores': '2000',
+      'gpu.intel.com/memory.max': '8Gi',
+    };
+    const node: IntelGpuNode = {
+      metadata: { name: 'gpu-node-1' },
+      status: { capacity: resources, allocatable: resources },
+    };
+    const pod: IntelGpuPod = {
+      metadata: { name: 'shared-pod', namespace: 'default', uid: 'uid-sp-1' },
+      spec: {
+        nodeName: 'gpu-node-1',
+        containers: [
+          {
+            name: 'main',
+            resources: {
+              requests: {
+                'gpu.intel.com/i915': '1',
+                'gpu.intel.com/millicores': '500',
+                'gpu.intel.com/memory.max': '4Gi',
+              },
+            },
+          },
+        ],
+      },
+      status: { phase: 'Running' },
+    };
+    vi.mocked(useIntelGpuContext).mockReturnValue(
+      makeContext({ loading: false, pluginInstalled: true, gpuNodes: [node], gpuPods: [pod] })
+    );
+    render(<OverviewPage />);
+    expect(screen.getByText('GPU Allocation')).toBeInTheDocument();
+    expect(screen.getByText('GPU Devices (50%)')).toBeInTheDocument();
+    expect(screen.getByText('GPU Millicores (25%)')).toBeInTheDocument();
+    expect(screen.getByText('GPU Memory (50%)')).toBeInTheDocument();
+    expect(
+      screen.getByText('4 GiB in use / 8 GiB allocatable (8 GiB capacity, 4 GiB free)')
+    ).toBeInTheDocument();
+  });
 });
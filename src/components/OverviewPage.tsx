@@ -10,25 +10,29 @@ import {
   NameValueTable,
   PercentageBar,
   SectionBox,
-  SectionHeader,
   SimpleTable,
   StatusLabel,
 } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
 import React from 'react';
 import { useIntelGpuContext } from '../api/IntelGpuDataContext';
 import {
+  computeClusterGpuAllocation,
   formatAge,
+  formatGpuAllocationCategory,
+  formatGpuAllocationValue,
+  formatPodGpuRequests,
   getNodeGpuCount,
   getNodeGpuType,
-  getPodGpuRequests,
-  INTEL_GPU_RESOURCE,
-  INTEL_GPU_RESOURCE_PREFIX,
-  INTEL_GPU_XE_RESOURCE,
+  GPU_ALLOCATION_CATEGORIES,
   isNodeReady,
   isPodReady,
   pluginStatusText,
   pluginStatusToStatus,
+  summarizeGpuAllocation,
 } from '../api/k8s';
+import { useUsageThresholds } from '../api/settings';
+import { getUsageColor } from './GpuAllocationBars';
+import { PageToolbar } from './PageToolbar';
 
 // ---------------------------------------------------------------------------
 // GPU type distribution chart
@@ -59,10 +63,14 @@ export default function OverviewPage() {
     gpuPods,
     pluginPods,
     crdAvailable,
+    gpuTypeMappings,
     loading,
     error,
+    watchStatus,
     refresh,
+    autoRefresh,
   } = useIntelGpuContext();
+  const thresholds = useUsageThresholds();
 
   if (loading) {
     return <Loader title="Loading Intel GPU data..." />;
@@ -76,7 +84,7 @@ export default function OverviewPage() {
   let readyNodeCount = 0;
 
   for (const node of gpuNodes) {
-    const type = getNodeGpuType(node);
+    const type = getNodeGpuType(node, gpuTypeMappings);
     if (type === 'discrete') discreteCount++;
     else if (type === 'integrated') integratedCount++;
     else unknownCount++;
@@ -85,35 +93,11 @@ export default function OverviewPage() {
     if (isNodeReady(node)) readyNodeCount++;
   }
 
-  // GPU allocation summary: sum capacity vs allocatable across all GPU nodes
-  let totalCapacityGpus = 0;
-  let totalAllocatableGpus = 0;
-  let totalAllocatedGpus = 0;
-
-  for (const node of gpuNodes) {
-    const capacity = node.status?.capacity ?? {};
-    const allocatable = node.status?.allocatable ?? {};
-    for (const key of Object.keys(capacity)) {
-      if (key === INTEL_GPU_RESOURCE || key === INTEL_GPU_XE_RESOURCE) {
-        totalCapacityGpus += parseInt(capacity[key] ?? '0', 10);
-        totalAllocatableGpus += parseInt(allocatable[key] ?? '0', 10);
-      }
-    }
-  }
-
-  // Count GPUs in use from pods
-  for (const pod of gpuPods) {
-    if (pod.status?.phase !== 'Running') continue;
-    const requests = getPodGpuRequests(pod);
-    for (const [key, value] of Object.entries(requests)) {
-      if (key === INTEL_GPU_RESOURCE || key === INTEL_GPU_XE_RESOURCE) {
-        totalAllocatedGpus += parseInt(value, 10) || 0;
-      }
-    }
-  }
-
-  const gpuUtilizationPct =
-    totalCapacityGpus > 0 ? Math.round((totalAllocatedGpus / totalCapacityGpus) * 100) : 0;
+  // GPU allocation summary: devices, millicores and memory across all GPU nodes
+  const allocationSummary = summarizeGpuAllocation(computeClusterGpuAllocation(gpuNodes, gpuPods));
+  const allocationCategories = GPU_ALLOCATION_CATEGORIES.filter(
+    c => (allocationSummary[c]?.allocatable ?? 0) > 0
+  );
 
   const chartData = gpuTypeChartData(discreteCount, integratedCount, unknownCount);
   const totalGpuNodes = gpuNodes.length;
@@ -131,32 +115,13 @@ export default function OverviewPage() {
 
   return (
     <>
-      <div
-        style={{
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-          marginBottom: '20px',
-        }}
-      >
-        <SectionHeader title="Intel GPU — Overview" />
-        <button
-          onClick={refresh}
-          aria-label="Refresh Intel GPU data"
-          style={{
-            padding: '6px 16px',
-            backgroundColor: 'transparent',
-            color: 'var(--mui-palette-primary-main, #0071c5)',
-            border: '1px solid var(--mui-palette-primary-main, #0071c5)',
-            borderRadius: '4px',
-            cursor: 'pointer',
-            fontSize: '13px',
-            fontWeight: 500,
-          }}
-        >
-          Refresh
-        </button>
-      </div>
+      <PageToolbar
+        title="Intel GPU — Overview"
+        onRefresh={refresh}
+        onAutoRefresh={autoRefresh}
+        refreshLabel="Refresh Intel GPU data"
+        watchStatus={watchStatus}
+      />
 
       {/* Error state */}
       {error && (
@@ -311,47 +276,52 @@ export default function OverviewPage() {
         />
       </SectionBox>
 
-      {/* GPU allocation summary */}
-      {totalCapacityGpus > 0 && (
+      {/* GPU allocation summary — one bar per resource category */}
+      {allocationCategories.length > 0 && (
         <SectionBox title="GPU Allocation">
-          <div style={{ marginBottom: '16px' }}>
-            <div
-              style={{
-                marginBottom: '8px',
-                fontSize: '14px',
-                color: 'var(--mui-palette-text-secondary)',
-              }}
-            >
-              GPU Utilization ({gpuUtilizationPct}%)
-            </div>
-            <PercentageBar
-              data={[
-                { name: 'In Use', value: totalAllocatedGpus, fill: '#0071c5' },
-                {
-                  name: 'Available',
-                  value: totalAllocatableGpus - totalAllocatedGpus,
-                  fill: '#e0e0e0',
-                },
-              ]}
-              total={totalAllocatableGpus}
-            />
-          </div>
+          {allocationCategories.map(category => {
+            const { used, allocatable } = allocationSummary[category]!;
+            const pct = Math.round((used / allocatable) * 100);
+            return (
+              <div key={category} style={{ marginBottom: '16px' }}>
+                <div
+                  style={{
+                    marginBottom: '8px',
+                    fontSize: '14px',
+                    color: 'var(--mui-palette-text-secondary)',
+                  }}
+                >
+                  {`${formatGpuAllocationCategory(category)} (${pct}%)`}
+                </div>
+                <PercentageBar
+                  data={[
+                    { name: 'In Use', value: used, fill: getUsageColor(pct, thresholds) },
+                    {
+                      name: 'Available',
+                      value: Math.max(0, allocatable - used),
+                      fill: '#e0e0e0',
+                    },
+                  ]}
+                  total={allocatable}
+                />
+              </div>
+            );
+          })}
           <NameValueTable
-            rows={[
-              { name: 'Total Capacity (GPU devices)', value: String(totalCapacityGpus) },
-              { name: 'Allocatable', value: String(totalAllocatableGpus) },
-              { name: 'In Use', value: String(totalAllocatedGpus) },
-              {
-                name: 'Free',
+            rows={allocationCategories.map(category => {
+              const { capacity, used, allocatable } = allocationSummary[category]!;
+              const format = (v: number) => formatGpuAllocationValue(category, v);
+              const free = allocatable - used;
+              return {
+                name: formatGpuAllocationCategory(category),
                 value: (
-                  <StatusLabel
-                    status={totalAllocatableGpus - totalAllocatedGpus > 0 ? 'success' : 'warning'}
-                  >
-                    {totalAllocatableGpus - totalAllocatedGpus}
+                  <StatusLabel status={free > 0 ? 'success' : 'warning'}>
+                    {`${format(used)} in use / ${format(allocatable)} allocatable ` +
+                      `(${format(capacity)} capacity, ${format(Math.max(0, free))} free)`}
                   </StatusLabel>
                 ),
-              },
-            ]}
+              };
+            })}
           />
         </SectionBox>
       )}
@@ -399,15 +369,7 @@ export default function OverviewPage() {
               { label: 'Node', getter: p => p.spec?.nodeName ?? '—' },
               {
                 label: 'GPU Request',
-                getter: p => {
-                  const reqs = getPodGpuRequests(p);
-                  const parts: string[] = [];
-                  for (const [key, val] of Object.entries(reqs)) {
-                    const shortKey = key.replace(INTEL_GPU_RESOURCE_PREFIX, '');
-                    parts.push(`${shortKey}: ${val}`);
-                  }
-                  return parts.join(', ') || '—';
-                },
+                getter: p => formatPodGpuRequests(p) || '—',
               },
               { label: 'Age', getter: p => formatAge(p.metadata.creationTimestamp) },
             ]}
@@ -0,0 +1,108 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { saveAutoRefreshInterval, usePluginSettings } from '../api/settings';
+import { PageToolbar } from './PageToolbar';
+
+vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
+  SectionHeader: ({ title }: { title: string }) => <h1>{title}</h1>,
+  StatusLabel: ({ status, children }: { status: string; children?: React.ReactNode }) => (
+    <span data-status={status}>{children}</span>
+  ),
+}));
+
+vi.mock('../api/settings', async importOriginal => ({
+  ...(await importOriginal<typeof import('../api/settings')>()),
+  usePluginSettings: vi.fn(() => ({})),
+  saveAutoRefreshInterval: vi.fn(),
+}));
+
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ConfigStore: class {
+    get() {
+      return {};
+    }
+    update() {}
+    useConfig() {
+      return () => ({});
+    }
+  },
+}));
+
+function setTabHidden(hidden: boolean) {
+  Object.defineProperty(document, 'hidden', { configurable: true, value: hidden });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+describe('PageToolbar', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(usePluginSettings).mockReturnValue({});
+  });
+
+  afterEach(() => {
+    setTabHidden(false);
+    vi.useRealTimers();
+  });
+
+  it('renders the title and calls onRefresh from the Refresh button', () => {
+    const onRefresh = vi.fn();
+    render(<PageToolbar title="Intel GPU — Pods" onRefresh={onRefresh} refreshLabel="Refresh" />);
+    expect(screen.getByText('Intel GPU — Pods')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Refresh' }));
+    expect(onRefresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('saves the selected auto-refresh interval', () => {
+    render(<PageToolbar title="T" onRefresh={vi.fn()} refreshLabel="Refresh" />);
+    fireEvent.change(screen.getByLabelText('Auto-refresh'), { target: { value: '60000' } });
+    expect(saveAutoRefreshInterval).toHaveBeenCalledWith(60_000);
+  });
+
+  it('does not auto-refresh when the interval is off', () => {
+    const onRefresh = vi.fn();
+    render(<PageToolbar title="T" onRefresh={onRefresh} refreshLabel="Refresh" />);
+    act(() => vi.advanceTimersByTime(600_000));
+    expect(onRefresh).not.toHaveBeenCalled();
+  });
+
+  it('refreshes on the saved interval and pauses while the tab is hidden', () => {
+    vi.mocked(usePluginSettings).mockReturnValue({ autoRefreshIntervalMs: 10_000 });
+    const onRefresh = vi.fn();
+    render(<PageToolbar title="T" onRefresh={onRefresh} refreshLabel="Refresh" />);
+    expect(screen.getByLabelText('Auto-refresh')).toHaveValue('10000');
+
+    act(() => vi.advanceTimersByTime(20_000));
+    expect(onRefresh).toHaveBeenCalledTimes(2);
+
+    act(() => setTabHidden(true));
+    act(() => vi.advanceTimersByTime(60_000));
+    expect(onRefresh).toHaveBeenCalledTimes(2);
+
+    // Overdue on return, so it refreshes straight away
+    act(() => setTabHidden(false));
+    expect(onRefresh).toHaveBeenCalledTimes(3);
+  });
+
+  it('calls onAutoRefresh on the interval and onRefresh from the button', () => {
+    vi.mocked(usePluginSettings).mockReturnValue({ autoRefreshIntervalMs: 10_000 });
+    const onRefresh = vi.fn();
+    const onAutoRefresh = vi.fn();
+    render(
+      <PageToolbar
+        title="T"
+        onRefresh={onRefresh}
+        onAutoRefresh={onAutoRefresh}
+        refreshLabel="Refresh"
+      />
+    );
+
+    act(() => vi.advanceTimersByTime(10_000));
+    expect(onAutoRefresh).toHaveBeenCalledTimes(1);
+    expect(onRefresh).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Refresh' }));
+    expect(onRefresh).toHaveBeenCalledTimes(1);
+    expect(onAutoRefresh).toHaveBeenCalledTimes(1);
+  });
+});
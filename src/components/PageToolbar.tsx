@@ -0,0 +1,153 @@
+/**
+ * PageToolbar — shared header for the Intel GPU pages.
+ *
+ * Renders the page title, the live indicator for watched data, an
+ * auto-refresh selector and the Refresh button. The auto-refresh choice is
+ * saved in plugin settings so it applies to every page and survives reloads;
+ * the timer pauses while the browser tab is hidden.
+ */
+
+import { SectionHeader } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
+import React, { useEffect, useRef } from 'react';
+import {
+  AUTO_REFRESH_INTERVALS,
+  getAutoRefreshInterval,
+  saveAutoRefreshInterval,
+  usePluginSettings,
+} from '../api/settings';
+import { WatchStatus } from '../api/watch';
+import { LiveIndicator } from './LiveIndicator';
+
+// ---------------------------------------------------------------------------
+// Auto-refresh timer
+// ---------------------------------------------------------------------------
+
+/**
+ * Call `onRefresh` every `intervalMs` while the tab is visible. When the tab
+ * becomes visible again after a full interval or more, refresh immediately.
+ */
+export function useAutoRefresh(onRefresh: () => void, intervalMs: number) {
+  const onRefreshRef = useRef(onRefresh);
+  useEffect(() => {
+    onRefreshRef.current = onRefresh;
+  }, [onRefresh]);
+
+  useEffect(() => {
+    if (intervalMs <= 0) return;
+
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let lastRun = Date.now();
+
+    const tick = () => {
+      lastRun = Date.now();
+      onRefreshRef.current();
+    };
+    const start = () => {
+      if (!timer) timer = setInterval(tick, intervalMs);
+    };
+    const stop = () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    };
+    const onVisibilityChange = () => {
+      if (document.hidden) {
+        stop();
+        return;
+      }
+      if (Date.now() - lastRun >= intervalMs) tick();
+      start();
+    };
+
+    if (!document.hidden) start();
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      stop();
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [intervalMs]);
+}
+
+// ---------------------------------------------------------------------------
+// Toolbar
+// ---------------------------------------------------------------------------
+
+const controlStyle: React.CSSProperties = {
+  padding: '6px 16px',
+  backgroundColor: 'transparent',
+  color: 'var(--mui-palette-primary-main, #0071c5)',
+  border: '1px solid var(--mui-palette-primary-main, #0071c5)',
+  borderRadius: '4px',
+  fontSize: '13px',
+  fontWeight: 500,
+};
+
+export function PageToolbar({
+  title,
+  onRefresh,
+  onAutoRefresh,
+  refreshLabel,
+  refreshing = false,
+  disabled = false,
+  watchStatus,
+}: {
+  title: string;
+  onRefresh: () => void;
+  /**
+   * Called by the auto-refresh timer instead of `onRefresh`, e.g. to re-list
+   * only what no watch keeps current; defaults to `onRefresh`
+   */
+  onAutoRefresh?: () => void;
+  /** Accessible label of the Refresh button, e.g. "Refresh pod data" */
+  refreshLabel: string;
+  refreshing?: boolean;
+  disabled?: boolean;
+  /** Shown as a live / stale indicator when the page displays watched data */
+  watchStatus?: WatchStatus;
+}) {
+  const intervalMs = getAutoRefreshInterval(usePluginSettings());
+  useAutoRefresh(onAutoRefresh ?? onRefresh, intervalMs);
+
+  const inactive = refreshing || disabled;
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: '20px',
+      }}
+    >
+      <SectionHeader title={title} />
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+        {watchStatus && <LiveIndicator status={watchStatus} />}
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px' }}>
+          Auto-refresh
+          <select
+            value={intervalMs}
+            onChange={e => saveAutoRefreshInterval(Number(e.target.value))}
+            style={{ ...controlStyle, padding: '5px 8px', cursor: 'pointer' }}
+          >
+            {AUTO_REFRESH_INTERVALS.map(option => (
+              <option key={option.ms} value={option.ms}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={onRefresh}
+          disabled={inactive}
+          aria-label={refreshLabel}
+          style={{
+            ...controlStyle,
+            cursor: inactive ? 'not-allowed' : 'pointer',
+            opacity: inactive ? 0.6 : 1,
+          }}
+        >
+          {refreshing ? 'Refreshing…' : 'Refresh'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,437 @@
+/**
+ * PluginSettings — rendered on the plugin's entry in Headlamp's
+ * Settings → Plugins page via registerPluginSettings.
+ *
+ * Headlamp owns the Save button and persists `data` to the plugin's
+ * ConfigStore, which the rest of the plugin reads through api/settings.
+ */
+
+import { PluginSettingsDetailsProps } from '@kinvolk/headlamp-plugin/lib';
+import React, { useState } from 'react';
+import { GAS_CONTAINER_CARDS_ANNOTATION, INTEL_DEVICE_PLUGINS_NAMESPACE } from '../api/k8s';
+import {
+  DEFAULT_TEXTFILE_METRICS,
+  formatGpuMetricQueries,
+  GPU_READING_FIELDS,
+  parseGpuMetricQueries,
+} from '../api/metrics';
+import {
+  DEFAULT_PROMETHEUS_NAMESPACE,
+  DEFAULT_PROMETHEUS_PORT,
+  DEFAULT_PROMETHEUS_SERVICES,
+} from '../api/prometheus';
+import {
+  DEFAULT_IDLE_GPU_THRESHOLDS,
+  DEFAULT_USAGE_THRESHOLDS,
+  formatGpuTypeMappings,
+  formatListText,
+  IdleGpuThresholds,
+  IntelGpuPluginSettings,
+  isValidUsageThresholds,
+  NodeTableColumnSettings,
+  parseGpuTypeMappings,
+  parseListText,
+  PodTableColumnSettings,
+  PrometheusSettings,
+  TextfileMetricSettings,
+  UsageThresholds,
+} from '../api/settings';
+
+// ---------------------------------------------------------------------------
+// Layout helpers
+// ---------------------------------------------------------------------------
+
+const hintStyle: React.CSSProperties = { fontSize: '13px', color: '#666' };
+const inputStyle: React.CSSProperties = { fontSize: '13px', padding: '6px' };
+const textareaStyle: React.CSSProperties = { ...inputStyle, fontFamily: 'monospace' };
+
+function SettingsGroup({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <fieldset
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        border: 'none',
+        padding: 0,
+        margin: 0,
+      }}
+    >
+      <legend style={{ fontWeight: 600, marginBottom: '8px' }}>{title}</legend>
+      {children}
+    </fieldset>
+  );
+}
+
+function TextField({
+  id,
+  label,
+  value,
+  placeholder,
+  type = 'text',
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  placeholder?: string;
+  type?: 'text' | 'number';
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+      <label htmlFor={id} style={{ minWidth: '140px', fontSize: '13px' }}>
+        {label}
+      </label>
+      <input
+        id={id}
+        type={type}
+        value={value}
+        placeholder={placeholder}
+        onChange={e => onChange(e.target.value)}
+        style={{ ...inputStyle, flex: 1 }}
+      />
+    </div>
+  );
+}
+
+function CheckboxField({
+  id,
+  label,
+  checked,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+      <input id={id} type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} />
+      <label htmlFor={id} style={{ fontSize: '13px' }}>
+        {label}
+      </label>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Settings panel
+// ---------------------------------------------------------------------------
+
+export default function PluginSettings({ data, onDataChange }: PluginSettingsDetailsProps) {
+  const settings = (data ?? {}) as IntelGpuPluginSettings;
+  const [mappingText, setMappingText] = useState(() =>
+    formatGpuTypeMappings(settings.gpuTypeMappings)
+  );
+  const [selectorText, setSelectorText] = useState(() =>
+    formatListText(settings.pluginPodSelectors)
+  );
+  const [namespaceText, setNamespaceText] = useState(() =>
+    formatListText(settings.pluginPodNamespaces)
+  );
+  const [queryText, setQueryText] = useState(() => formatGpuMetricQueries(settings.metricQueries));
+  const { invalid } = parseGpuTypeMappings(mappingText);
+  const { invalid: invalidQueries } = parseGpuMetricQueries(queryText);
+  const prometheus = settings.prometheus ?? {};
+  const textfileMetrics = settings.textfileMetrics ?? {};
+  const thresholds = settings.thresholds ?? {};
+  const idleThresholds = settings.idleThresholds ?? {};
+  const nodeTableColumns = settings.nodeTableColumns ?? {};
+  const podTableColumns = settings.podTableColumns ?? {};
+  const thresholdsValid = isValidUsageThresholds({ ...DEFAULT_USAGE_THRESHOLDS, ...thresholds });
+
+  function update(changes: Partial<IntelGpuPluginSettings>) {
+    onDataChange?.({ ...settings, ...changes });
+  }
+
+  function onMappingChange(text: string) {
+    setMappingText(text);
+    const { mappings } = parseGpuTypeMappings(text);
+    update({ gpuTypeMappings: mappings });
+  }
+
+  function onPrometheusChange(key: keyof PrometheusSettings, value: string) {
+    update({ prometheus: { ...prometheus, [key]: value.trim() || undefined } });
+  }
+
+  function onTextfileMetricChange(key: keyof TextfileMetricSettings, value: string) {
+    update({ textfileMetrics: { ...textfileMetrics, [key]: value.trim() || undefined } });
+  }
+
+  function onThresholdChange(key: keyof UsageThresholds, value: string) {
+    const percent = value === '' ? undefined : Number(value);
+    update({ thresholds: { ...thresholds, [key]: percent } });
+  }
+
+  function onIdleThresholdChange(key: keyof IdleGpuThresholds, value: string) {
+    const percent = value === '' ? undefined : Number(value);
+    update({ idleThresholds: { ...idleThresholds, [key]: percent } });
+  }
+
+  function onNodeTableColumnChange(key: keyof NodeTableColumnSettings, checked: boolean) {
+    update({ nodeTableColumns: { ...nodeTableColumns, [key]: checked || undefined } });
+  }
+
+  function onPodTableColumnChange(key: keyof PodTableColumnSettings, checked: boolean) {
+    update({ podTableColumns: { ...podTableColumns, [key]: checked || undefined } });
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '24px', maxWidth: '600px' }}>
+      <SettingsGroup title="GPU type mappings">
+        <label htmlFor="intel-gpu-type-mappings" style={hintStyle}>
+          One entry per line as <code>key=discrete</code> or <code>key=integrated</code>, where key
+          is a PCI device ID (e.g. <code>56c0</code>) or a product name (e.g. <code>Flex 170</code>
+          ). Mappings take precedence over all other classification evidence.
+        </label>
+        <textarea
+          id="intel-gpu-type-mappings"
+          rows={6}
+          value={mappingText}
+          onChange={e => onMappingChange(e.target.value)}
+          style={textareaStyle}
+        />
+        {invalid.length > 0 && (
+          <span role="alert" style={{ fontSize: '13px', color: '#d32f2f' }}>
+            {`Ignored invalid lines: ${invalid.join('; ')}`}
+          </span>
+        )}
+      </SettingsGroup>
+
+      <SettingsGroup title="Prometheus">
+        <span style={hintStyle}>
+          Reached through the Kubernetes API service proxy. Leave fields empty to try the
+          kube-prometheus-stack service names in the <code>{DEFAULT_PROMETHEUS_NAMESPACE}</code>{' '}
+          namespace, then Prometheus, Thanos Query and VictoriaMetrics services anywhere in the
+          cluster. A service or proxy path turns the cluster-wide search off; a proxy path overrides
+          the other fields.
+        </span>
+        <TextField
+          id="intel-gpu-prometheus-namespace"
+          label="Namespace"
+          value={prometheus.namespace ?? ''}
+          placeholder={DEFAULT_PROMETHEUS_NAMESPACE}
+          onChange={v => onPrometheusChange('namespace', v)}
+        />
+        <TextField
+          id="intel-gpu-prometheus-service"
+          label="Service"
+          value={prometheus.service ?? ''}
+          placeholder={DEFAULT_PROMETHEUS_SERVICES[0]}
+          onChange={v => onPrometheusChange('service', v)}
+        />
+        <TextField
+          id="intel-gpu-prometheus-port"
+          label="Port"
+          value={prometheus.port ?? ''}
+          placeholder={DEFAULT_PROMETHEUS_PORT}
+          onChange={v => onPrometheusChange('port', v)}
+        />
+        <TextField
+          id="intel-gpu-prometheus-proxy-path"
+          label="Proxy path"
+          value={prometheus.proxyPath ?? ''}
+          placeholder="/api/v1/namespaces/monitoring/services/prometheus:9090/proxy"
+          onChange={v => onPrometheusChange('proxyPath', v)}
+        />
+      </SettingsGroup>
+
+      <SettingsGroup title="Custom PromQL metrics">
+        <label htmlFor="intel-gpu-metric-queries" style={hintStyle}>
+          For exporters the plugin does not read itself: one <code>reading=query</code> entry per
+          line. Each result series is one GPU, identified by a <code>node</code> or{' '}
+          <code>instance</code> label and a <code>pci_address</code> or <code>pci_bdf</code> label.
+          Custom queries take precedence over the built-in sources. Readings:{' '}
+          {GPU_READING_FIELDS.join(', ')}.
+        </label>
+        <textarea
+          id="intel-gpu-metric-queries"
+          rows={4}
+          value={queryText}
+          placeholder="gpuUtilizationPercent=avg by (instance, pci_address) (my_gpu_busy_percent)"
+          onChange={e => {
+            setQueryText(e.target.value);
+            update({ metricQueries: parseGpuMetricQueries(e.target.value).queries });
+          }}
+          style={textareaStyle}
+        />
+        {invalidQueries.length > 0 && (
+          <span role="alert" style={{ fontSize: '13px', color: '#d32f2f' }}>
+            {`Ignored invalid lines: ${invalidQueries.join('; ')}`}
+          </span>
+        )}
+      </SettingsGroup>
+
+      <SettingsGroup title="Textfile collector metrics">
+        <span style={hintStyle}>
+          Names of the GPU frequency and throttle metrics written by a node-exporter textfile
+          collector sidecar. Frequency types are <code>act</code>, <code>cur</code>,{' '}
+          <code>min</code>, <code>max</code> and <code>boost</code>; a throttle series is 1 while
+          its reason is active. Leave fields empty for the defaults.
+        </span>
+        <TextField
+          id="intel-gpu-textfile-frequency-metric"
+          label="Frequency metric"
+          value={textfileMetrics.frequencyMetric ?? ''}
+          placeholder={DEFAULT_TEXTFILE_METRICS.frequencyMetric}
+          onChange={v => onTextfileMetricChange('frequencyMetric', v)}
+        />
+        <TextField
+          id="intel-gpu-textfile-frequency-type-label"
+          label="Frequency type label"
+          value={textfileMetrics.frequencyTypeLabel ?? ''}
+          placeholder={DEFAULT_TEXTFILE_METRICS.frequencyTypeLabel}
+          onChange={v => onTextfileMetricChange('frequencyTypeLabel', v)}
+        />
+        <TextField
+          id="intel-gpu-textfile-throttle-metric"
+          label="Throttle metric"
+          value={textfileMetrics.throttleMetric ?? ''}
+          placeholder={DEFAULT_TEXTFILE_METRICS.throttleMetric}
+          onChange={v => onTextfileMetricChange('throttleMetric', v)}
+        />
+        <TextField
+          id="intel-gpu-textfile-throttle-reason-label"
+          label="Throttle reason label"
+          value={textfileMetrics.throttleReasonLabel ?? ''}
+          placeholder={DEFAULT_TEXTFILE_METRICS.throttleReasonLabel}
+          onChange={v => onTextfileMetricChange('throttleReasonLabel', v)}
+        />
+      </SettingsGroup>
+
+      <SettingsGroup title="Device plugin pods">
+        <span style={hintStyle}>
+          Plugin pods are found by their standard labels and in the{' '}
+          <code>{INTEL_DEVICE_PLUGINS_NAMESPACE}</code> namespace. Add label selectors (every
+          matching pod counts as a plugin pod) or namespaces, one per line.
+        </span>
+        <label htmlFor="intel-gpu-plugin-pod-selectors" style={{ fontSize: '13px' }}>
+          Label selectors
+        </label>
+        <textarea
+          id="intel-gpu-plugin-pod-selectors"
+          rows={3}
+          value={selectorText}
+          placeholder="app=my-gpu-plugin"
+          onChange={e => {
+            setSelectorText(e.target.value);
+            update({ pluginPodSelectors: parseListText(e.target.value) });
+          }}
+          style={textareaStyle}
+        />
+        <label htmlFor="intel-gpu-plugin-pod-namespaces" style={{ fontSize: '13px' }}>
+          Namespaces
+        </label>
+        <textarea
+          id="intel-gpu-plugin-pod-namespaces"
+          rows={3}
+          value={namespaceText}
+          placeholder="kube-system"
+          onChange={e => {
+            setNamespaceText(e.target.value);
+            update({ pluginPodNamespaces: parseListText(e.target.value) });
+          }}
+          style={textareaStyle}
+        />
+      </SettingsGroup>
+
+      <SettingsGroup title="Usage thresholds">
+        <span style={hintStyle}>
+          Allocation and power bars turn orange at the warning percentage and red at the critical
+          percentage.
+        </span>
+        <TextField
+          id="intel-gpu-threshold-warning"
+          label="Warning (%)"
+          type="number"
+          value={thresholds.warning === undefined ? '' : String(thresholds.warning)}
+          placeholder={String(DEFAULT_USAGE_THRESHOLDS.warning)}
+          onChange={v => onThresholdChange('warning', v)}
+        />
+        <TextField
+          id="intel-gpu-threshold-critical"
+          label="Critical (%)"
+          type="number"
+          value={thresholds.critical === undefined ? '' : String(thresholds.critical)}
+          placeholder={String(DEFAULT_USAGE_THRESHOLDS.critical)}
+          onChange={v => onThresholdChange('critical', v)}
+        />
+        {!thresholdsValid && (
+          <span role="alert" style={{ fontSize: '13px', color: '#d32f2f' }}>
+            Warning must be above 0 and below critical, and critical at most 100; the 70%/90%
+            defaults are used until this is fixed.
+          </span>
+        )}
+      </SettingsGroup>
+
+      <SettingsGroup title="Idle GPU detection">
+        <span style={hintStyle}>
+          An allocated GPU counts as idle while its power stays at or below this share of its TDP,
+          or, where XPU Manager reports it, its utilization at or below this percentage.
+        </span>
+        <TextField
+          id="intel-gpu-idle-power"
+          label="Power (% of TDP)"
+          type="number"
+          value={
+            idleThresholds.powerPercent === undefined ? '' : String(idleThresholds.powerPercent)
+          }
+          placeholder={String(DEFAULT_IDLE_GPU_THRESHOLDS.powerPercent)}
+          onChange={v => onIdleThresholdChange('powerPercent', v)}
+        />
+        <TextField
+          id="intel-gpu-idle-utilization"
+          label="Utilization (%)"
+          type="number"
+          value={
+            idleThresholds.utilizationPercent === undefined
+              ? ''
+              : String(idleThresholds.utilizationPercent)
+          }
+          placeholder={String(DEFAULT_IDLE_GPU_THRESHOLDS.utilizationPercent)}
+          onChange={v => onIdleThresholdChange('utilizationPercent', v)}
+        />
+      </SettingsGroup>
+
+      <SettingsGroup title="Nodes table columns">
+        <span style={hintStyle}>
+          Extra columns for the Nodes list. Power and temperature come from Prometheus; allocation
+          counts the GPU devices requested by running pods.
+        </span>
+        <CheckboxField
+          id="intel-gpu-node-column-power"
+          label="GPU Power"
+          checked={nodeTableColumns.power ?? false}
+          onChange={c => onNodeTableColumnChange('power', c)}
+        />
+        <CheckboxField
+          id="intel-gpu-node-column-temperature"
+          label="GPU Temp"
+          checked={nodeTableColumns.temperature ?? false}
+          onChange={c => onNodeTableColumnChange('temperature', c)}
+        />
+        <CheckboxField
+          id="intel-gpu-node-column-allocated"
+          label="GPU Allocated"
+          checked={nodeTableColumns.allocated ?? false}
+          onChange={c => onNodeTableColumnChange('allocated', c)}
+        />
+      </SettingsGroup>
+
+      <SettingsGroup title="Pods table columns">
+        <span style={hintStyle}>
+          The Intel GPU column is always shown. GPU Card lists the cards GPU Aware Scheduling
+          assigned, from the pod's <code>{GAS_CONTAINER_CARDS_ANNOTATION}</code> annotation.
+        </span>
+        <CheckboxField
+          id="intel-gpu-pod-column-card"
+          label="GPU Card"
+          checked={podTableColumns.gpuCard ?? false}
+          onChange={c => onPodTableColumnChange('gpuCard', c)}
+        />
+      </SettingsGroup>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
+import { ApiProxy } from '@kinvolk/headlamp-plugin/lib';
 import { render, screen } from '@testing-library/react';
 import React from 'react';
-import { describe, expect, it, vi } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResourceClaim } from '../api/dra';
 import PodDetailSection from './PodDetailSection';
 
 vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
@@ -29,7 +31,24 @@ vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
   ),
 }));
 
-// PodDetailSection does NOT use the context — no need to mock IntelGpuDataContext
+// DRA claims are read with namespaced GETs; plain GPU pods make no requests
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ApiProxy: { request: vi.fn() },
+}));
+
+/** Serve objects by path under resource.k8s.io/v1; other paths are not found */
+function serveDraObjects(objects: Record<string, unknown>) {
+  vi.mocked(ApiProxy.request).mockImplementation(async (url: string) => {
+    const path = url.replace('/apis/resource.k8s.io/v1/', '');
+    if (path in objects) return objects[path];
+    throw Object.assign(new Error('not found'), { status: 404 });
+  });
+}
+
+beforeEach(() => {
+  vi.mocked(ApiProxy.request).mockReset();
+  serveDraObjects({});
+});
 
 // A non-GPU pod (no gpu.intel.com resources)
 const nonGpuPodRaw = {
@@ -135,4 +154,123 @@ describe('PodDetailSection', () => {
     // The value '1' is rendered in the sibling <dd>; verify via parent row
     expect(label.closest('div')).toHaveTextContent('1');
   });
+
+  it('shows GAS card and tile assignments per container', () => {
+    const gasPod = {
+      ...gpuPodRaw,
+      metadata: {
+        ...gpuPodRaw.metadata,
+        annotations: {
+          'gas-container-cards': 'card0,card1',
+          'gas-container-tiles': 'card0:gt0+gt1,card1:gt0',
+          'gas-ts': '1742551200000000000',
+        },
+      },
+    };
+    render(<PodDetailSection resource={gasPod} />);
+    expect(screen.getByText('trainer → Assigned cards')).toBeInTheDocument();
+    expect(screen.getByText('card0, card1')).toBeInTheDocument();
+    expect(screen.getByText('card0: gt0, gt1; card1: gt0')).toBeInTheDocument();
+    expect(screen.getByText('GAS Assigned')).toBeInTheDocument();
+  });
+
+  it('omits GAS rows for pods without GAS annotations', () => {
+    render(<PodDetailSection resource={gpuPodRaw} />);
+    expect(screen.queryByText('trainer → Assigned cards')).not.toBeInTheDocument();
+  });
+
+  it('shows DRA claim allocations for pods without extended resources', async () => {
+    const draPod = {
+      kind: 'Pod',
+      metadata: { name: 'dra-pod', namespace: 'ml', uid: 'uid-dra-pod' },
+      spec: {
+        nodeName: 'gpu-node-1',
+        containers: [{ name: 'main', resources: { claims: [{ name: 'gpu' }] } }],
+        resourceClaims: [{ name: 'gpu', resourceClaimTemplateName: 'single-gpu' }],
+      },
+      status: {
+        phase: 'Running',
+        resourceClaimStatuses: [{ name: 'gpu', resourceClaimName: 'dra-pod-gpu-x7k2' }],
+      },
+    };
+    const allocated: ResourceClaim = {
+      metadata: { name: 'dra-pod-gpu-x7k2', namespace: 'ml' },
+      spec: {
+        devices: { requests: [{ name: 'gpu', exactly: { deviceClassName: 'gpu.intel.com' } }] },
+      },
+      status: {
+        allocation: {
+          devices: {
+            results: [
+              { request: 'gpu', driver: 'gpu.intel.com', pool: 'gpu-node-1', device: 'card0' },
+            ],
+          },
+        },
+      },
+    };
+    serveDraObjects({ 'namespaces/ml/resourceclaims/dra-pod-gpu-x7k2': allocated });
+    render(<PodDetailSection resource={draPod} />);
+    expect(await screen.findByText('Claim dra-pod-gpu-x7k2')).toBeInTheDocument();
+    expect(screen.getByText('Intel GPU Resources')).toBeInTheDocument();
+    expect(screen.getByText('gpu-node-1/card0')).toBeInTheDocument();
+  });
+
+  it('shows pending DRA claims', async () => {
+    const draPod = {
+      kind: 'Pod',
+      metadata: { name: 'waiting', namespace: 'ml' },
+      spec: {
+        containers: [{ name: 'main' }],
+        resourceClaims: [{ name: 'gpu', resourceClaimName: 'shared-gpu' }],
+      },
+      status: { phase: 'Pending' },
+    };
+    const pending: ResourceClaim = {
+      metadata: { name: 'shared-gpu', namespace: 'ml' },
+      spec: { devices: { requests: [{ name: 'gpu', deviceClassName: 'gpu.intel.com' }] } },
+    };
+    serveDraObjects({ 'namespaces/ml/resourceclaims/shared-gpu': pending });
+    render(<PodDetailSection resource={draPod} />);
+    expect(await screen.findByText('Pending allocation')).toBeInTheDocument();
+  });
+
+  it('fetches only the claims the pod uses and checks their device classes', async () => {
+    const draPod = {
+      kind: 'Pod',
+      metadata: { name: 'waiting', namespace: 'ml' },
+      spec: {
+        containers: [{ name: 'main' }],
+        resourceClaims: [
+          { name: 'gpu', resourceClaimName: 'big-gpu' },
+          { name: 'nic', resourceClaimName: 'fast-nic' },
+        ],
+      },
+      status: { phase: 'Pending' },
+    };
+    const claim = (name: string, deviceClassName: string): ResourceClaim => ({
+      metadata: { name, namespace: 'ml' },
+      spec: { devices: { requests: [{ name: 'dev', deviceClassName }] } },
+    });
+    serveDraObjects({
+      'namespaces/ml/resourceclaims/big-gpu': claim('big-gpu', 'gpu-16g'),
+      'namespaces/ml/resourceclaims/fast-nic': claim('fast-nic', 'nic'),
+      'deviceclasses/gpu-16g': {
+        metadata: { name: 'gpu-16g' },
+        spec: { selectors: [{ cel: { expression: 'device.driver == "gpu.intel.com"' } }] },
+      },
+      'deviceclasses/nic': { metadata: { name: 'nic' }, spec: {} },
+    });
+
+    render(<PodDetailSection resource={draPod} />);
+
+    expect(await screen.findByText('Claim big-gpu')).toBeInTheDocument();
+    expect(screen.queryByText('Claim fast-nic')).not.toBeInTheDocument();
+    const urls = vi.mocked(ApiProxy.request).mock.calls.map(([url]) => url);
+    expect(urls.every(url => !url.endsWith('/resourceclaims'))).toBe(true);
+  });
+
+  it('makes no requests for pods without resource claims', () => {
+    render(<PodDetailSection resource={gpuPodRaw} />);
+    expect(ApiProxy.request).not.toHaveBeenCalled();
+  });
 });
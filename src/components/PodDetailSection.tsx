@@ -2,17 +2,46 @@
  * PodDetailSection — injected into Headlamp's native Pod detail page.
  *
  * Shows Intel GPU resource requests and limits per container, plus
- * a link to the node's GPU summary.
+ * a link to the node's GPU summary. Pods placed by GPU Aware Scheduling
+ * also show the cards and tiles assigned to each container, and pods using
+ * the Intel GPU DRA driver show their ResourceClaims and allocated devices.
  * Returns null for pods that don't request Intel GPU resources.
+ *
+ * Rendered outside the IntelGpuDataProvider: the pod's own claims are read
+ * with namespaced GETs instead of listing every claim in the cluster.
  */
 
+import { ApiProxy } from '@kinvolk/headlamp-plugin/lib';
 import {
   NameValueTable,
   SectionBox,
   StatusLabel,
 } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
-import React from 'react';
-import { formatGpuResourceName, INTEL_GPU_RESOURCE_PREFIX, isGpuRequestingPod } from '../api/k8s';
+import React, { useEffect, useState } from 'react';
+import {
+  DRA_API_GROUP,
+  DRA_API_VERSIONS,
+  getClaimDeviceClassNames,
+  getClaimIntelGpuResults,
+  getPodResourceClaimNames,
+  INTEL_GPU_DRA_DRIVER,
+  isDeviceClass,
+  isIntelGpuDeviceClass,
+  isIntelGpuResourceClaim,
+  isResourceClaim,
+  isResourceClaimAllocated,
+  ResourceClaim,
+} from '../api/dra';
+import {
+  formatGpuResourceName,
+  formatGpuResourceValue,
+  getPodGasAssignment,
+  INTEL_GPU_RESOURCE_PREFIX,
+  IntelGpuPod,
+  isGpuRequestingPod,
+} from '../api/k8s';
+import { quantitiesEqual } from '../api/quantity';
+import { DEFAULT_REQUEST_TIMEOUT_MS, withTimeout } from '../api/request';
 
 interface PodDetailSectionProps {
   resource: {
@@ -22,13 +51,94 @@ interface PodDetailSectionProps {
   };
 }
 
+// ---------------------------------------------------------------------------
+// DRA claims
+// ---------------------------------------------------------------------------
+
+/** GET a resource.k8s.io object from the first version that serves it; null if none does */
+async function getDraObject(path: string): Promise<unknown> {
+  for (const version of DRA_API_VERSIONS) {
+    try {
+      return await withTimeout(
+        ApiProxy.request(`/apis/${DRA_API_GROUP}/${version}/${path}`),
+        DEFAULT_REQUEST_TIMEOUT_MS
+      );
+    } catch {
+      // Version not served or object missing — try the next one
+    }
+  }
+  return null;
+}
+
+/**
+ * The pod's Intel GPU ResourceClaims. Allocated claims are recognised by
+ * driver; a pending claim's device classes are fetched to see whether they
+ * select Intel GPUs.
+ */
+async function fetchPodIntelGpuClaims(pod: IntelGpuPod): Promise<ResourceClaim[]> {
+  const namespace = pod.metadata.namespace ?? 'default';
+  const fetched = await Promise.all(
+    getPodResourceClaimNames(pod).map(name =>
+      getDraObject(`namespaces/${namespace}/resourceclaims/${name}`)
+    )
+  );
+  const claims = fetched.filter(isResourceClaim);
+
+  const classNames = new Set(
+    claims.flatMap(getClaimDeviceClassNames).filter(name => name !== INTEL_GPU_DRA_DRIVER)
+  );
+  const classes = await Promise.all(
+    [...classNames].map(name => getDraObject(`deviceclasses/${name}`))
+  );
+  const intelClassNames = [
+    INTEL_GPU_DRA_DRIVER,
+    ...classes
+      .filter(isDeviceClass)
+      .filter(isIntelGpuDeviceClass)
+      .map(c => c.metadata.name),
+  ];
+  return claims.filter(claim => isIntelGpuResourceClaim(claim, intelClassNames));
+}
+
+function usePodIntelGpuClaims(pod: IntelGpuPod | null): ResourceClaim[] {
+  const [claims, setClaims] = useState<ResourceClaim[]>([]);
+  const claimNames = pod ? getPodResourceClaimNames(pod).join(',') : '';
+
+  useEffect(() => {
+    setClaims([]);
+    if (!pod || !claimNames) return;
+    let cancelled = false;
+    fetchPodIntelGpuClaims(pod).then(
+      result => {
+        if (!cancelled) setClaims(result);
+      },
+      () => {}
+    );
+    return () => {
+      cancelled = true;
+    };
+    // Refetch when the pod's claims change, not on every re-render of the pod
+  }, [pod?.metadata.namespace, claimNames]);
+
+  return claims;
+}
+
+// ---------------------------------------------------------------------------
+// Section
+// ---------------------------------------------------------------------------
+
 export default function PodDetailSection({ resource }: PodDetailSectionProps) {
   // Extract raw Kubernetes JSON
   const rawPod =
     resource.jsonData && typeof resource.jsonData === 'object' ? resource.jsonData : resource;
 
-  // Only render for pods that request Intel GPU resources
-  if (!isGpuRequestingPod(rawPod)) return null;
+  // Intel GPU DRA claims used by this pod
+  const claims = usePodIntelGpuClaims(
+    (rawPod as IntelGpuPod).metadata ? (rawPod as IntelGpuPod) : null
+  );
+
+  // Only render for pods that request Intel GPU resources or claim DRA GPUs
+  if (!isGpuRequestingPod(rawPod) && claims.length === 0) return null;
 
   const pod = rawPod as {
     metadata: { name: string; namespace?: string };
@@ -51,9 +161,12 @@ export default function PodDetailSection({ resource }: PodDetailSectionProps) {
     return Object.keys(all).some(k => k.startsWith(INTEL_GPU_RESOURCE_PREFIX));
   });
 
-  if (gpuContainers.length === 0) return null;
+  if (gpuContainers.length === 0 && claims.length === 0) return null;
 
-  // Build rows: one per container per GPU resource
+  // GPU Aware Scheduling annotations, when the pod was placed by GAS
+  const gasAssignment = getPodGasAssignment(rawPod as IntelGpuPod);
+
+  // Build rows: one per container per GPU resource, then its GAS placement
   const rows: Array<{ name: string; value: React.ReactNode }> = [];
 
   for (const c of gpuContainers) {
@@ -71,17 +184,42 @@ export default function PodDetailSection({ resource }: PodDetailSectionProps) {
 
       rows.push({
         name: `${c.name} → ${resourceName} request`,
-        value: req ?? '—',
+        value: formatGpuResourceValue(key, req),
       });
-      if (lim && lim !== req) {
+      if (lim && !quantitiesEqual(lim, req)) {
         rows.push({
           name: `${c.name} → ${resourceName} limit`,
-          value: lim,
+          value: formatGpuResourceValue(key, lim),
+        });
+      }
+    }
+
+    const gas = gasAssignment?.containers.find(a => a.containerName === c.name);
+    if (gas) {
+      rows.push({ name: `${c.name} → Assigned cards`, value: gas.cards.join(', ') });
+      const tileEntries = Object.entries(gas.tiles);
+      if (tileEntries.length > 0) {
+        rows.push({
+          name: `${c.name} → Assigned tiles`,
+          value: tileEntries.map(([card, tiles]) => `${card}: ${tiles.join(', ')}`).join('; '),
         });
       }
     }
   }
 
+  // One row per DRA claim with its allocated devices
+  for (const claim of claims) {
+    const results = getClaimIntelGpuResults(claim);
+    rows.push({
+      name: `Claim ${claim.metadata.name}`,
+      value: isResourceClaimAllocated(claim) ? (
+        results.map(r => `${r.pool}/${r.device}`).join(', ') || '—'
+      ) : (
+        <StatusLabel status="warning">Pending allocation</StatusLabel>
+      ),
+    });
+  }
+
   const phase = pod.status?.phase;
   const phaseStatus: 'success' | 'warning' | 'error' =
     phase === 'Running' || phase === 'Succeeded'
@@ -107,6 +245,14 @@ export default function PodDetailSection({ resource }: PodDetailSectionProps) {
             value: String(gpuContainers.length),
           },
           ...rows,
+          ...(gasAssignment?.assignedAt
+            ? [
+                {
+                  name: 'GAS Assigned',
+                  value: new Date(gasAssignment.assignedAt).toLocaleString(),
+                },
+              ]
+            : []),
         ]}
       />
     </SectionBox>
@@ -8,7 +8,6 @@ import {
   Loader,
   NameValueTable,
   SectionBox,
-  SectionHeader,
   SimpleTable,
   StatusLabel,
 } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
@@ -17,11 +16,14 @@ import { useIntelGpuContext } from '../api/IntelGpuDataContext';
 import {
   formatAge,
   formatGpuResourceName,
+  formatGpuResourceValue,
   getPodGpuRequests,
   getPodRestarts,
   INTEL_GPU_RESOURCE_PREFIX,
   IntelGpuPod,
 } from '../api/k8s';
+import { quantitiesEqual } from '../api/quantity';
+import { PageToolbar } from './PageToolbar';
 
 // ---------------------------------------------------------------------------
 // Phase → status mapping
@@ -70,10 +72,12 @@ function GpuContainerList({ pod }: { pod: IntelGpuPod }) {
           const shortKey = formatGpuResourceName(key);
           const req = requests[key];
           const lim = limits[key];
-          if (req && lim && req === lim) {
-            parts.push(`${shortKey}: ${req}`);
+          const reqText = formatGpuResourceValue(key, req);
+          const limText = formatGpuResourceValue(key, lim);
+          if (req && lim && quantitiesEqual(req, lim)) {
+            parts.push(`${shortKey}: ${reqText}`);
           } else if (req || lim) {
-            parts.push(`${shortKey}: req=${req ?? '—'} lim=${lim ?? '—'}`);
+            parts.push(`${shortKey}: req=${reqText} lim=${limText}`);
           }
         }
 
@@ -92,7 +96,7 @@ function GpuContainerList({ pod }: { pod: IntelGpuPod }) {
 // ---------------------------------------------------------------------------
 
 export default function PodsPage() {
-  const { gpuPods, loading, error, refresh } = useIntelGpuContext();
+  const { gpuPods, loading, error, watchStatus, refresh, autoRefresh } = useIntelGpuContext();
 
   if (loading) {
     return <Loader title="Loading GPU pod data..." />;
@@ -105,32 +109,13 @@ export default function PodsPage() {
 
   return (
     <>
-      <div
-        style={{
-          display: 'flex',
-          justifyContent: 'space-between',
-          alignItems: 'center',
-          marginBottom: '20px',
-        }}
-      >
-        <SectionHeader title="Intel GPU — Pods" />
-        <button
-          onClick={refresh}
-          aria-label="Refresh pod data"
-          style={{
-            padding: '6px 16px',
-            backgroundColor: 'transparent',
-            color: 'var(--mui-palette-primary-main, #0071c5)',
-            border: '1px solid var(--mui-palette-primary-main, #0071c5)',
-            borderRadius: '4px',
-            cursor: 'pointer',
-            fontSize: '13px',
-            fontWeight: 500,
-          }}
-        >
-          Refresh
-        </button>
-      </div>
+      <PageToolbar
+        title="Intel GPU — Pods"
+        onRefresh={refresh}
+        onAutoRefresh={autoRefresh}
+        refreshLabel="Refresh pod data"
+        watchStatus={watchStatus}
+      />
 
       {error && (
         <SectionBox title="Error">
@@ -248,7 +233,9 @@ export default function PodsPage() {
                   const reqs = getPodGpuRequests(p);
                   return (
                     Object.entries(reqs)
-                      .map(([k, v]) => `${formatGpuResourceName(k)}: ${v}`)
+                      .map(
+                        ([k, v]) => `${formatGpuResourceName(k)}: ${formatGpuResourceValue(k, v)}`
+                      )
                       .join(', ') || '—'
                   );
                 },
@@ -0,0 +1,113 @@
+/**
+ * TimeSeriesChart — a small dependency-free SVG line chart.
+ *
+ * Used for Prometheus range query results on the Metrics page. Scales to the
+ * container width through its viewBox; the y axis starts at zero and an
+ * optional reference line (e.g. TDP) is drawn dashed.
+ */
+
+import React from 'react';
+import { TimeSeriesPoint } from '../api/metrics';
+
+const WIDTH = 600;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 56 };
+
+function formatAxisTime(time: number, spanSeconds: number): string {
+  const date = new Date(time * 1000);
+  return spanSeconds > 86_400
+    ? date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    : date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+export function TimeSeriesChart({
+  points,
+  start,
+  end,
+  formatValue,
+  label,
+  referenceValue,
+  height = 140,
+}: {
+  points: TimeSeriesPoint[];
+  /** Window bounds, Unix time in seconds; the x axis spans them even with gaps in data */
+  start: number;
+  end: number;
+  formatValue: (value: number) => string;
+  /** Accessible chart name, e.g. "Power on gpu-node-1" */
+  label: string;
+  referenceValue?: number | null;
+  height?: number;
+}) {
+  if (points.length === 0) {
+    return <span style={{ fontSize: '13px', color: '#666' }}>No data in this window</span>;
+  }
+
+  const span = Math.max(1, end - start);
+  const dataMax = Math.max(...points.map(p => p.value));
+  const yMax = Math.max(dataMax, referenceValue ?? 0) * 1.1 || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (time: number) => PADDING.left + ((time - start) / span) * plotWidth;
+  const y = (value: number) => PADDING.top + plotHeight - (value / yMax) * plotHeight;
+
+  const path = points
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.time).toFixed(1)},${y(p.value).toFixed(1)}`)
+    .join(' ');
+  const latest = points[points.length - 1];
+
+  return (
+    <svg
+      role="img"
+      aria-label={`${label}: latest ${formatValue(latest.value)}, peak ${formatValue(dataMax)}`}
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      style={{ width: '100%', maxWidth: `${WIDTH}px`, height: 'auto', display: 'block' }}
+    >
+      {/* Axes */}
+      <line
+        x1={PADDING.left}
+        y1={PADDING.top + plotHeight}
+        x2={WIDTH - PADDING.right}
+        y2={PADDING.top + plotHeight}
+        stroke="#bdbdbd"
+      />
+      <line
+        x1={PADDING.left}
+        y1={PADDING.top}
+        x2={PADDING.left}
+        y2={PADDING.top + plotHeight}
+        stroke="#bdbdbd"
+      />
+      <text x={PADDING.left - 6} y={PADDING.top + 10} fontSize="11" textAnchor="end" fill="#666">
+        {formatValue(yMax)}
+      </text>
+      <text
+        x={PADDING.left - 6}
+        y={PADDING.top + plotHeight}
+        fontSize="11"
+        textAnchor="end"
+        fill="#666"
+      >
+        {formatValue(0)}
+      </text>
+      <text x={PADDING.left} y={height - 4} fontSize="11" fill="#666">
+        {formatAxisTime(start, span)}
+      </text>
+      <text x={WIDTH - PADDING.right} y={height - 4} fontSize="11" textAnchor="end" fill="#666">
+        {formatAxisTime(end, span)}
+      </text>
+
+      {referenceValue !== undefined && referenceValue !== null && referenceValue > 0 && (
+        <line
+          x1={PADDING.left}
+          y1={y(referenceValue)}
+          x2={WIDTH - PADDING.right}
+          y2={y(referenceValue)}
+          stroke="#d32f2f"
+          strokeDasharray="4 4"
+        />
+      )}
+
+      <path d={path} fill="none" stroke="#0071c5" strokeWidth={1.5} />
+    </svg>
+  );
+}
@@ -0,0 +1,196 @@
+import { ApiProxy } from '@kinvolk/headlamp-plugin/lib';
+import { render, screen, waitFor } from '@testing-library/react';
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearGpuMetricsCache } from '../../api/GpuMetricsContext';
+import { fetchGpuMetrics, GpuDeviceMetrics } from '../../api/metrics';
+import { IntelGpuPluginSettings } from '../../api/settings';
+import { buildNodeGpuColumns, clearGpuPodsCache } from './NodeColumns';
+
+const settings = vi.hoisted(() => ({ current: {} as IntelGpuPluginSettings }));
+
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ApiProxy: { request: vi.fn() },
+  Utils: { getCluster: () => 'test' },
+  ConfigStore: class {
+    get() {
+      return settings.current;
+    }
+    useConfig() {
+      return () => settings.current;
+    }
+  },
+}));
+
+vi.mock('@kinvolk/headlamp-plugin/lib/CommonComponents', () => ({
+  StatusLabel: ({ status, children }: { status: string; children?: React.ReactNode }) => (
+    <span data-status={status}>{children}</span>
+  ),
+}));
+
+vi.mock('../../api/metrics', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../api/metrics')>()),
+  fetchGpuMetrics: vi.fn(),
+}));
+
+function gpuNode(name: string, devices: string, shared: Record<string, string> = {}) {
+  const resources = { 'gpu.intel.com/i915': devices, ...shared };
+  return {
+    jsonData: {
+      kind: 'Node',
+      metadata: { name, labels: { 'intel.feature.node.kubernetes.io/gpu': 'true' } },
+      status: { capacity: resources, allocatable: resources },
+    },
+  };
+}
+
+function device(
+  nodeName: string,
+  pci: string,
+  powerWatts: number | null,
+  temperatureCelsius: number | null
+): GpuDeviceMetrics {
+  return {
+    key: `${nodeName}/${pci}`,
+    nodeName,
+    pciAddress: pci,
+    sources: ['hwmon'],
+    sourceIds: {},
+    powerWatts,
+    temperatureCelsius,
+    temperatureMaxCelsius: 95,
+    temperatureCritCelsius: 105,
+  } as unknown as GpuDeviceMetrics;
+}
+
+function runningPod(nodeName: string, devices: string, shared: Record<string, string> = {}) {
+  return {
+    metadata: { name: `job-${nodeName}`, namespace: 'ml' },
+    spec: {
+      nodeName,
+      containers: [
+        {
+          name: 'main',
+          resources: { requests: { 'gpu.intel.com/i915': devices, ...shared } },
+        },
+      ],
+    },
+    status: { phase: 'Running' },
+  };
+}
+
+type Column = ReturnType<typeof buildNodeGpuColumns>[number];
+
+function column(label: string): Column & {
+  getValue: (item: unknown) => number | null;
+  render: (item: unknown) => React.ReactNode;
+  sort: (a: unknown, b: unknown) => number;
+} {
+  const found = buildNodeGpuColumns().find(c => c.label === label);
+  if (!found) throw new Error(`no ${label} column`);
+  return found as never;
+}
+
+const busy = gpuNode('busy', '2');
+const quiet = gpuNode('quiet', '1');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  clearGpuMetricsCache();
+  clearGpuPodsCache();
+  settings.current = {};
+  vi.mocked(fetchGpuMetrics).mockResolvedValue({
+    devices: [
+      device('busy', '0000:03:00.0', 120, 61),
+      device('busy', '0000:04:00.0', 80.5, 97),
+      device('quiet', '0000:03:00.0', null, null),
+    ],
+    sources: [],
+    fetchedAt: '2026-10-19T10:00:00Z',
+  });
+  vi.mocked(ApiProxy.request).mockResolvedValue({ items: [runningPod('busy', '1')] });
+});
+
+describe('buildNodeGpuColumns', () => {
+  it('adds only GPU Type and GPU Devices unless more are enabled', () => {
+    expect(buildNodeGpuColumns().map(c => c.label)).toEqual(['GPU Type', 'GPU Devices']);
+  });
+
+  it('shows summed power and the hottest temperature once metrics load', async () => {
+    settings.current = { nodeTableColumns: { power: true, temperature: true } };
+    const power = column('GPU Power');
+    const temperature = column('GPU Temp');
+
+    expect(power.getValue(busy)).toBeNull();
+    render(
+      <>
+        {power.render(busy)}
+        {temperature.render(busy)}
+      </>
+    );
+
+    expect(await screen.findByText('200.5 W')).toBeTruthy();
+    expect(screen.getByText('97 °C').getAttribute('data-status')).toBe('warning');
+    expect(fetchGpuMetrics).toHaveBeenCalledTimes(1);
+    expect(power.getValue(busy)).toBe(200.5);
+    expect(temperature.getValue(quiet)).toBeNull();
+    // Nodes without readings sort last
+    expect([quiet, busy].sort(power.sort)).toEqual([busy, quiet]);
+  });
+
+  it('shows GPU devices requested by running pods out of allocatable', async () => {
+    settings.current = { nodeTableColumns: { allocated: true } };
+    const allocated = column('GPU Allocated');
+
+    render(<div data-testid="cell">{allocated.render(busy)}</div>);
+
+    await waitFor(() => expect(screen.getByTestId('cell').textContent).toBe('1 / 2'));
+    expect(ApiProxy.request).toHaveBeenCalledWith(
+      '/api/v1/pods?fieldSelector=status.phase!%3DSucceeded%2Cstatus.phase!%3DFailed'
+    );
+    expect(allocated.getValue(busy)).toBe(0.5);
+    expect(allocated.getValue(quiet)).toBe(0);
+  });
+
+  it('shows millicores and memory on nodes shared between pods', async () => {
+    settings.current = { nodeTableColumns: { allocated: true } };
+    const shared = { 'gpu.intel.com/millicores': '1000', 'gpu.intel.com/memory.max': '16Gi' };
+    vi.mocked(ApiProxy.request).mockResolvedValue({
+      items: [
+        runningPod('shared', '1', {
+          'gpu.intel.com/millicores': '250',
+          'gpu.intel.com/memory.max': '4Gi',
+        }),
+      ],
+    });
+
+    render(
+      <div data-testid="cell">{column('GPU Allocated').render(gpuNode('shared', '8', shared))}</div>
+    );
+
+    await waitFor(() =>
+      expect(screen.getByTestId('cell').textContent).toBe(
+        '1 / 8, millicores: 250 / 1000, memory: 4 GiB / 16 GiB'
+      )
+    );
+  });
+
+  it('lists pods once per TTL for every cell and shows — with the reason when it fails', async () => {
+    settings.current = { nodeTableColumns: { allocated: true } };
+    vi.mocked(ApiProxy.request).mockRejectedValue(new Error('Forbidden'));
+    const allocated = column('GPU Allocated');
+
+    render(
+      <>
+        <div data-testid="busy">{allocated.render(busy)}</div>
+        <div data-testid="quiet">{allocated.render(quiet)}</div>
+      </>
+    );
+
+    await waitFor(() =>
+      expect(screen.getByTestId('busy').firstElementChild?.getAttribute('title')).toBe('Forbidden')
+    );
+    expect(screen.getByTestId('busy').textContent).toBe('—');
+    expect(ApiProxy.request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,17 +1,304 @@
 /**
  * NodeColumns — adds Intel GPU columns to the native Headlamp Nodes table.
  *
- * Injects two columns:
+ * Always injects two columns:
  *   - "GPU Type" — Discrete / Integrated / — for non-GPU nodes
  *   - "GPU Devices" — count of i915/xe devices available on the node
  *
+ * and, when enabled under "Nodes table columns" in the plugin settings:
+ *   - "GPU Power" — summed power draw of the node's GPUs
+ *   - "GPU Temp" — hottest GPU temperature on the node
+ *   - "GPU Allocated" — GPU devices, millicores and memory requested by pods
+ *     / allocatable
+ *
  * The processor is registered via registerResourceTableColumnsProcessor
- * in index.tsx, targeting the 'headlamp-nodes' table ID.
+ * in index.tsx, targeting the 'headlamp-nodes' table ID. The table renders
+ * outside any provider, so the optional columns read the shared metrics
+ * cache (loadGpuMetrics) and a cached list of live pods directly; cells
+ * re-render once a fetch resolves, show — when it fails, and sorting uses
+ * whatever is cached.
  */
 
+import { ApiProxy, Utils } from '@kinvolk/headlamp-plugin/lib';
 import { StatusLabel } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
-import React from 'react';
-import { formatGpuType, getNodeGpuCount, getNodeGpuType, isIntelGpuNode } from '../../api/k8s';
+import React, { useEffect, useState } from 'react';
+import { loadGpuMetrics, peekGpuMetrics } from '../../api/GpuMetricsContext';
+import {
+  computeNodeGpuAllocation,
+  filterGpuRequestingPods,
+  formatGpuAllocationValue,
+  formatGpuType,
+  getNodeGpuCount,
+  getNodeGpuType,
+  GPU_ALLOCATION_CATEGORIES,
+  GpuAllocationCategory,
+  GpuResourceAllocation,
+  IntelGpuNode,
+  IntelGpuPod,
+  isIntelGpuNode,
+  isKubeList,
+  summarizeGpuAllocation,
+} from '../../api/k8s';
+import {
+  formatCelsius,
+  formatWatts,
+  getTemperatureStatus,
+  GpuDeviceMetrics,
+  selectNodeGpuMetrics,
+  TEMPERATURE_LABEL_STATUS,
+} from '../../api/metrics';
+import { withTimeout } from '../../api/request';
+import { getPluginSettings } from '../../api/settings';
+
+/** The node behind a table row; rows are Headlamp KubeObjects wrapping jsonData */
+function getRowNode(resource: unknown): IntelGpuNode | null {
+  const raw =
+    resource && typeof resource === 'object' && 'jsonData' in resource
+      ? (resource as { jsonData: unknown }).jsonData
+      : resource;
+  return isIntelGpuNode(raw) ? raw : null;
+}
+
+/** Ascending, with rows that have no value last */
+function compareNullable(a: number | null, b: number | null): number {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  return a - b;
+}
+
+// ---------------------------------------------------------------------------
+// Cached data
+// ---------------------------------------------------------------------------
+
+/** How long the pod list is reused before a cell lists pods again */
+export const GPU_PODS_CACHE_TTL_MS = 30_000;
+
+/** Listing pods in every namespace can take a while on a large cluster */
+const POD_LIST_TIMEOUT_MS = 10_000;
+
+/** Pods that still hold their requests; finished ones are left out by the API server */
+const LIVE_PODS_URL = `/api/v1/pods?fieldSelector=${encodeURIComponent(
+  'status.phase!=Succeeded,status.phase!=Failed'
+)}`;
+
+// Live GPU pods per cluster, apart from the metrics cache
+const gpuPodsCache = new Map<string, { pods: IntelGpuPod[]; fetchedAt: number }>();
+const pendingGpuPods = new Map<string, Promise<IntelGpuPod[]>>();
+
+/** Pods requesting Intel GPUs cluster-wide, listed once per TTL for every cell */
+function loadGpuPods(): Promise<IntelGpuPod[]> {
+  const cluster = Utils.getCluster() ?? '';
+  const cached = gpuPodsCache.get(cluster);
+  if (cached && Date.now() - cached.fetchedAt < GPU_PODS_CACHE_TTL_MS) {
+    return Promise.resolve(cached.pods);
+  }
+  const pending = pendingGpuPods.get(cluster);
+  if (pending) return pending;
+
+  const promise = withTimeout(ApiProxy.request(LIVE_PODS_URL), POD_LIST_TIMEOUT_MS)
+    .then(list => {
+      const pods = filterGpuRequestingPods(isKubeList(list) ? list.items : []);
+      gpuPodsCache.set(cluster, { pods, fetchedAt: Date.now() });
+      return pods;
+    })
+    .finally(() => pendingGpuPods.delete(cluster));
+  pendingGpuPods.set(cluster, promise);
+  return promise;
+}
+
+function peekGpuPods(): IntelGpuPod[] | undefined {
+  return gpuPodsCache.get(Utils.getCluster() ?? '')?.pods;
+}
+
+/** Drop the cached pod lists, e.g. between tests */
+export function clearGpuPodsCache() {
+  gpuPodsCache.clear();
+  pendingGpuPods.clear();
+}
+
+interface CachedData<T> {
+  data: T | undefined;
+  /** Why the last load failed; null once it succeeds */
+  error: string | null;
+}
+
+/**
+ * Cached data for a cell: whatever is cached on the first render, then the
+ * result of `load`. A failure keeps the cached value and reports the error.
+ */
+function useCachedData<T>(peek: () => T | undefined, load: () => Promise<T>): CachedData<T> {
+  const [state, setState] = useState<CachedData<T>>(() => ({ data: peek(), error: null }));
+  useEffect(() => {
+    let cancelled = false;
+    load().then(
+      data => {
+        if (!cancelled) setState({ data, error: null });
+      },
+      (e: unknown) => {
+        const error = e instanceof Error ? e.message : String(e);
+        if (!cancelled) setState(s => ({ ...s, error }));
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [load]);
+  return state;
+}
+
+/** — for a cell without data, with the reason on hover when loading failed */
+function NoData({ error }: { error: string | null }) {
+  return <span title={error ?? undefined}>—</span>;
+}
+
+// ---------------------------------------------------------------------------
+// Per-node values
+// ---------------------------------------------------------------------------
+
+function getNodeDevices(nodeName: string): GpuDeviceMetrics[] {
+  const metrics = peekGpuMetrics();
+  return metrics ? selectNodeGpuMetrics(metrics, nodeName).devices : [];
+}
+
+/** Summed power of the node's GPUs in watts; null when none reports power */
+function getNodePowerWatts(devices: GpuDeviceMetrics[]): number | null {
+  const readings = devices.flatMap(d => (d.powerWatts === null ? [] : [d.powerWatts]));
+  return readings.length > 0 ? readings.reduce((sum, w) => sum + w, 0) : null;
+}
+
+/** The node's hottest GPU; null when none reports a temperature */
+function getHottestDevice(devices: GpuDeviceMetrics[]): GpuDeviceMetrics | null {
+  let hottest: GpuDeviceMetrics | null = null;
+  for (const device of devices) {
+    if (device.temperatureCelsius === null) continue;
+    if (!hottest || device.temperatureCelsius > hottest.temperatureCelsius!) hottest = device;
+  }
+  return hottest;
+}
+
+/** GPU devices, millicores and memory used and allocatable on the node */
+function getNodeAllocation(
+  node: IntelGpuNode,
+  pods: IntelGpuPod[]
+): Partial<Record<GpuAllocationCategory, GpuResourceAllocation>> {
+  return summarizeGpuAllocation(computeNodeGpuAllocation(node, pods));
+}
+
+/** Share of the node's GPU devices in use, else of its millicores or memory */
+function getAllocatedFraction(node: IntelGpuNode, pods: IntelGpuPod[]): number | null {
+  const summary = getNodeAllocation(node, pods);
+  const entry = GPU_ALLOCATION_CATEGORIES.map(category => summary[category]).find(
+    e => e && e.allocatable > 0
+  );
+  return entry ? entry.used / entry.allocatable : null;
+}
+
+/** "1 / 2" for devices, "millicores: 500 / 1000" and "memory: …" for shared GPUs */
+function formatNodeAllocation(
+  summary: Partial<Record<GpuAllocationCategory, GpuResourceAllocation>>
+): string | null {
+  const parts = GPU_ALLOCATION_CATEGORIES.flatMap(category => {
+    const entry = summary[category];
+    if (!entry) return [];
+    const format = (value: number) => formatGpuAllocationValue(category, value);
+    const amounts = `${format(entry.used)} / ${format(entry.allocatable)}`;
+    return [category === 'devices' ? amounts : `${category}: ${amounts}`];
+  });
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+// ---------------------------------------------------------------------------
+// Cells
+// ---------------------------------------------------------------------------
+
+function NodePowerCell({ nodeName }: { nodeName: string }) {
+  const { data: metrics, error } = useCachedData(peekGpuMetrics, loadGpuMetrics);
+  const watts = metrics ? getNodePowerWatts(selectNodeGpuMetrics(metrics, nodeName).devices) : null;
+  return watts === null ? <NoData error={error} /> : <>{formatWatts(watts)}</>;
+}
+
+function NodeTemperatureCell({ nodeName }: { nodeName: string }) {
+  const { data: metrics, error } = useCachedData(peekGpuMetrics, loadGpuMetrics);
+  const hottest = metrics
+    ? getHottestDevice(selectNodeGpuMetrics(metrics, nodeName).devices)
+    : null;
+  if (!hottest) return <NoData error={error} />;
+  return (
+    <StatusLabel status={TEMPERATURE_LABEL_STATUS[getTemperatureStatus(hottest)]}>
+      {formatCelsius(hottest.temperatureCelsius!)}
+    </StatusLabel>
+  );
+}
+
+function NodeAllocatedCell({ node }: { node: IntelGpuNode }) {
+  const { data: pods, error } = useCachedData(peekGpuPods, loadGpuPods);
+  const text = pods ? formatNodeAllocation(getNodeAllocation(node, pods)) : null;
+  return text === null ? <NoData error={error} /> : <>{text}</>;
+}
+
+// ---------------------------------------------------------------------------
+// Columns
+// ---------------------------------------------------------------------------
+
+/** Optional columns from the metrics cache and pod allocation, per the saved settings */
+function buildOptionalNodeGpuColumns() {
+  const enabled = getPluginSettings().nodeTableColumns ?? {};
+  const columns = [];
+
+  if (enabled.power) {
+    const getValue = (resource: unknown) => {
+      const node = getRowNode(resource);
+      return node ? getNodePowerWatts(getNodeDevices(node.metadata.name)) : null;
+    };
+    columns.push({
+      id: 'intel-gpu-power',
+      label: 'GPU Power',
+      getValue,
+      render: (resource: unknown) => {
+        const node = getRowNode(resource);
+        return node ? <NodePowerCell nodeName={node.metadata.name} /> : '—';
+      },
+      sort: (a: unknown, b: unknown) => compareNullable(getValue(a), getValue(b)),
+    });
+  }
+
+  if (enabled.temperature) {
+    const getValue = (resource: unknown) => {
+      const node = getRowNode(resource);
+      const hottest = node ? getHottestDevice(getNodeDevices(node.metadata.name)) : null;
+      return hottest?.temperatureCelsius ?? null;
+    };
+    columns.push({
+      id: 'intel-gpu-temperature',
+      label: 'GPU Temp',
+      getValue,
+      render: (resource: unknown) => {
+        const node = getRowNode(resource);
+        return node ? <NodeTemperatureCell nodeName={node.metadata.name} /> : '—';
+      },
+      sort: (a: unknown, b: unknown) => compareNullable(getValue(a), getValue(b)),
+    });
+  }
+
+  if (enabled.allocated) {
+    const getValue = (resource: unknown) => {
+      const node = getRowNode(resource);
+      const pods = peekGpuPods();
+      return node && pods ? getAllocatedFraction(node, pods) : null;
+    };
+    columns.push({
+      id: 'intel-gpu-allocated',
+      label: 'GPU Allocated',
+      getValue,
+      render: (resource: unknown) => {
+        const node = getRowNode(resource);
+        return node ? <NodeAllocatedCell node={node} /> : '—';
+      },
+      sort: (a: unknown, b: unknown) => compareNullable(getValue(a), getValue(b)),
+    });
+  }
+
+  return columns;
+}
 
 /** Build GPU columns to append to the native Nodes table. */
 export function buildNodeGpuColumns() {
@@ -19,31 +306,21 @@ export function buildNodeGpuColumns() {
     {
       label: 'GPU Type',
       getter: (resource: unknown) => {
-        // resource is a Headlamp KubeObject — extract jsonData
-        const raw =
-          resource && typeof resource === 'object' && 'jsonData' in resource
-            ? (resource as { jsonData: unknown }).jsonData
-            : resource;
-
-        if (!isIntelGpuNode(raw)) return '—';
-        const node = raw as Parameters<typeof getNodeGpuType>[0];
-        const type = getNodeGpuType(node);
+        const node = getRowNode(resource);
+        if (!node) return '—';
+        const type = getNodeGpuType(node, getPluginSettings().gpuTypeMappings);
         return <StatusLabel status="success">{formatGpuType(type)}</StatusLabel>;
       },
     },
     {
       label: 'GPU Devices',
       getter: (resource: unknown) => {
-        const raw =
-          resource && typeof resource === 'object' && 'jsonData' in resource
-            ? (resource as { jsonData: unknown }).jsonData
-            : resource;
-
-        if (!isIntelGpuNode(raw)) return '—';
-        const node = raw as Parameters<typeof getNodeGpuCount>[0];
+        const node = getRowNode(resource);
+        if (!node) return '—';
         const count = getNodeGpuCount(node);
         return count > 0 ? String(count) : '—';
       },
     },
+    ...buildOptionalNodeGpuColumns(),
   ];
 }
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IntelGpuPluginSettings } from '../../api/settings';
+import { buildPodGpuColumns } from './PodColumns';
+
+const settings = vi.hoisted(() => ({ current: {} as IntelGpuPluginSettings }));
+
+vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
+  ConfigStore: class {
+    get() {
+      return settings.current;
+    }
+    useConfig() {
+      return () => settings.current;
+    }
+  },
+}));
+
+function pod(name: string, requests: Record<string, string>, annotations = {}) {
+  return {
+    jsonData: {
+      kind: 'Pod',
+      metadata: { name, namespace: 'ml', annotations },
+      spec: { containers: [{ name: 'main', resources: { requests } }] },
+    },
+  };
+}
+
+type Column = ReturnType<typeof buildPodGpuColumns>[number];
+
+function column(label: string): Column {
+  const found = buildPodGpuColumns().find(c => c.label === label);
+  if (!found) throw new Error(`no ${label} column`);
+  return found;
+}
+
+const shared = pod('shared', { 'gpu.intel.com/i915': '1', 'gpu.intel.com/millicores': '500' });
+const whole = pod('whole', { 'gpu.intel.com/i915': '2' }, { 'gas-container-cards': 'card0,card1' });
+const web = pod('web', { cpu: '1' });
+
+beforeEach(() => {
+  settings.current = {};
+});
+
+describe('buildPodGpuColumns', () => {
+  it('summarizes GPU requests and leaves other pods blank', () => {
+    expect(buildPodGpuColumns().map(c => c.label)).toEqual(['Intel GPU']);
+    const gpu = column('Intel GPU');
+
+    expect(gpu.getValue(shared)).toBe('i915: 1, millicores: 500');
+    expect(gpu.getValue(web)).toBeNull();
+    expect(gpu.render(web)).toBe('—');
+    expect([web, whole, shared].sort(gpu.sort).map(p => p.jsonData.metadata.name)).toEqual([
+      'shared',
+      'whole',
+      'web',
+    ]);
+  });
+
+  it('adds the GAS card column when enabled', () => {
+    settings.current = { podTableColumns: { gpuCard: true } };
+    const card = column('GPU Card');
+
+    expect(card.getValue(whole)).toBe('card0, card1');
+    expect(card.render(shared)).toBe('—');
+  });
+});
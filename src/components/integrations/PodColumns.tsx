@@ -0,0 +1,73 @@
+/**
+ * PodColumns — adds Intel GPU columns to the native Headlamp Pods table.
+ *
+ * Always injects:
+ *   - "Intel GPU" — the pod's GPU requests (e.g. "i915: 1, millicores: 500")
+ *
+ * and, when enabled under "Pods table columns" in the plugin settings:
+ *   - "GPU Card" — cards GPU Aware Scheduling assigned, from its annotations
+ *
+ * The processor is registered via registerResourceTableColumnsProcessor
+ * in index.tsx, targeting the 'headlamp-pods' table ID. Pods without Intel
+ * GPU requests show — and sort last.
+ */
+
+import {
+  formatPodGpuRequests,
+  getPodGasCards,
+  IntelGpuPod,
+  isGpuRequestingPod,
+} from '../../api/k8s';
+import { getPluginSettings } from '../../api/settings';
+
+/** The GPU pod behind a table row; rows are Headlamp KubeObjects wrapping jsonData */
+function getRowGpuPod(resource: unknown): IntelGpuPod | null {
+  const raw =
+    resource && typeof resource === 'object' && 'jsonData' in resource
+      ? (resource as { jsonData: unknown }).jsonData
+      : resource;
+  return isGpuRequestingPod(raw) ? raw : null;
+}
+
+/** Ascending with numbers in order ("i915: 2" before "i915: 10"), rows without a value last */
+function compareNullableText(a: string | null, b: string | null): number {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function getRequestSummary(resource: unknown): string | null {
+  const pod = getRowGpuPod(resource);
+  return (pod && formatPodGpuRequests(pod)) || null;
+}
+
+function getGasCards(resource: unknown): string | null {
+  const pod = getRowGpuPod(resource);
+  return (pod && getPodGasCards(pod).join(', ')) || null;
+}
+
+/** Build GPU columns to append to the native Pods table. */
+export function buildPodGpuColumns() {
+  const enabled = getPluginSettings().podTableColumns ?? {};
+  const columns = [
+    {
+      id: 'intel-gpu-requests',
+      label: 'Intel GPU',
+      getValue: getRequestSummary,
+      render: (resource: unknown) => getRequestSummary(resource) ?? '—',
+      sort: (a: unknown, b: unknown) =>
+        compareNullableText(getRequestSummary(a), getRequestSummary(b)),
+    },
+  ];
+
+  if (enabled.gpuCard) {
+    columns.push({
+      id: 'intel-gpu-card',
+      label: 'GPU Card',
+      getValue: getGasCards,
+      render: (resource: unknown) => getGasCards(resource) ?? '—',
+      sort: (a: unknown, b: unknown) => compareNullableText(getGasCards(a), getGasCards(b)),
+    });
+  }
+
+  return columns;
+}
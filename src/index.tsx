@@ -5,26 +5,35 @@
  * processors for Intel GPU device plugin visibility in Headlamp.
  *
  * Surfaces Intel GPU information in the following places:
- *   - Dedicated sidebar section: Overview / Device Plugins / Nodes / Pods / Metrics
- *   - Native Node detail page: Intel GPU section (capacity, utilization, pods)
- *   - Native Pod detail page: GPU resource requests per container
+ *   - Dedicated sidebar section: Overview / Device Plugins / Nodes / Pods / DRA / Metrics
+ *   - Native Node detail page: Intel GPU section (capacity, utilization, pods, DRA devices)
+ *   - Native Pod detail page: GPU resource requests per container and DRA claims
  *   - Native Nodes table: GPU Type and GPU Devices columns
+ *   - Plugin settings: GPU type mapping table
  */
 
 import {
   registerDetailsViewSection,
+  registerPluginSettings,
   registerResourceTableColumnsProcessor,
   registerRoute,
   registerSidebarEntry,
 } from '@kinvolk/headlamp-plugin/lib';
 import React from 'react';
+import { GpuMetricsProvider } from './api/GpuMetricsContext';
 import { IntelGpuDataProvider } from './api/IntelGpuDataContext';
+import { PLUGIN_NAME } from './api/settings';
 import DevicePluginsPage from './components/DevicePluginsPage';
+import DraPage from './components/DraPage';
 import { buildNodeGpuColumns } from './components/integrations/NodeColumns';
+import { buildPodGpuColumns } from './components/integrations/PodColumns';
 import MetricsPage from './components/MetricsPage';
+import NamespaceDetailSection from './components/NamespaceDetailSection';
+import NamespacesPage from './components/NamespacesPage';
 import NodeDetailSection from './components/NodeDetailSection';
 import NodesPage from './components/NodesPage';
 import OverviewPage from './components/OverviewPage';
+import PluginSettings from './components/PluginSettings';
 import PodDetailSection from './components/PodDetailSection';
 import PodsPage from './components/PodsPage';
 
@@ -72,6 +81,22 @@ registerSidebarEntry({
   icon: 'mdi:cube-outline',
 });
 
+registerSidebarEntry({
+  parent: 'intel-gpu',
+  name: 'intel-gpu-namespaces',
+  label: 'Namespaces',
+  url: '/intel-gpu/namespaces',
+  icon: 'mdi:folder-multiple-outline',
+});
+
+registerSidebarEntry({
+  parent: 'intel-gpu',
+  name: 'intel-gpu-dra',
+  label: 'DRA',
+  url: '/intel-gpu/dra',
+  icon: 'mdi:puzzle-outline',
+});
+
 registerSidebarEntry({
   parent: 'intel-gpu',
   name: 'intel-gpu-metrics',
@@ -132,6 +157,30 @@ registerRoute({
   ),
 });
 
+registerRoute({
+  path: '/intel-gpu/namespaces',
+  sidebar: 'intel-gpu-namespaces',
+  name: 'intel-gpu-namespaces',
+  exact: true,
+  component: () => (
+    <IntelGpuDataProvider>
+      <NamespacesPage />
+    </IntelGpuDataProvider>
+  ),
+});
+
+registerRoute({
+  path: '/intel-gpu/dra',
+  sidebar: 'intel-gpu-dra',
+  name: 'intel-gpu-dra',
+  exact: true,
+  component: () => (
+    <IntelGpuDataProvider>
+      <DraPage />
+    </IntelGpuDataProvider>
+  ),
+});
+
 registerRoute({
   path: '/intel-gpu/metrics',
   sidebar: 'intel-gpu-metrics',
@@ -139,7 +188,9 @@ registerRoute({
   exact: true,
   component: () => (
     <IntelGpuDataProvider>
-      <MetricsPage />
+      <GpuMetricsProvider>
+        <MetricsPage />
+      </GpuMetricsProvider>
     </IntelGpuDataProvider>
   ),
 });
@@ -154,7 +205,9 @@ registerDetailsViewSection(({ resource }) => {
 
   return (
     <IntelGpuDataProvider>
-      <NodeDetailSection resource={resource} />
+      <GpuMetricsProvider>
+        <NodeDetailSection resource={resource} />
+      </GpuMetricsProvider>
     </IntelGpuDataProvider>
   );
 });
@@ -162,21 +215,45 @@ registerDetailsViewSection(({ resource }) => {
 // ---------------------------------------------------------------------------
 // Detail view section — Pod pages
 // Inject Intel GPU resource section into native Pod detail page for GPU pods.
+// The section fetches the pod's own DRA claims, so it needs no provider.
 // ---------------------------------------------------------------------------
 
 registerDetailsViewSection(({ resource }) => {
   if (resource?.kind !== 'Pod') return null;
+
   return <PodDetailSection resource={resource} />;
 });
 
 // ---------------------------------------------------------------------------
-// Table column processors — native Nodes table
-// Appends GPU Type and GPU Devices columns.
+// Detail view section — Namespace pages
+// Inject GPU quota and request section into native Namespace detail page.
+// The section lists the namespace's own quotas and pods, so it needs no provider.
+// ---------------------------------------------------------------------------
+
+registerDetailsViewSection(({ resource }) => {
+  if (resource?.kind !== 'Namespace') return null;
+
+  return <NamespaceDetailSection resource={resource} />;
+});
+
+// ---------------------------------------------------------------------------
+// Table column processors — native Nodes and Pods tables
+// Appends GPU Type and GPU Devices columns to Nodes and an Intel GPU column
+// to Pods, plus the optional columns enabled in the plugin settings.
 // ---------------------------------------------------------------------------
 
 registerResourceTableColumnsProcessor(({ id, columns }) => {
   if (id === 'headlamp-nodes') {
     return [...columns, ...buildNodeGpuColumns()];
   }
+  if (id === 'headlamp-pods') {
+    return [...columns, ...buildPodGpuColumns()];
+  }
   return columns;
 });
+
+// ---------------------------------------------------------------------------
+// Plugin settings
+// ---------------------------------------------------------------------------
+
+registerPluginSettings(PLUGIN_NAME, PluginSettings, true);